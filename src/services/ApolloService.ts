@@ -0,0 +1,377 @@
+import { CacheService } from './core/CacheService';
+import { Logger } from './core/Logger';
+import { CacheType } from '../types/cache-types';
+import { SnovContact, SnovDomainSearchResult } from './SnovService';
+
+/**
+ * Apollo.io People Search Service
+ *
+ * Provides people search by company domain with seniority/department filters.
+ * Results are normalized into the same contact shape SnovService emits so both
+ * vendors can feed decision_makers interchangeably.
+ */
+
+export type ApolloSeniority =
+  | 'owner' | 'founder' | 'c_suite' | 'partner' | 'vp' | 'head'
+  | 'director' | 'manager' | 'senior' | 'entry' | 'intern';
+
+export interface ApolloSearchOptions {
+  maxContacts?: number;
+  departments?: string[];
+  seniority?: string[];
+  useCache?: boolean;
+  priority?: 'high' | 'medium' | 'low';
+}
+
+export class ApolloService {
+  private cacheService: CacheService;
+  private logger: Logger;
+  private apiKey: string;
+  private baseUrl: string;
+
+  private dailyCallLimit: number;
+
+  constructor(cacheService: CacheService, logger: Logger) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+    this.apiKey = process.env.APOLLO_API_KEY || '';
+    this.baseUrl = process.env.APOLLO_BASE_URL || 'https://api.apollo.io/api/v1';
+    this.dailyCallLimit = parseInt(process.env.APOLLO_DAILY_LIMIT || '100');
+
+    if (!this.apiKey) {
+      this.logger.warn('APOLLO_API_KEY not configured');
+    }
+  }
+
+  /**
+   * Search people at a company with cost optimization
+   */
+  async getCompanyContacts(
+    companyName: string,
+    domain?: string,
+    options: ApolloSearchOptions = {}
+  ): Promise<SnovDomainSearchResult> {
+    const cacheKey = `apollo_contacts_raw:${companyName}:${domain || 'auto'}`;
+    const cacheHours = this.getCacheTTL(options.priority || 'medium');
+
+    // Check cache first
+    if (options.useCache !== false) {
+      const cached = await this.cacheService.getRawJSON(cacheKey);
+      if (cached && !this.isExpired(cached, cacheHours)) {
+        this.logger.debug('Apollo contacts cache hit (cost saved)', {
+          companyName,
+          domain,
+          cacheSavings: this.estimateCallCost(cached.data?.contacts?.length || 0)
+        });
+        return cached.data;
+      }
+    }
+
+    if (!this.apiKey) {
+      this.logger.warn('Apollo API key not configured, returning empty results', { companyName });
+      return this.getEmptyResult(companyName, domain);
+    }
+
+    // Check daily usage limits
+    const canMakeCall = await this.checkUsageLimits();
+    if (!canMakeCall && options.priority !== 'high') {
+      this.logger.warn('Apollo daily limit reached, using cache only', { companyName });
+      return this.getEmptyResult(companyName, domain);
+    }
+
+    try {
+      await this.trackAPIUsage(companyName, 'people_search');
+
+      const { contacts, organizationDomain, total } = await this.executePeopleSearch(companyName, domain, options);
+
+      const result: SnovDomainSearchResult = {
+        contacts: this.filterContacts(contacts, options),
+        total,
+        domain: domain || organizationDomain || '',
+        companyName
+      };
+
+      await this.cacheService.setRawJSON(cacheKey, {
+        data: result,
+        timestamp: new Date().toISOString(),
+        source: 'apollo_api',
+        cost: this.estimateCallCost(result.contacts.length)
+      }, CacheType.APOLLO_CONTACTS_RAW);
+
+      this.logger.info('Apollo contacts collected', {
+        companyName,
+        domain: result.domain,
+        contactCount: result.contacts.length,
+        estimatedCost: this.estimateCallCost(result.contacts.length),
+        cacheFor: `${cacheHours}h`
+      });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('Apollo contact collection failed', {
+        companyName,
+        domain,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return this.getEmptyResult(companyName, domain);
+    }
+  }
+
+  /**
+   * Execute people search - by domain when known, otherwise by company name keywords
+   */
+  private async executePeopleSearch(
+    companyName: string,
+    domain: string | undefined,
+    options: ApolloSearchOptions
+  ): Promise<{ contacts: SnovContact[]; organizationDomain?: string; total: number }> {
+    const body: Record<string, any> = {
+      page: 1,
+      per_page: Math.min(options.maxContacts || 25, 100)
+    };
+
+    if (domain) {
+      body.q_organization_domains_list = [domain];
+    } else {
+      body.q_keywords = companyName;
+    }
+
+    const seniorities = this.mapSeniorities(options.seniority);
+    if (seniorities.length > 0) {
+      body.person_seniorities = seniorities;
+    }
+
+    const response = await fetch(`${this.baseUrl}/mixed_people/search`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache',
+        'X-Api-Key': this.apiKey
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Apollo API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
+    const people: any[] = data?.people || [];
+
+    // Transform Apollo people to the shared contact format. People whose email Apollo hasn't unlocked are
+    // kept without one: the contact aggregator matches them by name and title and takes the email from Snov.
+    const contacts: SnovContact[] = people
+      .filter(person => person && (person.email || person.first_name || person.last_name))
+      .map(person => {
+        const email = this.isUnlockedEmail(person.email) ? person.email : undefined;
+        return {
+          email,
+          firstName: person.first_name || '',
+          lastName: person.last_name || '',
+          position: person.title || '',
+          department: this.formatDepartment(person.departments),
+          linkedin: person.linkedin_url || undefined,
+          verified: !!email && person.email_status === 'verified',
+          confidence: this.calculateConfidence(person, !!email)
+        };
+      });
+
+    return {
+      contacts,
+      organizationDomain: people.find(person => person?.organization?.primary_domain)?.organization.primary_domain,
+      total: data?.pagination?.total_entries ?? contacts.length
+    };
+  }
+
+  /**
+   * Apollo returns placeholders such as email_not_unlocked@domain.com for emails the plan hasn't revealed
+   */
+  private isUnlockedEmail(email?: string): boolean {
+    return !!email && !email.startsWith('email_not_unlocked');
+  }
+
+  /**
+   * Map free-form seniority filters (as used for Snov) to Apollo seniority values
+   */
+  private mapSeniorities(seniority?: string[]): ApolloSeniority[] {
+    if (!seniority || seniority.length === 0) return [];
+
+    const mapping: Record<string, ApolloSeniority> = {
+      owner: 'owner',
+      founder: 'founder',
+      chief: 'c_suite',
+      'c-level': 'c_suite',
+      c_suite: 'c_suite',
+      partner: 'partner',
+      vp: 'vp',
+      'vice president': 'vp',
+      head: 'head',
+      director: 'director',
+      manager: 'manager',
+      lead: 'senior',
+      senior: 'senior',
+      entry: 'entry',
+      intern: 'intern'
+    };
+
+    const mapped = seniority
+      .map(level => mapping[level.toLowerCase()])
+      .filter((level): level is ApolloSeniority => !!level);
+
+    return Array.from(new Set(mapped));
+  }
+
+  /**
+   * Apollo departments look like 'master_engineering_technical' - keep the readable part
+   */
+  private formatDepartment(departments?: string[]): string | undefined {
+    const department = departments?.[0];
+    if (!department) return undefined;
+    return department.replace(/^master_/, '').replace(/_/g, ' ');
+  }
+
+  /**
+   * Filter contacts by department (Apollo has no free-text department filter)
+   */
+  private filterContacts(contacts: SnovContact[], options: ApolloSearchOptions): SnovContact[] {
+    let filtered = contacts;
+
+    if (options.departments && options.departments.length > 0) {
+      filtered = filtered.filter(contact =>
+        options.departments!.some(dept =>
+          contact.department?.toLowerCase().includes(dept.toLowerCase()) ||
+          contact.position.toLowerCase().includes(dept.toLowerCase())
+        )
+      );
+    }
+
+    // Sort by confidence and verification
+    return filtered.sort((a, b) => {
+      if (a.verified !== b.verified) {
+        return a.verified ? -1 : 1; // Verified first
+      }
+      return b.confidence - a.confidence; // Higher confidence first
+    });
+  }
+
+  /**
+   * Calculate confidence score for a contact
+   */
+  private calculateConfidence(person: any, hasEmail: boolean): number {
+    let confidence = 0.5; // Base confidence
+
+    // Boost confidence for verified emails (only when Apollo returned the email itself)
+    if (hasEmail && person.email_status === 'verified') {
+      confidence += 0.3;
+    } else if (hasEmail && person.email_status === 'likely_to_engage') {
+      confidence += 0.15;
+    }
+
+    // Boost for complete information
+    if (person.first_name && person.last_name) confidence += 0.1;
+    if (person.title) confidence += 0.1;
+    if (person.linkedin_url) confidence += 0.1;
+
+    return Math.min(confidence, 1.0);
+  }
+
+  /**
+   * Check if cached data is expired
+   */
+  private isExpired(cached: any, ttlHours: number): boolean {
+    const cacheTime = new Date(cached.timestamp).getTime();
+    const now = Date.now();
+    const ttlMs = ttlHours * 60 * 60 * 1000;
+
+    return (now - cacheTime) > ttlMs;
+  }
+
+  /**
+   * Get cache TTL based on priority (cost optimization)
+   */
+  private getCacheTTL(priority: 'high' | 'medium' | 'low'): number {
+    switch (priority) {
+      case 'high': return 48;    // 2 days for high priority
+      case 'medium': return 168; // 1 week for medium priority
+      case 'low': return 720;    // 1 month for low priority
+      default: return 168;
+    }
+  }
+
+  /**
+   * Check if we're within daily usage limits
+   */
+  private async checkUsageLimits(): Promise<boolean> {
+    const today = new Date().toISOString().split('T')[0];
+    const usageKey = `apollo_usage:${today}`;
+
+    try {
+      const cached = await this.cacheService.getRawJSON(usageKey);
+      const usage = cached?.data as { calls: number; cost: number } || { calls: 0, cost: 0 };
+
+      return usage.calls < this.dailyCallLimit;
+    } catch (error) {
+      this.logger.warn('Usage check failed, allowing call', { error });
+      return true;
+    }
+  }
+
+  /**
+   * Track API usage for cost monitoring
+   */
+  private async trackAPIUsage(companyName: string, callType: string): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    const usageKey = `apollo_usage:${today}`;
+
+    try {
+      const cached = await this.cacheService.getRawJSON(usageKey);
+      const usage = cached?.data as { calls: number; cost: number } || { calls: 0, cost: 0 };
+
+      usage.calls += 1;
+      usage.cost += 0.15; // Estimate per call cost
+
+      await this.cacheService.setRawJSON(usageKey, {
+        data: usage,
+        timestamp: new Date().toISOString(),
+        source: 'apollo_usage_tracker'
+      }, CacheType.USAGE_TRACKING);
+
+      this.logger.debug('Apollo API usage tracked', {
+        companyName,
+        callType,
+        dailyCalls: usage.calls,
+        dailyCost: usage.cost,
+        limit: this.dailyCallLimit
+      });
+    } catch (error) {
+      this.logger.warn('Usage tracking failed', {
+        companyName,
+        callType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Estimate cost for a people search
+   */
+  private estimateCallCost(contactCount: number): string {
+    const baseCost = 0.15; // Search credit
+    const contactCost = contactCount * 0.01; // Email reveal per contact
+    return `$${(baseCost + contactCost).toFixed(3)}`;
+  }
+
+  /**
+   * Get empty result structure
+   */
+  private getEmptyResult(companyName: string, domain?: string): SnovDomainSearchResult {
+    return {
+      contacts: [],
+      total: 0,
+      domain: domain || '',
+      companyName
+    };
+  }
+}
@@ -0,0 +1,342 @@
+import { CacheService } from './core/CacheService';
+import { Logger } from './core/Logger';
+import { CacheType } from '../types/cache-types';
+import { BrightDataResponse } from '../types/orchestrator-types';
+
+/**
+ * BrightData Company Enrichment Service
+ *
+ * Scrapes company profiles (firmographics + public employee list) through the
+ * BrightData Datasets API with built-in caching and usage tracking.
+ */
+
+export interface BrightDataCompanyOptions {
+  maxEmployees?: number;
+  useCache?: boolean;
+  priority?: 'high' | 'medium' | 'low';
+}
+
+export class BrightDataService {
+  private cacheService: CacheService;
+  private logger: Logger;
+  private apiKey: string;
+  private baseUrl: string;
+  private datasetId: string;
+
+  // Cost tracking - pay-per-record dataset pricing
+  private dailyCallLimit: number;
+
+  constructor(cacheService: CacheService, logger: Logger) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+    this.apiKey = process.env.BRIGHTDATA_API_KEY || '';
+    // Overridable so a local stub server can stand in for the real API
+    this.baseUrl = process.env.BRIGHTDATA_BASE_URL || 'https://api.brightdata.com/datasets/v3';
+    this.datasetId = process.env.BRIGHTDATA_COMPANY_DATASET_ID || 'gd_l1vikfnt1wgvvqz95w'; // LinkedIn company information
+    this.dailyCallLimit = parseInt(process.env.BRIGHTDATA_DAILY_LIMIT || '200');
+
+    if (!this.apiKey) {
+      this.logger.warn('BRIGHTDATA_API_KEY not configured');
+    }
+  }
+
+  /**
+   * Get company profile and employee data with cost optimization
+   */
+  async getCompanyProfile(
+    companyName: string,
+    domain?: string,
+    options: BrightDataCompanyOptions = {}
+  ): Promise<BrightDataResponse> {
+    const cacheKey = `brightdata_raw:${companyName}:${domain || 'auto'}`;
+    const cacheHours = this.getCacheTTL(options.priority || 'medium');
+
+    // Check cache first (firmographics change slowly)
+    if (options.useCache !== false) {
+      const cached = await this.cacheService.getRawJSON(cacheKey);
+      if (cached && !this.isExpired(cached, cacheHours)) {
+        this.logger.debug('BrightData profile cache hit (cost saved)', {
+          companyName,
+          domain,
+          cacheSavings: this.estimateCallCost(cached.data?.employee_data?.length || 0)
+        });
+        return cached.data;
+      }
+    }
+
+    if (!this.apiKey) {
+      this.logger.warn('BrightData API key not configured, returning empty result', { companyName });
+      return this.getEmptyResult(companyName, domain);
+    }
+
+    // Check daily usage limits
+    const canMakeCall = await this.checkUsageLimits();
+    if (!canMakeCall && options.priority !== 'high') {
+      this.logger.warn('BrightData daily limit reached, using cache only', { companyName });
+      return this.getEmptyResult(companyName, domain);
+    }
+
+    try {
+      await this.trackAPIUsage(companyName, 'company_profile');
+
+      const record = await this.executeCompanyScrape(companyName, domain);
+      if (!record) {
+        this.logger.info('BrightData returned no company record', { companyName, domain });
+        return this.getEmptyResult(companyName, domain);
+      }
+
+      const result = this.transformCompanyRecord(record, companyName, domain, options.maxEmployees || 50);
+
+      await this.cacheService.setRawJSON(cacheKey, {
+        data: result,
+        timestamp: new Date().toISOString(),
+        source: 'brightdata_api',
+        cost: this.estimateCallCost(result.employee_data?.length || 0)
+      }, CacheType.BRIGHTDATA_RAW);
+
+      this.logger.info('BrightData company profile collected', {
+        companyName,
+        domain: result.domain,
+        industry: result.company_profile?.industry,
+        employeeCount: result.employee_data?.length || 0,
+        estimatedCost: this.estimateCallCost(result.employee_data?.length || 0),
+        cacheFor: `${cacheHours}h`
+      });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('BrightData company collection failed', {
+        companyName,
+        domain,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return {
+        ...this.getEmptyResult(companyName, domain),
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Trigger a synchronous scrape for the company and return the first record
+   */
+  private async executeCompanyScrape(companyName: string, domain?: string): Promise<any | null> {
+    const params = new URLSearchParams({
+      dataset_id: this.datasetId,
+      format: 'json',
+      include_errors: 'true'
+    });
+
+    const input = [{ url: this.buildCompanyUrl(companyName) }];
+
+    const response = await fetch(`${this.baseUrl}/scrape?${params}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(input)
+    });
+
+    if (!response.ok) {
+      throw new Error(`BrightData API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
+    const records: any[] = Array.isArray(data) ? data : data ? [data] : [];
+    const record = records.find(r => r && !r.error);
+
+    if (!record && records.length > 0) {
+      this.logger.warn('BrightData record errors', {
+        companyName,
+        domain,
+        errors: records.map(r => r?.error).filter(Boolean)
+      });
+    }
+
+    return record || null;
+  }
+
+  /**
+   * Transform a BrightData company record to our format
+   */
+  private transformCompanyRecord(
+    record: any,
+    companyName: string,
+    domain: string | undefined,
+    maxEmployees: number
+  ): BrightDataResponse {
+    const website = record.website || (domain ? `https://${domain}` : '');
+    const employees: any[] = Array.isArray(record.employees) ? record.employees : [];
+
+    return {
+      company_profile: {
+        name: record.name || companyName,
+        description: record.about || record.description || '',
+        industry: Array.isArray(record.industries) ? record.industries.join(', ') : (record.industries || record.industry || ''),
+        size: record.company_size || '',
+        founded: record.founded ? String(record.founded) : '',
+        headquarters: record.headquarters || '',
+        website,
+        employee_count: typeof record.employees_in_linkedin === 'number' ? record.employees_in_linkedin : undefined,
+        specialties: this.parseSpecialties(record.specialties),
+        linkedin_url: record.url || undefined
+      },
+      employee_data: employees
+        .filter(employee => employee?.title)
+        .slice(0, maxEmployees)
+        .map(employee => ({
+          name: employee.title,
+          title: employee.subtitle || '',
+          department: this.inferDepartment(employee.subtitle || ''),
+          linkedin_url: employee.link || undefined
+        })),
+      source: 'brightdata_api',
+      domain: domain || this.extractDomain(website),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Build the LinkedIn company URL BrightData scrapes from
+   */
+  private buildCompanyUrl(companyName: string): string {
+    const slug = companyName
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, '')
+      .trim()
+      .replace(/\s+/g, '-');
+    return `https://www.linkedin.com/company/${slug}`;
+  }
+
+  /**
+   * Specialties arrive either as a comma separated string or an array
+   */
+  private parseSpecialties(specialties: any): string[] | undefined {
+    if (Array.isArray(specialties)) return specialties;
+    if (typeof specialties === 'string' && specialties.trim()) {
+      return specialties.split(',').map(s => s.trim()).filter(Boolean);
+    }
+    return undefined;
+  }
+
+  /**
+   * Infer department from a job title
+   */
+  private inferDepartment(title: string): string {
+    const lower = title.toLowerCase();
+    if (/(engineer|developer|cto|architect|devops|technical)/.test(lower)) return 'engineering';
+    if (/(sales|account executive|business development|cro)/.test(lower)) return 'sales';
+    if (/(marketing|cmo|brand|growth)/.test(lower)) return 'marketing';
+    if (/(product|cpo)/.test(lower)) return 'product';
+    if (/(finance|cfo|accounting)/.test(lower)) return 'finance';
+    if (/(security|ciso)/.test(lower)) return 'security';
+    if (/(people|hr|talent|recruit)/.test(lower)) return 'people';
+    if (/(ceo|founder|president|chief)/.test(lower)) return 'executive';
+    return 'other';
+  }
+
+  private extractDomain(website: string): string {
+    return website.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+  }
+
+  /**
+   * Check if cached data is expired
+   */
+  private isExpired(cached: any, ttlHours: number): boolean {
+    const cacheTime = new Date(cached.timestamp).getTime();
+    const now = Date.now();
+    const ttlMs = ttlHours * 60 * 60 * 1000;
+
+    return (now - cacheTime) > ttlMs;
+  }
+
+  /**
+   * Get cache TTL based on priority (cost optimization)
+   */
+  private getCacheTTL(priority: 'high' | 'medium' | 'low'): number {
+    switch (priority) {
+      case 'high': return 72;    // 3 days for high priority
+      case 'medium': return 168; // 1 week for medium priority
+      case 'low': return 336;    // 2 weeks for low priority
+      default: return 168;
+    }
+  }
+
+  /**
+   * Check if we're within daily usage limits
+   */
+  private async checkUsageLimits(): Promise<boolean> {
+    const today = new Date().toISOString().split('T')[0];
+    const usageKey = `brightdata_usage:${today}`;
+
+    try {
+      const cached = await this.cacheService.getRawJSON(usageKey);
+      const usage = cached?.data as { calls: number; cost: number } || { calls: 0, cost: 0 };
+
+      return usage.calls < this.dailyCallLimit;
+    } catch (error) {
+      this.logger.warn('Usage check failed, allowing call', { error });
+      return true;
+    }
+  }
+
+  /**
+   * Track API usage for cost monitoring
+   */
+  private async trackAPIUsage(companyName: string, callType: string): Promise<void> {
+    const today = new Date().toISOString().split('T')[0];
+    const usageKey = `brightdata_usage:${today}`;
+
+    try {
+      const cached = await this.cacheService.getRawJSON(usageKey);
+      const usage = cached?.data as { calls: number; cost: number } || { calls: 0, cost: 0 };
+
+      usage.calls += 1;
+      usage.cost += 0.05; // Estimate per record cost
+
+      await this.cacheService.setRawJSON(usageKey, {
+        data: usage,
+        timestamp: new Date().toISOString(),
+        source: 'brightdata_usage_tracker'
+      }, CacheType.USAGE_TRACKING);
+
+      this.logger.debug('BrightData API usage tracked', {
+        companyName,
+        callType,
+        dailyCalls: usage.calls,
+        dailyCost: usage.cost,
+        limit: this.dailyCallLimit
+      });
+    } catch (error) {
+      this.logger.warn('Usage tracking failed', {
+        companyName,
+        callType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Estimate cost for a company profile scrape
+   */
+  private estimateCallCost(employeeCount: number): string {
+    const baseCost = 0.05; // Company record
+    const employeeCost = employeeCount * 0.001; // Embedded employee rows
+    return `$${(baseCost + employeeCost).toFixed(3)}`;
+  }
+
+  /**
+   * Get empty result structure
+   */
+  private getEmptyResult(companyName: string, domain?: string): BrightDataResponse {
+    return {
+      employee_data: [],
+      source: 'brightdata_api',
+      domain: domain || '',
+      timestamp: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,304 @@
+import { CacheService } from './core/CacheService';
+import { Logger } from './core/Logger';
+import { CacheType } from '../types/cache-types';
+
+/**
+ * Cost Ledger Service
+ *
+ * Records every paid call (SerpAPI, Snov, Apollo, BrightData, Bedrock) and every cache hit
+ * that avoided one, rolled up per day by consumer, source, user and company.
+ */
+
+export interface CostLedgerEntry {
+  source: string;                 // SourceType or 'bedrock'
+  consumer: string;               // ConsumerType / workflow requester
+  userId?: string;
+  company?: string;
+  cost: number;                   // Amount paid (0 for cache hits)
+  savings?: number;               // Amount avoided by a cache hit
+  cached: boolean;
+  tokens?: { input: number; output: number };
+  modelId?: string;
+  timestamp?: string;
+}
+
+export interface CostBucket {
+  spend: number;
+  savings: number;
+  paidCalls: number;
+  cacheHits: number;
+}
+
+export interface CostBucketReport extends CostBucket {
+  cacheHitRate: number;
+}
+
+export interface DailyCostRollup {
+  date: string;
+  totals: CostBucket;
+  byConsumer: Record<string, CostBucket>;
+  bySource: Record<string, CostBucket>;
+  byUser: Record<string, CostBucket>;
+  byCompany: Record<string, CostBucket>;
+  tokens: { input: number; output: number };
+  recentEntries: CostLedgerEntry[];
+  updatedAt: string;
+}
+
+export interface CostReport {
+  from: string;
+  to: string;
+  totals: CostBucketReport;
+  tokens: { input: number; output: number };
+  byDay: Record<string, CostBucketReport>;
+  byConsumer: Record<string, CostBucketReport>;
+  bySource: Record<string, CostBucketReport>;
+  byUser: Record<string, CostBucketReport>;
+}
+
+export interface UsersCostReport {
+  from: string;
+  to: string;
+  totals: CostBucketReport;
+  byDay: Record<string, CostBucketReport>;
+  byUser: Record<string, CostBucketReport>;
+}
+
+const MAX_RECENT_ENTRIES = 100;
+const MAX_REPORT_DAYS = 92;
+
+export class CostLedgerService {
+  private cacheService: CacheService;
+  private logger: Logger;
+
+  constructor(cacheService: CacheService, logger: Logger) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+  }
+
+  /**
+   * Record a single paid call or cache hit
+   */
+  async record(entry: CostLedgerEntry): Promise<void> {
+    await this.recordBatch([entry]);
+  }
+
+  /**
+   * Record several entries with a single ledger write.
+   * Read-modify-write: concurrent writers can lose an entry, which is acceptable for reporting.
+   */
+  async recordBatch(entries: CostLedgerEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const date = new Date().toISOString().split('T')[0];
+    const key = this.getRollupKey(date);
+
+    try {
+      const rollup = await this.getRollup(date);
+
+      for (const entry of entries) {
+        const stamped = { ...entry, timestamp: entry.timestamp || new Date().toISOString() };
+
+        this.addToBucket(rollup.totals, stamped);
+        this.addToBucket(this.bucketFor(rollup.byConsumer, stamped.consumer), stamped);
+        this.addToBucket(this.bucketFor(rollup.bySource, stamped.source), stamped);
+        if (stamped.userId) {
+          this.addToBucket(this.bucketFor(rollup.byUser, stamped.userId), stamped);
+        }
+        if (stamped.company) {
+          this.addToBucket(this.bucketFor(rollup.byCompany, stamped.company.toLowerCase()), stamped);
+        }
+        if (stamped.tokens) {
+          rollup.tokens.input += stamped.tokens.input;
+          rollup.tokens.output += stamped.tokens.output;
+        }
+
+        rollup.recentEntries.push(stamped);
+      }
+
+      rollup.recentEntries = rollup.recentEntries.slice(-MAX_RECENT_ENTRIES);
+      rollup.updatedAt = new Date().toISOString();
+
+      await this.cacheService.setRawJSON(key, rollup, CacheType.COST_LEDGER);
+
+      this.logger.debug('Cost ledger updated', {
+        date,
+        entries: entries.length,
+        dailySpend: rollup.totals.spend
+      });
+    } catch (error) {
+      // Never fail a request because cost reporting failed
+      this.logger.warn('Cost ledger update failed', {
+        entries: entries.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Aggregate spend, savings and cache-hit rate between two dates (inclusive, YYYY-MM-DD)
+   */
+  async getReport(from: string, to: string): Promise<CostReport> {
+    const dates = this.getDateRange(from, to);
+    const rollups = await Promise.all(dates.map(date => this.cacheService.getRawJSON(this.getRollupKey(date))));
+
+    const totals = this.emptyBucket();
+    const tokens = { input: 0, output: 0 };
+    const byDay: Record<string, CostBucketReport> = {};
+    const byConsumer: Record<string, CostBucket> = {};
+    const bySource: Record<string, CostBucket> = {};
+    const byUser: Record<string, CostBucket> = {};
+
+    rollups.forEach((rollup: DailyCostRollup | null, index) => {
+      const date = dates[index];
+      if (!rollup) {
+        byDay[date] = this.toReport(this.emptyBucket());
+        return;
+      }
+
+      byDay[date] = this.toReport(rollup.totals);
+      this.mergeBucket(totals, rollup.totals);
+      tokens.input += rollup.tokens?.input || 0;
+      tokens.output += rollup.tokens?.output || 0;
+      this.mergeGroup(byConsumer, rollup.byConsumer);
+      this.mergeGroup(bySource, rollup.bySource);
+      this.mergeGroup(byUser, rollup.byUser);
+    });
+
+    return {
+      from: dates[0],
+      to: dates[dates.length - 1],
+      totals: this.toReport(totals),
+      tokens,
+      byDay,
+      byConsumer: this.toGroupReport(byConsumer),
+      bySource: this.toGroupReport(bySource),
+      byUser: this.toGroupReport(byUser)
+    };
+  }
+
+  /**
+   * Spend of a group of users (e.g. an organization's members) between two dates, by day and by user.
+   * Built from the per-user buckets, so it covers every collection and LLM call billed to those users.
+   */
+  async getUsersReport(from: string, to: string, userIds: string[]): Promise<UsersCostReport> {
+    const dates = this.getDateRange(from, to);
+    const rollups = await Promise.all(dates.map(date => this.cacheService.getRawJSON(this.getRollupKey(date))));
+    const members = new Set(userIds);
+
+    const totals = this.emptyBucket();
+    const byDay: Record<string, CostBucketReport> = {};
+    const byUser: Record<string, CostBucket> = {};
+
+    rollups.forEach((rollup: DailyCostRollup | null, index) => {
+      const day = this.emptyBucket();
+
+      for (const [userId, bucket] of Object.entries(rollup?.byUser || {})) {
+        if (!members.has(userId)) continue;
+        this.mergeBucket(day, bucket);
+        this.mergeBucket(this.bucketFor(byUser, userId), bucket);
+      }
+
+      byDay[dates[index]] = this.toReport(day);
+      this.mergeBucket(totals, day);
+    });
+
+    return {
+      from: dates[0],
+      to: dates[dates.length - 1],
+      totals: this.toReport(totals),
+      byDay,
+      byUser: this.toGroupReport(byUser)
+    };
+  }
+
+  private async getRollup(date: string): Promise<DailyCostRollup> {
+    const existing: DailyCostRollup | null = await this.cacheService.getRawJSON(this.getRollupKey(date));
+    return existing || {
+      date,
+      totals: this.emptyBucket(),
+      byConsumer: {},
+      bySource: {},
+      byUser: {},
+      byCompany: {},
+      tokens: { input: 0, output: 0 },
+      recentEntries: [],
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private getRollupKey(date: string): string {
+    return `cost_ledger:${date}`;
+  }
+
+  /**
+   * Inclusive list of YYYY-MM-DD dates, capped at MAX_REPORT_DAYS (most recent kept)
+   */
+  private getDateRange(from: string, to: string): string[] {
+    const start = new Date(`${from}T00:00:00Z`);
+    const end = new Date(`${to}T00:00:00Z`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      throw new Error(`Invalid date range: ${from} - ${to}`);
+    }
+
+    const dates: string[] = [];
+    for (const day = new Date(start); day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+      dates.push(day.toISOString().split('T')[0]);
+    }
+    return dates.slice(-MAX_REPORT_DAYS);
+  }
+
+  private emptyBucket(): CostBucket {
+    return { spend: 0, savings: 0, paidCalls: 0, cacheHits: 0 };
+  }
+
+  private bucketFor(group: Record<string, CostBucket>, name: string): CostBucket {
+    if (!group[name]) {
+      group[name] = this.emptyBucket();
+    }
+    return group[name];
+  }
+
+  private addToBucket(bucket: CostBucket, entry: CostLedgerEntry): void {
+    if (entry.cached) {
+      bucket.cacheHits += 1;
+      bucket.savings = this.roundCost(bucket.savings + (entry.savings || 0));
+    } else {
+      bucket.paidCalls += 1;
+      bucket.spend = this.roundCost(bucket.spend + entry.cost);
+    }
+  }
+
+  private mergeBucket(target: CostBucket, source: CostBucket): void {
+    target.spend = this.roundCost(target.spend + source.spend);
+    target.savings = this.roundCost(target.savings + source.savings);
+    target.paidCalls += source.paidCalls;
+    target.cacheHits += source.cacheHits;
+  }
+
+  private mergeGroup(target: Record<string, CostBucket>, source: Record<string, CostBucket> = {}): void {
+    for (const [name, bucket] of Object.entries(source)) {
+      this.mergeBucket(this.bucketFor(target, name), bucket);
+    }
+  }
+
+  private toReport(bucket: CostBucket): CostBucketReport {
+    const lookups = bucket.paidCalls + bucket.cacheHits;
+    return {
+      ...bucket,
+      cacheHitRate: lookups > 0 ? Math.round((bucket.cacheHits / lookups) * 1000) / 1000 : 0
+    };
+  }
+
+  private toGroupReport(group: Record<string, CostBucket>): Record<string, CostBucketReport> {
+    const report: Record<string, CostBucketReport> = {};
+    for (const [name, bucket] of Object.entries(group)) {
+      report[name] = this.toReport(bucket);
+    }
+    return report;
+  }
+
+  private roundCost(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
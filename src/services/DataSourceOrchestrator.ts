@@ -11,10 +11,13 @@ import { SerpAPIService } from './SerpAPIService';
 
 // Import refactored components
 import { DataCollectionEngine } from './orchestration/engines/DataCollectionEngine';
+import { BudgetEngine } from './orchestration/engines/BudgetEngine';
 import { OrchestrationCore } from './orchestration/core/OrchestrationCore';
+import { VendorContextOnboarding } from './vendor/VendorContextOnboarding';
 
 // Import types
 import { CacheType } from '../types/cache-types';
+import { VendorContextReference } from './vendor/types/VendorOnboardingTypes';
 import {
   DataCollectionPlan,
   RawDataAvailability,
@@ -32,6 +35,7 @@ import {
 
 import {
   CONSUMER_DATASET_REQUIREMENTS,
+  DATASET_REQUIREMENTS_MAP,
   DatasetType
 } from '../types/dataset-requirements';
 
@@ -43,6 +47,7 @@ import {
  */
 export class DataSourceOrchestrator extends OrchestrationCore {
   private dataCollectionEngine: DataCollectionEngine;
+  private budgetEngine: BudgetEngine;
 
   // Cost budgets by consumer type (in USD)
   private readonly costBudgets: Record<ConsumerType, number> = {
@@ -75,6 +80,7 @@ export class DataSourceOrchestrator extends OrchestrationCore {
       serpAPIService,
       config
     );
+    this.budgetEngine = new BudgetEngine(cacheService, logger, serpAPIService, config);
   }
 
   // =====================================
@@ -85,7 +91,7 @@ export class DataSourceOrchestrator extends OrchestrationCore {
    * Get customer intelligence with vendor context awareness
    */
   async getCustomerIntelligence(request: CustomerIntelligenceRequest): Promise<CustomerIntelligenceResponse> {
-    const { customerCompany, vendorCompany, consumerType, maxCost, urgency, requiredDatasets } = request;
+    const { customerCompany, vendorCompany, consumerType, maxCost, urgency, requiredDatasets, userId } = request;
 
     try {
       this.logger.info('Starting customer intelligence collection', {
@@ -132,11 +138,13 @@ export class DataSourceOrchestrator extends OrchestrationCore {
         consumerType,
         vendorContext,
         maxCost || this.costBudgets[consumerType],
-        requiredDatasets
+        requiredDatasets,
+        userId
       );
 
       // Execute data collection
       const data = await this.dataCollectionEngine.executeParallelCollection(plan);
+      await this.budgetEngine.recordSpend(consumerType, data.totalNewCost || 0, userId);
 
       // Calculate metrics and quality
       const qualityScore = this.calculateDataQuality(data, 'serp_api' as SourceType); // Use primary source for quality
@@ -145,8 +153,8 @@ export class DataSourceOrchestrator extends OrchestrationCore {
         totalRequests: 1,
         cacheHits: 0,
         apiCalls: 1,
-        totalCost: basePlan.estimatedCost || 0,
-        totalSavings: 0,
+        totalCost: data.totalNewCost ?? (basePlan.estimatedCost || 0),
+        totalSavings: data.totalCacheSavings || 0,
         averageResponseTime: basePlan.estimatedDuration || 0,
         requestsByConsumer: { [consumerType]: 1 } as Record<ConsumerType, number>,
         costsByConsumer: { [consumerType]: basePlan.estimatedCost || 0 } as Record<ConsumerType, number>,
@@ -160,6 +168,7 @@ export class DataSourceOrchestrator extends OrchestrationCore {
         vendorCompany,
         qualityScore,
         sourcesUsed: (plan as DataCollectionPlan).toCollect?.length || 0,
+        droppedDatasets: plan.budget?.droppedDatasets.length || 0,
       });
 
       return {
@@ -169,6 +178,7 @@ export class DataSourceOrchestrator extends OrchestrationCore {
         vendorContext,
         qualityScore,
         recommendations,
+        budget: plan.budget,
       };
     } catch (error) {
       this.logger.error('Customer intelligence collection failed', {
@@ -181,22 +191,56 @@ export class DataSourceOrchestrator extends OrchestrationCore {
   }
 
   /**
-   * Get multi-source data for a company
+   * Get multi-source data for a company: the consumer's datasets (or, with requiredSources, every dataset
+   * those sources supply) planned within budget. Cached sources cost nothing; datasets that don't fit are
+   * returned as droppedDatasets.
    */
   async getMultiSourceData(
     companyName: string,
     consumerType: ConsumerType,
     maxCost?: number,
-    requiredSources?: SourceType[]
+    requiredSources?: SourceType[],
+    userId?: string
   ): Promise<MultiSourceData> {
-    const plan = await this.createCollectionPlan(
+    const requestBudget = maxCost || this.costBudgets[consumerType];
+    const { effectiveBudget } = await this.budgetEngine.getEffectiveBudget(consumerType, requestBudget, userId);
+
+    const datasets = requiredSources
+      ? Object.keys(DATASET_REQUIREMENTS_MAP) as DatasetType[]
+      : CONSUMER_DATASET_REQUIREMENTS[consumerType] || [];
+    const budgeted = await this.budgetEngine.planWithinBudget(companyName, datasets, effectiveBudget, {}, requiredSources);
+
+    const allSources = [...budgeted.toCollect, ...budgeted.fromCache];
+    const plan: DataCollectionPlan = {
       companyName,
-      consumerType,
-      maxCost || this.costBudgets[consumerType],
-      requiredSources
-    );
+      requester: consumerType,
+      userId,
+      toCollect: budgeted.toCollect,
+      fromCache: budgeted.fromCache,
+      estimatedCost: budgeted.estimatedCost,
+      estimatedDuration: allSources.length > 0
+        ? Math.max(...allSources.map(source => this.getEstimatedDuration(source)))
+        : 0,
+      cacheSavings: budgeted.cacheSavings,
+      costsAttribution: {
+        profile: 0,
+        vendor_context: 0,
+        customer_intelligence: 0,
+        test: 0,
+      },
+    };
 
-    return this.dataCollectionEngine.executeParallelCollection(plan);
+    const data = await this.dataCollectionEngine.executeParallelCollection(plan);
+    await this.budgetEngine.recordSpend(consumerType, data.totalNewCost || 0, userId);
+
+    return { ...data, droppedDatasets: budgeted.droppedDatasets };
+  }
+
+  /**
+   * Re-collect sources for a company, overwriting their (stale) cache entries
+   */
+  async refreshSources(companyName: string, sources: SourceType[]): Promise<{ refreshed: SourceType[]; failed: SourceType[] }> {
+    return this.dataCollectionEngine.refreshSources(companyName, sources);
   }
 
   /**
@@ -220,12 +264,20 @@ export class DataSourceOrchestrator extends OrchestrationCore {
       if (totalCost + sourceCost <= maxCost) {
         selectedSources.push(source);
         totalCost += sourceCost;
+      } else {
+        this.logger.warn('Source dropped from collection plan (budget exceeded)', {
+          companyName,
+          consumerType,
+          source,
+          sourceCost,
+          maxCost,
+        });
       }
     }
 
-    const estimatedDuration = Math.max(
-      ...selectedSources.map(source => this.getEstimatedDuration(source))
-    );
+    const estimatedDuration = selectedSources.length > 0
+      ? Math.max(...selectedSources.map(source => this.getEstimatedDuration(source)))
+      : 0;
 
     return {
       companyName,
@@ -287,9 +339,13 @@ export class DataSourceOrchestrator extends OrchestrationCore {
     try {
       this.logger.info('Getting vendor context with rich analysis lookup', { vendorCompany });
 
+      // PRIORITY 0: User-registered vendor context (config file or profile), already merged over research
+      const registeredKey = VendorContextOnboarding.referenceKey(vendorCompany);
+      const registered = await this.cacheService.getRawJSON(registeredKey) as VendorContextReference | null;
+
       // PRIORITY 1: Try to get rich vendor context analysis (LLM-powered)
-      let vendorAnalysisKey = `vendor_context_analysis:${vendorCompany}:vendor_context`;
-      let richVendorContext = await this.cacheService.getRawJSON(vendorAnalysisKey);
+      let vendorAnalysisKey = registered?.registration ? registeredKey : `vendor_context_analysis:${vendorCompany}:vendor_context`;
+      let richVendorContext = registered?.registration ? registered.analysis : await this.cacheService.getRawJSON(vendorAnalysisKey);
       
       if (!richVendorContext) {
         // Try with proper case (capitalize first letter)
@@ -387,20 +443,56 @@ export class DataSourceOrchestrator extends OrchestrationCore {
     consumerType: ConsumerType,
     vendorContext: VendorContext,
     maxCost: number,
-    requiredDatasets?: DatasetType[]
+    requiredDatasets?: DatasetType[],
+    userId?: string
   ): Promise<ContextAwareCollectionPlan> {
-    // Start with base plan
-    const basePlan = await this.createCollectionPlan(customerCompany, consumerType, maxCost);
-
     // Enhance with context-aware datasets
     const contextualDatasets = this.determineContextualDatasets(vendorContext, requiredDatasets || []);
     const contextualPriorities = this.calculateContextualPriorities(vendorContext, contextualDatasets);
+    const datasets = requiredDatasets && requiredDatasets.length > 0
+      ? requiredDatasets
+      : CONSUMER_DATASET_REQUIREMENTS[consumerType] || [];
+
+    // Enforce budget: per-request budget capped by remaining consumer/user spend, then trim datasets to fit
+    const { effectiveBudget, spend } = await this.budgetEngine.getEffectiveBudget(consumerType, maxCost, userId);
+    const budgeted = await this.budgetEngine.planWithinBudget(
+      customerCompany,
+      datasets,
+      effectiveBudget,
+      contextualPriorities
+    );
+
+    const allSources = [...budgeted.toCollect, ...budgeted.fromCache];
+    const estimatedDuration = allSources.length > 0
+      ? Math.max(...allSources.map(source => this.getEstimatedDuration(source)))
+      : 0;
 
     return {
-      ...basePlan,
+      companyName: customerCompany,
+      requester: consumerType,
+      userId,
+      toCollect: budgeted.toCollect,
+      fromCache: budgeted.fromCache,
+      estimatedCost: budgeted.estimatedCost,
+      estimatedDuration,
+      cacheSavings: budgeted.cacheSavings,
+      costsAttribution: {
+        profile: 0,
+        vendor_context: 0,
+        customer_intelligence: 0,
+        test: 0,
+      },
       vendorContext,
       customerSpecificDatasets: requiredDatasets || contextualDatasets,
       contextualPriorities,
+      budget: {
+        requestBudget: maxCost,
+        effectiveBudget,
+        estimatedCost: budgeted.estimatedCost,
+        droppedDatasets: budgeted.droppedDatasets,
+        datasetSources: budgeted.datasetSources,
+        spend,
+      },
     };
   }
 
@@ -41,6 +41,10 @@ import { SourceAnalyzer } from './analysis/SourceAnalyzer';
 import { ContentFilter } from './content/ContentFilter';
 import { SearchQueryBuilder } from './search/SearchQueryBuilder';
 import { IntentAnalyzer } from './analysis/IntentAnalyzer';
+import { TechStackService } from './techstack/TechStackService';
+import { CompetitiveDisplacementDetector } from './competitive/CompetitiveDisplacementDetector';
+import { CompetitiveDisplacementReport } from './competitive/types/CompetitiveDisplacementTypes';
+import { VendorContextRegistry } from './vendor/VendorContextRegistry';
 
 export class SalesIntelligenceOrchestrator {
   private readonly searchEngine: SearchEngine;
@@ -145,6 +149,14 @@ export class SalesIntelligenceOrchestrator {
       );
       const analysisTime = Date.now() - analysisStartTime;
 
+      // Competitive deals: which of the seller's competitors the prospect already runs
+      if (request.salesContext === 'competitive' && request.sellerCompany) {
+        const displacement = await this.detectDisplacement(request, companyName);
+        if (displacement) {
+          insights.competitiveLandscape.displacement = displacement;
+        }
+      }
+
       // Create result
       const result: ContentAnalysis = {
         insights,
@@ -180,6 +192,43 @@ export class SalesIntelligenceOrchestrator {
     }
   }
 
+  /**
+   * Seller competitors (from the cached vendor context) fingerprinted on the prospect's website.
+   * Best effort: the competitive report is still returned without it.
+   */
+  private async detectDisplacement(
+    request: SalesIntelligenceRequest,
+    companyName: string
+  ): Promise<CompetitiveDisplacementReport | undefined> {
+    try {
+      const seller = request.sellerCompany!;
+      const vendorContext = await new VendorContextRegistry(this.cacheService, this.logger).getContext(seller);
+
+      if (!vendorContext?.competitors?.length) {
+        this.logger.info('No vendor competitors cached, skipping displacement detection', { sellerCompany: seller });
+        return undefined;
+      }
+
+      const techStack = await new TechStackService(this.cacheService, this.logger, this.contentFetcher)
+        .detect(companyName, { website: request.companyDomain });
+
+      return CompetitiveDisplacementDetector.detect({
+        company: companyName,
+        vendorCompany: seller,
+        competitors: vendorContext.competitors,
+        vendorProducts: request.sellerProducts?.length ? request.sellerProducts : vendorContext.products,
+        valuePropositions: vendorContext.valuePropositions,
+        technologies: techStack.technologies
+      });
+    } catch (error) {
+      this.logger.warn('Displacement detection failed', {
+        companyDomain: request.companyDomain,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Get comprehensive company overview
    */
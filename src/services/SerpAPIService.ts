@@ -22,6 +22,7 @@ import {
   SerpAPIConfig,
   CacheOptions
 } from './serpapi/types/SerpAPITypes';
+import { NewsPipelineResult } from './news/types/NewsEventTypes';
 
 /**
  * Main SerpAPI Service - Orchestrates all search engines and processors
@@ -128,6 +129,10 @@ export class SerpAPIService {
     return this.newsEngine.getNewsResults(companyName, options);
   }
 
+  async getNewsEvents(companyName: string, options: CacheOptions = {}): Promise<NewsPipelineResult> {
+    return this.newsEngine.getNewsEvents(companyName, options);
+  }
+
   async getRecentNews(companyName: string, days: number = 30): Promise<SerpAPINewsResult[]> {
     return this.newsEngine.getRecentNews(companyName, days);
   }
@@ -159,6 +164,7 @@ export class SerpAPIService {
     departments: Record<string, number>;
     locations: Record<string, number>;
     experienceLevels: Record<string, number>;
+    remoteShare: number;
   }> {
     return this.jobsEngine.getHiringTrends(companyName);
   }
@@ -174,6 +180,10 @@ export class SerpAPIService {
     return this.linkedInEngine.getExecutives(companyName);
   }
 
+  async getExecutiveResults(companyName: string, options: CacheOptions = {}): Promise<SerpAPILinkedInResult[]> {
+    return this.linkedInEngine.getExecutiveResults(companyName, options);
+  }
+
   async getSalesContacts(companyName: string): Promise<SerpAPILinkedInResult[]> {
     return this.linkedInEngine.getSalesContacts(companyName);
   }
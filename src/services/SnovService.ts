@@ -10,7 +10,7 @@ import { CacheType } from '../types/cache-types';
  */
 
 export interface SnovContact {
-  email: string;
+  email?: string;  // Unset when the provider has the person but not (yet) their email
   firstName: string;
   lastName: string;
   position: string;
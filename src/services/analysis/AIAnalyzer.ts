@@ -18,6 +18,8 @@ import {
   SnippetAnalysisRequest,
   CombinedAnalysisRequest,
   AnalysisConfig,
+  BedrockResponse,
+  BedrockStreamChunk,
   HealthCheckResponse
 } from './types/AnalysisTypes';
 
@@ -164,6 +166,20 @@ export class AIAnalyzer {
     return this.bedrockCore.parseUserInput(prompt);
   }
 
+  /**
+   * Parse user input, returning token usage and cost alongside the text
+   */
+  async parseUserInputWithUsage(prompt: string): Promise<BedrockResponse> {
+    return this.bedrockCore.parseUserInputWithUsage(prompt);
+  }
+
+  /**
+   * Parse user input, streaming text deltas as they are generated
+   */
+  streamUserInput(prompt: string): AsyncGenerator<BedrockStreamChunk> {
+    return this.bedrockCore.parseUserInputStream(prompt);
+  }
+
   /**
    * Health check for the AI analysis service
    */
@@ -2,16 +2,26 @@ import {
   BedrockRuntimeClient,
   InvokeModelCommand,
   InvokeModelCommandInput,
+  InvokeModelWithResponseStreamCommand,
+  InvokeModelWithResponseStreamCommandInput,
 } from '@aws-sdk/client-bedrock-runtime';
 import { Logger } from '../../core/Logger';
 import { 
   BedrockRequest, 
   BedrockResponse, 
+  BedrockStreamChunk,
+  BedrockUsage,
   AnalysisConfig,
   MODEL_CONFIGS,
+  MODEL_PRICING,
+  DEFAULT_MODEL_PRICING,
+  ModelPricing,
   SupportedModel 
 } from '../types/AnalysisTypes';
 
+const PARSE_USER_INPUT_SYSTEM_PROMPT = `You are a helpful assistant that clarifies and structures user input. 
+    Provide clear, structured responses based on the user's request.`;
+
 export class BedrockCore {
   private readonly bedrock: BedrockRuntimeClient;
   private readonly logger: Logger;
@@ -24,9 +34,10 @@ export class BedrockCore {
   }
 
   /**
-   * Invoke AWS Bedrock with the given prompts
+   * Invoke AWS Bedrock with the given prompts.
+   * Returns the generated text together with token usage, latency and cost.
    */
-  async invokeModel(request: BedrockRequest): Promise<string> {
+  async invokeModel(request: BedrockRequest): Promise<BedrockResponse> {
     const { systemPrompt, userPrompt, model, maxTokens, temperature } = request;
     
     const modelId = model || this.config.model;
@@ -52,7 +63,12 @@ export class BedrockCore {
 
       this.logger.debug('Bedrock invocation successful', {
         modelId,
-        responseLength: response.length,
+        responseLength: response.content.length,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        latencyMs: response.usage.latencyMs,
+        cost: response.usage.cost,
+        estimatedUsage: response.usage.estimated,
       });
 
       return response;
@@ -65,6 +81,128 @@ export class BedrockCore {
     }
   }
 
+  /**
+   * Invoke AWS Bedrock with response streaming.
+   *
+   * Yields text deltas as the model generates them, followed by a single
+   * 'complete' chunk carrying the full text and usage (same shape as invokeModel).
+   */
+  async *invokeModelStream(request: BedrockRequest): AsyncGenerator<BedrockStreamChunk> {
+    const { systemPrompt, userPrompt, model, maxTokens, temperature } = request;
+
+    const modelId = model || this.config.model;
+    const effectiveMaxTokens = maxTokens || this.config.maxTokens;
+    const effectiveTemperature = temperature || this.config.temperature;
+
+    this.logger.debug('Invoking Bedrock model (streaming)', {
+      modelId,
+      maxTokens: effectiveMaxTokens,
+      temperature: effectiveTemperature,
+      systemPromptLength: systemPrompt.length,
+      userPromptLength: userPrompt.length,
+    });
+
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(this.buildRequestBody(modelId, systemPrompt, userPrompt, effectiveMaxTokens, effectiveTemperature)),
+    } as InvokeModelWithResponseStreamCommandInput);
+
+    const startTime = Date.now();
+    let content = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    try {
+      const response = await this.bedrock.send(command);
+      if (!response.body) {
+        throw new Error('Empty response stream');
+      }
+
+      const decoder = new TextDecoder();
+
+      for await (const event of response.body) {
+        const streamError = event.internalServerException || event.modelStreamErrorException ||
+          event.modelTimeoutException || event.serviceUnavailableException ||
+          event.throttlingException || event.validationException;
+        if (streamError) {
+          throw new Error(streamError.message || 'Bedrock stream error');
+        }
+
+        if (!event.chunk?.bytes) {
+          continue;
+        }
+
+        const payload = JSON.parse(decoder.decode(event.chunk.bytes));
+        const text = this.extractStreamText(modelId, payload);
+
+        // Final chunk of every model family carries authoritative invocation metrics
+        const metrics = payload['amazon-bedrock-invocationMetrics'];
+        if (metrics) {
+          inputTokens = metrics.inputTokenCount;
+          outputTokens = metrics.outputTokenCount;
+        } else if (modelId.includes('anthropic.claude')) {
+          if (payload.type === 'message_start') inputTokens = payload.message?.usage?.input_tokens;
+          if (payload.type === 'message_delta') outputTokens = payload.usage?.output_tokens;
+        } else if (modelId.includes('meta.llama')) {
+          inputTokens = payload.prompt_token_count ?? inputTokens;
+          outputTokens = payload.generation_token_count ?? outputTokens;
+        } else if (modelId.includes('amazon.titan')) {
+          inputTokens = payload.inputTextTokenCount ?? inputTokens;
+          outputTokens = payload.totalOutputTextTokenCount ?? outputTokens;
+        }
+
+        if (text) {
+          content += text;
+          yield { type: 'delta', text };
+        }
+      }
+    } catch (error) {
+      this.logger.error('Bedrock streaming invocation failed', {
+        modelId,
+        receivedLength: content.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(`Bedrock streaming invocation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const usage = this.buildUsage(
+      modelId,
+      inputTokens,
+      outputTokens,
+      systemPrompt.length + userPrompt.length,
+      content.length,
+      Date.now() - startTime
+    );
+
+    this.logger.debug('Bedrock streaming invocation successful', {
+      modelId,
+      responseLength: content.length,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      latencyMs: usage.latencyMs,
+      cost: usage.cost,
+      estimatedUsage: usage.estimated,
+    });
+
+    yield { type: 'complete', content, usage };
+  }
+
+  /**
+   * Text delta from a streamed chunk, per model family
+   */
+  private extractStreamText(modelId: string, payload: any): string {
+    if (modelId.includes('anthropic.claude')) {
+      return payload.type === 'content_block_delta' ? payload.delta?.text || '' : '';
+    } else if (modelId.includes('meta.llama')) {
+      return payload.generation || '';
+    } else if (modelId.includes('amazon.titan')) {
+      return payload.outputText || '';
+    }
+    throw new Error(`Unsupported model: ${modelId}`);
+  }
+
   /**
    * Internal method to handle model-specific invocation logic
    */
@@ -74,12 +212,68 @@ export class BedrockCore {
     userPrompt: string,
     maxTokens: number,
     temperature: number
-  ): Promise<string> {
-    let requestBody: any;
+  ): Promise<BedrockResponse> {
+    const requestBody = this.buildRequestBody(modelId, systemPrompt, userPrompt, maxTokens, temperature);
+
+    const command = new InvokeModelCommand({
+      modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(requestBody),
+    } as InvokeModelCommandInput);
 
+    const startTime = Date.now();
+    const response = await this.bedrock.send(command);
+    const latencyMs = Date.now() - startTime;
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+    // Parse response and token counts based on model type
+    let content: string;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+
+    if (modelId.includes('anthropic.claude')) {
+      content = responseBody.content?.[0]?.text || '';
+      inputTokens = responseBody.usage?.input_tokens;
+      outputTokens = responseBody.usage?.output_tokens;
+    } else if (modelId.includes('meta.llama')) {
+      content = responseBody.generation || '';
+      inputTokens = responseBody.prompt_token_count;
+      outputTokens = responseBody.generation_token_count;
+    } else if (modelId.includes('amazon.titan')) {
+      content = responseBody.results?.[0]?.outputText || '';
+      inputTokens = responseBody.inputTextTokenCount;
+      outputTokens = responseBody.results?.[0]?.tokenCount;
+    } else {
+      throw new Error(`Unable to parse response from model: ${modelId}`);
+    }
+
+    return {
+      content,
+      usage: this.buildUsage(
+        modelId,
+        inputTokens,
+        outputTokens,
+        systemPrompt.length + userPrompt.length,
+        content.length,
+        latencyMs
+      ),
+    };
+  }
+
+  /**
+   * Build the model-family specific request body
+   */
+  private buildRequestBody(
+    modelId: string,
+    systemPrompt: string,
+    userPrompt: string,
+    maxTokens: number,
+    temperature: number
+  ): Record<string, any> {
     // Handle different model families
     if (modelId.includes('anthropic.claude')) {
-      requestBody = {
+      return {
         anthropic_version: 'bedrock-2023-05-31',
         max_tokens: maxTokens,
         temperature,
@@ -92,14 +286,14 @@ export class BedrockCore {
         ],
       };
     } else if (modelId.includes('meta.llama')) {
-      requestBody = {
+      return {
         prompt: `<s>[INST] <<SYS>>\n${systemPrompt}\n<</SYS>>\n\n${userPrompt} [/INST]`,
         max_gen_len: maxTokens,
         temperature,
         top_p: 0.9,
       };
     } else if (modelId.includes('amazon.titan')) {
-      requestBody = {
+      return {
         inputText: `${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
         textGenerationConfig: {
           maxTokenCount: maxTokens,
@@ -111,27 +305,56 @@ export class BedrockCore {
     } else {
       throw new Error(`Unsupported model: ${modelId}`);
     }
+  }
 
-    const command = new InvokeModelCommand({
+  /**
+   * Build usage from reported token counts, estimating (4 chars per token) when the model omits them
+   */
+  private buildUsage(
+    modelId: string,
+    reportedInputTokens: number | undefined,
+    reportedOutputTokens: number | undefined,
+    promptLength: number,
+    responseLength: number,
+    latencyMs: number
+  ): BedrockUsage {
+    const estimated = typeof reportedInputTokens !== 'number' || typeof reportedOutputTokens !== 'number';
+    const inputTokens = typeof reportedInputTokens === 'number' ? reportedInputTokens : Math.ceil(promptLength / 4);
+    const outputTokens = typeof reportedOutputTokens === 'number' ? reportedOutputTokens : Math.ceil(responseLength / 4);
+
+    return {
+      inputTokens,
+      outputTokens,
+      latencyMs,
       modelId,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(requestBody),
-    } as InvokeModelCommandInput);
+      cost: this.calculateCost(modelId, inputTokens, outputTokens),
+      estimated,
+    };
+  }
 
-    const response = await this.bedrock.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+  /**
+   * Cost in USD for a model call, using MODEL_PRICING
+   */
+  calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+    const pricing = this.getModelPricing(modelId);
+    const cost = (inputTokens / 1000) * pricing.inputPer1K + (outputTokens / 1000) * pricing.outputPer1K;
+    return Math.round(cost * 1000000) / 1000000;
+  }
 
-    // Parse response based on model type
-    if (modelId.includes('anthropic.claude')) {
-      return responseBody.content?.[0]?.text || '';
-    } else if (modelId.includes('meta.llama')) {
-      return responseBody.generation || '';
-    } else if (modelId.includes('amazon.titan')) {
-      return responseBody.results?.[0]?.outputText || '';
+  /**
+   * Price entry for a model ID - longest matching prefix wins, unknown models use DEFAULT_MODEL_PRICING
+   */
+  getModelPricing(modelId: string): ModelPricing {
+    const match = Object.keys(MODEL_PRICING)
+      .filter(key => modelId.includes(key))
+      .sort((a, b) => b.length - a.length)[0];
+
+    if (!match) {
+      this.logger.warn('No pricing configured for model, using default pricing', { modelId });
+      return DEFAULT_MODEL_PRICING;
     }
 
-    throw new Error(`Unable to parse response from model: ${modelId}`);
+    return MODEL_PRICING[match];
   }
 
   /**
@@ -203,11 +426,28 @@ export class BedrockCore {
    * Parse user input with AI assistance
    */
   async parseUserInput(prompt: string): Promise<string> {
-    const systemPrompt = `You are a helpful assistant that clarifies and structures user input. 
-    Provide clear, structured responses based on the user's request.`;
+    const { content } = await this.parseUserInputWithUsage(prompt);
+    return content;
+  }
+
+  /**
+   * Parse user input with AI assistance, streaming the response
+   */
+  parseUserInputStream(prompt: string): AsyncGenerator<BedrockStreamChunk> {
+    return this.invokeModelStream({
+      systemPrompt: PARSE_USER_INPUT_SYSTEM_PROMPT,
+      userPrompt: prompt,
+      maxTokens: this.config.maxTokens,
+      temperature: 0.1,
+    });
+  }
 
+  /**
+   * Parse user input with AI assistance, including token usage and cost
+   */
+  async parseUserInputWithUsage(prompt: string): Promise<BedrockResponse> {
     return this.invokeModel({
-      systemPrompt,
+      systemPrompt: PARSE_USER_INPUT_SYSTEM_PROMPT,
       userPrompt: prompt,
       maxTokens: this.config.maxTokens,  // ✅ Use configured maxTokens instead of hardcoded 1000
       temperature: 0.1,
@@ -60,7 +60,7 @@ export class CombinedAnalysisEngine {
         sources
       );
 
-      const response = await this.bedrockCore.invokeModel({
+      const { content: response } = await this.bedrockCore.invokeModel({
         systemPrompt,
         userPrompt,
       });
@@ -35,7 +35,7 @@ export class CompanyOverviewEngine {
       const systemPrompt = this.buildComprehensiveOverviewSystemPrompt();
       const userPrompt = this.buildComprehensiveOverviewUserPrompt(content, companyName, requestType);
 
-      const response = await this.bedrockCore.invokeModel({
+      const { content: response } = await this.bedrockCore.invokeModel({
         systemPrompt,
         userPrompt,
       });
@@ -249,7 +249,7 @@ Please provide the information in JSON format:
 Return "Not available" for any metrics not found in the content.`;
 
     try {
-      const response = await this.bedrockCore.invokeModel({
+      const { content: response } = await this.bedrockCore.invokeModel({
         systemPrompt,
         userPrompt,
         maxTokens: this.bedrockCore.maxTokens,  // ✅ Use configured maxTokens instead of hardcoded 1000
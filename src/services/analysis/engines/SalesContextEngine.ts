@@ -38,7 +38,7 @@ export class SalesContextEngine {
       const systemPrompt = this.buildSystemPrompt(salesContext);
       const userPrompt = this.buildUserPrompt(content, sources, companyName, salesContext, additionalContext);
 
-      const response = await this.bedrockCore.invokeModel({
+      const { content: response } = await this.bedrockCore.invokeModel({
         systemPrompt,
         userPrompt,
       });
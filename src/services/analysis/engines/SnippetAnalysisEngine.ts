@@ -35,7 +35,7 @@ export class SnippetAnalysisEngine {
       const systemPrompt = this.buildSnippetAnalysisSystemPrompt(analysisType);
       const userPrompt = this.buildSnippetAnalysisUserPrompt(snippets, companyName, analysisType);
 
-      const response = await this.bedrockCore.invokeModel({
+      const { content: response } = await this.bedrockCore.invokeModel({
         systemPrompt,
         userPrompt,
       });
@@ -224,7 +224,7 @@ Assess coverage and provide response in JSON format:
 }`;
 
     try {
-      const response = await this.bedrockCore.invokeModel({
+      const { content: response } = await this.bedrockCore.invokeModel({
         systemPrompt,
         userPrompt,
         maxTokens: this.bedrockCore.maxTokens,  // ✅ Use configured maxTokens instead of hardcoded 1000
@@ -60,14 +60,25 @@ export interface BedrockRequest {
   temperature?: number;
 }
 
+export interface BedrockUsage {
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  modelId: string;
+  cost: number;        // USD, from MODEL_PRICING
+  estimated: boolean;  // true when the model response carried no token counts (chars / 4 fallback)
+}
+
 export interface BedrockResponse {
   content: string;
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  usage: BedrockUsage;
 }
 
+// Streaming invocation: text deltas as they arrive, then one final chunk with the full text and usage
+export type BedrockStreamChunk =
+  | { type: 'delta'; text: string }
+  | { type: 'complete'; content: string; usage: BedrockUsage };
+
 export interface AnalysisConfig {
   model: string;
   maxTokens: number;
@@ -163,6 +174,33 @@ export const MODEL_CONFIGS = {
 
 export type SupportedModel = keyof typeof MODEL_CONFIGS;
 
+export interface ModelPricing {
+  inputPer1K: number;   // USD per 1K input tokens
+  outputPer1K: number;  // USD per 1K output tokens
+}
+
+// On-demand Bedrock pricing (us-east-1), keyed by model ID prefix.
+// Matched by the longest key contained in the model ID, so versioned IDs and
+// cross-region inference profiles (us.anthropic...) resolve to the same entry.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'anthropic.claude-3-opus': { inputPer1K: 0.015, outputPer1K: 0.075 },
+  'anthropic.claude-3-sonnet': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-3-5-sonnet': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-3-7-sonnet': { inputPer1K: 0.003, outputPer1K: 0.015 },
+  'anthropic.claude-3-haiku': { inputPer1K: 0.00025, outputPer1K: 0.00125 },
+  'anthropic.claude-3-5-haiku': { inputPer1K: 0.0008, outputPer1K: 0.004 },
+  'meta.llama2-13b': { inputPer1K: 0.00075, outputPer1K: 0.001 },
+  'meta.llama2-70b': { inputPer1K: 0.00195, outputPer1K: 0.00256 },
+  'meta.llama3-8b': { inputPer1K: 0.0003, outputPer1K: 0.0006 },
+  'meta.llama3-70b': { inputPer1K: 0.00265, outputPer1K: 0.0035 },
+  'amazon.titan-text-lite': { inputPer1K: 0.00015, outputPer1K: 0.0002 },
+  'amazon.titan-text-express': { inputPer1K: 0.0002, outputPer1K: 0.0006 },
+  'amazon.titan-text-premier': { inputPer1K: 0.0005, outputPer1K: 0.0015 },
+};
+
+// Unknown models are priced like Sonnet so cost is over- rather than under-reported
+export const DEFAULT_MODEL_PRICING: ModelPricing = { inputPer1K: 0.003, outputPer1K: 0.015 };
+
 // Analysis context types
 export type AnalysisMode = 'sales_context' | 'company_overview' | 'snippet_analysis' | 'combined_analysis';
 
@@ -0,0 +1,138 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { CacheService } from '../core/CacheService';
+import { JwtVerifier } from './JwtVerifier';
+import { JwksProvider, RemoteJwksProvider, StaticJwksProvider } from './JwksProvider';
+import { AuthConfig, AuthError, AuthIdentity, JwksDocument } from './types/AuthTypes';
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 60;
+
+let environmentInstance: AuthService | undefined;
+
+/**
+ * Auth Service
+ *
+ * Resolves the caller of an API request from its bearer token. The user id and tenant come from claims
+ * (AUTH_USER_ID_CLAIM, default sub; AUTH_TENANT_CLAIM, default custom:tenant_id, falling back to the user),
+ * so path and header user ids are only ever checked against the token, never trusted.
+ *
+ * Keys come from AUTH_JWKS (inline JWKS JSON, e.g. from LocalJwks), AUTH_JWKS_URL, or the
+ * Cognito-style {AUTH_ISSUER}/.well-known/jwks.json. With none of them set every request is rejected.
+ */
+export class AuthService {
+  private readonly verifier?: JwtVerifier;
+
+  constructor(jwks: JwksProvider | undefined, private readonly config: AuthConfig) {
+    this.verifier = jwks ? new JwtVerifier(jwks, config) : undefined;
+  }
+
+  /**
+   * Configured from the environment, once per container
+   */
+  static fromEnvironment(): AuthService {
+    if (!environmentInstance) {
+      const issuer = process.env.AUTH_ISSUER || undefined;
+      const audience = (process.env.AUTH_AUDIENCE || '').split(',').map(value => value.trim()).filter(Boolean);
+
+      environmentInstance = new AuthService(AuthService.jwksFromEnvironment(issuer), {
+        issuer,
+        audience: audience.length > 0 ? audience : undefined,
+        userIdClaim: process.env.AUTH_USER_ID_CLAIM || 'sub',
+        tenantClaim: process.env.AUTH_TENANT_CLAIM || 'custom:tenant_id',
+        adminGroup: process.env.AUTH_ADMIN_GROUP || 'admin',
+        clockSkewSeconds: parseInt(process.env.AUTH_CLOCK_SKEW_SECONDS || '') || DEFAULT_CLOCK_SKEW_SECONDS
+      });
+    }
+    return environmentInstance;
+  }
+
+  /**
+   * Verify the request's bearer token and derive the caller.
+   * allowQueryToken also accepts ?access_token= for clients that can't set headers (EventSource).
+   */
+  async authenticate(event: APIGatewayProxyEvent, options: { allowQueryToken?: boolean } = {}): Promise<AuthIdentity> {
+    if (!this.verifier) {
+      throw new AuthError('Authentication is not configured', 500);
+    }
+
+    const token = this.extractToken(event, options.allowQueryToken === true);
+    if (!token) {
+      throw new AuthError('Bearer token is required');
+    }
+
+    const claims = await this.verifier.verify(token);
+    const userId = claims[this.config.userIdClaim];
+    if (typeof userId !== 'string' || !userId) {
+      throw new AuthError(`Token has no ${this.config.userIdClaim} claim`);
+    }
+
+    const tenantId = claims[this.config.tenantClaim];
+    return {
+      userId,
+      tenantId: typeof tenantId === 'string' && tenantId ? tenantId : userId,
+      email: claims.email,
+      groups: Array.isArray(claims['cognito:groups']) ? claims['cognito:groups'] : [],
+      claims
+    };
+  }
+
+  /**
+   * Callers may only act on their own {userId} resources
+   */
+  assertOwner(identity: AuthIdentity, userId: string): void {
+    if (identity.userId !== userId) {
+      throw new AuthError('Not allowed to access another user\'s data', 403);
+    }
+  }
+
+  isAdmin(identity: AuthIdentity): boolean {
+    return identity.groups.includes(this.config.adminGroup);
+  }
+
+  /**
+   * The cache as the caller may see it: admins get the whole table, everyone else their tenant's view
+   */
+  cacheFor(identity: AuthIdentity, cacheService: CacheService): CacheService {
+    return this.isAdmin(identity) ? cacheService : cacheService.forTenant(identity.tenantId);
+  }
+
+  private extractToken(event: APIGatewayProxyEvent, allowQueryToken: boolean): string | undefined {
+    const headerKey = Object.keys(event.headers || {}).find(key => key.toLowerCase() === 'authorization');
+    const header = headerKey ? event.headers[headerKey] : undefined;
+    const match = header?.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+
+    return allowQueryToken ? event.queryStringParameters?.access_token || undefined : undefined;
+  }
+
+  private static jwksFromEnvironment(issuer?: string): JwksProvider | undefined {
+    if (process.env.AUTH_JWKS) {
+      return new StaticJwksProvider(JSON.parse(process.env.AUTH_JWKS) as JwksDocument);
+    }
+    if (process.env.AUTH_JWKS_URL) {
+      return new RemoteJwksProvider(process.env.AUTH_JWKS_URL);
+    }
+    if (issuer) {
+      return new RemoteJwksProvider(`${issuer.replace(/\/$/, '')}/.well-known/jwks.json`);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * API response for a failed authentication or ownership check
+ */
+export function authErrorResponse(
+  error: AuthError,
+  corsHeaders: Record<string, string>,
+  requestId: string
+): APIGatewayProxyResult {
+  return {
+    statusCode: error.statusCode,
+    headers: error.statusCode === 401 ? { ...corsHeaders, 'WWW-Authenticate': 'Bearer' } : corsHeaders,
+    body: JSON.stringify({
+      error: error.statusCode === 500 ? 'Internal server error' : error.statusCode === 403 ? 'Forbidden' : 'Unauthorized',
+      message: error.message,
+      requestId,
+    }),
+  };
+}
@@ -0,0 +1,57 @@
+import { Jwk, JwksDocument } from './types/AuthTypes';
+
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+const JWKS_MIN_REFRESH_INTERVAL_MS = 60 * 1000;
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Source of the public keys tokens are verified with
+ */
+export interface JwksProvider {
+  getKey(kid: string): Promise<Jwk | undefined>;
+}
+
+// Per-URL key sets, kept across warm invocations
+const remoteKeySets = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+/**
+ * JWKS served over HTTPS, e.g. a Cognito user pool's /.well-known/jwks.json.
+ * Keys are cached for an hour; an unknown kid triggers a refetch (at most once a minute) to pick up rotations.
+ */
+export class RemoteJwksProvider implements JwksProvider {
+  constructor(private readonly url: string) {}
+
+  async getKey(kid: string): Promise<Jwk | undefined> {
+    const cached = remoteKeySets.get(this.url);
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    const key = cached?.keys.find(candidate => candidate.kid === kid);
+
+    if (key && age < JWKS_CACHE_TTL_MS) return key;
+    if (cached && age < JWKS_MIN_REFRESH_INTERVAL_MS) return key;
+
+    const keys = await this.fetchKeys();
+    remoteKeySets.set(this.url, { keys, fetchedAt: Date.now() });
+    return keys.find(candidate => candidate.kid === kid);
+  }
+
+  private async fetchKeys(): Promise<Jwk[]> {
+    const response = await fetch(this.url, { signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`JWKS fetch failed: ${response.status} ${response.statusText}`);
+    }
+
+    const document = await response.json() as JwksDocument;
+    return Array.isArray(document?.keys) ? document.keys : [];
+  }
+}
+
+/**
+ * Fixed key set, e.g. from the AUTH_JWKS environment variable or LocalJwks
+ */
+export class StaticJwksProvider implements JwksProvider {
+  constructor(private readonly document: JwksDocument) {}
+
+  async getKey(kid: string): Promise<Jwk | undefined> {
+    return this.document.keys.find(candidate => candidate.kid === kid);
+  }
+}
@@ -0,0 +1,108 @@
+import { createPublicKey, verify } from 'crypto';
+import { JwksProvider } from './JwksProvider';
+import { AuthConfig, AuthError, JwtClaims } from './types/AuthTypes';
+
+// RSA signatures only - Cognito signs with RS256; "none" and HMAC algorithms are rejected
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  RS256: 'RSA-SHA256',
+  RS384: 'RSA-SHA384',
+  RS512: 'RSA-SHA512'
+};
+
+/**
+ * JWT Verifier
+ *
+ * Checks a compact JWS against the JWKS (signature, exp/nbf/iat with clock skew, issuer, audience)
+ * and returns its claims. Every failure is an AuthError(401) with a message safe to return.
+ */
+export class JwtVerifier {
+  constructor(
+    private readonly jwks: JwksProvider,
+    private readonly config: Pick<AuthConfig, 'issuer' | 'audience' | 'clockSkewSeconds'>
+  ) {}
+
+  async verify(token: string): Promise<JwtClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthError('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = this.decodeSegment(encodedHeader);
+    const claims = this.decodeSegment(encodedPayload) as JwtClaims;
+
+    const algorithm = SIGNATURE_ALGORITHMS[String(header.alg)];
+    if (!algorithm) {
+      throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+    }
+    if (typeof header.kid !== 'string') {
+      throw new AuthError('Token has no key id');
+    }
+
+    const jwk = await this.jwks.getKey(header.kid);
+    if (!jwk || jwk.kty !== 'RSA' || (jwk.alg && jwk.alg !== header.alg)) {
+      throw new AuthError('Token signed with an unknown key');
+    }
+
+    const signatureValid = verify(
+      algorithm,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' }),
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) {
+      throw new AuthError('Invalid token signature');
+    }
+
+    this.checkClaims(claims);
+    return claims;
+  }
+
+  private checkClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const skew = this.config.clockSkewSeconds;
+
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new AuthError('Token has no subject');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + skew <= now) {
+      throw new AuthError('Token expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - skew > now) {
+      throw new AuthError('Token not yet valid');
+    }
+    if (typeof claims.iat === 'number' && claims.iat - skew > now) {
+      throw new AuthError('Token issued in the future');
+    }
+    if (this.config.issuer && claims.iss !== this.config.issuer) {
+      throw new AuthError('Token issuer not accepted');
+    }
+    if (claims.token_use && claims.token_use !== 'id' && claims.token_use !== 'access') {
+      throw new AuthError('Token use not accepted');
+    }
+
+    // Cognito ID tokens carry the app client in aud, access tokens in client_id
+    const audience = this.config.audience;
+    if (audience && audience.length > 0) {
+      const tokenAudiences = [
+        ...(Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : []),
+        ...(claims.client_id ? [claims.client_id] : [])
+      ];
+      if (!tokenAudiences.some(value => audience.includes(value))) {
+        throw new AuthError('Token audience not accepted');
+      }
+    }
+  }
+
+  private decodeSegment(segment: string): Record<string, unknown> {
+    try {
+      const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+      if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+        throw new Error('not an object');
+      }
+      return decoded;
+    } catch {
+      throw new AuthError('Malformed token');
+    }
+  }
+}
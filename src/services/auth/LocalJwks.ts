@@ -0,0 +1,56 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { StaticJwksProvider } from './JwksProvider';
+import { Jwk, JwksDocument, JwtClaims } from './types/AuthTypes';
+
+/**
+ * Local JWKS
+ *
+ * Stand-in for a Cognito user pool in tests and local runs: an in-memory RSA key that signs tokens,
+ * and the matching JWKS. Point AUTH_JWKS at JSON.stringify(local.jwks) (or hand local.provider to
+ * AuthService) and the tokens from sign() verify like pool-issued ones.
+ */
+export class LocalJwks {
+  readonly jwks: JwksDocument;
+  readonly provider: StaticJwksProvider;
+
+  private constructor(
+    private readonly kid: string,
+    private readonly privateKey: KeyObject,
+    publicJwk: Jwk,
+    private readonly issuer: string
+  ) {
+    this.jwks = { keys: [publicJwk] };
+    this.provider = new StaticJwksProvider(this.jwks);
+  }
+
+  static generate(options: { kid?: string; issuer?: string } = {}): LocalJwks {
+    const kid = options.kid || `local_${Date.now().toString(36)}`;
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const exported = publicKey.export({ format: 'jwk' });
+
+    return new LocalJwks(
+      kid,
+      privateKey,
+      { kty: 'RSA', kid, alg: 'RS256', use: 'sig', n: exported.n!, e: exported.e! },
+      options.issuer || 'https://auth.local'
+    );
+  }
+
+  /**
+   * Signed RS256 token; iss, iat and exp (default one hour) are filled in unless given
+   */
+  sign(claims: Partial<JwtClaims> & { sub: string }, expiresInSeconds: number = 3600): string {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = { iss: this.issuer, iat: now, exp: now + expiresInSeconds, ...claims };
+
+    const encodedHeader = this.encode({ alg: 'RS256', typ: 'JWT', kid: this.kid });
+    const encodedPayload = this.encode(payload);
+    const signature = sign('RSA-SHA256', Buffer.from(`${encodedHeader}.${encodedPayload}`), this.privateKey);
+
+    return `${encodedHeader}.${encodedPayload}.${signature.toString('base64url')}`;
+  }
+
+  private encode(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Authentication Types
+ *
+ * Bearer JWTs (Cognito-style) verified against a JWKS, and the identity derived from their claims.
+ */
+
+/**
+ * Public key from a JWKS document (RSA keys only)
+ */
+export interface Jwk {
+  kty: string;
+  kid: string;
+  alg?: string;
+  use?: string;
+  n: string;
+  e: string;
+}
+
+export interface JwksDocument {
+  keys: Jwk[];
+}
+
+/**
+ * Registered claims plus the Cognito ones we read; anything else stays in the index signature
+ */
+export interface JwtClaims {
+  sub: string;
+  iss?: string;
+  aud?: string | string[];
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  email?: string;
+  token_use?: 'id' | 'access';
+  client_id?: string;
+  'cognito:groups'?: string[];
+  [claim: string]: unknown;
+}
+
+/**
+ * Caller of a request, taken from a verified token.
+ * tenantId scopes cache access; users without a tenant claim are their own tenant.
+ */
+export interface AuthIdentity {
+  userId: string;
+  tenantId: string;
+  email?: string;
+  groups: string[];
+  claims: JwtClaims;
+}
+
+export interface AuthConfig {
+  issuer?: string;
+  audience?: string[];
+  userIdClaim: string;
+  tenantClaim: string;
+  adminGroup: string;
+  clockSkewSeconds: number;
+}
+
+// Error Types
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public statusCode: 401 | 403 | 500 = 401
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
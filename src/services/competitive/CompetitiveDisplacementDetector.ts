@@ -0,0 +1,346 @@
+import { SerpAPIJobResult } from '../serpapi/types/SerpAPITypes';
+import { DetectedTechnology, TechEvidenceSource } from '../techstack/types/TechStackTypes';
+import {
+  CompetitiveDisplacementReport,
+  CompetitorUsage,
+  DisplacementEvidence,
+  DisplacementOpportunity,
+  DisplacementSignalKind,
+  UsageDepth,
+  UsageStatus
+} from './types/CompetitiveDisplacementTypes';
+
+// Contribution of each signal to the usage score (website fingerprints are scaled by detection confidence)
+const SIGNAL_WEIGHT: Record<DisplacementSignalKind, number> = {
+  website: 4,
+  dedicated_role: 4,
+  requirement: 2,
+  migrating_from: 2,
+  migrating_to: 2,
+  integration: 1.5,
+  mention: 1
+};
+
+const DEEP_SCORE = 8;
+const ESTABLISHED_SCORE = 3;
+const MAX_EVIDENCE = 5;
+const MAX_POSITIONING_ITEMS = 3;
+
+// Technologies seen on the site itself; job-only detections are covered by the job scan
+const WEBSITE_SOURCES = new Set<TechEvidenceSource>(['html', 'script', 'header', 'cookie', 'meta']);
+
+const REQUIREMENT_PATTERN = /\b(experience (with|in|using|administering)|proficien|expert(ise)? (in|with)|knowledge of|hands-on|certifi(ed|cation)|required|must have|\d\+? years|administ(er|ration|rator)|strong background|familiar(ity)? with)\b/i;
+const INTEGRATION_PATTERN = /\b(integrat(e|es|ed|ing|ion|ions)|connectors?|sync(ing|hroni[sz]ation)?|apis?|webhooks?|etl|data pipelines?|plugins?|extensions?)\b/i;
+const MIGRATION_PATTERN = /\b(migrat(e|ing|ion)|transition(ing)?|mov(e|ing)|switch(ing)?|replac(e|ing|ement)|sunset(ting)?|consolidat(e|ing|ion)|decommission(ing)?)\b/i;
+const MIGRATION_PLAY = 'Catch the migration';
+const CORPORATE_SUFFIX = /[\s,]+(inc|corp|corporation|ltd|llc|plc|gmbh|co)\.?$/i;
+
+interface CompetitorMatcher {
+  competitor: string;
+  aliases: string[];
+  patterns: RegExp[];
+}
+
+/**
+ * Competitive Displacement Detector
+ *
+ * Flags which of the vendor's competitors (VendorContext.competitors) a prospect uses, from website
+ * fingerprints and job postings, grades how deeply (dedicated roles, job requirements, integrations,
+ * migrations) and turns each into a displacement opportunity with evidence.
+ */
+export class CompetitiveDisplacementDetector {
+  static detect(input: {
+    company: string;
+    vendorCompany?: string;
+    competitors: string[];
+    vendorProducts?: string[];
+    valuePropositions?: string[];
+    technologies?: DetectedTechnology[];
+    jobs?: SerpAPIJobResult[];
+  }): CompetitiveDisplacementReport {
+    const matchers = this.buildMatchers(input.competitors);
+    const jobs = input.jobs || [];
+    const technologies = input.technologies || [];
+
+    const usage = matchers
+      .map(matcher => this.assessUsage(matcher, technologies, jobs))
+      .filter((item): item is CompetitorUsage => !!item)
+      .sort((a, b) => b.score - a.score);
+
+    const opportunities = usage
+      .map(item => this.toOpportunity(item, input.vendorCompany, input.vendorProducts || [], input.valuePropositions || []))
+      .sort((a, b) => this.priorityRank(b) - this.priorityRank(a));
+
+    return {
+      company: input.company,
+      vendorCompany: input.vendorCompany,
+      generatedAt: new Date().toISOString(),
+      competitorsChecked: matchers.map(matcher => matcher.competitor),
+      usage,
+      opportunities,
+      jobsScanned: jobs.length,
+      technologiesScanned: technologies.length
+    };
+  }
+
+  /**
+   * Name variants worth matching: "Okta, Inc." -> Okta; "Microsoft Entra ID (Azure AD)" -> both names
+   */
+  static aliasesFor(competitor: string): string[] {
+    const name = competitor.trim();
+    const aliases = new Set<string>();
+    const parenthetical = name.match(/\(([^)]+)\)/);
+    const base = name.replace(/\([^)]*\)/g, '').replace(CORPORATE_SUFFIX, '').trim();
+
+    if (base) aliases.add(base);
+    if (parenthetical?.[1]) aliases.add(parenthetical[1].replace(CORPORATE_SUFFIX, '').trim());
+
+    // Free-text entries ("Legacy on-prem identity tools") are not product names
+    return Array.from(aliases).filter(alias => alias.length >= 2 && alias.split(/\s+/).length <= 5);
+  }
+
+  private static buildMatchers(competitors: string[]): CompetitorMatcher[] {
+    const seen = new Set<string>();
+    const matchers: CompetitorMatcher[] = [];
+
+    for (const competitor of competitors || []) {
+      if (typeof competitor !== 'string' || seen.has(competitor.toLowerCase())) continue;
+      seen.add(competitor.toLowerCase());
+
+      const aliases = this.aliasesFor(competitor);
+      if (aliases.length === 0) continue;
+
+      matchers.push({
+        competitor: competitor.trim(),
+        aliases,
+        patterns: aliases.map(alias => this.aliasPattern(alias))
+      });
+    }
+
+    return matchers;
+  }
+
+  /**
+   * Whole-word match; short or all-caps names ("Box", "SAP") are matched case-sensitively to avoid common words
+   */
+  private static aliasPattern(alias: string): RegExp {
+    const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    const caseSensitive = alias.length <= 4 || alias === alias.toUpperCase();
+    return new RegExp(`(?<![A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, caseSensitive ? '' : 'i');
+  }
+
+  private static assessUsage(
+    matcher: CompetitorMatcher,
+    technologies: DetectedTechnology[],
+    jobs: SerpAPIJobResult[]
+  ): CompetitorUsage | undefined {
+    const evidence: DisplacementEvidence[] = [];
+    const signals: Partial<Record<DisplacementSignalKind, number>> = {};
+    const matchedAs = new Set<string>();
+    let score = 0;
+
+    const record = (kind: DisplacementSignalKind, item: DisplacementEvidence, weight = SIGNAL_WEIGHT[kind]) => {
+      signals[kind] = (signals[kind] || 0) + 1;
+      score += weight;
+      evidence.push(item);
+    };
+
+    for (const tech of technologies) {
+      const websiteEvidence = tech.evidence.filter(item => WEBSITE_SOURCES.has(item.source));
+      if (websiteEvidence.length === 0 || !this.sameProduct(tech.name, matcher)) continue;
+
+      matchedAs.add(tech.name);
+      record('website', {
+        kind: 'website',
+        detail: `${tech.name} detected on website (${websiteEvidence[0].detail})`,
+        url: websiteEvidence[0].url
+      }, SIGNAL_WEIGHT.website * tech.confidence);
+    }
+
+    let jobsMentioning = 0;
+    for (const job of jobs) {
+      const kinds = this.classifyJob(job, matcher);
+      if (kinds.length === 0) continue;
+
+      jobsMentioning++;
+      for (const { kind, detail, alias } of kinds) {
+        matchedAs.add(alias);
+        record(kind, { kind, detail, url: job.link, jobTitle: job.title });
+      }
+    }
+
+    if (score === 0) return undefined;
+
+    const depth = this.depthFor(score, signals);
+    const status: UsageStatus = signals.migrating_from ? 'leaving' : signals.migrating_to ? 'adopting' : 'in_use';
+
+    return {
+      competitor: matcher.competitor,
+      matchedAs: Array.from(matchedAs),
+      depth,
+      status,
+      score: Math.round(score * 10) / 10,
+      signals,
+      jobsMentioning,
+      summary: this.summarize(matcher.competitor, depth, status, signals, jobsMentioning),
+      evidence: this.strongestEvidence(evidence)
+    };
+  }
+
+  /**
+   * Strongest signal per sentence; a title naming the competitor counts as a dedicated role
+   */
+  private static classifyJob(
+    job: SerpAPIJobResult,
+    matcher: CompetitorMatcher
+  ): Array<{ kind: DisplacementSignalKind; detail: string; alias: string }> {
+    const found: Array<{ kind: DisplacementSignalKind; detail: string; alias: string }> = [];
+    const seenKinds = new Set<DisplacementSignalKind>();
+    const add = (kind: DisplacementSignalKind, detail: string, alias: string) => {
+      if (seenKinds.has(kind)) return;
+      seenKinds.add(kind);
+      found.push({ kind, detail, alias });
+    };
+
+    const titleAlias = this.matchAlias(job.title || '', matcher);
+    if (titleAlias) {
+      add('dedicated_role', job.title, titleAlias);
+    }
+
+    const sentences = (job.description || '')
+      .split(/(?<=[.!?;])\s+|\n+|\s+[•·▪]\s+/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+
+    for (const sentence of sentences) {
+      const alias = this.matchAlias(sentence, matcher);
+      if (!alias) continue;
+
+      add(this.sentenceKind(sentence, alias), sentence.length > 240 ? `${sentence.substring(0, 237)}...` : sentence, alias);
+    }
+
+    return found;
+  }
+
+  private static sentenceKind(sentence: string, alias: string): DisplacementSignalKind {
+    if (MIGRATION_PATTERN.test(sentence)) {
+      const name = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+      if (new RegExp(`\\b(from|off|away from|replace|replacing|sunset(ting)?|decommission(ing)?)\\s+(our\\s+|the\\s+|legacy\\s+|existing\\s+|current\\s+)*${name}`, 'i').test(sentence)) {
+        return 'migrating_from';
+      }
+      if (new RegExp(`\\b(to|onto|into)\\s+(our\\s+|the\\s+|a\\s+|new\\s+)*${name}`, 'i').test(sentence)) {
+        return 'migrating_to';
+      }
+    }
+    if (REQUIREMENT_PATTERN.test(sentence)) return 'requirement';
+    if (INTEGRATION_PATTERN.test(sentence)) return 'integration';
+    return 'mention';
+  }
+
+  private static matchAlias(text: string, matcher: CompetitorMatcher): string | undefined {
+    const index = matcher.patterns.findIndex(pattern => pattern.test(text));
+    return index >= 0 ? matcher.aliases[index] : undefined;
+  }
+
+  /**
+   * Detected technology names and competitor names refer to the same product when one contains the other
+   */
+  private static sameProduct(technology: string, matcher: CompetitorMatcher): boolean {
+    const tech = technology.toLowerCase();
+    return matcher.aliases.some(alias => {
+      const name = alias.toLowerCase();
+      return this.aliasPattern(alias).test(technology) || new RegExp(`(?<![a-z0-9])${tech.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![a-z0-9])`).test(name);
+    });
+  }
+
+  private static depthFor(score: number, signals: Partial<Record<DisplacementSignalKind, number>>): UsageDepth {
+    if (signals.dedicated_role || score >= DEEP_SCORE) return 'deep';
+    if (score >= ESTABLISHED_SCORE) return 'established';
+    return 'light';
+  }
+
+  private static summarize(
+    competitor: string,
+    depth: UsageDepth,
+    status: UsageStatus,
+    signals: Partial<Record<DisplacementSignalKind, number>>,
+    jobsMentioning: number
+  ): string {
+    const statusText = status === 'leaving' ? ', migrating away' : status === 'adopting' ? ', rolling out' : '';
+    return `${competitor} (${depth} usage${statusText}): ${this.describeSignals(signals, jobsMentioning)}`;
+  }
+
+  private static describeSignals(signals: Partial<Record<DisplacementSignalKind, number>>, jobsMentioning: number): string {
+    const parts: string[] = [];
+    if (signals.website) parts.push('detected on website');
+    if (signals.dedicated_role) parts.push(`${signals.dedicated_role} dedicated role(s)`);
+    if (signals.requirement) parts.push(`required in ${signals.requirement} job posting(s)`);
+    if (signals.integration) parts.push(`integration work in ${signals.integration} posting(s)`);
+    if (signals.migrating_from) parts.push('postings describe migrating off it');
+    if (signals.migrating_to) parts.push('postings describe moving onto it');
+    if (parts.length === 0 && jobsMentioning > 0) parts.push(`mentioned in ${jobsMentioning} job posting(s)`);
+    return parts.join('; ');
+  }
+
+  private static toOpportunity(
+    usage: CompetitorUsage,
+    vendorCompany: string | undefined,
+    vendorProducts: string[],
+    valuePropositions: string[]
+  ): DisplacementOpportunity {
+    const vendor = vendorCompany || 'our solution';
+    let priority: DisplacementOpportunity['priority'];
+    let play: string;
+    let rationale: string;
+
+    if (usage.status === 'leaving') {
+      priority = 'high';
+      play = MIGRATION_PLAY;
+      rationale = `Job postings describe moving off ${usage.competitor}; position ${vendor} as the destination before a replacement is chosen.`;
+    } else if (usage.status === 'adopting') {
+      priority = 'medium';
+      play = 'Intercept the rollout';
+      rationale = `${usage.competitor} is being rolled out; engage before the contract and integrations lock in.`;
+    } else if (usage.depth === 'deep') {
+      priority = 'medium';
+      play = 'Coexist, then displace at renewal';
+      rationale = `${usage.competitor} is entrenched (${this.describeSignals(usage.signals, usage.jobsMentioning)}); lead with a narrow use case or integration and build toward the renewal.`;
+    } else if (usage.depth === 'established') {
+      priority = 'high';
+      play = 'Head-to-head displacement';
+      rationale = `${usage.competitor} is in use but not entrenched; build the switching business case around ${vendor}'s advantages.`;
+    } else {
+      priority = 'low';
+      play = 'Displace before it spreads';
+      rationale = `Only light evidence of ${usage.competitor}; qualify how widely it is used before investing in a displacement play.`;
+    }
+
+    return {
+      competitor: usage.competitor,
+      priority,
+      play,
+      rationale,
+      vendorProducts: vendorProducts.slice(0, MAX_POSITIONING_ITEMS),
+      valuePropositions: valuePropositions.slice(0, MAX_POSITIONING_ITEMS),
+      evidence: usage.evidence
+    };
+  }
+
+  /**
+   * Most telling evidence first, at most one item per kind before repeats
+   */
+  private static strongestEvidence(evidence: DisplacementEvidence[]): DisplacementEvidence[] {
+    const ordered = [...evidence].sort((a, b) => SIGNAL_WEIGHT[b.kind] - SIGNAL_WEIGHT[a.kind]);
+    const firsts = ordered.filter((item, index) => ordered.findIndex(other => other.kind === item.kind) === index);
+    const rest = ordered.filter(item => !firsts.includes(item));
+    return [...firsts, ...rest].slice(0, MAX_EVIDENCE);
+  }
+
+  /**
+   * High before medium before low; within a priority, active migrations first
+   */
+  private static priorityRank(opportunity: DisplacementOpportunity): number {
+    const base = opportunity.priority === 'high' ? 30 : opportunity.priority === 'medium' ? 20 : 10;
+    return base + (opportunity.play === MIGRATION_PLAY ? 1 : 0);
+  }
+}
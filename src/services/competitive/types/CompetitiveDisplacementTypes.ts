@@ -0,0 +1,67 @@
+/**
+ * Competitive Displacement Types
+ *
+ * Type definitions for detecting which of the vendor's competitors a prospect already uses
+ */
+
+/**
+ * How a competitor showed up:
+ * - website: fingerprinted on the prospect's site
+ * - dedicated_role: a job title names the competitor (e.g. "Salesforce Administrator")
+ * - requirement: a job requires experience with it
+ * - integration: a job integrates with or builds on it
+ * - migrating_from / migrating_to: a job describes moving off / onto it
+ * - mention: any other mention in a job posting
+ */
+export type DisplacementSignalKind =
+  | 'website'
+  | 'dedicated_role'
+  | 'requirement'
+  | 'integration'
+  | 'migrating_from'
+  | 'migrating_to'
+  | 'mention';
+
+export type UsageDepth = 'deep' | 'established' | 'light';
+
+export type UsageStatus = 'in_use' | 'leaving' | 'adopting';
+
+export interface DisplacementEvidence {
+  kind: DisplacementSignalKind;
+  detail: string;                // Matched sentence, job title or fingerprint
+  url?: string;                  // Job posting or page where it can be checked
+  jobTitle?: string;
+}
+
+export interface CompetitorUsage {
+  competitor: string;            // As named in VendorContext.competitors
+  matchedAs: string[];           // Names that matched (aliases, detected technology names)
+  depth: UsageDepth;
+  status: UsageStatus;
+  score: number;
+  signals: Partial<Record<DisplacementSignalKind, number>>;
+  jobsMentioning: number;
+  summary: string;               // One line for competitor_context.known_usage
+  evidence: DisplacementEvidence[];
+}
+
+export interface DisplacementOpportunity {
+  competitor: string;
+  priority: 'high' | 'medium' | 'low';
+  play: string;                  // Short name of the displacement motion
+  rationale: string;
+  vendorProducts: string[];      // Vendor products to position against the incumbent
+  valuePropositions: string[];
+  evidence: DisplacementEvidence[];
+}
+
+export interface CompetitiveDisplacementReport {
+  company: string;
+  vendorCompany?: string;
+  generatedAt: string;
+  competitorsChecked: string[];
+  usage: CompetitorUsage[];
+  opportunities: DisplacementOpportunity[];
+  jobsScanned: number;
+  technologiesScanned: number;
+}
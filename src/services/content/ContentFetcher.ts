@@ -1,6 +1,6 @@
 import axios, { AxiosResponse } from 'axios';
 import * as cheerio from 'cheerio';
-import { FetchResult, RateLimitInfo } from '@/types';
+import { FetchResult, PageFetchResult, RateLimitInfo } from '@/types';
 import { Logger } from '../core/Logger';
 
 export class ContentFetcher {
@@ -8,6 +8,7 @@ export class ContentFetcher {
   private readonly rateLimitInfo: RateLimitInfo;
   private readonly robotsCache = new Map<string, boolean>();
   private readonly userAgent = 'SalesIntelligenceBot/1.0 (Research Purpose; Contact: sales@company.com)';
+  private readonly maxPageBytes = 2 * 1024 * 1024;
 
   constructor(logger: Logger, requestsPerSecond: number = 1) {
     this.logger = logger;
@@ -75,6 +76,73 @@ export class ContentFetcher {
     }
   }
 
+  /**
+   * Fetch a page's raw HTML and response headers (for fingerprinting), with the same rate limiting
+   * and robots.txt compliance as fetchContent
+   */
+  async fetchPage(url: string): Promise<PageFetchResult> {
+    const startTime = Date.now();
+
+    try {
+      if (!(await this.canFetch(url))) {
+        return {
+          url,
+          html: null,
+          headers: {},
+          error: 'Blocked by robots.txt',
+          fetchTime: Date.now() - startTime
+        };
+      }
+
+      await this.applyRateLimit();
+
+      this.logger.debug('Fetching page', { url });
+
+      const response: AxiosResponse = await axios.get(url, {
+        headers: {
+          'User-Agent': this.userAgent
+        },
+        timeout: 10000,
+        maxRedirects: 5,
+        responseType: 'text',
+        maxContentLength: this.maxPageBytes
+      });
+
+      const headers: Record<string, string | string[]> = {};
+      for (const [name, value] of Object.entries(response.headers || {})) {
+        if (value !== undefined && value !== null) {
+          headers[name.toLowerCase()] = Array.isArray(value) ? value.map(String) : String(value);
+        }
+      }
+
+      const html = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+      const fetchTime = Date.now() - startTime;
+
+      this.logger.debug('Page fetched successfully', { url, htmlLength: html.length, fetchTime });
+
+      return {
+        url: response.request?.res?.responseUrl || url,
+        html,
+        headers,
+        fetchTime,
+        statusCode: response.status
+      };
+
+    } catch (error: any) {
+      const fetchTime = Date.now() - startTime;
+      this.logger.warn('Page fetch failed', { url, error: error.message, fetchTime });
+
+      return {
+        url,
+        html: null,
+        headers: {},
+        error: error.message,
+        fetchTime,
+        statusCode: error.response?.status
+      };
+    }
+  }
+
   /**
    * Fetch multiple URLs in parallel with proper rate limiting
    */
@@ -1,53 +1,82 @@
 import { ContentAnalysis, CacheConfig } from '@/types';
 import { Logger } from './Logger';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, GetCommand, PutCommand, DeleteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
-import { CacheType, CACHE_TYPE_DISPLAY_NAMES } from '@/types/cache-types';
+import { CacheBackend, CacheRecord } from './cache/CacheBackend';
+import { CacheBackendFactory } from './cache/CacheBackendFactory';
+import { CachePayloadCodec } from './cache/CachePayloadCodec';
+import { TtlPolicyEngine } from './cache/TtlPolicyEngine';
+import { ConsumerType } from '@/types/orchestrator-types';
+import {
+  CacheType,
+  CACHE_TYPE_DISPLAY_NAMES,
+  TENANT_KEY_PREFIX,
+  TENANT_SCOPED_CACHE_TYPES,
+  STALE_WHILE_REVALIDATE_CACHE_TYPES,
+  STALE_WINDOW_HOURS,
+  CacheEntryWithFreshness,
+  inferCacheTypeFromKeyPattern
+} from '@/types/cache-types';
 
 export class CacheService {
-  private readonly dynamoClient: DynamoDBDocumentClient;
+  private readonly backend: CacheBackend;
+  private readonly payloadCodec: CachePayloadCodec;
   private readonly config: CacheConfig;
   private readonly logger: Logger;
-  private readonly tableName: string;
+  private readonly tenantId?: string;
 
-  constructor(config: CacheConfig, logger: Logger, region?: string) {
+  /**
+   * The backend (DynamoDB, memory, Redis or tiered) comes from CacheBackendFactory and the payload codec
+   * (compression, offloading to S3) from the environment, unless they are passed in
+   */
+  constructor(
+    config: CacheConfig,
+    logger: Logger,
+    region?: string,
+    options: { tenantId?: string; backend?: CacheBackend; payloadCodec?: CachePayloadCodec } = {}
+  ) {
     this.config = config;
     this.logger = logger;
-    this.tableName = process.env.CACHE_TABLE_NAME!;
-    
-    // Initialize DynamoDB client
-    const client = new DynamoDBClient({ region });
-    this.dynamoClient = DynamoDBDocumentClient.from(client);
+    this.tenantId = options.tenantId;
+    this.backend = options.backend || CacheBackendFactory.create(config, region);
+    this.payloadCodec = options.payloadCodec || CachePayloadCodec.fromEnvironment(config, region);
+  }
+
+  /**
+   * Cache restricted to one tenant: tenant-private types (TENANT_SCOPED_CACHE_TYPES) are keyed under the tenant,
+   * and reads, listings and deletes never reach another tenant's entries. Shared research data is unaffected.
+   */
+  forTenant(tenantId: string): CacheService {
+    return new CacheService(this.config, this.logger, undefined, {
+      tenantId: tenantId.replace(/:/g, '_'),
+      backend: this.backend,
+      payloadCodec: this.payloadCodec
+    });
   }
 
   /**
    * Get cached result if available and not expired
    */
   async get(key: string): Promise<ContentAnalysis | null> {
-    try {
-      const command = new GetCommand({
-        TableName: this.tableName,
-        Key: { cacheKey: key }
-      });
+    if (!this.isVisible(key)) return null;
+    key = this.scopeKey(key);
 
-      const result = await this.dynamoClient.send(command);
+    try {
+      const item = await this.readRecord(key);
       
-      if (!result.Item) {
+      if (!item) {
         this.logger.debug('Cache miss', { key });
         return null;
       }
 
       // DynamoDB TTL will automatically remove expired items, but let's double-check
-      const now = Math.floor(Date.now() / 1000);
-      if (result.Item.ttl && result.Item.ttl < now) {
+      if (this.isPastFreshness(item)) {
         this.logger.debug('Cache expired', { key });
         return null;
       }
 
       // Check if data is stored as JSON string (from setRawJSON)
-      if (typeof result.Item.data === 'string') {
+      if (typeof item.data === 'string') {
         try {
-          const parsedData = JSON.parse(result.Item.data);
+          const parsedData = JSON.parse(item.data);
           this.logger.debug('Cache hit (JSON string)', { key });
           return parsedData;
         } catch (parseError) {
@@ -58,8 +87,8 @@ export class CacheService {
 
       // Deserialize Date objects from strings (for ContentAnalysis objects)
       const deserializedData = {
-        ...result.Item.data,
-        generatedAt: new Date(result.Item.data.generatedAt)
+        ...item.data,
+        generatedAt: new Date(item.data.generatedAt)
       };
 
       this.logger.debug('Cache hit', { key });
@@ -67,7 +96,7 @@ export class CacheService {
     } catch (error) {
       this.logger.error('Cache get error', { 
         key, 
-        tableName: this.tableName,
+        backend: this.backend.type,
         error: error instanceof Error ? error.message : String(error),
         errorStack: error instanceof Error ? error.stack : undefined
       });
@@ -79,30 +108,27 @@ export class CacheService {
    * Get raw JSON data from cache (for simple data that doesn't need ContentAnalysis wrapping)
    */
   async getRawJSON(key: string): Promise<any | null> {
-    try {
-      const command = new GetCommand({
-        TableName: this.tableName,
-        Key: { cacheKey: key }
-      });
+    if (!this.isVisible(key)) return null;
+    key = this.scopeKey(key);
 
-      const result = await this.dynamoClient.send(command);
+    try {
+      const item = await this.readRecord(key);
       
-      if (!result.Item) {
+      if (!item) {
         this.logger.debug('Cache miss (raw JSON)', { key });
         return null;
       }
 
       // DynamoDB TTL will automatically remove expired items, but let's double-check
-      const now = Math.floor(Date.now() / 1000);
-      if (result.Item.ttl && result.Item.ttl < now) {
+      if (this.isPastFreshness(item)) {
         this.logger.debug('Cache expired (raw JSON)', { key });
         return null;
       }
 
       // Parse JSON string data
-      if (typeof result.Item.data === 'string') {
+      if (typeof item.data === 'string') {
         try {
-          return JSON.parse(result.Item.data);
+          return JSON.parse(item.data);
         } catch (parseError) {
           this.logger.warn('Failed to parse cached JSON data', { key, parseError });
           return null;
@@ -110,12 +136,12 @@ export class CacheService {
       }
 
       // If not string, return as-is (legacy format)
-      return result.Item.data || result.Item;
+      return item.data || item;
 
     } catch (error) {
       this.logger.error('Cache getRawJSON error', { 
         key, 
-        tableName: this.tableName,
+        backend: this.backend.type,
         error: error instanceof Error ? error.message : String(error)
       });
       return null;
@@ -123,12 +149,57 @@ export class CacheService {
   }
 
   /**
-   * Store raw JSON data in cache (for simple data that doesn't need ContentAnalysis wrapping)
+   * Get JSON data with its freshness. Unlike getRawJSON, stale-while-revalidate entries are still returned
+   * after their TTL (until the stale window closes), flagged stale so the caller can refresh them.
    */
-  async setRawJSON(key: string, data: any, cacheType: CacheType): Promise<void> {
+  async getWithFreshness<T = any>(key: string): Promise<CacheEntryWithFreshness<T> | null> {
+    if (!this.isVisible(key)) return null;
+    key = this.scopeKey(key);
+
     try {
-      const ttlHours = this.calculateTTLByType(cacheType);
-      const ttlSeconds = Math.floor(Date.now() / 1000) + (ttlHours * 60 * 60);
+      const item = await this.readRecord(key);
+      const now = Math.floor(Date.now() / 1000);
+
+      if (!item || (item.ttl && item.ttl < now)) {
+        this.logger.debug('Cache miss (with freshness)', { key });
+        return null;
+      }
+
+      const freshUntil = item.freshUntil || item.ttl;
+      const cachedAt = item.createdAt || new Date().toISOString();
+      const stale = this.isPastFreshness(item);
+
+      this.logger.debug(stale ? 'Cache hit (stale)' : 'Cache hit (fresh)', { key });
+      return {
+        data: typeof item.data === 'string' ? JSON.parse(item.data) : item.data,
+        freshness: {
+          stale,
+          cachedAt,
+          ageSeconds: Math.max(0, now - Math.floor(new Date(cachedAt).getTime() / 1000)),
+          freshUntil: new Date(freshUntil * 1000).toISOString()
+        }
+      };
+    } catch (error) {
+      this.logger.error('Cache getWithFreshness error', { 
+        key, 
+        backend: this.backend.type,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Store raw JSON data in cache (for simple data that doesn't need ContentAnalysis wrapping).
+   * consumer, when known, lets the TTL follow that consumer's dataset freshness requirements.
+   */
+  async setRawJSON(key: string, data: any, cacheType: CacheType, consumer?: ConsumerType): Promise<void> {
+    if (!this.isVisible(key)) return;
+    key = this.scopeKey(key);
+
+    try {
+      const ttlHours = this.calculateTTLByType(cacheType, consumer);
+      const expiry = this.calculateExpiry(cacheType, ttlHours);
       
       // Serialize any Date objects to strings to prevent DynamoDB errors
       const serializedData = JSON.parse(JSON.stringify(data, (key, value) => {
@@ -137,29 +208,29 @@ export class CacheService {
         }
         return value;
       }));
+
+      // Store as JSON string to avoid DynamoDB format (compressed or offloaded when large)
+      const payload = await this.payloadCodec.encode(key, JSON.stringify(serializedData));
       
-      const command = new PutCommand({
-        TableName: this.tableName,
-        Item: {
-          cacheKey: key,
-          cacheType: cacheType,
-          data: JSON.stringify(serializedData), // Store as JSON string to avoid DynamoDB format
-          ttl: ttlSeconds,
-          createdAt: new Date().toISOString()
-        }
+      await this.writeRecord({
+        cacheKey: key,
+        cacheType: cacheType,
+        ...payload,
+        ...expiry,
+        createdAt: new Date().toISOString()
       });
-
-      await this.dynamoClient.send(command);
       this.logger.debug('Cached raw JSON data', { 
         key, 
         cacheType,
         ttlHours,
-        expiresAt: new Date(ttlSeconds * 1000).toISOString()
+        responseSize: payload.responseSize,
+        storedSize: payload.storedSize,
+        expiresAt: new Date((expiry.freshUntil || expiry.ttl) * 1000).toISOString()
       });
     } catch (error) {
       this.logger.error('Cache setRawJSON error', { 
         key, 
-        tableName: this.tableName,
+        backend: this.backend.type,
         error: error instanceof Error ? error.message : String(error)
       });
     }
@@ -168,11 +239,14 @@ export class CacheService {
   /**
    * Store result in cache with explicit type classification
    */
-  async set(key: string, data: ContentAnalysis, cacheType: CacheType): Promise<void> {
+  async set(key: string, data: ContentAnalysis, cacheType: CacheType, consumer?: ConsumerType): Promise<void> {
+    if (!this.isVisible(key)) return;
+    key = this.scopeKey(key);
+
     try {
       // IMPROVED: Calculate TTL based on cache type for optimal cleanup
-      const ttlHours = this.calculateTTLByType(cacheType);
-      const ttlSeconds = Math.floor(Date.now() / 1000) + (ttlHours * 60 * 60);
+      const ttlHours = this.calculateTTLByType(cacheType, consumer);
+      const expiry = this.calculateExpiry(cacheType, ttlHours);
       
       // Serialize Date objects to strings for DynamoDB
       const serializedData = {
@@ -185,29 +259,29 @@ export class CacheService {
       
       // Determine cache type if not provided - use standardized inference
       const finalCacheType = cacheType;
+
+      // Compressed or offloaded when large
+      const payload = await this.payloadCodec.encode(key, cleanedData);
       
-      const command = new PutCommand({
-        TableName: this.tableName,
-        Item: {
-          cacheKey: key,
-          cacheType: finalCacheType,
-          data: cleanedData,
-          ttl: ttlSeconds,
-          createdAt: new Date().toISOString()
-        }
+      await this.writeRecord({
+        cacheKey: key,
+        cacheType: finalCacheType,
+        ...payload,
+        ...expiry,
+        createdAt: new Date().toISOString()
       });
-
-      await this.dynamoClient.send(command);
       this.logger.debug('Cached result with optimized TTL', { 
         key, 
         cacheType: finalCacheType,
         ttlHours,
-        expiresAt: new Date(ttlSeconds * 1000).toISOString()
+        responseSize: payload.responseSize,
+        storedSize: payload.storedSize,
+        expiresAt: new Date((expiry.freshUntil || expiry.ttl) * 1000).toISOString()
       });
     } catch (error) {
       this.logger.error('Cache set error', { 
         key, 
-        tableName: this.tableName,
+        backend: this.backend.type,
         error: error instanceof Error ? error.message : String(error),
         errorStack: error instanceof Error ? error.stack : undefined
       });
@@ -215,84 +289,65 @@ export class CacheService {
   }
 
   /**
-   * Calculate optimal TTL based on cache type (IMPROVED)
+   * Store a record and drop the offloaded payload of the one it replaced. Offloaded payloads are one object
+   * per cache key, so this only removes something when an entry that was offloaded is rewritten inline.
    */
-  private calculateTTLByType(cacheType: CacheType): number {
-    const isDevelopment = process.env.NODE_ENV === 'development';
-    
-    // Base TTL multipliers based on cache type characteristics
-    const baseTTL = isDevelopment ? 24 : 1; // 24 hours dev, 1 hour prod as base
-    
-    switch (cacheType) {
-      // Raw external API responses - shorter TTL (high volume, lower long-term value)
-      case CacheType.SERP_API_RAW_RESPONSE:
-        return baseTTL * (isDevelopment ? 7 : 6); // 7 days dev, 6 hours prod
-        
-      // Multi-source raw data cache types (NEW)
-      case CacheType.SERP_ORGANIC_RAW:
-        return baseTTL * (isDevelopment ? 7 : 24); // 7 days dev, 24 hours prod
-      case CacheType.SERP_NEWS_RAW:
-        return baseTTL * (isDevelopment ? 3 : 1); // 3 days dev, 1 hour prod (news changes fast)
-      case CacheType.SERP_JOBS_RAW:
-        return baseTTL * (isDevelopment ? 7 : 6); // 7 days dev, 6 hours prod (jobs change daily)
-      case CacheType.SERP_LINKEDIN_RAW:
-        return baseTTL * (isDevelopment ? 14 : 12); // 14 days dev, 12 hours prod (professional data)
-      case CacheType.SERP_YOUTUBE_RAW:
-        return baseTTL * (isDevelopment ? 30 : 24); // 30 days dev, 24 hours prod (content stable)
-      case CacheType.BRIGHTDATA_RAW:
-        return baseTTL * (isDevelopment ? 30 : 168); // 30 days dev, 7 days prod (expensive API)
-      case CacheType.SNOV_CONTACTS_RAW:
-      case CacheType.APOLLO_CONTACTS_RAW:
-        return baseTTL * (isDevelopment ? 60 : 720); // 60 days dev, 30 days prod (contact data stable)
-        
-      // Company enrichment - longer TTL (high reuse value, stable data)  
-      case CacheType.COMPANY_ENRICHMENT:
-        return baseTTL * (isDevelopment ? 30 : 72); // 30 days dev, 72 hours (3 days) prod
-        
-      // Lookup results - medium TTL (good reuse, but can change)
-      case CacheType.SERP_API_COMPANY_LOOKUP:
-      case CacheType.GOOGLE_KNOWLEDGE_GRAPH_LOOKUP:
-      case CacheType.COMPANY_SEARCH:
-        return baseTTL * (isDevelopment ? 14 : 24); // 14 days dev, 24 hours prod
-        
-      // Analysis and intelligence - longer TTL (expensive to generate)
-      case CacheType.COMPANY_OVERVIEW:
-      case CacheType.COMPANY_ANALYSIS: 
-      case CacheType.SALES_INTELLIGENCE_CACHE:
-        return baseTTL * (isDevelopment ? 30 : 48); // 30 days dev, 48 hours prod
-        
-      // Feature suggestions - medium TTL (useful but can evolve)
-      case CacheType.COMPETITOR_ANALYSIS:
-      case CacheType.PRODUCT_SUGGESTIONS:
-      case CacheType.DOMAIN_SUGGESTIONS:
-        return baseTTL * (isDevelopment ? 21 : 36); // 21 days dev, 36 hours prod
-        
-      // External API enrichment - medium TTL (valuable but can update)
-      case CacheType.SERP_API_COMPANY_ENRICHMENT:
-      case CacheType.GOOGLE_KNOWLEDGE_GRAPH_ENRICHMENT:
-        return baseTTL * (isDevelopment ? 21 : 48); // 21 days dev, 48 hours prod
-        
-      // Legacy types - shorter TTL (encourage migration)
-      case CacheType.COMPANY_LOOKUP_LEGACY:
-      case CacheType.COMPANY_ENRICHMENT_LEGACY:
-        return baseTTL * (isDevelopment ? 3 : 12); // 3 days dev, 12 hours prod
-        
-      // Discovery and processing - shorter TTL (can change frequently)
-      case CacheType.COMPANY_DISCOVERY:
-        return baseTTL * (isDevelopment ? 7 : 12); // 7 days dev, 12 hours prod
-        
-      // LLM Analysis Types - medium TTL (useful for debugging/auditing)
-      case CacheType.LLM_ANALYSIS:
-      case CacheType.LLM_CUSTOMER_INTELLIGENCE:
-        return baseTTL * (isDevelopment ? 14 : 24); // 14 days dev, 24 hours prod
-      case CacheType.LLM_RAW_RESPONSE:
-        return baseTTL * (isDevelopment ? 7 : 12); // 7 days dev, 12 hours prod (debugging)
-        
-      // Unknown/fallback - conservative TTL
-      case CacheType.UNKNOWN:
-      default:
-        return baseTTL * (isDevelopment ? 1 : 6); // 1 day dev, 6 hours prod
+  private async writeRecord(record: CacheRecord): Promise<void> {
+    const previous = await this.backend.set(record);
+    if (previous?.payloadRef && previous.payloadRef !== record.payloadRef) {
+      await this.payloadCodec.discard(previous);
+    }
+  }
+
+  /**
+   * Expiry attributes for a new entry. Stale-while-revalidate types stay stored for STALE_WINDOW_HOURS
+   * past their freshness so getWithFreshness can still serve them.
+   */
+  private calculateExpiry(cacheType: CacheType, ttlHours: number): Pick<CacheRecord, 'ttl' | 'freshUntil'> {
+    const freshUntil = Math.floor(Date.now() / 1000) + (ttlHours * 60 * 60);
+
+    if (!STALE_WHILE_REVALIDATE_CACHE_TYPES.includes(cacheType)) {
+      return { ttl: freshUntil };
     }
+    return { ttl: freshUntil + STALE_WINDOW_HOURS * 60 * 60, freshUntil };
+  }
+
+  /**
+   * The stored record with its payload decompressed or fetched back from the payload store. A record whose
+   * offloaded payload is gone reads as a miss.
+   */
+  private async readRecord(key: string): Promise<CacheRecord | null> {
+    const item = await this.backend.get(key);
+    if (!item) return null;
+
+    const decoded = await this.payloadCodec.decode(item);
+    if (!decoded) {
+      this.logger.warn('Cache payload missing', { key, payloadRef: item.payloadRef });
+    }
+    return decoded;
+  }
+
+  /**
+   * Payload size in bytes before compression - recorded at write time, measured for older entries
+   */
+  private getResponseSize(item: CacheRecord): number {
+    if (item.responseSize !== undefined) return item.responseSize;
+    return Buffer.byteLength(typeof item.data === 'string' ? item.data : JSON.stringify(item.data || {}), 'utf8');
+  }
+
+  /**
+   * Past its TTL: expired for plain reads, stale (or gone) for getWithFreshness
+   */
+  private isPastFreshness(item: CacheRecord): boolean {
+    const expiresAt = item.freshUntil || item.ttl;
+    return !!expiresAt && expiresAt < Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * TTL from the policy engine, with this instance's tenant overrides
+   */
+  private calculateTTLByType(cacheType: CacheType, consumer?: ConsumerType): number {
+    return TtlPolicyEngine.resolve(cacheType, { consumer, tenantId: this.tenantId }).ttlHours;
   }
 
   /**
@@ -326,24 +381,19 @@ export class CacheService {
   async clear(): Promise<void> {
     try {
       // Note: This is expensive for large tables. In production, consider using batch operations.
-      const scanCommand = new ScanCommand({
-        TableName: this.tableName,
-        ProjectionExpression: 'cacheKey'
-      });
-
-      const result = await this.dynamoClient.send(scanCommand);
+      // A tenant clears only its own entries; shared research data stays
+      const items = (await this.backend.scan())
+        .filter(item => !this.tenantId || item.cacheKey.startsWith(this.tenantPrefix()));
       
-      if (result.Items && result.Items.length > 0) {
+      if (items.length > 0) {
         // Delete items in batches
-        const deletePromises = result.Items.map((item: any) => 
-          this.dynamoClient.send(new DeleteCommand({
-            TableName: this.tableName,
-            Key: { cacheKey: item.cacheKey }
-          }))
-        );
+        const deletePromises = items.map(async item => {
+          await this.backend.delete(item.cacheKey);
+          await this.payloadCodec.discard(item);
+        });
 
         await Promise.all(deletePromises);
-        this.logger.info('Cache cleared', { deletedCount: result.Items.length });
+        this.logger.info('Cache cleared', { deletedCount: items.length });
       } else {
         this.logger.info('Cache already empty');
       }
@@ -389,18 +439,9 @@ export class CacheService {
     }>;
   }> {
     try {
-      const scanCommand = new ScanCommand({
-        TableName: this.tableName,
-        ProjectionExpression: 'cacheKey, #data, #ttl, cacheType, createdAt',
-        ExpressionAttributeNames: {
-          '#data': 'data',
-          '#ttl': 'ttl'
-        }
-      });
-
-      const result = await this.dynamoClient.send(scanCommand);
+      const items = (await this.backend.scan()).filter(item => this.isVisible(item.cacheKey));
       
-      if (!result.Items || result.Items.length === 0) {
+      if (items.length === 0) {
         return this.getEmptyStats();
       }
 
@@ -409,26 +450,22 @@ export class CacheService {
       const oneHour = 3600;
       const twentyFourHours = 86400;
       
-              const entries = result.Items.map((item: any) => {
+              const entries = items.map((item: any) => {
         const key = item.cacheKey;
         const type = this.getCacheType(item);
         
         // Handle different data formats robustly
-        let dataStr: string;
         let createdAt: string;
         let sizeBytes: number;
         
         try {
-          // Convert data to string for size calculation
-          dataStr = JSON.stringify(item.data || {});
-          sizeBytes = Buffer.byteLength(dataStr, 'utf8');
+          sizeBytes = this.getResponseSize(item);
           
           // Extract creation timestamp from different possible locations
           createdAt = this.extractCreatedAt(item);
           
         } catch (error) {
           this.logger.warn('Error processing cache entry', { key, error: String(error) });
-          dataStr = '{}';
           sizeBytes = 2; // Empty JSON object
           createdAt = new Date().toISOString();
         }
@@ -632,27 +669,18 @@ export class CacheService {
     filtered: boolean;
   }> {
     try {
-      const scanCommand = new ScanCommand({
-        TableName: this.tableName,
-        ProjectionExpression: 'cacheKey, #data, #ttl, cacheType, createdAt',
-        ExpressionAttributeNames: {
-          '#data': 'data',
-          '#ttl': 'ttl'
-        },
-        Limit: limit * 2 // Get more to filter, then trim
-      });
-
-      const result = await this.dynamoClient.send(scanCommand);
+      const items = (await this.backend.scan({ limit: limit * 2 })) // Get more to filter, then trim
+        .filter(item => this.isVisible(item.cacheKey));
       
-      if (!result.Items) {
+      if (items.length === 0) {
         return { keys: [], total: 0, filtered: false };
       }
 
       // Process and filter results
-      let keys = result.Items.map((item: any) => {
+      let keys = items.map((item: any) => {
         const key = item.cacheKey;
         const type = this.getCacheType(item);
-        const dataSize = JSON.stringify(item.data).length;
+        const dataSize = this.getResponseSize(item);
         const createdAt = item.data?.generatedAt || new Date().toISOString();
 
         return {
@@ -708,29 +736,31 @@ export class CacheService {
     data: any;
     metadata: {
       size: number;
+      storedSize: number;
+      encoding?: string;
+      payloadRef?: string;
       ttl: number;
       createdAt: string;
       expiresAt: string;
+      freshUntil?: string;
+      stale?: boolean;
     };
   } | null> {
-    try {
-      const command = new GetCommand({
-        TableName: this.tableName,
-        Key: { cacheKey: key }
-      });
+    if (!this.isVisible(key)) return null;
+    key = this.scopeKey(key);
 
-      const result = await this.dynamoClient.send(command);
+    try {
+      const item = await this.readRecord(key);
       
-      if (!result.Item) {
+      if (!item) {
         this.logger.debug('Cache entry not found for inspection', { key });
         return null;
       }
 
-      const type = this.getCacheType(result.Item);
-      const dataStr = JSON.stringify(result.Item.data);
-      const size = dataStr.length;
-      const ttl = result.Item.ttl || 0;
-      const createdAt = result.Item.data?.generatedAt || new Date().toISOString();
+      const type = this.getCacheType(item);
+      const size = this.getResponseSize(item);
+      const ttl = item.ttl || 0;
+      const createdAt = item.data?.generatedAt || new Date().toISOString();
       const expiresAt = new Date(ttl * 1000).toISOString();
 
       this.logger.info('Cache entry inspected', { key, type, size });
@@ -738,12 +768,19 @@ export class CacheService {
       return {
         key,
         type,
-        data: result.Item.data,
+        data: item.data,
         metadata: {
           size,
+          storedSize: item.storedSize ?? size,
+          ...(item.encoding ? { encoding: item.encoding } : {}),
+          ...(item.payloadRef ? { payloadRef: item.payloadRef } : {}),
           ttl,
           createdAt,
-          expiresAt
+          expiresAt,
+          ...(item.freshUntil ? {
+            freshUntil: new Date(item.freshUntil * 1000).toISOString(),
+            stale: this.isPastFreshness(item)
+          } : {})
         }
       };
     } catch (error) {
@@ -765,17 +802,9 @@ export class CacheService {
     totalEntries: number;
   }> {
     try {
-      const scanCommand = new ScanCommand({
-        TableName: this.tableName,
-        ProjectionExpression: 'cacheKey, #data, cacheType, createdAt',
-        ExpressionAttributeNames: {
-          '#data': 'data'
-        }
-      });
-
-      const result = await this.dynamoClient.send(scanCommand);
+      const items = (await this.backend.scan()).filter(item => this.isVisible(item.cacheKey));
       
-      if (!result.Items) {
+      if (items.length === 0) {
         return { types: [], totalEntries: 0 };
       }
 
@@ -786,10 +815,10 @@ export class CacheService {
         examples: string[];
       }>();
 
-      result.Items.forEach((item: any) => {
+      items.forEach((item: any) => {
         const key = item.cacheKey;
         const type = this.getCacheType(item);
-        const size = JSON.stringify(item.data).length;
+        const size = this.getResponseSize(item);
 
         if (!typeMap.has(type)) {
           typeMap.set(type, {
@@ -820,12 +849,12 @@ export class CacheService {
 
       this.logger.info('Cache type summary generated', { 
         typeCount: types.length, 
-        totalEntries: result.Items.length 
+        totalEntries: items.length 
       });
 
       return {
         types,
-        totalEntries: result.Items.length
+        totalEntries: items.length
       };
     } catch (error) {
       this.logger.error('Cache type summary error', { error });
@@ -841,6 +870,25 @@ export class CacheService {
       return item.cacheType || 'unknown';
   }
 
+  /**
+   * Tenant-private keys get the tenant prefix when this instance is scoped to a tenant
+   */
+  private scopeKey(key: string): string {
+    if (!this.tenantId || key.startsWith(TENANT_KEY_PREFIX)) return key;
+    return TENANT_SCOPED_CACHE_TYPES.includes(inferCacheTypeFromKeyPattern(key)) ? `${this.tenantPrefix()}${key}` : key;
+  }
+
+  /**
+   * Shared entries are visible to everyone; tenant entries only to their tenant (and unscoped instances)
+   */
+  private isVisible(key: string): boolean {
+    return !this.tenantId || !key.startsWith(TENANT_KEY_PREFIX) || key.startsWith(this.tenantPrefix());
+  }
+
+  private tenantPrefix(): string {
+    return `${TENANT_KEY_PREFIX}${this.tenantId}:`;
+  }
+
   /**
    * Health check for cache service
    */
@@ -859,19 +907,59 @@ export class CacheService {
    * Remove a specific cache entry
    */
   async delete(key: string): Promise<void> {
-    try {
-      const command = new DeleteCommand({
-        TableName: this.tableName,
-        Key: { cacheKey: key }
-      });
+    if (!this.isVisible(key)) return;
+    key = this.scopeKey(key);
 
-      await this.dynamoClient.send(command);
+    try {
+      const item = await this.backend.get(key);
+      await this.backend.delete(key);
+      if (item) await this.payloadCodec.discard(item);
       this.logger.debug('Cache entry deleted', { key });
     } catch (error) {
       this.logger.error('Cache delete error', { key, error });
     }
   }
 
+  /**
+   * Take the single-flight lock guarding key: true when owner now holds it, false while another owner does.
+   * The lock lapses after ttlSeconds so a crashed holder can't block everyone. Backend errors are thrown,
+   * leaving the caller to decide whether to proceed without the lock.
+   */
+  async acquireLock(key: string, owner: string, ttlSeconds: number): Promise<boolean> {
+    const acquired = await this.backend.setIfAbsent({
+      cacheKey: this.lockKey(key),
+      cacheType: CacheType.CACHE_LOCK,
+      data: owner,
+      ttl: Math.floor(Date.now() / 1000) + ttlSeconds,
+      createdAt: new Date().toISOString()
+    });
+
+    this.logger.debug(acquired ? 'Lock acquired' : 'Lock held elsewhere', { key, owner });
+    return acquired;
+  }
+
+  /**
+   * Release a lock taken with acquireLock; a no-op once it has lapsed or passed to another owner
+   */
+  async releaseLock(key: string, owner: string): Promise<void> {
+    try {
+      await this.backend.deleteIf(this.lockKey(key), owner);
+    } catch (error) {
+      // The lock lapses on its own; waiters just wait a little longer
+      this.logger.warn('Lock release failed', {
+        key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Storage key of the lock guarding key (tenant-scoped like the key itself)
+   */
+  lockKey(key: string): string {
+    return `lock:${this.scopeKey(key)}`;
+  }
+
   /**
    * Get multiple cache entries by keys
    */
@@ -0,0 +1,66 @@
+/**
+ * Cache Backend
+ *
+ * Storage under CacheService. CacheService keeps the cache semantics (TTL by type, serialization,
+ * tenant scoping, stats, listings and type summaries); a backend only stores, finds, scans and
+ * deletes records, so every CacheService operation works the same on every backend.
+ */
+
+export type CacheCompression = 'gzip' | 'br';
+
+/**
+ * One cache entry as stored. data is the JSON string written by setRawJSON or the object written by set -
+ * unless CachePayloadCodec compressed it (base64 of the compressed JSON, with encoding set) or moved it
+ * to the payload store (null, with payloadRef set).
+ */
+export interface CacheRecord {
+  cacheKey: string;
+  cacheType: string;
+  data: any;
+  ttl: number;            // Expiry, epoch seconds
+  createdAt: string;
+  freshUntil?: number;    // Stale-while-revalidate types: end of freshness, epoch seconds (ttl adds the stale window)
+  encoding?: CacheCompression;
+  payloadRef?: string;    // Where an offloaded payload lives (s3://... or file://...)
+  responseSize?: number;  // Payload size before compression, bytes
+  storedSize?: number;    // Payload size as stored, in the record or the payload store, bytes
+}
+
+export interface CacheScanOptions {
+  limit?: number;       // Upper bound on records returned; backends may return fewer
+}
+
+export type CacheBackendType = 'dynamodb' | 'memory' | 'redis' | 'tiered';
+
+export interface CacheBackend {
+  readonly type: CacheBackendType;
+
+  /**
+   * The record under key, or null. Expired records may be returned; CacheService checks ttl.
+   */
+  get(key: string): Promise<CacheRecord | null>;
+
+  /**
+   * Store the record, replacing whatever held its key. Returns the replaced record (null when there was
+   * none), so the caller can clean up an offloaded payload it no longer references.
+   */
+  set(record: CacheRecord): Promise<CacheRecord | null>;
+
+  delete(key: string): Promise<void>;
+
+  /**
+   * Store the record only if no live record (ttl still ahead) holds its key - the conditional write behind
+   * single-flight locks. True when stored.
+   */
+  setIfAbsent(record: CacheRecord): Promise<boolean>;
+
+  /**
+   * Delete the key only while its data still equals data, so a lock is only released by its owner
+   */
+  deleteIf(key: string, data: string): Promise<void>;
+
+  /**
+   * Records in no particular order (one DynamoDB scan page, the whole in-memory store, a Redis SCAN)
+   */
+  scan(options?: CacheScanOptions): Promise<CacheRecord[]>;
+}
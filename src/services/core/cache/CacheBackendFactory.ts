@@ -0,0 +1,81 @@
+import { CacheConfig } from '@/types';
+import { CacheBackend, CacheBackendType } from './CacheBackend';
+import { DynamoDBCacheBackend } from './DynamoDBCacheBackend';
+import { MemoryCacheBackend } from './MemoryCacheBackend';
+import { RedisCacheBackend } from './RedisCacheBackend';
+import { RespClient } from './RespClient';
+import { TieredCacheBackend } from './TieredCacheBackend';
+
+const BACKEND_TYPES: CacheBackendType[] = ['dynamodb', 'memory', 'redis', 'tiered'];
+const DEFAULT_L1_MAX_AGE_SECONDS = 60;
+
+/**
+ * Picks the cache backend: CacheConfig.backend, else CACHE_BACKEND, else DynamoDB.
+ *
+ *   dynamodb  CACHE_TABLE_NAME
+ *   memory    In-process LRU sized by maxEntries - no AWS needed (local development, tests)
+ *   redis     CACHE_REDIS_URL (redis:// or rediss://), keys under CACHE_REDIS_PREFIX (default cache:)
+ *   tiered    In-process L1 (maxEntries, CACHE_L1_MAX_AGE_SECONDS, default 60) in front of DynamoDB
+ *
+ * In-process stores and Redis connections are shared per container, so every CacheService sees the
+ * same memory cache and warm invocations reuse the L1 and the connection.
+ */
+export class CacheBackendFactory {
+  private static memoryBackend?: MemoryCacheBackend;
+  private static l1Backend?: MemoryCacheBackend;
+  private static redisClients = new Map<string, RespClient>();
+
+  private constructor() {}
+
+  static create(config: CacheConfig, region?: string): CacheBackend {
+    const type = CacheBackendFactory.resolveType(config);
+
+    switch (type) {
+      case 'memory':
+        if (!CacheBackendFactory.memoryBackend) {
+          CacheBackendFactory.memoryBackend = new MemoryCacheBackend(config.maxEntries);
+        }
+        return CacheBackendFactory.memoryBackend;
+
+      case 'redis':
+        return new RedisCacheBackend(
+          CacheBackendFactory.redisClient(),
+          process.env.CACHE_REDIS_PREFIX || 'cache:'
+        );
+
+      case 'tiered':
+        if (!CacheBackendFactory.l1Backend) {
+          const maxAgeSeconds = parseInt(process.env.CACHE_L1_MAX_AGE_SECONDS || '') || DEFAULT_L1_MAX_AGE_SECONDS;
+          CacheBackendFactory.l1Backend = new MemoryCacheBackend(config.maxEntries, maxAgeSeconds);
+        }
+        return new TieredCacheBackend(CacheBackendFactory.l1Backend, new DynamoDBCacheBackend(region));
+
+      case 'dynamodb':
+        return new DynamoDBCacheBackend(region);
+    }
+  }
+
+  static resolveType(config: Pick<CacheConfig, 'backend'>): CacheBackendType {
+    const configured = config.backend || process.env.CACHE_BACKEND;
+    if (!configured) return 'dynamodb';
+
+    if (!BACKEND_TYPES.includes(configured as CacheBackendType)) {
+      throw new Error(`Unknown cache backend "${configured}" (expected ${BACKEND_TYPES.join(', ')})`);
+    }
+    return configured as CacheBackendType;
+  }
+
+  private static redisClient(): RespClient {
+    const url = process.env.CACHE_REDIS_URL;
+    if (!url) {
+      throw new Error('CACHE_REDIS_URL is required for the redis cache backend');
+    }
+
+    let client = CacheBackendFactory.redisClients.get(url);
+    if (!client) {
+      client = new RespClient(url);
+      CacheBackendFactory.redisClients.set(url, client);
+    }
+    return client;
+  }
+}
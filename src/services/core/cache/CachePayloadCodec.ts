@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { CacheConfig } from '@/types';
+import { CacheCompression, CacheRecord } from './CacheBackend';
+import { PayloadStore } from './PayloadStore';
+import { S3PayloadStore } from './S3PayloadStore';
+import { FileSystemPayloadStore } from './FileSystemPayloadStore';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+const COMPRESSIONS: CacheCompression[] = ['gzip', 'br'];
+const DEFAULT_COMPRESSION_THRESHOLD_BYTES = 4096;
+const DEFAULT_MAX_ITEM_BYTES = 350 * 1024; // Leaves room under DynamoDB's 400KB for the other attributes
+const BROTLI_QUALITY = 5;                  // Default 11 is too slow for request paths
+
+export interface CachePayloadConfig {
+  compressionEnabled: boolean;
+  compression: CacheCompression;
+  compressionThresholdBytes: number;   // Payloads smaller than this are stored as they are
+  maxItemBytes: number;                // Larger (stored) payloads go to the payload store
+}
+
+export type EncodedPayload = Pick<CacheRecord, 'data' | 'encoding' | 'payloadRef' | 'responseSize' | 'storedSize'>;
+
+/**
+ * Turns cache payloads into what a record stores, and back:
+ *
+ *   below compressionThresholdBytes   data as given
+ *   above it                          gzip or brotli of the JSON, base64 in data
+ *   still above maxItemBytes          the (compressed) bytes in the payload store, payloadRef in the record
+ *
+ * Every encoded payload records responseSize (before compression) and storedSize, so sizes stay
+ * accurate without decoding.
+ */
+export class CachePayloadCodec {
+  constructor(
+    private readonly config: CachePayloadConfig,
+    private readonly store: PayloadStore
+  ) {}
+
+  /**
+   * From CacheConfig.compressionEnabled and the environment:
+   *
+   *   CACHE_COMPRESSION                  gzip (default) or br
+   *   CACHE_COMPRESSION_THRESHOLD_BYTES  default 4096
+   *   CACHE_MAX_ITEM_BYTES               default 358400 (350KB)
+   *   CACHE_PAYLOAD_BUCKET               S3 bucket for offloaded payloads; without it they are files under
+   *   CACHE_PAYLOAD_DIR                  (default {tmpdir}/sales-intelligence-cache-payloads)
+   */
+  static fromEnvironment(config: Pick<CacheConfig, 'compressionEnabled'>, region?: string): CachePayloadCodec {
+    const compression = (process.env.CACHE_COMPRESSION || 'gzip') as CacheCompression;
+    if (!COMPRESSIONS.includes(compression)) {
+      throw new Error(`Unknown cache compression "${compression}" (expected ${COMPRESSIONS.join(', ')})`);
+    }
+
+    const store: PayloadStore = process.env.CACHE_PAYLOAD_BUCKET
+      ? new S3PayloadStore(process.env.CACHE_PAYLOAD_BUCKET, region)
+      : new FileSystemPayloadStore(
+        process.env.CACHE_PAYLOAD_DIR || path.join(tmpdir(), 'sales-intelligence-cache-payloads')
+      );
+
+    return new CachePayloadCodec({
+      compressionEnabled: config.compressionEnabled,
+      compression,
+      compressionThresholdBytes: parseInt(process.env.CACHE_COMPRESSION_THRESHOLD_BYTES || '') || DEFAULT_COMPRESSION_THRESHOLD_BYTES,
+      maxItemBytes: parseInt(process.env.CACHE_MAX_ITEM_BYTES || '') || DEFAULT_MAX_ITEM_BYTES
+    }, store);
+  }
+
+  async encode(cacheKey: string, data: any): Promise<EncodedPayload> {
+    const json = JSON.stringify(data);
+    const responseSize = Buffer.byteLength(typeof data === 'string' ? data : json, 'utf8');
+
+    if (!this.config.compressionEnabled || responseSize < this.config.compressionThresholdBytes) {
+      if (responseSize <= this.config.maxItemBytes) {
+        return { data, responseSize, storedSize: responseSize };
+      }
+      return this.offload(cacheKey, Buffer.from(json, 'utf8'), responseSize);
+    }
+
+    const compressed = await this.compress(json);
+    const encoded = compressed.toString('base64');
+    if (encoded.length <= this.config.maxItemBytes) {
+      return { data: encoded, encoding: this.config.compression, responseSize, storedSize: encoded.length };
+    }
+    return this.offload(cacheKey, compressed, responseSize, this.config.compression);
+  }
+
+  /**
+   * The record with data as it was given to encode, or null when its offloaded payload is gone
+   */
+  async decode(record: CacheRecord): Promise<CacheRecord | null> {
+    if (!record.encoding && !record.payloadRef) return record;
+
+    const body = record.payloadRef
+      ? await this.store.get(record.payloadRef)
+      : Buffer.from(record.data, 'base64');
+    if (!body) return null;
+
+    const json = record.encoding ? await this.decompress(body, record.encoding) : body.toString('utf8');
+    return { ...record, data: JSON.parse(json) };
+  }
+
+  /**
+   * Remove the record's offloaded payload, if it has one
+   */
+  async discard(record: Pick<CacheRecord, 'payloadRef'>): Promise<void> {
+    if (record.payloadRef) {
+      await this.store.delete(record.payloadRef);
+    }
+  }
+
+  private async offload(
+    cacheKey: string,
+    body: Buffer,
+    responseSize: number,
+    encoding?: CacheCompression
+  ): Promise<EncodedPayload> {
+    // One object per cache key, so rewriting an entry replaces its payload
+    const objectKey = createHash('sha256').update(cacheKey).digest('hex');
+    const payloadRef = await this.store.put(objectKey, body);
+
+    return { data: null, ...(encoding ? { encoding } : {}), payloadRef, responseSize, storedSize: body.length };
+  }
+
+  private compress(json: string): Promise<Buffer> {
+    return this.config.compression === 'br'
+      ? brotliCompress(json, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: BROTLI_QUALITY } })
+      : gzip(json);
+  }
+
+  private async decompress(body: Buffer, encoding: CacheCompression): Promise<string> {
+    const inflated = encoding === 'br' ? await brotliDecompress(body) : await gunzip(body);
+    return inflated.toString('utf8');
+  }
+}
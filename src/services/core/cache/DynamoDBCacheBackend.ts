@@ -0,0 +1,94 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, DeleteCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { CacheBackend, CacheRecord, CacheScanOptions } from './CacheBackend';
+
+/**
+ * DynamoDB cache table (CACHE_TABLE_NAME), keyed by cacheKey with DynamoDB TTL on ttl
+ */
+export class DynamoDBCacheBackend implements CacheBackend {
+  readonly type = 'dynamodb' as const;
+  private readonly dynamoClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(region?: string, tableName: string = process.env.CACHE_TABLE_NAME!) {
+    this.dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region }), {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+    this.tableName = tableName;
+  }
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const result = await this.dynamoClient.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { cacheKey: key }
+    }));
+
+    return (result.Item as CacheRecord) || null;
+  }
+
+  async set(record: CacheRecord): Promise<CacheRecord | null> {
+    const result = await this.dynamoClient.send(new PutCommand({
+      TableName: this.tableName,
+      Item: record,
+      ReturnValues: 'ALL_OLD'
+    }));
+
+    return (result.Attributes as CacheRecord) || null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.dynamoClient.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { cacheKey: key }
+    }));
+  }
+
+  async setIfAbsent(record: CacheRecord): Promise<boolean> {
+    try {
+      await this.dynamoClient.send(new PutCommand({
+        TableName: this.tableName,
+        Item: record,
+        // DynamoDB TTL deletes lazily, so an expired record still counts as absent
+        ConditionExpression: 'attribute_not_exists(cacheKey) OR #ttl < :now',
+        ExpressionAttributeNames: { '#ttl': 'ttl' },
+        ExpressionAttributeValues: { ':now': Math.floor(Date.now() / 1000) }
+      }));
+      return true;
+    } catch (error) {
+      if (this.isConditionFailure(error)) return false;
+      throw error;
+    }
+  }
+
+  async deleteIf(key: string, data: string): Promise<void> {
+    try {
+      await this.dynamoClient.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { cacheKey: key },
+        ConditionExpression: '#data = :data',
+        ExpressionAttributeNames: { '#data': 'data' },
+        ExpressionAttributeValues: { ':data': data }
+      }));
+    } catch (error) {
+      if (!this.isConditionFailure(error)) throw error;
+    }
+  }
+
+  async scan(options: CacheScanOptions = {}): Promise<CacheRecord[]> {
+    const result = await this.dynamoClient.send(new ScanCommand({
+      TableName: this.tableName,
+      ProjectionExpression: 'cacheKey, #data, #ttl, cacheType, createdAt, freshUntil, encoding, payloadRef, responseSize, storedSize',
+      ExpressionAttributeNames: {
+        '#data': 'data',
+        '#ttl': 'ttl'
+      },
+      Limit: options.limit
+    }));
+
+    return (result.Items || []) as CacheRecord[];
+  }
+
+  private isConditionFailure(error: unknown): boolean {
+    return error instanceof Error && error.name === 'ConditionalCheckFailedException';
+  }
+}
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PayloadStore } from './PayloadStore';
+
+const REF_PREFIX = 'file://';
+
+/**
+ * Payloads as files under a local directory (CACHE_PAYLOAD_DIR) - the stand-in for S3 in local
+ * development and tests. In Lambda the directory is per container, so other containers see a miss.
+ */
+export class FileSystemPayloadStore implements PayloadStore {
+  readonly type = 'filesystem' as const;
+
+  constructor(private readonly directory: string) {}
+
+  async put(key: string, body: Buffer): Promise<string> {
+    const filePath = path.resolve(this.directory, key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return `${REF_PREFIX}${filePath}`;
+  }
+
+  async get(ref: string): Promise<Buffer | null> {
+    if (!ref.startsWith(REF_PREFIX)) return null;
+
+    try {
+      return await fs.readFile(ref.slice(REF_PREFIX.length));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(ref: string): Promise<void> {
+    if (!ref.startsWith(REF_PREFIX)) return;
+
+    await fs.rm(ref.slice(REF_PREFIX.length), { force: true });
+  }
+}
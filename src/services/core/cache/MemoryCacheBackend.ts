@@ -0,0 +1,106 @@
+import { CacheBackend, CacheRecord, CacheScanOptions } from './CacheBackend';
+
+interface MemoryEntry {
+  record: CacheRecord;
+  expiresAt: number;    // Epoch seconds: the record's ttl, or sooner with maxAgeSeconds
+}
+
+/**
+ * In-process LRU with TTL - for local development and tests, and as the L1 of the tiered backend.
+ * Records are copied in and out so callers can't mutate what is cached.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly type = 'memory' as const;
+  private readonly entries = new Map<string, MemoryEntry>(); // Insertion order = least recently used first
+
+  /**
+   * @param maxEntries LRU capacity
+   * @param maxAgeSeconds Keep records at most this long regardless of their ttl (L1 staleness bound)
+   */
+  constructor(
+    private readonly maxEntries: number,
+    private readonly maxAgeSeconds?: number
+  ) {}
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expiresAt > 0 && entry.expiresAt <= this.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return this.copy(entry.record);
+  }
+
+  async set(record: CacheRecord): Promise<CacheRecord | null> {
+    const maxAgeExpiry = this.maxAgeSeconds ? this.now() + this.maxAgeSeconds : 0;
+    const expiresAt = maxAgeExpiry && (!record.ttl || maxAgeExpiry < record.ttl) ? maxAgeExpiry : record.ttl;
+
+    const previous = this.entries.get(record.cacheKey);
+    this.entries.delete(record.cacheKey);
+    this.entries.set(record.cacheKey, { record: this.copy(record), expiresAt });
+    this.evict();
+    return previous ? previous.record : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async setIfAbsent(record: CacheRecord): Promise<boolean> {
+    const entry = this.entries.get(record.cacheKey);
+    if (entry && !(entry.expiresAt > 0 && entry.expiresAt <= this.now())) {
+      return false;
+    }
+
+    await this.set(record);
+    return true;
+  }
+
+  async deleteIf(key: string, data: string): Promise<void> {
+    if (this.entries.get(key)?.record.data === data) {
+      this.entries.delete(key);
+    }
+  }
+
+  async scan(options: CacheScanOptions = {}): Promise<CacheRecord[]> {
+    const now = this.now();
+    const records: CacheRecord[] = [];
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > 0 && entry.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      records.push(this.copy(entry.record));
+      if (options.limit && records.length >= options.limit) break;
+    }
+
+    return records;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private copy(record: CacheRecord): CacheRecord {
+    return typeof record.data === 'object' && record.data !== null
+      ? { ...record, data: JSON.parse(JSON.stringify(record.data)) }
+      : { ...record };
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+}
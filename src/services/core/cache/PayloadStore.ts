@@ -0,0 +1,24 @@
+/**
+ * Payload Store
+ *
+ * Object storage for cache payloads too large for a cache record (DynamoDB items stop at 400KB).
+ * The record keeps a payloadRef and CachePayloadCodec reads the bytes back through the store.
+ */
+
+export type PayloadStoreType = 's3' | 'filesystem';
+
+export interface PayloadStore {
+  readonly type: PayloadStoreType;
+
+  /**
+   * Store body under key, replacing what was there. Returns the ref kept on the cache record.
+   */
+  put(key: string, body: Buffer): Promise<string>;
+
+  /**
+   * The bytes behind ref, or null when the object is gone (or ref belongs to another store)
+   */
+  get(ref: string): Promise<Buffer | null>;
+
+  delete(ref: string): Promise<void>;
+}
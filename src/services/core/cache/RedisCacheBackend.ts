@@ -0,0 +1,110 @@
+import { CacheBackend, CacheRecord, CacheScanOptions } from './CacheBackend';
+import { RespClient, RespValue } from './RespClient';
+
+const SCAN_BATCH_SIZE = 200;
+const MGET_BATCH_SIZE = 100;
+const DEFAULT_SCAN_LIMIT = 10000;
+
+// Compare-and-delete in one step; records are JSON, so the comparison is on the decoded data field
+const DELETE_IF_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if value and cjson.decode(value).data == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+// Write (or, for an already expired record, delete) and hand back the value it replaced. ARGV[2] is the
+// seconds left, empty for no expiry.
+const SET_SCRIPT = `
+local previous = redis.call('GET', KEYS[1])
+if ARGV[2] == '' then
+  redis.call('SET', KEYS[1], ARGV[1])
+elseif tonumber(ARGV[2]) > 0 then
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[2])
+else
+  redis.call('DEL', KEYS[1])
+end
+return previous`;
+
+/**
+ * Redis-protocol cache (CACHE_REDIS_URL). Each record is a JSON string under {prefix}{cacheKey},
+ * expired by Redis itself via EX.
+ */
+export class RedisCacheBackend implements CacheBackend {
+  readonly type = 'redis' as const;
+
+  constructor(
+    private readonly client: RespClient,
+    private readonly prefix: string = 'cache:'
+  ) {}
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const value = await this.client.command('GET', this.prefix + key);
+    return this.parseRecord(value);
+  }
+
+  async set(record: CacheRecord): Promise<CacheRecord | null> {
+    const secondsLeft = record.ttl ? record.ttl - Math.floor(Date.now() / 1000) : '';
+    const previous = await this.client.command(
+      'EVAL', SET_SCRIPT, 1, this.prefix + record.cacheKey, JSON.stringify(record), secondsLeft
+    );
+    return this.parseRecord(previous);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + key);
+  }
+
+  async setIfAbsent(record: CacheRecord): Promise<boolean> {
+    const key = this.prefix + record.cacheKey;
+    const secondsLeft = record.ttl - Math.floor(Date.now() / 1000);
+    if (record.ttl && secondsLeft <= 0) return false;
+
+    const reply = record.ttl
+      ? await this.client.command('SET', key, JSON.stringify(record), 'NX', 'EX', secondsLeft)
+      : await this.client.command('SET', key, JSON.stringify(record), 'NX');
+    return reply === 'OK';
+  }
+
+  async deleteIf(key: string, data: string): Promise<void> {
+    await this.client.command('EVAL', DELETE_IF_SCRIPT, 1, this.prefix + key, data);
+  }
+
+  async scan(options: CacheScanOptions = {}): Promise<CacheRecord[]> {
+    const limit = options.limit || DEFAULT_SCAN_LIMIT;
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const reply = await this.client.command('SCAN', cursor, 'MATCH', `${this.escapePattern(this.prefix)}*`, 'COUNT', SCAN_BATCH_SIZE);
+      const [nextCursor, batch] = reply as [string, string[]];
+      cursor = nextCursor;
+      keys.push(...batch);
+    } while (cursor !== '0' && keys.length < limit);
+
+    const records: CacheRecord[] = [];
+    const selected = keys.slice(0, limit);
+    for (let i = 0; i < selected.length; i += MGET_BATCH_SIZE) {
+      const values = await this.client.command('MGET', ...selected.slice(i, i + MGET_BATCH_SIZE)) as RespValue[];
+      for (const value of values) {
+        const record = this.parseRecord(value);
+        if (record) records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  private parseRecord(value: RespValue): CacheRecord | null {
+    if (typeof value !== 'string') return null;
+    try {
+      return JSON.parse(value) as CacheRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  private escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,181 @@
+import * as net from 'net';
+import * as tls from 'tls';
+
+export type RespValue = string | number | null | RespValue[];
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 2000;
+
+/**
+ * Minimal Redis protocol (RESP2) client - enough for the cache backend: pipelined commands over one
+ * connection, AUTH/SELECT from the URL, TLS for rediss://. Works with Redis, Valkey, ElastiCache and
+ * anything else speaking RESP.
+ *
+ * The socket is only ref'd while replies are outstanding, so an idle connection never keeps a process
+ * alive. It is reopened on demand after errors or timeouts (a timed-out connection is dropped, since
+ * later replies would be misaligned).
+ */
+export class RespClient {
+  private socket?: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  private readonly url: URL;
+
+  constructor(url: string, private readonly commandTimeoutMs: number = DEFAULT_COMMAND_TIMEOUT_MS) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol: ${this.url.protocol}`);
+    }
+  }
+
+  async command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = this.connect();
+    return this.send(socket, args);
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.drop(this.socket, new Error('Connection closed'));
+    }
+  }
+
+  private connect(): net.Socket {
+    if (this.socket) return this.socket;
+
+    const host = this.url.hostname || 'localhost';
+    const port = parseInt(this.url.port) || 6379;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    socket.setNoDelay(true);
+    socket.unref();
+    socket.on('data', chunk => this.onData(socket, chunk));
+    socket.on('error', error => this.drop(socket, error));
+    socket.on('close', () => this.drop(socket, new Error('Connection closed')));
+    this.socket = socket;
+
+    // Queued ahead of the caller's command; replies arrive in order
+    const password = this.url.password ? decodeURIComponent(this.url.password) : undefined;
+    if (password) {
+      const username = this.url.username ? decodeURIComponent(this.url.username) : undefined;
+      this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]).catch(() => undefined);
+    }
+    const db = parseInt(this.url.pathname.slice(1));
+    if (db > 0) {
+      this.send(socket, ['SELECT', db]).catch(() => undefined);
+    }
+
+    return socket;
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.drop(socket, new Error(`Redis command timed out after ${this.commandTimeoutMs}ms: ${args[0]}`));
+      }, this.commandTimeoutMs);
+      timer.unref();
+
+      this.pending.push({
+        resolve: value => { clearTimeout(timer); resolve(value); },
+        reject: error => { clearTimeout(timer); reject(error); }
+      });
+      socket.ref();
+      socket.write(this.encode(args));
+    });
+  }
+
+  private encode(args: Array<string | number>): Buffer {
+    const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+    for (const arg of args) {
+      const value = Buffer.from(String(arg));
+      parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+    }
+    return Buffer.concat(parts);
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer): void {
+    if (socket !== this.socket) return;
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    try {
+      let parsed = this.parse(0);
+      while (parsed) {
+        this.buffer = this.buffer.subarray(parsed.offset);
+        const command = this.pending.shift();
+        if (parsed.error) {
+          command?.reject(parsed.error);
+        } else {
+          command?.resolve(parsed.value);
+        }
+        parsed = this.parse(0);
+      }
+      if (this.pending.length === 0) {
+        socket.unref();
+      }
+    } catch (error) {
+      this.drop(socket, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * One reply starting at offset, or undefined while it is incomplete
+   */
+  private parse(offset: number): { value: RespValue; error?: Error; offset: number } | undefined {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return undefined;
+
+    const prefix = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (prefix) {
+      case '+':
+        return { value: line, offset: next };
+      case '-':
+        return { value: null, error: new Error(`Redis error: ${line}`), offset: next };
+      case ':':
+        return { value: parseInt(line), offset: next };
+      case '$': {
+        const length = parseInt(line);
+        if (length < 0) return { value: null, offset: next };
+        if (this.buffer.length < next + length + 2) return undefined;
+        return { value: this.buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+      }
+      case '*': {
+        const count = parseInt(line);
+        if (count < 0) return { value: null, offset: next };
+
+        const values: RespValue[] = [];
+        let position = next;
+        for (let i = 0; i < count; i++) {
+          const element = this.parse(position);
+          if (!element) return undefined;
+          values.push(element.value);
+          position = element.offset;
+        }
+        return { value: values, offset: position };
+      }
+      default:
+        throw new Error(`Unexpected Redis reply type: ${prefix}`);
+    }
+  }
+
+  /**
+   * Close the connection and fail its outstanding commands (no-op for a connection already replaced)
+   */
+  private drop(socket: net.Socket, error: Error): void {
+    socket.destroy();
+    if (socket !== this.socket) return;
+
+    const pending = this.pending;
+    this.pending = [];
+    this.socket = undefined;
+    this.buffer = Buffer.alloc(0);
+    pending.forEach(command => command.reject(error));
+  }
+}
@@ -0,0 +1,46 @@
+import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { PayloadStore } from './PayloadStore';
+
+const REF_PATTERN = /^s3:\/\/([^/]+)\/(.+)$/;
+
+/**
+ * Payloads in an S3 bucket (CACHE_PAYLOAD_BUCKET), referenced as s3://{bucket}/{key}
+ */
+export class S3PayloadStore implements PayloadStore {
+  readonly type = 's3' as const;
+  private readonly s3Client: S3Client;
+
+  constructor(private readonly bucket: string, region?: string) {
+    this.s3Client = new S3Client({ region });
+  }
+
+  async put(key: string, body: Buffer): Promise<string> {
+    await this.s3Client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: 'application/octet-stream'
+    }));
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  async get(ref: string): Promise<Buffer | null> {
+    const location = ref.match(REF_PATTERN);
+    if (!location) return null;
+
+    try {
+      const result = await this.s3Client.send(new GetObjectCommand({ Bucket: location[1], Key: location[2] }));
+      return result.Body ? Buffer.from(await result.Body.transformToByteArray()) : null;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async delete(ref: string): Promise<void> {
+    const location = ref.match(REF_PATTERN);
+    if (!location) return;
+
+    await this.s3Client.send(new DeleteObjectCommand({ Bucket: location[1], Key: location[2] }));
+  }
+}
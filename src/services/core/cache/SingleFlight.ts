@@ -0,0 +1,221 @@
+import { CacheService } from '../CacheService';
+import { Logger } from '../Logger';
+import { CacheType } from '../../../types/cache-types';
+
+export interface SingleFlightConfig {
+  scope: string;              // Names the call site in metrics, e.g. serpapi
+  lockTtlSeconds: number;     // How long a holder may fetch before its lock lapses
+  waitTimeoutMs: number;      // How long a waiter polls before fetching without the lock
+  pollIntervalMs: number;
+}
+
+export interface SingleFlightMetrics {
+  leaders: number;            // Calls that held the lock and fetched
+  coalesced: number;          // Calls answered by another caller's fetch (any container)
+  localCoalesced: number;     // Calls that joined a fetch already running in this container
+  lockTimeouts: number;       // Waits that gave up and fetched without the lock
+  lockErrors: number;         // Lock backend failures (fetched without the lock)
+  waitMs: number;             // Total time coalesced and timed-out calls spent waiting
+}
+
+export interface SingleFlightMetricsRecord {
+  date: string;
+  byScope: Record<string, SingleFlightMetrics>;
+  updatedAt: string;
+}
+
+export interface SingleFlightResult<T> {
+  result: T;
+  led: boolean;               // This call ran fetch itself (holder, timed out or lock error) - false when coalesced
+}
+
+type SingleFlightOutcome = Exclude<keyof SingleFlightMetrics, 'waitMs'>;
+
+const DEFAULT_CONFIG: SingleFlightConfig = {
+  scope: 'default',
+  lockTtlSeconds: 30,
+  waitTimeoutMs: 30000,
+  pollIntervalMs: 250
+};
+
+// Fetches running in this container, by lock key
+const inFlight = new Map<string, Promise<SingleFlightResult<unknown>>>();
+
+// Counts not yet written, by scope. Callers only add to these; one flush at a time per container writes
+// them, so metrics never hold up a fetch and concurrent callers don't overwrite each other's counts.
+let pendingMetrics = new Map<string, SingleFlightMetrics>();
+let metricsQueue: Promise<void> = Promise.resolve();
+let flushQueued = false;
+
+/**
+ * Single-flight fetches over the cache: when several callers miss the same key at once, one takes a lock
+ * (a conditional write in the cache table) and fetches, the others poll the cache and reuse its result.
+ * Callers in the same container share the running fetch without touching the lock at all.
+ *
+ * fetch must write the cache before resolving - waiters only ever see the result through read. A holder
+ * that fails releases the lock and the next waiter takes over; one that crashes blocks others for at most
+ * lockTtlSeconds. The lock fails open: if it can't be taken or waited on, the caller fetches itself.
+ */
+export class SingleFlight {
+  private readonly config: SingleFlightConfig;
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly logger: Logger,
+    config?: Partial<SingleFlightConfig>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async run<T>(key: string, read: () => Promise<T | null>, fetch: () => Promise<T>): Promise<T> {
+    return (await this.runWithOutcome(key, read, fetch)).result;
+  }
+
+  /**
+   * run, also reporting whether this call fetched or reused another caller's fetch (for billing)
+   */
+  async runWithOutcome<T>(key: string, read: () => Promise<T | null>, fetch: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    const lockKey = this.cacheService.lockKey(key);
+
+    const running = inFlight.get(lockKey);
+    if (running) {
+      this.recordOutcome('localCoalesced');
+      const { result } = await (running as Promise<SingleFlightResult<T>>);
+      return { result, led: false };
+    }
+
+    const flight = this.execute(key, read, fetch).finally(() => inFlight.delete(lockKey));
+    inFlight.set(lockKey, flight);
+    return flight;
+  }
+
+  /**
+   * Coalescing counters for one day (UTC), by scope
+   */
+  async getMetrics(date = new Date().toISOString().split('T')[0]): Promise<SingleFlightMetricsRecord | null> {
+    return this.cacheService.getRawJSON(this.getMetricsKey(date));
+  }
+
+  private async execute<T>(key: string, read: () => Promise<T | null>, fetch: () => Promise<T>): Promise<SingleFlightResult<T>> {
+    const owner = `flight_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+    const startTime = Date.now();
+
+    while (true) {
+      let acquired: boolean;
+      try {
+        acquired = await this.cacheService.acquireLock(key, owner, this.config.lockTtlSeconds);
+      } catch (error) {
+        this.logger.warn('Single-flight lock unavailable, fetching without it', {
+          key,
+          scope: this.config.scope,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        this.recordOutcome('lockErrors');
+        return { result: await fetch(), led: true };
+      }
+
+      if (acquired) {
+        return this.lead(key, owner, read, fetch, startTime);
+      }
+
+      const waited = Date.now() - startTime;
+      if (waited >= this.config.waitTimeoutMs) {
+        this.logger.warn('Single-flight wait timed out, fetching without the lock', {
+          key,
+          scope: this.config.scope,
+          waitedMs: waited
+        });
+        this.recordOutcome('lockTimeouts', waited);
+        return { result: await fetch(), led: true };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.config.pollIntervalMs));
+
+      const cached = await read();
+      if (cached) {
+        this.logger.debug('Single-flight coalesced', { key, scope: this.config.scope, waitedMs: Date.now() - startTime });
+        this.recordOutcome('coalesced', Date.now() - startTime);
+        return { result: cached, led: false };
+      }
+    }
+  }
+
+  private async lead<T>(
+    key: string,
+    owner: string,
+    read: () => Promise<T | null>,
+    fetch: () => Promise<T>,
+    startTime: number
+  ): Promise<SingleFlightResult<T>> {
+    try {
+      // The previous holder may have filled the cache between our miss and taking the lock
+      const cached = await read();
+      if (cached) {
+        this.recordOutcome('coalesced', Date.now() - startTime);
+        return { result: cached, led: false };
+      }
+
+      const result = await fetch();
+      this.recordOutcome('leaders');
+      return { result, led: true };
+    } finally {
+      await this.cacheService.releaseLock(key, owner);
+    }
+  }
+
+  /**
+   * Count an outcome without waiting for it to be stored: counts build up in the container and are written
+   * in the background, one read-modify-write for everything recorded since the last one. Best-effort daily
+   * counters; concurrent updates from other containers may drop increments.
+   */
+  private recordOutcome(outcome: SingleFlightOutcome, waitMs = 0): void {
+    const metrics = pendingMetrics.get(this.config.scope) || this.emptyMetrics();
+    metrics[outcome] += 1;
+    metrics.waitMs += waitMs;
+    pendingMetrics.set(this.config.scope, metrics);
+
+    if (flushQueued) return;
+    flushQueued = true;
+    metricsQueue = metricsQueue.then(() => {
+      flushQueued = false;
+      return this.flushMetrics();
+    });
+  }
+
+  private async flushMetrics(): Promise<void> {
+    const batch = pendingMetrics;
+    pendingMetrics = new Map();
+
+    const date = new Date().toISOString().split('T')[0];
+    const key = this.getMetricsKey(date);
+
+    try {
+      const existing = await this.cacheService.getRawJSON(key) as SingleFlightMetricsRecord | null;
+      const record = existing || { date, byScope: {}, updatedAt: new Date().toISOString() };
+
+      for (const [scope, counts] of batch) {
+        const metrics = record.byScope[scope] || this.emptyMetrics();
+        for (const field of Object.keys(counts) as Array<keyof SingleFlightMetrics>) {
+          metrics[field] += counts[field];
+        }
+        record.byScope[scope] = metrics;
+      }
+      record.updatedAt = new Date().toISOString();
+
+      await this.cacheService.setRawJSON(key, record, CacheType.PERFORMANCE_METRICS);
+    } catch (error) {
+      this.logger.warn('Single-flight metrics update failed', {
+        scopes: [...batch.keys()],
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private emptyMetrics(): SingleFlightMetrics {
+    return { leaders: 0, coalesced: 0, localCoalesced: 0, lockTimeouts: 0, lockErrors: 0, waitMs: 0 };
+  }
+
+  private getMetricsKey(date: string): string {
+    return `single_flight_metrics:${date}`;
+  }
+}
@@ -0,0 +1,54 @@
+import { CacheBackend, CacheRecord, CacheScanOptions } from './CacheBackend';
+import { MemoryCacheBackend } from './MemoryCacheBackend';
+
+/**
+ * In-process L1 in front of a shared L2 (DynamoDB) for hot Lambda containers.
+ *
+ * Reads fill L1 from L2; writes and deletes go to both. Another container's write or delete is only
+ * seen here once the L1 copy ages out (the L1's maxAgeSeconds), so L1 is kept short-lived.
+ * Scans and conditional writes always go to L2, which is authoritative - a lock held only in one
+ * container's L1 would lock nothing.
+ */
+export class TieredCacheBackend implements CacheBackend {
+  readonly type = 'tiered' as const;
+
+  constructor(
+    private readonly l1: MemoryCacheBackend,
+    private readonly l2: CacheBackend
+  ) {}
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const cached = await this.l1.get(key);
+    if (cached) return cached;
+
+    const record = await this.l2.get(key);
+    if (record) {
+      await this.l1.set(record);
+    }
+    return record;
+  }
+
+  async set(record: CacheRecord): Promise<CacheRecord | null> {
+    const previous = await this.l2.set(record);
+    await this.l1.set(record);
+    return previous;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.l1.delete(key);
+    await this.l2.delete(key);
+  }
+
+  async setIfAbsent(record: CacheRecord): Promise<boolean> {
+    return this.l2.setIfAbsent(record);
+  }
+
+  async deleteIf(key: string, data: string): Promise<void> {
+    await this.l1.delete(key);
+    await this.l2.deleteIf(key, data);
+  }
+
+  async scan(options?: CacheScanOptions): Promise<CacheRecord[]> {
+    return this.l2.scan(options);
+  }
+}
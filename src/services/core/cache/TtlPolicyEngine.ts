@@ -0,0 +1,183 @@
+import { CacheType, STALE_WHILE_REVALIDATE_CACHE_TYPES, STALE_WINDOW_HOURS } from '../../../types/cache-types';
+import { ConsumerType, SourceType } from '../../../types/orchestrator-types';
+import {
+  DatasetRequirement,
+  DatasetType,
+  DATASET_REQUIREMENTS_MAP,
+  CONSUMER_DATASET_REQUIREMENTS,
+  SOURCE_CACHE_TYPES
+} from '../../../types/dataset-requirements';
+import ttlPolicyConfig from '../../../../config/cache-ttl-policy.json';
+
+export type FreshnessRequirement = NonNullable<DatasetRequirement['freshness_requirement']>;
+
+export type TtlEnvironment = 'production' | 'development';
+
+export interface TtlPolicyOverride {
+  cacheTypes?: Partial<Record<CacheType, number>>;  // Fixed hours per cache type, replacing the TTL reached so far
+  multiplier?: number;                              // Scales the TTL reached so far (for types not fixed above)
+  minHours?: number;
+  maxHours?: number;
+}
+
+export interface TtlPolicy {
+  cacheTypes: Partial<Record<CacheType | 'default', Record<TtlEnvironment, number>>>;
+  freshnessRequirementHours: Record<FreshnessRequirement, number>;
+  datasetRequirementsInDevelopment: boolean;    // Development keeps its long TTLs unless this is set
+  consumers: Partial<Record<ConsumerType, TtlPolicyOverride>>;
+  tenants: Record<string, TtlPolicyOverride>;
+}
+
+export interface TtlContext {
+  consumer?: ConsumerType;
+  tenantId?: string;
+}
+
+export interface TtlPolicyStep {
+  stage: 'cache_type' | 'dataset' | 'consumer' | 'tenant';
+  hours: number;
+  reason: string;
+}
+
+export interface EffectiveTtl {
+  cacheType: CacheType;
+  environment: TtlEnvironment;
+  consumer?: ConsumerType;
+  tenantId?: string;
+  ttlHours: number;
+  staleWindowHours?: number;    // Stale-while-revalidate types stay readable this long past ttlHours
+  steps: TtlPolicyStep[];       // How ttlHours was reached, in order
+}
+
+const policy = ttlPolicyConfig as TtlPolicy;
+const ENVIRONMENTS: TtlEnvironment[] = ['production', 'development'];
+
+/**
+ * Cache TTLs from config/cache-ttl-policy.json, resolved in four stages:
+ *
+ * 1. cache_type - the per-type TTL for this environment (or the default)
+ * 2. dataset    - for source data, the strictest of the datasets that use the source: each dataset's
+ *                 typical_ttl_hours for it, capped by the dataset's freshness_requirement. Only the
+ *                 consumer's datasets count when a consumer is given. Production only by default.
+ * 3. consumer   - the consumer's override, if any
+ * 4. tenant     - the tenant's override, if any
+ *
+ * Overrides fix the hours per cache type or scale them, then clamp to minHours/maxHours.
+ */
+export class TtlPolicyEngine {
+  private constructor() {}
+
+  static resolve(cacheType: CacheType, context: TtlContext = {}): EffectiveTtl {
+    const environment: TtlEnvironment = process.env.NODE_ENV === 'development' ? 'development' : 'production';
+    return this.resolveIn(environment, cacheType, context);
+  }
+
+  /**
+   * Effective TTL of every cache type for one consumer and tenant
+   */
+  static resolveAll(context: TtlContext = {}): EffectiveTtl[] {
+    return Object.values(CacheType).map(cacheType => this.resolve(cacheType, context));
+  }
+
+  /**
+   * The longest any entry can stay stored (TTL plus stale window) in either environment, for any consumer
+   * and any tenant in the policy - how long offloaded payloads must be kept.
+   */
+  static longestLifetimeHours(): number {
+    const consumers = [undefined, ...Object.keys(CONSUMER_DATASET_REQUIREMENTS) as ConsumerType[]];
+    const tenantIds = [undefined, ...Object.keys(policy.tenants)];
+
+    let longest = 0;
+    for (const environment of ENVIRONMENTS) {
+      for (const cacheType of Object.values(CacheType)) {
+        for (const consumer of consumers) {
+          for (const tenantId of tenantIds) {
+            const ttl = this.resolveIn(environment, cacheType, { consumer, tenantId });
+            longest = Math.max(longest, ttl.ttlHours + (ttl.staleWindowHours || 0));
+          }
+        }
+      }
+    }
+    return longest;
+  }
+
+  private static resolveIn(environment: TtlEnvironment, cacheType: CacheType, context: TtlContext): EffectiveTtl {
+    const steps: TtlPolicyStep[] = [];
+
+    const configured = policy.cacheTypes[cacheType];
+    let hours = (configured || policy.cacheTypes.default!)[environment];
+    steps.push({
+      stage: 'cache_type',
+      hours,
+      reason: configured ? `${cacheType} ${environment} TTL` : `Default ${environment} TTL`
+    });
+
+    if (environment === 'production' || policy.datasetRequirementsInDevelopment) {
+      const dataset = this.resolveDatasetHours(cacheType, context.consumer);
+      if (dataset) {
+        hours = dataset.hours;
+        steps.push({ stage: 'dataset', ...dataset });
+      }
+    }
+
+    const consumerOverride = context.consumer && policy.consumers[context.consumer];
+    if (consumerOverride) {
+      hours = this.applyOverride(hours, consumerOverride, cacheType);
+      steps.push({ stage: 'consumer', hours, reason: `Override for consumer ${context.consumer}` });
+    }
+
+    const tenantOverride = context.tenantId && policy.tenants[context.tenantId];
+    if (tenantOverride) {
+      hours = this.applyOverride(hours, tenantOverride, cacheType);
+      steps.push({ stage: 'tenant', hours, reason: `Override for tenant ${context.tenantId}` });
+    }
+
+    return {
+      cacheType,
+      environment,
+      consumer: context.consumer,
+      tenantId: context.tenantId,
+      ttlHours: Math.max(1, Math.round(hours)),
+      staleWindowHours: STALE_WHILE_REVALIDATE_CACHE_TYPES.includes(cacheType) ? STALE_WINDOW_HOURS : undefined,
+      steps
+    };
+  }
+
+  private static resolveDatasetHours(cacheType: CacheType, consumer?: ConsumerType): Omit<TtlPolicyStep, 'stage'> | null {
+    const sources = (Object.keys(SOURCE_CACHE_TYPES) as SourceType[]).filter(source => SOURCE_CACHE_TYPES[source] === cacheType);
+    if (sources.length === 0) return null;
+
+    const datasets = consumer
+      ? CONSUMER_DATASET_REQUIREMENTS[consumer]
+      : Object.keys(DATASET_REQUIREMENTS_MAP) as DatasetType[];
+
+    let strictest: Omit<TtlPolicyStep, 'stage'> | null = null;
+    for (const dataset of datasets) {
+      const requirement = DATASET_REQUIREMENTS_MAP[dataset];
+      const cap = requirement.freshness_requirement
+        ? policy.freshnessRequirementHours[requirement.freshness_requirement]
+        : Infinity;
+
+      for (const option of requirement.sources.filter(option => sources.includes(option.source))) {
+        const hours = Math.min(option.typical_ttl_hours ?? cap, cap);
+        if (hours === Infinity || (strictest && hours >= strictest.hours)) continue;
+
+        strictest = {
+          hours,
+          reason: `${dataset} via ${option.source}: typical ${option.typical_ttl_hours ?? '-'}h, ` +
+            `freshness ${requirement.freshness_requirement || 'unspecified'}`
+        };
+      }
+    }
+
+    return strictest;
+  }
+
+  private static applyOverride(hours: number, override: TtlPolicyOverride, cacheType: CacheType): number {
+    let result = override.cacheTypes?.[cacheType] ?? hours * (override.multiplier ?? 1);
+
+    if (override.minHours !== undefined) result = Math.max(result, override.minHours);
+    if (override.maxHours !== undefined) result = Math.min(result, override.maxHours);
+    return result;
+  }
+}
@@ -2,11 +2,21 @@
  * Cache Management Lambda Functions
  * 
  * Consolidates all cache-related operations into a single file for better organization
+ *
+ * Callers authenticate with a bearer token. Admins (AUTH_ADMIN_GROUP) manage the whole table; everyone else
+ * sees shared entries plus their tenant's, and can only delete their tenant's.
  */
 
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
+import { SingleFlight } from '../../core/cache/SingleFlight';
+import { TtlPolicyEngine } from '../../core/cache/TtlPolicyEngine';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError } from '../../auth/types/AuthTypes';
+import { CacheType, TENANT_SCOPED_CACHE_TYPES, inferCacheTypeFromKeyPattern } from '../../../types/cache-types';
+import { CONSUMER_DATASET_REQUIREMENTS } from '../../../types/dataset-requirements';
+import { ConsumerType } from '../../../types/orchestrator-types';
 import { getCorsHeaders } from '../../../index';
 
 // Cache configuration
@@ -31,7 +41,7 @@ export const cacheClearHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheClearHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService } = await getCallerCache(event, logger);
 
     // Clear cache
     await cacheService.clear();
@@ -50,6 +60,10 @@ export const cacheClearHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -91,7 +105,10 @@ export const cacheDeleteHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheDeleteHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService, admin } = await getCallerCache(event, logger);
+    if (!admin) {
+      assertTenantCacheType(inferCacheTypeFromKeyPattern(decodeURIComponent(cacheKey)));
+    }
 
     // Delete cache entry
     await cacheService.delete(decodeURIComponent(cacheKey));
@@ -111,6 +128,10 @@ export const cacheDeleteHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -139,16 +160,18 @@ export const cacheStatsHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheStatsHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService } = await getCallerCache(event, logger);
 
-    // Get cache statistics
+    // Get cache statistics, with today's request coalescing counters
     const stats = await cacheService.getStats();
+    const singleFlight = await new SingleFlight(cacheService, logger).getMetrics();
 
     return {
       statusCode: 200,
       headers: corsHeaders,
       body: JSON.stringify({
         stats,
+        singleFlight,
         requestId: context.awsRequestId,
       }),
     };
@@ -158,6 +181,10 @@ export const cacheStatsHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -192,7 +219,7 @@ export const cacheListHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheListHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService } = await getCallerCache(event, logger);
 
     // List cache entries
     const result = await cacheService.listKeys(pattern, limit, cacheType);
@@ -211,6 +238,10 @@ export const cacheListHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -252,7 +283,7 @@ export const cacheInspectHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheInspectHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService } = await getCallerCache(event, logger);
 
     // Inspect cache entry
     const result = await cacheService.inspect(decodeURIComponent(cacheKey));
@@ -283,6 +314,10 @@ export const cacheInspectHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -311,7 +346,7 @@ export const cacheTypesHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheTypesHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService } = await getCallerCache(event, logger);
 
     // Get cache types summary
     const result = await cacheService.getTypeSummary();
@@ -330,6 +365,10 @@ export const cacheTypesHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -374,7 +413,7 @@ export const cacheListByTypeHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheListByTypeHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService } = await getCallerCache(event, logger);
 
     // Get cache entries by type
     const result = await cacheService.listKeys(undefined, limit, cacheType);
@@ -394,6 +433,10 @@ export const cacheListByTypeHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -446,7 +489,10 @@ export const cacheClearByTypeHandler = async (
 
     // Initialize cache service
     const logger = new Logger('CacheClearByTypeHandler');
-    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const { cacheService, admin } = await getCallerCache(event, logger);
+    if (!admin) {
+      assertTenantCacheType(cacheType);
+    }
 
     // Get all keys for this cache type
     const keysResult = await cacheService.listKeys(undefined, 1000, cacheType);
@@ -484,6 +530,93 @@ export const cacheClearByTypeHandler = async (
 
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
+    
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+}; 
+
+/**
+ * Lambda handler for previewing effective cache TTLs - GET /cache/ttl-policy?cacheType=&consumer=&tenantId=
+ *
+ * Without cacheType every type is listed. Non-admins always see their own tenant's overrides; admins may
+ * pass any tenantId, or none for the policy without tenant overrides.
+ */
+export const cacheTtlPolicyHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  try {
+    console.log('Cache TTL Policy Lambda invoked', { requestId: context.awsRequestId });
+
+    const origin = event.headers.Origin || event.headers.origin;
+    const corsHeaders = getCorsHeaders(origin);
+
+    const cacheType = event.queryStringParameters?.cacheType;
+    const consumer = event.queryStringParameters?.consumer;
+
+    if (cacheType && !Object.values(CacheType).includes(cacheType as CacheType)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: `Unknown cache type: ${cacheType}`,
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+
+    if (consumer && !(consumer in CONSUMER_DATASET_REQUIREMENTS)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: `Unknown consumer: ${consumer}`,
+          message: `Expected one of: ${Object.keys(CONSUMER_DATASET_REQUIREMENTS).join(', ')}`,
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+
+    const auth = AuthService.fromEnvironment();
+    const identity = await auth.authenticate(event);
+    const tenantId = auth.isAdmin(identity)
+      ? event.queryStringParameters?.tenantId
+      : identity.tenantId;
+
+    const ttlContext = { consumer: consumer as ConsumerType | undefined, tenantId };
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        policies: cacheType
+          ? [TtlPolicyEngine.resolve(cacheType as CacheType, ttlContext)]
+          : TtlPolicyEngine.resolveAll(ttlContext),
+        requestId: context.awsRequestId,
+      }),
+    };
+
+  } catch (error) {
+    console.error('Cache TTL Policy Lambda error:', error);
+
+    const origin = event.headers.Origin || event.headers.origin;
+    const corsHeaders = getCorsHeaders(origin);
+
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
     
     return {
       statusCode: 500,
@@ -495,4 +628,27 @@ export const cacheClearByTypeHandler = async (
       }),
     };
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Cache as the caller may manage it: the whole table for admins, their tenant's view for everyone else
+ */
+async function getCallerCache(event: APIGatewayProxyEvent, logger: Logger): Promise<{ cacheService: CacheService; admin: boolean }> {
+  const auth = AuthService.fromEnvironment();
+  const identity = await auth.authenticate(event);
+  const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+
+  return {
+    cacheService: auth.cacheFor(identity, cacheService),
+    admin: auth.isAdmin(identity)
+  };
+}
+
+/**
+ * Shared research data is only deleted by admins, since every tenant reads it
+ */
+function assertTenantCacheType(cacheType: string): void {
+  if (!TENANT_SCOPED_CACHE_TYPES.includes(cacheType as CacheType)) {
+    throw new AuthError(`Only admins can delete shared cache entries (${cacheType})`, 403);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Cache Refresh Lambda Function
+ *
+ * Invoked asynchronously when a stale cache entry was served: by the data collection engine to re-collect
+ * stale sources, and by the LLM analysis handlers to regenerate a stale analysis - so the next request gets
+ * fresh data.
+ */
+
+import { Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { SerpAPIService } from '../../SerpAPIService';
+import { DataSourceOrchestrator } from '../../DataSourceOrchestrator';
+import { CacheRefreshEvent, SourceType } from '../../orchestration/types/OrchestrationTypes';
+import { llmAnalysisHandler } from '../stepfunctions/LLMAnalysisDispatcher';
+import { AnalysisRefreshEvent, LLMAnalysisResponse } from '../stepfunctions/shared/LLMAnalysisTypes';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+/**
+ * Lambda handler for background refresh of stale sources and analyses
+ */
+export const cacheRefreshHandler = async (
+  event: CacheRefreshEvent | AnalysisRefreshEvent,
+  context: Context
+): Promise<{ refreshed: SourceType[]; failed: SourceType[] } | LLMAnalysisResponse> => {
+  const logger = new Logger('CacheRefresh');
+
+  if ('analysis' in event) {
+    console.log('Analysis refresh invoked', {
+      requestId: context.awsRequestId,
+      companyName: event.analysis?.companyName,
+      vendorCompany: event.analysis?.vendorCompany,
+      workflowType: event.analysis?.workflowType
+    });
+    return llmAnalysisHandler({ ...event.analysis, refresh: true });
+  }
+
+  if (!event?.companyName || !Array.isArray(event.sources) || event.sources.length === 0) {
+    logger.warn('Cache refresh invoked without companyName and sources', { requestId: context.awsRequestId });
+    return { refreshed: [], failed: [] };
+  }
+
+  const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+  const orchestrator = new DataSourceOrchestrator(cacheService, logger, new SerpAPIService(cacheService, logger));
+
+  console.log('Cache refresh invoked', {
+    requestId: context.awsRequestId,
+    companyName: event.companyName,
+    sources: event.sources
+  });
+  return orchestrator.refreshSources(event.companyName, event.sources);
+};
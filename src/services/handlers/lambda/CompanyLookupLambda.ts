@@ -600,7 +600,7 @@ Rules:
 - Do not include any explanations or markdown formatting
 - The description should be brief and professional (max 120 characters)`;
 
-    const response = await bedrockCore.invokeModel({
+    const { content: response } = await bedrockCore.invokeModel({
       systemPrompt,
       userPrompt,
       maxTokens: 1000,
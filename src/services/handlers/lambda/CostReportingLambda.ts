@@ -0,0 +1,98 @@
+/**
+ * Cost Reporting Lambda Functions
+ *
+ * GET /costs?from=YYYY-MM-DD&to=YYYY-MM-DD  - Spend, savings and cache-hit rate by day, consumer, source and user
+ * GET /costs?days=N                          - Same, for the last N days (default 7)
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { CostLedgerService } from '../../CostLedgerService';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+const DEFAULT_REPORT_DAYS = 7;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Lambda handler for the cost report
+ */
+export const costReportHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  try {
+    console.log('Cost Report Lambda invoked', { requestId: context.awsRequestId });
+
+    const params = event.queryStringParameters || {};
+    const today = new Date().toISOString().split('T')[0];
+    const days = Math.max(1, parseInt(params.days || String(DEFAULT_REPORT_DAYS)) || DEFAULT_REPORT_DAYS);
+
+    const to = params.to || today;
+    const from = params.from || shiftDate(to, -(days - 1));
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'Invalid date range',
+          message: 'from and to must be YYYY-MM-DD with from <= to',
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+
+    const logger = new Logger('CostReportHandler');
+    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const costLedger = new CostLedgerService(cacheService, logger);
+
+    const report = await costLedger.getReport(from, to);
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        ...report,
+        requestId: context.awsRequestId,
+      }),
+    };
+
+  } catch (error) {
+    console.error('Cost Report Lambda error:', error);
+
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
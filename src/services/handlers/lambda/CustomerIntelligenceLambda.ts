@@ -1,13 +1,19 @@
 import { APIGatewayProxyEvent, Context, APIGatewayProxyResult } from 'aws-lambda';
-import { SFNClient, StartExecutionCommand } from '@aws-sdk/client-sfn';
+import { SFNClient, StartExecutionCommand, StartExecutionCommandOutput } from '@aws-sdk/client-sfn';
 import { getCorsHeaders } from '../../../index';
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
+import {
+  DEEP_DIVE_PERSONAS,
+  getDeepDiveKeySuffix,
+  isDeepDivePersona
+} from '../stepfunctions/shared/PersonaDeepDivePrompts';
 
 /**
  * Async Customer Intelligence Lambda - Starts Step Function workflow
  * POST /customer/intelligence
  * CRITICAL: Checks cache first to avoid unnecessary step function executions
+ * Optional deepDivePersona (AE|SE|CSM) returns that persona's deep-dive schema instead of the generic output
  */
 export const customerIntelligenceHandler = async (
   event: APIGatewayProxyEvent,
@@ -38,7 +44,7 @@ export const customerIntelligenceHandler = async (
       };
     }
 
-    const { prospectCompany, vendorCompany, userPersona, refresh } = JSON.parse(event.body);
+    const { prospectCompany, vendorCompany, userPersona, refresh, deepDivePersona } = JSON.parse(event.body);
 
     if (!prospectCompany || !vendorCompany) {
       return {
@@ -51,10 +57,23 @@ export const customerIntelligenceHandler = async (
       };
     }
 
+    if (deepDivePersona !== undefined && !isDeepDivePersona(deepDivePersona)) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: `deepDivePersona must be one of: ${DEEP_DIVE_PERSONAS.join(', ')}`,
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+    const keySuffix = getDeepDiveKeySuffix(deepDivePersona);
+
     logger.info('Starting customer intelligence workflow with cache check', { 
       prospectCompany, 
       vendorCompany,
       userPersona: userPersona?.role || 'unknown',
+      deepDivePersona: deepDivePersona || 'none',
       refresh: refresh || false
     });
 
@@ -67,17 +86,42 @@ export const customerIntelligenceHandler = async (
       );
 
       // PRIORITY 1: Check for rich customer intelligence analysis cache first
-      const analysisKey = `customer_intelligence_analysis:${prospectCompany.trim()}:${vendorCompany.trim()}:${userPersona?.role || 'unknown'}:customer_intelligence`;
-      const richAnalysis = await cacheService.getRawJSON(analysisKey);
+      // (a stale analysis is returned while a refresh workflow regenerates it)
+      const analysisKey = `customer_intelligence_analysis:${prospectCompany.trim()}:${vendorCompany.trim()}:${userPersona?.role || 'unknown'}:customer_intelligence${keySuffix}`;
+      const cachedAnalysis = await cacheService.getWithFreshness(analysisKey);
 
-      if (richAnalysis) {
+      if (cachedAnalysis) {
+        const richAnalysis = cachedAnalysis.data;
+        const { stale } = cachedAnalysis.freshness;
         logger.info('Customer intelligence rich analysis cache hit - returning analysis data', { 
           prospectCompany,
           vendorCompany,
           userPersona: userPersona?.role,
-          cacheKey: analysisKey 
+          cacheKey: analysisKey,
+          stale
         });
 
+        let refreshing = false;
+        if (stale) {
+          try {
+            const execution = await startWorkflow(`customer-intelligence-refresh-${context.awsRequestId}`, {
+              prospectCompany,
+              vendorCompany,
+              userPersona,
+              deepDivePersona,
+              requestId: context.awsRequestId,
+              refresh: true
+            });
+            refreshing = true;
+            logger.info('Stale analysis refresh workflow started', { executionArn: execution.executionArn, cacheKey: analysisKey });
+          } catch (error) {
+            logger.warn('Failed to start stale analysis refresh workflow', {
+              cacheKey: analysisKey,
+              error: error instanceof Error ? error.message : String(error)
+            });
+          }
+        }
+
         // Return the rich analysis data directly
         const workflowData = {
           companyName: prospectCompany.trim(),
@@ -98,6 +142,7 @@ export const customerIntelligenceHandler = async (
           workflowMetadata: {
             type: 'customer_intelligence',
             userPersona: userPersona,
+            deepDivePersona,
             datasetsCollected: ['analysis_cache'],
             processedAt: richAnalysis.last_updated || new Date().toISOString()
           }
@@ -112,10 +157,12 @@ export const customerIntelligenceHandler = async (
             prospectCompany,
             vendorCompany,
             userPersona,
+            deepDivePersona,
             status: 'completed',
             source: 'analysis_cache',
             data: workflowData,
             cached: true,
+            freshness: { ...cachedAnalysis.freshness, refreshing },
             generatedAt: richAnalysis.last_updated || new Date().toISOString(),
             metrics: {
               totalCost: 0,
@@ -127,7 +174,7 @@ export const customerIntelligenceHandler = async (
       }
 
       // PRIORITY 2: Check for cached enriched customer intelligence (persona + customer + vendor specific)
-      const cacheKey = `enriched_customer_profile:${prospectCompany.toLowerCase().replace(/\s+/g, '_')}:${vendorCompany.toLowerCase().replace(/\s+/g, '_')}:customer_intelligence`;
+      const cacheKey = `enriched_customer_profile:${prospectCompany.toLowerCase().replace(/\s+/g, '_')}:${vendorCompany.toLowerCase().replace(/\s+/g, '_')}:customer_intelligence${keySuffix}`;
       const cachedResult = await cacheService.getRawJSON(cacheKey);
 
       if (cachedResult) {
@@ -159,6 +206,7 @@ export const customerIntelligenceHandler = async (
           workflowMetadata: cachedResult.workflowMetadata || {
             type: 'customer_intelligence',
             userPersona: userPersona,
+            deepDivePersona,
             datasetsCollected: [],
             processedAt: cachedResult.generatedAt || new Date().toISOString()
           }
@@ -173,6 +221,7 @@ export const customerIntelligenceHandler = async (
             prospectCompany,
             vendorCompany,
             userPersona,
+            deepDivePersona,
             status: 'completed',
             source: 'cache',
             data: workflowData,  // ✅ Properly structured data with analysis
@@ -202,30 +251,14 @@ export const customerIntelligenceHandler = async (
       });
     }
 
-    // Initialize Step Functions client
-    const stepFunctions = new SFNClient({ region: process.env.AWS_REGION });
-    
-    const executionName = `customer-intelligence-${context.awsRequestId}`;
-    const input = JSON.stringify({
-      companyName: prospectCompany,
+    const execution = await startWorkflow(`customer-intelligence-${context.awsRequestId}`, {
+      prospectCompany,
       vendorCompany,
-      userPersona, // For persona-aware processing
-      requester: 'customer_intelligence',
+      userPersona,
+      deepDivePersona,
       requestId: context.awsRequestId,
-      timestamp: new Date().toISOString(),
-      // Add context for interactive workflow
-      workflowType: 'customer_intelligence',
-      interactionMode: 'deep_dive', // vs 'quick_scan'
       refresh: refresh || false
     });
-
-    const command = new StartExecutionCommand({
-      stateMachineArn: process.env.STEP_FUNCTION_ARN!,
-      name: executionName,
-      input
-    });
-
-    const execution = await stepFunctions.send(command);
     
     logger.info('Customer intelligence step function started', {
       executionArn: execution.executionArn,
@@ -243,6 +276,7 @@ export const customerIntelligenceHandler = async (
         executionArn: execution.executionArn,
         prospectCompany,
         vendorCompany,
+        deepDivePersona,
         status: 'processing',
         estimatedTimeMinutes: 3,
         // Provide polling endpoints for interactive frontend
@@ -275,3 +309,40 @@ export const customerIntelligenceHandler = async (
     };
   }
 };
+
+/**
+ * Start the customer intelligence Step Functions workflow
+ */
+async function startWorkflow(
+  executionName: string,
+  request: {
+    prospectCompany: string;
+    vendorCompany: string;
+    userPersona?: any;
+    deepDivePersona?: string;
+    requestId: string;
+    refresh: boolean;
+  }
+): Promise<StartExecutionCommandOutput> {
+  const stepFunctions = new SFNClient({ region: process.env.AWS_REGION });
+
+  const input = JSON.stringify({
+    companyName: request.prospectCompany,
+    vendorCompany: request.vendorCompany,
+    userPersona: request.userPersona, // For persona-aware processing
+    deepDivePersona: request.deepDivePersona, // Persona deep-dive schema instead of the generic output
+    requester: 'customer_intelligence',
+    requestId: request.requestId,
+    timestamp: new Date().toISOString(),
+    // Add context for interactive workflow
+    workflowType: 'customer_intelligence',
+    interactionMode: 'deep_dive', // vs 'quick_scan'
+    refresh: request.refresh
+  });
+
+  return stepFunctions.send(new StartExecutionCommand({
+    stateMachineArn: process.env.STEP_FUNCTION_ARN!,
+    name: executionName,
+    input
+  }));
+}
@@ -0,0 +1,119 @@
+/**
+ * Hiring Trends Lambda Function
+ *
+ * GET /companies/{domain}/hiring-trends - Daily job-posting snapshots, weekly series and growth_signals
+ *   ?days=90       History window (1-400, default 90)
+ *   ?refresh=true  Capture today's snapshot from current postings before building the series
+ *                  (502 when no postings could be fetched - a failed search is not stored as zero openings)
+ *
+ * Snapshots are also captured daily for every watched company by the watchlist refresh.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { SerpAPIService } from '../../SerpAPIService';
+import { HiringSnapshotService } from '../../hiring/HiringSnapshotService';
+import { HiringTrendAnalyzer } from '../../hiring/HiringTrendAnalyzer';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+const DEFAULT_DAYS = 90;
+const MAX_DAYS = 400;
+
+/**
+ * Lambda handler for the hiring trends time series
+ */
+export const hiringTrendsHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  const company = event.pathParameters?.domain
+    ? decodeURIComponent(event.pathParameters.domain).trim()
+    : undefined;
+  if (!company) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Company name or domain is required in path',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  const params = event.queryStringParameters || {};
+  const days = params.days ? parseInt(params.days) : DEFAULT_DAYS;
+  if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: `days must be between 1 and ${MAX_DAYS}`,
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  try {
+    console.log('Hiring Trends Lambda invoked', { requestId: context.awsRequestId, company, days });
+
+    const snapshotService = new HiringSnapshotService();
+
+    if (params.refresh === 'true') {
+      const logger = new Logger('HiringTrends');
+      const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+      const jobs = await new SerpAPIService(cacheService, logger).getJobsResults(company);
+      // Search failures come back as an empty list, which can't be told apart from a real zero
+      if (jobs.length === 0) {
+        return {
+          statusCode: 502,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            error: 'Job postings unavailable',
+            message: `No job postings could be fetched for ${company}; snapshot not captured`,
+            requestId: context.awsRequestId,
+          }),
+        };
+      }
+      await snapshotService.saveSnapshot(HiringTrendAnalyzer.buildSnapshot(company, jobs, 'on_demand'));
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const snapshots = await snapshotService.getSnapshots(company, since);
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify(HiringTrendAnalyzer.buildTimeSeries(company, days, snapshots)),
+    };
+  } catch (error) {
+    console.error('Hiring trends request failed:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
@@ -0,0 +1,100 @@
+/**
+ * Org Chart Lambda Function
+ *
+ * GET /companies/{domain}/org-chart - Probable reporting hierarchy inferred from LinkedIn profiles
+ *   ?company=Name  Company name to search for (defaults to the domain's name, e.g. acme.com -> Acme)
+ *   ?refresh=true  Bypass the cached LinkedIn results
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { SerpAPIService } from '../../SerpAPIService';
+import { OrgChartBuilder } from '../../orgchart/OrgChartBuilder';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+/**
+ * Lambda handler for the org chart endpoint
+ */
+export const orgChartHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  const domain = event.pathParameters?.domain ? decodeURIComponent(event.pathParameters.domain).trim() : '';
+  const params = event.queryStringParameters || {};
+  const company = params.company?.trim() || companyNameFromDomain(domain);
+
+  if (!company) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Company domain is required in path',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  try {
+    console.log('Org Chart Lambda invoked', { requestId: context.awsRequestId, domain, company });
+
+    const logger = new Logger('OrgChart');
+    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const serpAPIService = new SerpAPIService(cacheService, logger);
+    const options = { forceRefresh: params.refresh === 'true' };
+
+    // General profile search plus an executive-focused search so the top of the chart is populated
+    const [profiles, executives] = await Promise.all([
+      serpAPIService.getLinkedInResults(company, options),
+      serpAPIService.getExecutiveResults(company, options),
+    ]);
+
+    const orgChart = OrgChartBuilder.build(company, [...executives, ...profiles]);
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ domain, ...orgChart }),
+    };
+  } catch (error) {
+    console.error('Org chart request failed:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
+
+/**
+ * acme.com -> Acme, www.acme.co.uk -> Acme; values without a dot are used as-is
+ */
+function companyNameFromDomain(domain: string): string {
+  if (!domain.includes('.')) {
+    return domain;
+  }
+  const label = domain.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split('.')[0];
+  return label ? label.charAt(0).toUpperCase() + label.slice(1) : '';
+}
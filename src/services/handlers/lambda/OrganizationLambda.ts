@@ -0,0 +1,487 @@
+/**
+ * Organization Lambda Functions
+ *
+ * GET    /api/orgs                                          - Caller's organizations and role in each
+ * POST   /api/orgs                                          - Create an org ({ name, vendorCompany? }); caller becomes admin
+ * GET    /api/orgs/{orgId}                                  - Org details
+ * PUT    /api/orgs/{orgId}                                  - Rename / change vendor (admin)
+ * DELETE /api/orgs/{orgId}                                  - Delete the org, its library and notes (admin)
+ * GET    /api/orgs/{orgId}/members                          - Members and roles
+ * PUT    /api/orgs/{orgId}/members/{userId}                 - Add a member or change their role ({ role }) (admin)
+ * DELETE /api/orgs/{orgId}/members/{userId}                 - Remove a member (admin, or members leaving)
+ * GET    /api/orgs/{orgId}/vendor-context                   - The org's vendor context (registered or researched)
+ * PUT    /api/orgs/{orgId}/vendor-context                   - Register the org's vendor file, JSON or YAML (admin)
+ * GET    /api/orgs/{orgId}/research                         - Shared research library
+ * GET    /api/orgs/{orgId}/research/{companyName}           - Shared research with the caller's note
+ * PUT    /api/orgs/{orgId}/research/{companyName}           - Share research ({ messages, completedResearch } or
+ *                                                              ?fromHistory=true to copy the caller's research history)
+ * DELETE /api/orgs/{orgId}/research/{companyName}           - Remove from the library (manager, admin)
+ * PUT    /api/orgs/{orgId}/research/{companyName}/notes     - Save the caller's private note ({ note })
+ * DELETE /api/orgs/{orgId}/research/{companyName}/notes     - Delete the caller's note
+ * GET    /api/orgs/{orgId}/costs                            - Spend of the org's members (?from&to or ?days) (manager, admin)
+ *
+ * The caller is the user of the bearer token.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { CostLedgerService } from '../../CostLedgerService';
+import { ResearchHistoryService } from '../../ResearchHistoryService';
+import { OrganizationService } from '../../organizations/OrganizationService';
+import { SharedResearchService } from '../../organizations/SharedResearchService';
+import { OrganizationPermissions } from '../../organizations/OrganizationPermissions';
+import { Organization, OrgCostReport, OrgMember, OrgPermission } from '../../organizations/types/OrganizationTypes';
+import { VendorContextOnboarding } from '../../vendor/VendorContextOnboarding';
+import { VendorContextRegistry } from '../../vendor/VendorContextRegistry';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError } from '../../auth/types/AuthTypes';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+const DEFAULT_REPORT_DAYS = 30;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Caller and org resolved for a request under /api/orgs/{orgId}
+ */
+interface OrgRequest {
+  event: APIGatewayProxyEvent;
+  context: Context;
+  corsHeaders: Record<string, string>;
+  actorId: string;
+  organization: Organization;
+  membership: OrgMember;
+  orgService: OrganizationService;
+}
+
+/**
+ * Lambda handler for the organizations API
+ */
+export const organizationHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  try {
+    const actorId = (await AuthService.fromEnvironment().authenticate(event)).userId;
+    console.log('Organization Lambda invoked', { requestId: context.awsRequestId, method: event.httpMethod, resource: event.resource, actorId });
+
+    const orgService = new OrganizationService();
+    const orgId = event.pathParameters?.orgId;
+
+    if (!orgId) {
+      return await handleOrganizations(event, context, corsHeaders, actorId, orgService);
+    }
+
+    const [organization, membership] = await Promise.all([
+      orgService.getOrganization(orgId),
+      orgService.getMember(orgId, actorId)
+    ]);
+
+    // Non-members get the same 404 as a missing org, so org ids can't be probed
+    if (!organization || !membership) {
+      return respond(corsHeaders, 404, {
+        error: 'Organization not found',
+        orgId,
+        requestId: context.awsRequestId,
+      });
+    }
+
+    const request: OrgRequest = { event, context, corsHeaders, actorId, organization, membership, orgService };
+    const resource = event.resource || '';
+
+    if (resource.includes('/members')) return await handleMembers(request);
+    if (resource.endsWith('/vendor-context')) return await handleVendorContext(request);
+    if (resource.includes('/research')) return await handleResearch(request);
+    if (resource.endsWith('/costs')) return await handleCosts(request);
+    return await handleOrganization(request);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
+
+    console.error('Organization request failed:', error);
+    return respond(corsHeaders, 500, {
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      requestId: context.awsRequestId,
+    });
+  }
+};
+
+/**
+ * GET/POST /api/orgs
+ */
+async function handleOrganizations(
+  event: APIGatewayProxyEvent,
+  context: Context,
+  corsHeaders: Record<string, string>,
+  actorId: string,
+  orgService: OrganizationService
+): Promise<APIGatewayProxyResult> {
+  if (event.httpMethod === 'GET') {
+    const organizations = await orgService.getUserOrganizations(actorId);
+    return respond(corsHeaders, 200, { organizations });
+  }
+
+  if (event.httpMethod === 'POST') {
+    const { name, vendorCompany } = JSON.parse(event.body || '{}');
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return respond(corsHeaders, 400, {
+        error: 'name is required',
+        requestId: context.awsRequestId,
+      });
+    }
+
+    const result = await orgService.createOrganization(
+      name.trim(),
+      actorId,
+      typeof vendorCompany === 'string' && vendorCompany.trim() ? vendorCompany.trim() : undefined
+    );
+    return respond(corsHeaders, 201, {
+      message: `${result.organization.name} created`,
+      ...result,
+    });
+  }
+
+  return methodNotAllowed(event, context, corsHeaders);
+}
+
+/**
+ * GET/PUT/DELETE /api/orgs/{orgId}
+ */
+async function handleOrganization(request: OrgRequest): Promise<APIGatewayProxyResult> {
+  const { event, context, corsHeaders, organization, membership, orgService } = request;
+
+  switch (event.httpMethod) {
+    case 'GET':
+      return respond(corsHeaders, 200, { organization, role: membership.role });
+
+    case 'PUT': {
+      const denied = requirePermission(request, 'org:manage');
+      if (denied) return denied;
+
+      const { name, vendorCompany } = JSON.parse(event.body || '{}');
+      const updated = await orgService.updateOrganization(organization.orgId, {
+        name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+        vendorCompany: typeof vendorCompany === 'string' && vendorCompany.trim() ? vendorCompany.trim() : undefined
+      });
+      return respond(corsHeaders, 200, { organization: updated });
+    }
+
+    case 'DELETE': {
+      const denied = requirePermission(request, 'org:manage');
+      if (denied) return denied;
+
+      const result = await orgService.deleteOrganization(organization.orgId);
+      return respond(corsHeaders, 200, result);
+    }
+  }
+
+  return methodNotAllowed(event, context, corsHeaders);
+}
+
+/**
+ * /api/orgs/{orgId}/members[/{userId}]
+ */
+async function handleMembers(request: OrgRequest): Promise<APIGatewayProxyResult> {
+  const { event, context, corsHeaders, actorId, organization, orgService } = request;
+  const userId = event.pathParameters?.userId ? decodeURIComponent(event.pathParameters.userId) : undefined;
+
+  if (event.httpMethod === 'GET' && !userId) {
+    const denied = requirePermission(request, 'members:view');
+    if (denied) return denied;
+
+    const members = await orgService.listMembers(organization.orgId);
+    return respond(corsHeaders, 200, { members });
+  }
+
+  if (!userId || (event.httpMethod !== 'PUT' && event.httpMethod !== 'DELETE')) {
+    return methodNotAllowed(event, context, corsHeaders);
+  }
+
+  // Anyone may leave; everything else needs members:manage
+  const leaving = event.httpMethod === 'DELETE' && userId === actorId;
+  if (!leaving) {
+    const denied = requirePermission(request, 'members:manage');
+    if (denied) return denied;
+  }
+
+  const role = event.httpMethod === 'PUT' ? JSON.parse(event.body || '{}').role : undefined;
+  if (event.httpMethod === 'PUT' && !OrganizationPermissions.isRole(role)) {
+    return respond(corsHeaders, 400, {
+      error: 'role must be one of: admin, manager, rep',
+      requestId: context.awsRequestId,
+    });
+  }
+
+  // An org always keeps at least one admin
+  const target = await orgService.getMember(organization.orgId, userId);
+  if (target?.role === 'admin' && role !== 'admin') {
+    const admins = (await orgService.listMembers(organization.orgId)).filter(member => member.role === 'admin');
+    if (admins.length <= 1) {
+      return respond(corsHeaders, 409, {
+        error: 'An organization must keep at least one admin',
+        requestId: context.awsRequestId,
+      });
+    }
+  }
+
+  if (event.httpMethod === 'DELETE') {
+    if (!target) {
+      return respond(corsHeaders, 404, {
+        error: 'Member not found',
+        userId,
+        requestId: context.awsRequestId,
+      });
+    }
+    const result = await orgService.removeMember(organization.orgId, userId);
+    return respond(corsHeaders, 200, result);
+  }
+
+  const member = await orgService.setMember(organization.orgId, userId, role, actorId);
+  return respond(corsHeaders, target ? 200 : 201, { member });
+}
+
+/**
+ * GET/PUT /api/orgs/{orgId}/vendor-context
+ */
+async function handleVendorContext(request: OrgRequest): Promise<APIGatewayProxyResult> {
+  const { event, context, corsHeaders, organization, orgService } = request;
+  const logger = new Logger('OrganizationVendorContext');
+  const registry = new VendorContextRegistry(new CacheService(cacheConfig, logger, process.env.AWS_REGION), logger);
+
+  if (event.httpMethod === 'GET') {
+    if (!organization.vendorCompany) {
+      return respond(corsHeaders, 404, {
+        error: 'Organization has no vendor context yet',
+        orgId: organization.orgId,
+        requestId: context.awsRequestId,
+      });
+    }
+
+    const vendorContext = await registry.getContext(organization.vendorCompany);
+    return respond(corsHeaders, vendorContext ? 200 : 404, vendorContext
+      ? { vendorCompany: organization.vendorCompany, vendorContext }
+      : {
+          error: `No vendor context for ${organization.vendorCompany}; register a vendor file or run vendor research`,
+          requestId: context.awsRequestId,
+        });
+  }
+
+  if (event.httpMethod === 'PUT') {
+    const denied = requirePermission(request, 'vendor_context:manage');
+    if (denied) return denied;
+
+    const body = event.body && event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+    const contentType = event.headers?.['Content-Type'] || event.headers?.['content-type'] || '';
+    const format = event.queryStringParameters?.format === 'yaml' || /ya?ml/i.test(contentType) ? 'yaml' : 'json';
+    const loaded = VendorContextOnboarding.load(body || '', format);
+
+    if (!loaded.definition) {
+      return respond(corsHeaders, 400, {
+        error: 'Invalid vendor definition',
+        errors: loaded.errors,
+        requestId: context.awsRequestId,
+      });
+    }
+
+    const reference = await registry.register(loaded.definition, 'file', { userId: request.actorId });
+    const updated = await orgService.updateOrganization(organization.orgId, { vendorCompany: reference.companyName });
+
+    return respond(corsHeaders, 200, {
+      message: 'Organization vendor context registered',
+      organization: updated,
+      userFields: reference.registration!.userFields,
+      vendorContext: reference.analysis,
+    });
+  }
+
+  return methodNotAllowed(event, context, corsHeaders);
+}
+
+/**
+ * /api/orgs/{orgId}/research[/{companyName}[/notes]]
+ */
+async function handleResearch(request: OrgRequest): Promise<APIGatewayProxyResult> {
+  const { event, context, corsHeaders, actorId, organization } = request;
+  const library = new SharedResearchService();
+  const orgId = organization.orgId;
+  const companyName = event.pathParameters?.companyName ? decodeURIComponent(event.pathParameters.companyName) : undefined;
+
+  if (!companyName) {
+    if (event.httpMethod === 'GET') {
+      return respond(corsHeaders, 200, await library.listResearch(orgId));
+    }
+    return methodNotAllowed(event, context, corsHeaders);
+  }
+
+  if ((event.resource || '').endsWith('/notes')) {
+    const denied = requirePermission(request, 'notes:write');
+    if (denied) return denied;
+
+    if (event.httpMethod === 'PUT') {
+      const { note } = JSON.parse(event.body || '{}');
+      if (typeof note !== 'string') {
+        return respond(corsHeaders, 400, {
+          error: 'note is required',
+          requestId: context.awsRequestId,
+        });
+      }
+      if (!await library.getResearch(orgId, companyName)) {
+        return researchNotFound(corsHeaders, context, companyName);
+      }
+      return respond(corsHeaders, 200, { note: await library.saveNote(orgId, companyName, actorId, note) });
+    }
+
+    if (event.httpMethod === 'DELETE') {
+      return respond(corsHeaders, 200, await library.deleteNote(orgId, companyName, actorId));
+    }
+
+    return methodNotAllowed(event, context, corsHeaders);
+  }
+
+  switch (event.httpMethod) {
+    case 'GET': {
+      const [research, note] = await Promise.all([
+        library.getResearch(orgId, companyName),
+        library.getNote(orgId, companyName, actorId)
+      ]);
+      if (!research) return researchNotFound(corsHeaders, context, companyName);
+      return respond(corsHeaders, 200, { research, note });
+    }
+
+    case 'PUT': {
+      const denied = requirePermission(request, 'research:share');
+      if (denied) return denied;
+
+      let data = JSON.parse(event.body || '{}');
+      if (event.queryStringParameters?.fromHistory === 'true') {
+        data = await new ResearchHistoryService().getCompanyResearch(actorId, companyName);
+        if (!data) {
+          return respond(corsHeaders, 404, {
+            error: `No research history for ${companyName} to share`,
+            requestId: context.awsRequestId,
+          });
+        }
+      }
+
+      const research = await library.shareResearch(orgId, companyName, actorId, data);
+      return respond(corsHeaders, 200, {
+        message: 'Research shared with organization',
+        research,
+      });
+    }
+
+    case 'DELETE': {
+      const denied = requirePermission(request, 'research:delete');
+      if (denied) return denied;
+      return respond(corsHeaders, 200, await library.deleteResearch(orgId, companyName));
+    }
+  }
+
+  return methodNotAllowed(event, context, corsHeaders);
+}
+
+/**
+ * GET /api/orgs/{orgId}/costs - the cost ledger's per-user spend summed over the org's members
+ */
+async function handleCosts(request: OrgRequest): Promise<APIGatewayProxyResult> {
+  const { event, context, corsHeaders, organization, orgService } = request;
+  if (event.httpMethod !== 'GET') return methodNotAllowed(event, context, corsHeaders);
+
+  const denied = requirePermission(request, 'costs:view');
+  if (denied) return denied;
+
+  const params = event.queryStringParameters || {};
+  const days = Math.max(1, parseInt(params.days || String(DEFAULT_REPORT_DAYS)) || DEFAULT_REPORT_DAYS);
+  const to = params.to || new Date().toISOString().split('T')[0];
+  const from = params.from || shiftDate(to, -(days - 1));
+
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    return respond(corsHeaders, 400, {
+      error: 'Invalid date range',
+      message: 'from and to must be YYYY-MM-DD with from <= to',
+      requestId: context.awsRequestId,
+    });
+  }
+
+  const logger = new Logger('OrganizationCosts');
+  const members = await orgService.listMembers(organization.orgId);
+  const report = await new CostLedgerService(new CacheService(cacheConfig, logger, process.env.AWS_REGION), logger)
+    .getUsersReport(from, to, members.map(member => member.userId));
+
+  const byMember: OrgCostReport['byMember'] = {};
+  for (const member of members) {
+    byMember[member.userId] = {
+      ...(report.byUser[member.userId] || { spend: 0, savings: 0, paidCalls: 0, cacheHits: 0, cacheHitRate: 0 }),
+      role: member.role
+    };
+  }
+
+  const orgReport: OrgCostReport = {
+    orgId: organization.orgId,
+    from: report.from,
+    to: report.to,
+    totals: report.totals,
+    byDay: report.byDay,
+    byMember
+  };
+
+  return respond(corsHeaders, 200, { ...orgReport, requestId: context.awsRequestId });
+}
+
+function requirePermission(request: OrgRequest, permission: OrgPermission): APIGatewayProxyResult | undefined {
+  if (OrganizationPermissions.can(request.membership.role, permission)) return undefined;
+
+  return respond(request.corsHeaders, 403, {
+    error: `Role ${request.membership.role} cannot ${permission.replace(':', ' ')}`,
+    requestId: request.context.awsRequestId,
+  });
+}
+
+function researchNotFound(corsHeaders: Record<string, string>, context: Context, companyName: string): APIGatewayProxyResult {
+  return respond(corsHeaders, 404, {
+    error: `No shared research for ${companyName}`,
+    requestId: context.awsRequestId,
+  });
+}
+
+function methodNotAllowed(event: APIGatewayProxyEvent, context: Context, corsHeaders: Record<string, string>): APIGatewayProxyResult {
+  return respond(corsHeaders, 405, {
+    error: 'Method not allowed',
+    method: event.httpMethod,
+    requestId: context.awsRequestId,
+  });
+}
+
+function respond(corsHeaders: Record<string, string>, statusCode: number, body: unknown): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: corsHeaders,
+    body: JSON.stringify(body),
+  };
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+}
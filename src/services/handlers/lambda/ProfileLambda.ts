@@ -1,12 +1,16 @@
 import { APIGatewayProxyEvent, Context, APIGatewayProxyResult } from 'aws-lambda';
 import { ProfileService } from '../../ProfileService';
 import { Logger } from '../../core/Logger';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError } from '../../auth/types/AuthTypes';
 
 /**
  * Profile Lambda Handler
  * GET /profile/{userId} - Get user profile
  * PUT /profile/{userId} - Update user profile  
  * DELETE /profile/{userId} - Delete user profile
+ *
+ * The bearer token's user must own {userId}.
  */
 export const profileHandler = async (
   event: APIGatewayProxyEvent,
@@ -18,7 +22,7 @@ export const profileHandler = async (
     const origin = event.headers.Origin || event.headers.origin;
     const corsHeaders = {
       'Access-Control-Allow-Origin': origin || '*',
-      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
       'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
       'Content-Type': 'application/json',
     };
@@ -43,6 +47,9 @@ export const profileHandler = async (
       };
     }
 
+    const auth = AuthService.fromEnvironment();
+    auth.assertOwner(await auth.authenticate(event), userId);
+
     // Initialize profile service
     const profileService = new ProfileService();
 
@@ -147,6 +154,16 @@ export const profileHandler = async (
     };
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      const origin = event.headers.Origin || event.headers.origin;
+      return authErrorResponse(error, {
+        'Access-Control-Allow-Origin': origin || '*',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
+        'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+        'Content-Type': 'application/json',
+      }, context.awsRequestId);
+    }
+
     logger.error('Profile operation failed', { 
       method: event.httpMethod,
       userId: event.pathParameters?.userId,
@@ -155,7 +172,7 @@ export const profileHandler = async (
     
     const corsHeaders = {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Content-Type, X-API-Key',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
       'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
       'Content-Type': 'application/json',
     };
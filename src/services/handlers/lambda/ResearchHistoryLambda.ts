@@ -1,9 +1,11 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { ResearchHistoryService } from '../../ResearchHistoryService';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError } from '../../auth/types/AuthTypes';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'Content-Type,X-API-Key',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-API-Key',
   'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
 };
 
@@ -33,6 +35,17 @@ export const researchHistoryHandler = async (
     };
   }
 
+  // Only the token's user may read or change their history
+  try {
+    const auth = AuthService.fromEnvironment();
+    auth.assertOwner(await auth.authenticate(event), userId);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
+    throw error;
+  }
+
   // Extract company name from path parameters (if present)
   const companyName = event.pathParameters?.companyName;
 
@@ -0,0 +1,388 @@
+/**
+ * Research Streaming Lambda Functions
+ *
+ * POST /api/research/stream                              - Start a research session
+ * GET  /api/research/stream/{researchSessionId}/events   - Progress events (SSE, resumable via Last-Event-ID)
+ * GET  /api/research/stream/{researchSessionId}/status   - Session status summary
+ * GET  /api/research/stream/{researchSessionId}/result   - Final customer intelligence analysis
+ *
+ * Sessions belong to the bearer token's user and are stored in their tenant's cache scope; the events
+ * endpoint also accepts ?access_token= since EventSource can't send headers. vendorCompany defaults to
+ * the caller's organization vendor when the request omits it.
+ *
+ * The pipeline itself runs in an async self-invocation ({ action: 'run', researchSessionId })
+ * so the POST returns immediately and progress is read back from the cache table.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { ResearchSessionService } from '../../research/ResearchSessionService';
+import { ResearchPipeline } from '../../research/ResearchPipeline';
+import { ResearchSession } from '../../research/types/ResearchTypes';
+import { OrganizationService } from '../../organizations/OrganizationService';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError, AuthIdentity } from '../../auth/types/AuthTypes';
+import { getCorsHeaders } from '../../../index';
+
+const EVENT_POLL_INTERVAL_MS = 1000;
+const EVENT_POLL_MAX_WAIT_MS = 20000; // Stay under the 29s API Gateway integration timeout
+
+interface ResearchRunEvent {
+  action: 'run';
+  researchSessionId: string;
+  tenantId?: string;
+}
+
+/**
+ * Lambda handler for research streaming endpoints and async pipeline runs
+ */
+export const researchStreamingHandler = async (
+  event: APIGatewayProxyEvent | ResearchRunEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const logger = new Logger('ResearchStreaming');
+  const cacheService = new CacheService(
+    { ttlHours: 24, maxEntries: 1000, compressionEnabled: true },
+    logger,
+    process.env.AWS_REGION
+  );
+
+  // Async pipeline run (self-invocation)
+  if ((event as ResearchRunEvent).action === 'run') {
+    const { researchSessionId, tenantId } = event as ResearchRunEvent;
+    logger.info('Running research pipeline', { researchSessionId, tenantId, requestId: context.awsRequestId });
+
+    const pipeline = new ResearchPipeline(tenantId ? cacheService.forTenant(tenantId) : cacheService, logger);
+    const session = await pipeline.run(researchSessionId);
+
+    return {
+      statusCode: session ? 200 : 404,
+      body: JSON.stringify({ researchSessionId, status: session?.status || 'not_found' }),
+    };
+  }
+
+  const apiEvent = event as APIGatewayProxyEvent;
+  const origin = apiEvent.headers?.Origin || apiEvent.headers?.origin;
+  const corsHeaders = {
+    ...getCorsHeaders(origin),
+    'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-API-Key,Last-Event-ID',
+  };
+
+  if (apiEvent.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  try {
+    const auth = AuthService.fromEnvironment();
+    const identity = await auth.authenticate(apiEvent, { allowQueryToken: apiEvent.httpMethod === 'GET' });
+    const sessionService = new ResearchSessionService(cacheService.forTenant(identity.tenantId), logger);
+
+    if (apiEvent.httpMethod === 'POST') {
+      return await startResearch(apiEvent, context, identity, sessionService, logger, corsHeaders);
+    }
+
+    const researchSessionId = apiEvent.pathParameters?.researchSessionId;
+    if (!researchSessionId) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'researchSessionId is required in path',
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+
+    const session = await sessionService.getSession(researchSessionId);
+    if (!session) {
+      return {
+        statusCode: 404,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'Research session not found',
+          researchSessionId,
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+
+    if (session.userId) {
+      auth.assertOwner(identity, session.userId);
+    }
+
+    const route = apiEvent.resource || apiEvent.path || '';
+
+    if (route.endsWith('/events')) {
+      return await streamEvents(apiEvent, session, sessionService, corsHeaders);
+    }
+
+    if (route.endsWith('/status')) {
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify(toStatusResponse(session)),
+      };
+    }
+
+    if (route.endsWith('/result')) {
+      return await getResult(session, cacheService, corsHeaders, context);
+    }
+
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Unknown research streaming endpoint',
+        path: route,
+        requestId: context.awsRequestId,
+      }),
+    };
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
+
+    logger.error('Research streaming request failed', {
+      error: error instanceof Error ? error.message : String(error),
+      requestId: context.awsRequestId,
+    });
+
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Research streaming request failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
+
+/**
+ * POST /api/research/stream - create the session and kick off the async pipeline run
+ */
+async function startResearch(
+  event: APIGatewayProxyEvent,
+  context: Context,
+  identity: AuthIdentity,
+  sessionService: ResearchSessionService,
+  logger: Logger,
+  corsHeaders: Record<string, string>
+): Promise<APIGatewayProxyResult> {
+  const body = JSON.parse(event.body || '{}');
+  const { prospectCompany, userPersona, refresh } = body;
+  const userId = identity.userId;
+  const vendorCompany = body.vendorCompany || await getOrgVendorCompany(userId, logger);
+
+  if (!prospectCompany || !vendorCompany) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'prospectCompany and vendorCompany are required (vendorCompany defaults to your organization\'s vendor)',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  if (userPersona?.role && !['AE', 'CSM', 'SE'].includes(userPersona.role)) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'userPersona.role must be one of AE, CSM, SE',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  const session = await sessionService.createSession({
+    prospectCompany,
+    vendorCompany,
+    userPersona,
+    userId,
+    refresh: refresh === true,
+  });
+
+  try {
+    await invokePipelineRun(session.researchSessionId, identity.tenantId);
+    logger.info('Research pipeline invoked', { researchSessionId: session.researchSessionId });
+  } catch (error) {
+    logger.error('Failed to invoke research pipeline', { researchSessionId: session.researchSessionId, error });
+    await sessionService.appendEvent(session, 'research_failed', 'Failed to start research');
+  }
+
+  const basePath = `/api/research/stream/${session.researchSessionId}`;
+
+  return {
+    statusCode: 202,
+    headers: corsHeaders,
+    body: JSON.stringify({
+      researchSessionId: session.researchSessionId,
+      status: session.status,
+      steps: session.steps,
+      endpoints: {
+        events: `${basePath}/events`,
+        status: `${basePath}/status`,
+        result: `${basePath}/result`,
+      },
+      requestId: context.awsRequestId,
+    }),
+  };
+}
+
+/**
+ * GET /events - return events after Last-Event-ID as an SSE body.
+ * When nothing new is available yet, long-poll briefly before returning so clients
+ * reconnecting with Last-Event-ID don't spin.
+ */
+async function streamEvents(
+  event: APIGatewayProxyEvent,
+  session: ResearchSession,
+  sessionService: ResearchSessionService,
+  corsHeaders: Record<string, string>
+): Promise<APIGatewayProxyResult> {
+  const lastEventId = getLastEventId(event);
+  let current = session;
+  let events = await sessionService.getEventsSince(current.researchSessionId, lastEventId);
+  const startedAt = Date.now();
+
+  while (events.length === 0 && !sessionService.isTerminal(current) && Date.now() - startedAt < EVENT_POLL_MAX_WAIT_MS) {
+    await new Promise(resolve => setTimeout(resolve, EVENT_POLL_INTERVAL_MS));
+    current = await sessionService.getSession(current.researchSessionId) || current;
+    events = await sessionService.getEventsSince(current.researchSessionId, lastEventId);
+  }
+
+  return {
+    statusCode: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+    body: sessionService.formatSSE(events),
+  };
+}
+
+/**
+ * GET /result - final analysis once the session has completed
+ */
+async function getResult(
+  session: ResearchSession,
+  cacheService: CacheService,
+  corsHeaders: Record<string, string>,
+  context: Context
+): Promise<APIGatewayProxyResult> {
+  if (session.status === 'failed') {
+    return {
+      statusCode: 422,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        researchSessionId: session.researchSessionId,
+        status: session.status,
+        error: session.error,
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  if (session.status !== 'completed' || !session.resultRef) {
+    return {
+      statusCode: 202,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        researchSessionId: session.researchSessionId,
+        status: session.status,
+        currentStep: session.currentStep,
+        message: 'Research still in progress',
+      }),
+    };
+  }
+
+  const analysis = await cacheService.getRawJSON(session.resultRef);
+  if (!analysis) {
+    return {
+      statusCode: 404,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Research result expired or not found',
+        researchSessionId: session.researchSessionId,
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  return {
+    statusCode: 200,
+    headers: corsHeaders,
+    body: JSON.stringify({
+      researchSessionId: session.researchSessionId,
+      status: session.status,
+      prospectCompany: session.prospectCompany,
+      vendorCompany: session.vendorCompany,
+      userPersona: session.userPersona,
+      analysis,
+      completedAt: session.updatedAt,
+    }),
+  };
+}
+
+function toStatusResponse(session: ResearchSession) {
+  return {
+    researchSessionId: session.researchSessionId,
+    status: session.status,
+    currentStep: session.currentStep,
+    steps: session.steps,
+    lastEventId: session.lastEventId,
+    prospectCompany: session.prospectCompany,
+    vendorCompany: session.vendorCompany,
+    error: session.error,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * Last-Event-ID from the header (case-insensitive) or ?lastEventId= (EventSource can't set headers on first connect)
+ */
+function getLastEventId(event: APIGatewayProxyEvent): number {
+  const headerKey = Object.keys(event.headers || {}).find(key => key.toLowerCase() === 'last-event-id');
+  const raw = (headerKey && event.headers[headerKey]) || event.queryStringParameters?.lastEventId;
+  const parsed = raw ? parseInt(raw, 10) : 0;
+  return isNaN(parsed) || parsed < 0 ? 0 : parsed;
+}
+
+/**
+ * Invoke this function asynchronously to run the research pipeline
+ */
+async function invokePipelineRun(researchSessionId: string, tenantId: string): Promise<void> {
+  const lambdaClient = new LambdaClient({ region: process.env.AWS_REGION });
+  const payload: ResearchRunEvent = { action: 'run', researchSessionId, tenantId };
+
+  await lambdaClient.send(new InvokeCommand({
+    FunctionName: process.env.AWS_LAMBDA_FUNCTION_NAME || 'sales-intelligence-research-streaming',
+    InvocationType: 'Event', // Asynchronous
+    Payload: JSON.stringify(payload),
+  }));
+}
+
+/**
+ * The caller's organization vendor; a missing org table never blocks research
+ */
+async function getOrgVendorCompany(userId: string, logger: Logger): Promise<string | undefined> {
+  try {
+    return await new OrganizationService().getDefaultVendorCompany(userId);
+  } catch (error) {
+    logger.warn('Organization vendor lookup failed', { userId, error: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+}
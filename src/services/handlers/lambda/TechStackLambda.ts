@@ -0,0 +1,94 @@
+/**
+ * Tech Stack Lambda Function
+ *
+ * GET /companies/{domain}/tech-stack - Technologies fingerprinted from the company website and job postings
+ *   ?company=Name  Company name for the job search (defaults to the domain's name, e.g. acme.com -> Acme)
+ *   ?jobs=false    Website fingerprints only
+ *   ?refresh=true  Re-fetch the website and job postings instead of using cached results
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { SerpAPIService } from '../../SerpAPIService';
+import { TechStackService } from '../../techstack/TechStackService';
+import { CompanyExtractor } from '../../utilities/CompanyExtractor';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+/**
+ * Lambda handler for the tech stack endpoint
+ */
+export const techStackHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  const rawDomain = event.pathParameters?.domain ? decodeURIComponent(event.pathParameters.domain).trim() : '';
+  const domain = rawDomain.includes('.') ? TechStackService.normalizeDomain(rawDomain) : undefined;
+
+  if (!domain) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'A company domain (e.g. acme.com) is required in path',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  const params = event.queryStringParameters || {};
+  const company = params.company?.trim() || CompanyExtractor.extractCompanyName(domain);
+  const includeJobs = params.jobs !== 'false';
+  const forceRefresh = params.refresh === 'true';
+
+  try {
+    console.log('Tech Stack Lambda invoked', { requestId: context.awsRequestId, domain, company, includeJobs });
+
+    const logger = new Logger('TechStack');
+    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+
+    const jobs = includeJobs
+      ? await new SerpAPIService(cacheService, logger).getJobsResults(company, { forceRefresh })
+      : [];
+    const detection = await new TechStackService(cacheService, logger).detect(company, {
+      website: domain,
+      jobs,
+      forceRefresh
+    });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify(detection),
+    };
+  } catch (error) {
+    console.error('Tech stack request failed:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
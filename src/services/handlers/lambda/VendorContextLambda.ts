@@ -2,6 +2,8 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda
 import { SFNClient, StartExecutionCommand } from '@aws-sdk/client-sfn';
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
+import { VendorContextOnboarding } from '../../vendor/VendorContextOnboarding';
+import { VendorContextReference } from '../../vendor/types/VendorOnboardingTypes';
 import { getCorsHeaders } from '../../../index';
 
 /**
@@ -83,6 +85,52 @@ export const vendorContextHandler = async (
         process.env.AWS_REGION
       );
 
+      // PRIORITY 0: A context registered from a vendor file or profile needs no research
+      const registeredKey = VendorContextOnboarding.referenceKey(companyName.trim());
+      const registered = await cacheService.getRawJSON(registeredKey) as VendorContextReference | null;
+
+      if (registered?.registration) {
+        logger.info('Registered vendor context found - returning without research', {
+          companyName: companyName.trim(),
+          cacheKey: registeredKey,
+          source: registered.registration.source
+        });
+
+        return {
+          statusCode: 200,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            message: 'Vendor context retrieved from registered definition',
+            requestId: context.awsRequestId,
+            companyName: registered.companyName,
+            status: 'completed',
+            source: 'registered',
+            data: {
+              companyName: registered.companyName,
+              requester: 'vendor_context',
+              workflowType: 'vendor_context',
+              rawData: {},
+              analysis: registered.analysis,
+              registration: {
+                source: registered.registration.source,
+                userFields: registered.registration.userFields,
+                registeredAt: registered.registration.registeredAt,
+                researchedAt: registered.registration.researchedAt
+              },
+              generatedAt: registered.lastUpdated,
+              requestId: context.awsRequestId
+            },
+            cached: true,
+            generatedAt: registered.lastUpdated,
+            metrics: {
+              totalCost: 0,
+              cacheSavings: 1.50,
+              cacheHit: true
+            }
+          }),
+        };
+      }
+
       // PRIORITY 1: Check for rich analysis cache first (contains the actual intelligence)
       const analysisKey = `vendor_context_analysis:${companyName.trim()}:vendor_context`;
       const richAnalysis = await cacheService.getRawJSON(analysisKey);
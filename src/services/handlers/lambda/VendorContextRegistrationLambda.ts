@@ -0,0 +1,158 @@
+/**
+ * Vendor Context Registration Lambda Function
+ *
+ * POST /vendor/context/register - Register a vendor context instead of waiting for vendor research
+ *   Body: a vendor file (the config/vendors/*.json layout or a vendor-first schema document), JSON or YAML;
+ *         admins only, since it replaces the shared vendor context anyone may read
+ *   ?format=yaml   Parse the body as YAML (also inferred from a YAML Content-Type)
+ *   ?userId=abc    Build the context from that user's profile instead (company, products, value props, competitors);
+ *                  the bearer token's user must own the profile
+ *
+ * The definition is validated against schemas/vendor-context-first-schema.json, merged over any researched
+ * vendor context (user-provided fields win) and stored as the vendor context reference.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { ProfileService } from '../../ProfileService';
+import { VendorContextOnboarding } from '../../vendor/VendorContextOnboarding';
+import { VendorContextRegistry } from '../../vendor/VendorContextRegistry';
+import { VendorDefinitionResult, VendorFileFormat } from '../../vendor/types/VendorOnboardingTypes';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError } from '../../auth/types/AuthTypes';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+/**
+ * Lambda handler for vendor context registration
+ */
+export const vendorContextRegistrationHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  const params = event.queryStringParameters || {};
+  const userId = params.userId?.trim();
+
+  try {
+    console.log('Vendor Context Registration Lambda invoked', { requestId: context.awsRequestId, source: userId ? 'profile' : 'file', userId });
+
+    const logger = new Logger('VendorContextRegistration');
+    const auth = AuthService.fromEnvironment();
+    const identity = await auth.authenticate(event);
+    let loaded: VendorDefinitionResult;
+
+    if (userId) {
+      auth.assertOwner(identity, userId);
+
+      const profile = await new ProfileService().getProfile(userId);
+      if (!profile) {
+        return {
+          statusCode: 404,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            error: 'Profile not found',
+            userId,
+            requestId: context.awsRequestId,
+          }),
+        };
+      }
+
+      const definition = VendorContextOnboarding.fromProfile(profile);
+      const errors = VendorContextOnboarding.validate(definition);
+      loaded = errors.length > 0 ? { errors } : { definition, errors };
+    } else {
+      if (!auth.isAdmin(identity)) {
+        throw new AuthError('Registering a vendor file requires admin access', 403);
+      }
+
+      const body = event.body && event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+      if (!body?.trim()) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            error: 'A vendor file (JSON or YAML) is required in the request body, or a userId to register from a profile',
+            requestId: context.awsRequestId,
+          }),
+        };
+      }
+
+      loaded = VendorContextOnboarding.load(body, resolveFormat(event));
+    }
+
+    if (!loaded.definition) {
+      return {
+        statusCode: 400,
+        headers: corsHeaders,
+        body: JSON.stringify({
+          error: 'Invalid vendor definition',
+          errors: loaded.errors,
+          requestId: context.awsRequestId,
+        }),
+      };
+    }
+
+    const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+    const reference = await new VendorContextRegistry(cacheService, logger)
+      .register(loaded.definition, userId ? 'profile' : 'file', { userId });
+
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        message: 'Vendor context registered',
+        companyName: reference.companyName,
+        source: reference.registration!.source,
+        userFields: reference.registration!.userFields,
+        mergedWithResearch: !!reference.registration!.researchedAt,
+        vendorContext: reference.analysis,
+        requestId: context.awsRequestId,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
+
+    console.error('Vendor context registration failed:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
+
+/**
+ * ?format wins; otherwise a YAML Content-Type (application/yaml, text/x-yaml, ...) means YAML
+ */
+function resolveFormat(event: APIGatewayProxyEvent): VendorFileFormat {
+  const format = event.queryStringParameters?.format?.toLowerCase();
+  if (format === 'yaml' || format === 'yml') return 'yaml';
+  if (format === 'json') return 'json';
+
+  const contentType = event.headers?.['Content-Type'] || event.headers?.['content-type'] || '';
+  return /ya?ml/i.test(contentType) ? 'yaml' : 'json';
+}
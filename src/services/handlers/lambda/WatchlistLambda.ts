@@ -0,0 +1,193 @@
+/**
+ * Watchlist Lambda Functions
+ *
+ * GET    /api/watchlists/users/{userId}/companies                 - Watched companies with last snapshot counts
+ * POST   /api/watchlists/users/{userId}/companies                 - Pin a company ({ company, domain? })
+ * DELETE /api/watchlists/users/{userId}/companies/{companyName}   - Unpin a company
+ * GET    /api/watchlists/users/{userId}/alerts                    - Change alerts (?since, ?company, ?type, ?limit)
+ *
+ * The bearer token's user must own {userId}.
+ *
+ * watchlistRefreshHandler runs on a schedule (EventBridge) and refreshes every watched company.
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '../../core/Logger';
+import { CacheService } from '../../core/CacheService';
+import { WatchlistService } from '../../watchlist/WatchlistService';
+import { WatchlistRefreshService } from '../../watchlist/WatchlistRefreshService';
+import { WatchlistAlertType, WatchlistRefreshSummary } from '../../watchlist/types/WatchlistTypes';
+import { AuthService, authErrorResponse } from '../../auth/AuthService';
+import { AuthError } from '../../auth/types/AuthTypes';
+import { getCorsHeaders } from '../../../index';
+
+// Cache configuration
+const cacheConfig = {
+  ttlHours: process.env.NODE_ENV === 'development' ? 96 : 1,
+  maxEntries: 1000,
+  compressionEnabled: true
+};
+
+const ALERT_TYPES: WatchlistAlertType[] = ['new_funding', 'leadership_change', 'hiring_spike'];
+
+/**
+ * Lambda handler for the watchlist API
+ */
+export const watchlistHandler = async (
+  event: APIGatewayProxyEvent,
+  context: Context
+): Promise<APIGatewayProxyResult> => {
+  const origin = event.headers?.Origin || event.headers?.origin;
+  const corsHeaders = getCorsHeaders(origin);
+
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: '',
+    };
+  }
+
+  const userId = event.pathParameters?.userId;
+  if (!userId) {
+    return {
+      statusCode: 400,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'userId is required in path',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+
+  try {
+    console.log('Watchlist Lambda invoked', { requestId: context.awsRequestId, method: event.httpMethod, path: event.path });
+
+    const auth = AuthService.fromEnvironment();
+    auth.assertOwner(await auth.authenticate(event), userId);
+
+    const watchlistService = new WatchlistService();
+
+    // GET /api/watchlists/users/{userId}/alerts
+    if (event.httpMethod === 'GET' && event.path.endsWith('/alerts')) {
+      const params = event.queryStringParameters || {};
+      if (params.type && !ALERT_TYPES.includes(params.type as WatchlistAlertType)) {
+        return {
+          statusCode: 400,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            error: `type must be one of: ${ALERT_TYPES.join(', ')}`,
+            requestId: context.awsRequestId,
+          }),
+        };
+      }
+
+      const result = await watchlistService.getAlerts(userId, {
+        since: params.since,
+        company: params.company,
+        type: params.type as WatchlistAlertType | undefined,
+        limit: params.limit ? Math.max(1, parseInt(params.limit) || 0) : undefined,
+      });
+
+      return {
+        statusCode: 200,
+        headers: corsHeaders,
+        body: JSON.stringify(result),
+      };
+    }
+
+    const companyName = event.pathParameters?.companyName
+      ? decodeURIComponent(event.pathParameters.companyName)
+      : undefined;
+
+    switch (event.httpMethod) {
+      case 'GET':
+        if (!companyName) {
+          const result = await watchlistService.getWatchlist(userId);
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify(result),
+          };
+        }
+        break;
+
+      case 'POST':
+        if (!companyName) {
+          const { company, domain } = JSON.parse(event.body || '{}');
+          if (!company || typeof company !== 'string' || !company.trim()) {
+            return {
+              statusCode: 400,
+              headers: corsHeaders,
+              body: JSON.stringify({
+                error: 'company is required',
+                requestId: context.awsRequestId,
+              }),
+            };
+          }
+
+          const entry = await watchlistService.addCompany(userId, company.trim(), domain);
+          return {
+            statusCode: 201,
+            headers: corsHeaders,
+            body: JSON.stringify({
+              message: `${entry.company} added to watchlist`,
+              entry,
+            }),
+          };
+        }
+        break;
+
+      case 'DELETE':
+        if (companyName) {
+          const result = await watchlistService.removeCompany(userId, companyName);
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify(result),
+          };
+        }
+        break;
+    }
+
+    return {
+      statusCode: 405,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Method not allowed',
+        method: event.httpMethod,
+        requestId: context.awsRequestId,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return authErrorResponse(error, corsHeaders, context.awsRequestId);
+    }
+
+    console.error('Watchlist request failed:', error);
+    return {
+      statusCode: 500,
+      headers: corsHeaders,
+      body: JSON.stringify({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        requestId: context.awsRequestId,
+      }),
+    };
+  }
+};
+
+/**
+ * Scheduled watchlist refresh (EventBridge rule)
+ */
+export const watchlistRefreshHandler = async (
+  _event: unknown,
+  context: Context
+): Promise<WatchlistRefreshSummary> => {
+  const logger = new Logger('WatchlistRefresh');
+  const cacheService = new CacheService(cacheConfig, logger, process.env.AWS_REGION);
+  const refreshService = new WatchlistRefreshService(cacheService, logger);
+
+  console.log('Watchlist refresh invoked', { requestId: context.awsRequestId });
+  return refreshService.refreshAll(Date.now() + context.getRemainingTimeInMillis());
+};
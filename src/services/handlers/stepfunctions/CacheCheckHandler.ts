@@ -6,6 +6,7 @@
 
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
+import { getDeepDiveKeySuffix } from './shared/PersonaDeepDivePrompts';
 
 /**
  * Cache Check Handler - First step in Step Functions workflow
@@ -38,7 +39,7 @@ export const cacheCheckHandler = async (event: any): Promise<any> => {
     } else if (event.workflowType === 'customer_intelligence') {
       const vendorCompany = event.vendorCompany || 'unknown';
       const personaRole = event.userPersona?.role || 'unknown';
-      profileKey = `enriched_customer_profile:${companyName.toLowerCase().replace(/\s+/g, '_')}:${vendorCompany.toLowerCase().replace(/\s+/g, '_')}:${personaRole}:${requester}`;
+      profileKey = `enriched_customer_profile:${companyName.toLowerCase().replace(/\s+/g, '_')}:${vendorCompany.toLowerCase().replace(/\s+/g, '_')}:${personaRole}:${requester}${getDeepDiveKeySuffix(event.deepDivePersona)}`;
     } else {
       // Fallback to legacy key
       profileKey = `enriched_profile:${companyName}:${requester}`;
@@ -48,7 +49,7 @@ export const cacheCheckHandler = async (event: any): Promise<any> => {
     
     const cachedProfile = await cacheService.getRawJSON(profileKey);
     
-    if (cachedProfile) {
+    if (cachedProfile && !event.refresh) {
       console.log('Cache hit - returning cached profile for:', companyName);
       return {
         hit: true,
@@ -62,7 +63,8 @@ export const cacheCheckHandler = async (event: any): Promise<any> => {
         requestId: event.requestId,
         timestamp: event.timestamp,
         vendorCompany: event.vendorCompany,
-        userPersona: event.userPersona
+        userPersona: event.userPersona,
+        deepDivePersona: event.deepDivePersona
       };
     }
     
@@ -77,6 +79,7 @@ export const cacheCheckHandler = async (event: any): Promise<any> => {
       timestamp: event.timestamp,
       vendorCompany: event.vendorCompany,
       userPersona: event.userPersona,
+      deepDivePersona: event.deepDivePersona,
       interactionMode: event.interactionMode,
       refresh: event.refresh
     };
@@ -8,6 +8,9 @@
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
 import { CacheType } from '../../../types/cache-types';
+import { getDeepDiveKeySuffix } from './shared/PersonaDeepDivePrompts';
+import { VendorContextRegistry } from '../../vendor/VendorContextRegistry';
+import { VendorContextOnboarding } from '../../vendor/VendorContextOnboarding';
 
 /**
  * Cache Response Handler - Stores final enriched data in Layer 1 cache
@@ -53,7 +56,7 @@ export const cacheResponseHandler = async (event: any): Promise<any> => {
       cacheType = CacheType.VENDOR_CONTEXT_ENRICHMENT;
     } else if (workflowType === 'customer_intelligence') {
       const personaRole = userPersona?.role || 'system';  // Default to 'system' instead of 'unknown'
-      profileKey = `enriched_customer_profile:${companyName.toLowerCase().replace(/\s+/g, '_')}:${vendorCompany?.toLowerCase().replace(/\s+/g, '_') || 'unknown'}:${personaRole}:${requester}`;
+      profileKey = `enriched_customer_profile:${companyName.toLowerCase().replace(/\s+/g, '_')}:${vendorCompany?.toLowerCase().replace(/\s+/g, '_') || 'unknown'}:${personaRole}:${requester}${getDeepDiveKeySuffix(analysisResult.deepDivePersona)}`;
       cacheType = CacheType.CUSTOMER_INTELLIGENCE_ENRICHMENT;
     } else {
       // Fallback for legacy workflows
@@ -99,6 +102,7 @@ export const cacheResponseHandler = async (event: any): Promise<any> => {
         cacheHits: collectionResult?.data?.cacheHits || 0,
         cacheSavings: collectionResult?.data?.totalCacheSavings || 0,
         llmCost: analysisResult.cost || 0,
+        llmUsage: analysisResult.usage,
         datasetsCollected: collectionResult?.data?.datasetsCollected?.length || 0,
         dataQuality: collectionResult?.data?.dataQuality || analysisData.data_quality
       },
@@ -108,6 +112,7 @@ export const cacheResponseHandler = async (event: any): Promise<any> => {
       workflowMetadata: {
         type: workflowType,
         userPersona: collectionResult?.data?.userPersona,
+        deepDivePersona: analysisResult.deepDivePersona,
         datasetsCollected: collectionResult?.data?.datasetsCollected || [],
         processedAt: new Date().toISOString()
       }
@@ -119,14 +124,11 @@ export const cacheResponseHandler = async (event: any): Promise<any> => {
     await cacheService.setRawJSON(profileKey, enrichedProfile, cacheType);
     
     // For vendor context, also cache a cross-reference for customer intelligence to use
+    // (a context registered from a vendor file or profile is re-merged so user-provided fields are kept)
     if (workflowType === 'vendor_context') {
-      const vendorContextRefKey = `vendor_context_ref:${companyName.toLowerCase().replace(/\s+/g, '_')}`;
-      const vendorContextRef = {
-        companyName,
-        analysis: analysisResult,  // ✅ analysisResult IS the analysis data
-        lastUpdated: new Date().toISOString(),
-        cacheKey: profileKey
-      };
+      const vendorContextRefKey = VendorContextOnboarding.referenceKey(companyName);
+      const vendorContextRef = await new VendorContextRegistry(cacheService, logger)
+        .referenceForResearch(companyName, analysisResult, profileKey);  // ✅ analysisResult IS the analysis data
       await cacheService.setRawJSON(vendorContextRefKey, vendorContextRef, CacheType.VENDOR_CONTEXT_REFERENCE);
       console.log('Vendor context reference cached for customer intelligence use:', vendorContextRefKey);
     }
@@ -135,6 +137,7 @@ export const cacheResponseHandler = async (event: any): Promise<any> => {
       profileKey,
       workflowType,
       totalCost: enrichedProfile.metrics.totalCost,
+      llmCost: enrichedProfile.metrics.llmCost,
       cacheSavings: enrichedProfile.metrics.cacheSavings,
       datasetsCollected: enrichedProfile.metrics.datasetsCollected
     });
@@ -7,16 +7,54 @@
 
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
+import { SingleFlight } from '../../core/cache/SingleFlight';
+import { CostLedgerService } from '../../CostLedgerService';
 import { AIAnalyzer } from '../../analysis/AIAnalyzer';
-import { JsonExtractor } from '../../utilities/JsonExtractor';
+import { JsonSectionParser } from '../../utilities/JsonSectionParser';
+import { LLMOutputValidator } from './shared/LLMOutputValidator';
+import { scheduleAnalysisRefresh } from './shared/AnalysisRefreshScheduler';
+import { DEEP_DIVE_TEMPLATES, LLMOutputType } from './shared/LLMOutputSchemas';
+import {
+  PERSONA_PROMPT_TEMPLATES,
+  buildDeepDiveInstructions,
+  getDeepDiveKeySuffix
+} from './shared/PersonaDeepDivePrompts';
 import { CacheType } from '../../../types/cache-types';
+import { BedrockResponse, BedrockUsage } from '../../analysis/types/AnalysisTypes';
 import { 
   LLMAnalysisEvent, 
+  LLMAnalysisOptions,
   LLMAnalysisResponse, 
-  CustomerIntelligenceOutput 
+  CustomerIntelligenceOutput,
+  DeepDivePersona,
+  PersonaDeepDiveOutput
 } from './shared/LLMAnalysisTypes';
 import { DatasetType } from '../../../types/dataset-requirements';
-import { MultiSourceData } from '../../../types/orchestrator-types';
+import { MultiSourceData, SourceFreshness } from '../../../types/orchestrator-types';
+import { NewsEventPipeline } from '../../news/NewsEventPipeline';
+import { BuyingCommitteeMapper } from '../../orgchart/BuyingCommitteeMapper';
+import { BuyingCommitteeMap } from '../../orgchart/types/BuyingCommitteeTypes';
+import { TechStackService } from '../../techstack/TechStackService';
+import { TechStackDetection } from '../../techstack/types/TechStackTypes';
+import { WatchlistChangeDetector } from '../../watchlist/WatchlistChangeDetector';
+import { CompetitiveDisplacementDetector } from '../../competitive/CompetitiveDisplacementDetector';
+import { CompetitiveDisplacementReport } from '../../competitive/types/CompetitiveDisplacementTypes';
+import { VendorContextRegistry } from '../../vendor/VendorContextRegistry';
+import { VendorContextOnboarding } from '../../vendor/VendorContextOnboarding';
+
+const MAX_PROMPT_NEWS_EVENTS = 8;
+const MAX_PROMPT_TECHNOLOGIES = 25;
+// Detected technologies at or above this confidence are merged into tech_stack; the rest stay as evidence only
+const TECH_STACK_MERGE_CONFIDENCE = 0.6;
+const MAX_PROMPT_COMPETITORS = 8;
+
+/**
+ * Evidence detected before the LLM call, shown in the prompt and merged into the output afterwards
+ */
+interface DetectedSignals {
+  techStack?: TechStackDetection;
+  displacement?: CompetitiveDisplacementReport;
+}
 
 /**
  * Enhanced Customer Intelligence Analysis Handler
@@ -25,6 +63,11 @@ export class CustomerLLMAnalysisHandler {
   private logger: Logger;
   private cacheService: CacheService;
   private aiAnalyzer: AIAnalyzer;
+  private costLedger: CostLedgerService;
+  private outputValidator: LLMOutputValidator;
+  private techStackService: TechStackService;
+  private vendorContextRegistry: VendorContextRegistry;
+  private singleFlight: SingleFlight;
 
   constructor(logger: Logger, region?: string) {
     this.logger = logger;
@@ -33,6 +76,7 @@ export class CustomerLLMAnalysisHandler {
       logger,
       region || process.env.AWS_REGION
     );
+    this.costLedger = new CostLedgerService(this.cacheService, logger);
 
     // Initialize AIAnalyzer for customer intelligence analysis
     this.aiAnalyzer = new AIAnalyzer(
@@ -45,21 +89,34 @@ export class CustomerLLMAnalysisHandler {
       logger,
       region || process.env.AWS_REGION
     );
+    this.outputValidator = new LLMOutputValidator(this.cacheService, logger, this.aiAnalyzer);
+    this.techStackService = new TechStackService(this.cacheService, logger);
+    this.vendorContextRegistry = new VendorContextRegistry(this.cacheService, logger);
+    // Analyses (with repairs) can take minutes; the Lambda allows 10
+    this.singleFlight = new SingleFlight(this.cacheService, logger, {
+      scope: 'bedrock_customer_analysis',
+      lockTtlSeconds: 300,
+      waitTimeoutMs: 300000,
+      pollIntervalMs: 2000
+    });
   }
 
   /**
    * Process customer intelligence analysis
    */
-  async processCustomerAnalysis(event: LLMAnalysisEvent): Promise<LLMAnalysisResponse> {
+  async processCustomerAnalysis(event: LLMAnalysisEvent, options: LLMAnalysisOptions = {}): Promise<LLMAnalysisResponse> {
     const { 
       companyName, 
       vendorCompany, 
       requester, 
-      data, 
       requestId, 
       userPersona,
+      deepDivePersona,
       datasetsCollected 
     } = event;
+    const outputType: LLMOutputType = deepDivePersona
+      ? PERSONA_PROMPT_TEMPLATES[deepDivePersona].outputType
+      : 'customer_intelligence';
     
     this.logger.info('Starting customer intelligence analysis', { 
       companyName, 
@@ -67,58 +124,105 @@ export class CustomerLLMAnalysisHandler {
       requester, 
       requestId,
       userPersona: userPersona?.role || 'unknown',
+      outputType,
       datasetsCollected: datasetsCollected?.length || 0
     });
 
-    // Build customer-specific cache key
-    const analysisKey = `customer_intelligence_analysis:${companyName}:${vendorCompany}:${userPersona?.role || 'unknown'}:${requester}`;
+    // Build customer-specific cache key (deep dives are cached separately from the generic output)
+    const analysisKey = `customer_intelligence_analysis:${companyName}:${vendorCompany}:${userPersona?.role || 'unknown'}:${requester}${getDeepDiveKeySuffix(deepDivePersona)}`;
     
-    // Check cache first
-    const cachedAnalysis = await this.cacheService.get(analysisKey);
+    // Check cache first: a stale analysis is served while it is regenerated in the background
+    const cached = event.refresh ? null : await this.cacheService.getWithFreshness(analysisKey);
     
-    if (cachedAnalysis) {
-      this.logger.info('Customer intelligence analysis cache hit', { companyName, cacheKey: analysisKey });
-      return { 
-        companyName, 
-        vendorCompany: vendorCompany || null,
-        requester, 
-        analysis: cachedAnalysis, 
-        source: 'cache', 
-        cost: 0, 
-        requestId,
-        workflowStep: 'llm_analysis',
-        workflowType: 'customer_intelligence',
-        data: event.data
-      };
+    if (cached) {
+      const { stale } = cached.freshness;
+      this.logger.info(stale ? 'Customer intelligence analysis cache hit (stale)' : 'Customer intelligence analysis cache hit', { companyName, cacheKey: analysisKey });
+
+      const refreshing = stale && await scheduleAnalysisRefresh(
+        event,
+        this.logger,
+        () => this.processCustomerAnalysis({ ...event, refresh: true })
+      );
+      return this.cachedAnalysisResponse(event, cached.data, { ...cached.freshness, refreshing });
     }
 
+    // Concurrent misses for the same analysis (from any container) share one Bedrock call
+    return this.singleFlight.run(
+      analysisKey,
+      async () => {
+        const analysis = await this.cacheService.getRawJSON(analysisKey);
+        return analysis ? this.cachedAnalysisResponse(event, analysis) : null;
+      },
+      () => this.generateCustomerAnalysis(event, options, analysisKey, outputType)
+    );
+  }
+
+  /**
+   * Response for an analysis answered from cache, recording the Bedrock call it saved
+   */
+  private async cachedAnalysisResponse(
+    event: LLMAnalysisEvent,
+    analysis: any,
+    freshness?: SourceFreshness
+  ): Promise<LLMAnalysisResponse> {
+    const { companyName, vendorCompany, requester, requestId, userId, deepDivePersona } = event;
+
+    await this.costLedger.record({
+      source: 'bedrock',
+      consumer: requester,
+      userId,
+      company: companyName,
+      cost: 0,
+      savings: 0.02,
+      cached: true
+    });
+    return { 
+      companyName, 
+      vendorCompany: vendorCompany || null,
+      requester, 
+      analysis, 
+      source: 'cache', 
+      cost: 0, 
+      requestId,
+      workflowStep: 'llm_analysis',
+      workflowType: 'customer_intelligence',
+      deepDivePersona,
+      data: event.data,
+      freshness
+    };
+  }
+
+  /**
+   * Run the analysis on Bedrock and cache it under analysisKey
+   */
+  private async generateCustomerAnalysis(
+    event: LLMAnalysisEvent,
+    options: LLMAnalysisOptions,
+    analysisKey: string,
+    outputType: LLMOutputType
+  ): Promise<LLMAnalysisResponse> {
+    const { 
+      companyName, 
+      vendorCompany, 
+      requester, 
+      data, 
+      requestId, 
+      userId,
+      userPersona,
+      deepDivePersona,
+      datasetsCollected 
+    } = event;
+
     // Retrieve vendor context data if available for enhanced analysis
     let vendorContext = null;
     if (vendorCompany) {
       try {
-        // Use normalized case (same as VendorLLMAnalysisHandler)
-        const normalizedVendor = vendorCompany.charAt(0).toUpperCase() + vendorCompany.slice(1).toLowerCase();
-        let vendorAnalysisKey = `vendor_context_analysis:${normalizedVendor}:vendor_context`;
-        vendorContext = await this.cacheService.getRawJSON(vendorAnalysisKey);
-        
-        this.logger.info('Looking for vendor context with normalized key', { 
-          vendorCompany,
-          normalizedVendor,
-          vendorAnalysisKey,
-          found: !!vendorContext
-        });
-        
-        if (!vendorContext) {
-          // Try vendor context reference as fallback
-          const vendorRefKey = `vendor_context_ref:${vendorCompany.toLowerCase().replace(/\s+/g, '_')}`;
-          const vendorRef = await this.cacheService.getRawJSON(vendorRefKey);
-          vendorContext = vendorRef?.analysis;
-        }
+        // A registered (file/profile) context wins; otherwise the researched analysis, then its reference
+        vendorContext = await this.vendorContextRegistry.getContext(vendorCompany);
         
         if (vendorContext) {
           this.logger.info('Retrieved vendor context for enhanced customer intelligence', {
             vendorCompany,
-            cacheKey: vendorAnalysisKey,
             hasProducts: !!vendorContext.products,
             hasValueProps: !!vendorContext.valuePropositions,
             hasCompetitors: !!vendorContext.competitors,
@@ -130,9 +234,8 @@ export class CustomerLLMAnalysisHandler {
           this.logger.warn('No vendor context found despite trying multiple keys', {
             vendorCompany,
             keysAttempted: [
-              `vendor_context_analysis:${vendorCompany}:vendor_context`,
-              `vendor_context_analysis:${vendorCompany.charAt(0).toUpperCase() + vendorCompany.slice(1).toLowerCase()}:vendor_context`,
-              `vendor_context_ref:${vendorCompany.toLowerCase().replace(/\s+/g, '_')}`
+              VendorContextOnboarding.referenceKey(vendorCompany),
+              VendorContextOnboarding.analysisKey(vendorCompany)
             ]
           });
         }
@@ -141,15 +244,35 @@ export class CustomerLLMAnalysisHandler {
       }
     }
 
-    // Build persona-aware customer intelligence prompt with vendor context
-    const prompt = this.buildPersonaAwarePrompt(
-      companyName, 
-      vendorCompany || '', 
-      userPersona, 
-      data, 
-      datasetsCollected || [],
-      vendorContext  // ✅ Pass rich vendor context data
-    );
+    // Fingerprint the website and job postings so tech_stack is grounded in evidence, not guessed,
+    // then check the same evidence for the vendor's competitors
+    const techStack = await this.detectTechStack(companyName, data);
+    const detected: DetectedSignals = {
+      techStack,
+      displacement: this.detectDisplacement(companyName, vendorCompany, data, vendorContext, techStack)
+    };
+
+    // Build persona-aware customer intelligence prompt (or the persona deep dive) with vendor context
+    const prompt = deepDivePersona
+      ? this.buildDeepDivePrompt(
+          deepDivePersona,
+          companyName,
+          vendorCompany || '',
+          userPersona,
+          data,
+          datasetsCollected || [],
+          vendorContext,
+          detected
+        )
+      : this.buildPersonaAwarePrompt(
+          companyName, 
+          vendorCompany || '', 
+          userPersona, 
+          data, 
+          datasetsCollected || [],
+          vendorContext,  // ✅ Pass rich vendor context data
+          detected
+        );
     
     // Log prompt size and token estimates for debugging
     const promptLength = prompt.length;
@@ -178,17 +301,32 @@ export class CustomerLLMAnalysisHandler {
     }
     
     let response: string = '';
+    let usage: BedrockUsage | undefined;
+    let llmCost = 0;
     let enhancedAnalysis: any;
     let rawResponseKey: string = '';  // ✅ Declare outside try block for scope access
     
     try {
-      this.logger.info('Invoking LLM with persona-aware prompt for customer intelligence');
-      const startTime = Date.now();
-      
-      response = await this.aiAnalyzer.parseUserInput(prompt);
+      this.logger.info('Invoking LLM with persona-aware prompt for customer intelligence', {
+        streaming: !!options.onSection
+      });
       
-      const endTime = Date.now();
-      const duration = endTime - startTime;
+      const invocation = await this.invokeAnalysisModel(prompt, companyName, options);
+      response = invocation.content;
+      usage = invocation.usage;
+      llmCost = usage.cost;
+      const duration = usage.latencyMs;
+
+      await this.costLedger.record({
+        source: 'bedrock',
+        consumer: requester,
+        userId,
+        company: companyName,
+        cost: usage.cost,
+        cached: false,
+        tokens: { input: usage.inputTokens, output: usage.outputTokens },
+        modelId: usage.modelId
+      });
       
       // Log the raw LLM response for debugging
       this.logger.info('Raw LLM response received for customer intelligence', {
@@ -198,23 +336,26 @@ export class CustomerLLMAnalysisHandler {
         responsePreview: response.substring(0, 500),
         responseSuffix: response.length > 500 ? response.substring(response.length - 200) : null,
         duration,
-        estimatedResponseTokens: Math.ceil(response.length / 4),
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: usage.cost,
         isResponseComplete: response.includes('"}') || response.includes('"]\n}'),
         endsAbruptly: !response.trim().endsWith('}') && !response.trim().endsWith(']')
       });
       
       // Store raw LLM response in cache first (bypass Step Functions payload limits)
-      rawResponseKey = `customer_intelligence_raw:${companyName}:${vendorCompany || 'unknown'}:${userPersona?.role || 'unknown'}:${requester}`;
+      rawResponseKey = `customer_intelligence_raw:${companyName}:${vendorCompany || 'unknown'}:${userPersona?.role || 'unknown'}:${requester}${getDeepDiveKeySuffix(deepDivePersona)}`;
       await this.cacheService.setRawJSON(rawResponseKey, {
         rawResponse: response,
         metadata: {
           companyName,
           vendorCompany,
           userPersona: userPersona?.role || 'unknown',
+          outputType,
           requestId,
           timestamp: new Date().toISOString(),
           responseLength: response.length,
-          estimatedTokens: Math.ceil(response.length / 4)
+          usage
         }
       }, CacheType.LLM_RAW_RESPONSE);
       
@@ -222,7 +363,7 @@ export class CustomerLLMAnalysisHandler {
         companyName,
         rawResponseKey,
         responseLength: response.length,
-        estimatedTokens: Math.ceil(response.length / 4)
+        outputTokens: usage.outputTokens
       });
 
       // ✅ Parse JSON from cached raw response (not truncated Step Functions response)
@@ -237,23 +378,40 @@ export class CustomerLLMAnalysisHandler {
         usedCachedVersion: fullRawResponse.length > response.length
       });
 
-      // Use JsonExtractor for robust parsing of the FULL response
-      const extractedAnalysis = JsonExtractor.extractAndParse(fullRawResponse, {
-        logErrors: true,
-        context: 'CustomerIntelligenceAnalysis'
-      });
+      // Parse the FULL response and validate it against the output schema, re-prompting to repair if needed
+      const validation = await this.outputValidator.parseWithRepair<CustomerIntelligenceOutput | PersonaDeepDiveOutput>(
+        fullRawResponse,
+        outputType,
+        companyName
+      );
+
+      // Repair calls are billed like the original invocation
+      for (const repairUsage of validation.repairUsage) {
+        llmCost += repairUsage.cost;
+        await this.costLedger.record({
+          source: 'bedrock',
+          consumer: requester,
+          userId,
+          company: companyName,
+          cost: repairUsage.cost,
+          cached: false,
+          tokens: { input: repairUsage.inputTokens, output: repairUsage.outputTokens },
+          modelId: repairUsage.modelId
+        });
+      }
       
-      if (!extractedAnalysis) {
-        // If JSON parsing fails, we still have the raw response in cache
-        this.logger.error('JSON parsing failed but raw response preserved', {
+      if (!validation.output) {
+        // Still invalid after repairs - the raw response stays in cache for debugging
+        this.logger.error('Schema validation failed after repair attempts, raw response preserved', {
           rawResponseKey,
           responseLength: fullRawResponse.length,
-          originalLength: response.length
+          repairAttempts: validation.repairAttempts,
+          errors: validation.errors.slice(0, 10)
         });
-        throw new Error(`Failed to extract JSON from LLM response. Raw response cached at: ${rawResponseKey}`);
+        throw new Error(`LLM response failed schema validation after ${validation.repairAttempts} repair attempt(s). Raw response cached at: ${rawResponseKey}`);
       }
       
-      enhancedAnalysis = extractedAnalysis;
+      enhancedAnalysis = validation.output;
       
       // Add metadata for customer intelligence
       enhancedAnalysis.last_updated = new Date().toISOString();
@@ -267,6 +425,7 @@ export class CustomerLLMAnalysisHandler {
       this.logger.info('Customer intelligence analysis successful', {
         companyName,
         vendorCompany,
+        outputType,
         newsSignalsFound: enhancedAnalysis.news_signals?.length || 0,
         contactsFound: enhancedAnalysis.target_contacts?.length || 0,
         opportunitiesFound: enhancedAnalysis.opportunity_signals?.length || 0
@@ -287,7 +446,27 @@ export class CustomerLLMAnalysisHandler {
         responseSuffix: response && response.length > 1000 ? response.substring(response.length - 500) : null
       });
       this.logger.error('Raw LLM response for debugging', { response: response.substring(0, 500) });
-      enhancedAnalysis = this.generateFallbackAnalysis(companyName, vendorCompany || '', data, userPersona);
+      enhancedAnalysis = deepDivePersona
+        ? this.generateFallbackDeepDive(deepDivePersona, companyName)
+        : this.generateFallbackAnalysis(companyName, vendorCompany || '', data, userPersona);
+    }
+
+    // Map known contacts onto the recommended products (deep dives carry their own stakeholder sections)
+    if (!deepDivePersona) {
+      if (techStack) {
+        enhancedAnalysis.tech_stack = this.mergeDetectedTechStack(enhancedAnalysis.tech_stack, techStack);
+      }
+      if (detected.displacement) {
+        enhancedAnalysis.competitor_context = this.mergeDisplacement(enhancedAnalysis.competitor_context, detected.displacement);
+      }
+
+      enhancedAnalysis.buying_committee = this.buildBuyingCommittee(
+        companyName,
+        vendorCompany,
+        enhancedAnalysis as CustomerIntelligenceOutput,
+        data,
+        vendorContext
+      );
     }
 
     // Cache the enhanced analysis
@@ -308,15 +487,54 @@ export class CustomerLLMAnalysisHandler {
       requester, 
       analysisRef: analysisKey,  // ✅ Cache reference instead of full analysis
       source: 'llm', 
-      cost: 0.02,
+      cost: Math.round(llmCost * 1000000) / 1000000,
+      usage,
       requestId,
       workflowStep: 'llm_analysis',
       workflowType: 'customer_intelligence',
+      deepDivePersona,
       data: event.data,
       rawResponseRef: rawResponseKey  // ✅ Also include raw response reference for debugging
     };
   }
 
+  /**
+   * Invoke the model, streaming when the caller wants sections as they complete
+   */
+  private async invokeAnalysisModel(
+    prompt: string,
+    companyName: string,
+    options: LLMAnalysisOptions
+  ): Promise<BedrockResponse> {
+    const { onSection } = options;
+    if (!onSection) {
+      return this.aiAnalyzer.parseUserInputWithUsage(prompt);
+    }
+
+    const parser = new JsonSectionParser({ logger: this.logger, context: 'CustomerIntelligenceAnalysis' });
+
+    for await (const chunk of this.aiAnalyzer.streamUserInput(prompt)) {
+      if (chunk.type === 'complete') {
+        return { content: chunk.content, usage: chunk.usage };
+      }
+
+      for (const section of parser.feed(chunk.text)) {
+        try {
+          await onSection(section);
+        } catch (error) {
+          // A failed progress update must not abort the analysis
+          this.logger.warn('Section callback failed', {
+            companyName,
+            section: section.key,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    throw new Error('LLM stream ended without a completion chunk');
+  }
+
   /**
    * Build persona-aware prompt using dataset context and user persona
    */
@@ -326,7 +544,8 @@ export class CustomerLLMAnalysisHandler {
     userPersona: any,
     data: MultiSourceData,
     datasetsCollected: DatasetType[],
-    vendorContext?: any  // ✅ Rich vendor analysis data
+    vendorContext?: any,  // ✅ Rich vendor analysis data
+    detected: DetectedSignals = {}
   ): string {
     const personaContext = userPersona ? `
 You are helping a ${userPersona.role} (${userPersona.name}) in the ${userPersona.segment || 'General'} segment 
@@ -342,28 +561,6 @@ Tailor your analysis for a ${userPersona.role}:
 Based on the collected datasets: ${datasetsCollected.join(', ')}
 ` : '';
 
-    // Build vendor context section if available
-    const vendorContextSection = vendorContext ? `
-
-VENDOR CONTEXT (${vendorCompany}):
-- Products/Solutions: ${vendorContext.products?.join(', ') || 'Not specified'}
-- Value Propositions: ${vendorContext.valuePropositions?.join(', ') || 'Not specified'}
-- Target Markets: ${vendorContext.targetMarkets?.join(', ') || 'Not specified'}
-- Positioning: ${vendorContext.positioningStrategy || 'Not specified'}
-- Pricing Model: ${vendorContext.pricingModel || 'Not specified'}
-- Key Competitors: ${vendorContext.competitors?.join(', ') || 'Not specified'}
-- Tech Stack: ${vendorContext.techStack?.join(', ') || 'Not specified'}
-
-Use this vendor context to provide specific, actionable recommendations rather than generic suggestions.
-Focus particularly on:
-- Recommending specific vendor products that match customer needs
-- Positioning vendor value props against customer pain points  
-- Leveraging vendor competitive advantages
-- Creating relevant talking points based on vendor strengths
-` : `
-
-VENDOR CONTEXT: Limited vendor context available for ${vendorCompany}. Focus on general recommendations.
-`;
 
     return `
 ${personaContext}
@@ -371,10 +568,10 @@ ${personaContext}
 You are analyzing ${companyName} for sales intelligence. Generate a comprehensive customer intelligence report 
 using the following data sources:
 
-${this.prepareDataForAnalysis(data)}
+${this.prepareDataForAnalysis(data, detected)}
 
 ${datasetContext}
-${vendorContextSection}
+${this.buildVendorContextSection(vendorCompany, vendorContext)}
 
 Return ONLY valid JSON in this exact structure:
 
@@ -450,11 +647,73 @@ Focus on actionable insights. Be specific and avoid generic advice.
 `;
   }
 
+  /**
+   * Build a persona deep-dive prompt; the output structure comes from the persona's schema template
+   */
+  private buildDeepDivePrompt(
+    persona: DeepDivePersona,
+    companyName: string,
+    vendorCompany: string,
+    userPersona: any,
+    data: MultiSourceData,
+    datasetsCollected: DatasetType[],
+    vendorContext?: any,
+    detected: DetectedSignals = {}
+  ): string {
+    const userContext = userPersona ? `
+You are helping ${userPersona.name || 'a sales rep'} in the ${userPersona.segment || 'General'} segment 
+covering the ${userPersona.region || 'Global'} region. They represent ${vendorCompany}.
+` : '';
+
+    const datasetContext = datasetsCollected.length > 0 ? `
+Based on the collected datasets: ${datasetsCollected.join(', ')}
+` : '';
+
+    return `
+${userContext}
+
+You are analyzing ${companyName} for sales intelligence using the following data sources:
+
+${this.prepareDataForAnalysis(data, detected)}
+
+${datasetContext}
+${this.buildVendorContextSection(vendorCompany, vendorContext)}
+${buildDeepDiveInstructions(persona, companyName, vendorCompany)}`;
+  }
+
+  /**
+   * Vendor context section shared by the generic and deep-dive prompts
+   */
+  private buildVendorContextSection(vendorCompany: string, vendorContext?: any): string {
+    return vendorContext ? `
+
+VENDOR CONTEXT (${vendorCompany}):
+- Products/Solutions: ${vendorContext.products?.join(', ') || 'Not specified'}
+- Value Propositions: ${vendorContext.valuePropositions?.join(', ') || 'Not specified'}
+- Target Markets: ${vendorContext.targetMarkets?.join(', ') || 'Not specified'}
+- Positioning: ${vendorContext.positioningStrategy || 'Not specified'}
+- Pricing Model: ${vendorContext.pricingModel || 'Not specified'}
+- Key Competitors: ${vendorContext.competitors?.join(', ') || 'Not specified'}
+- Tech Stack: ${vendorContext.techStack?.join(', ') || 'Not specified'}
+
+Use this vendor context to provide specific, actionable recommendations rather than generic suggestions.
+Focus particularly on:
+- Recommending specific vendor products that match customer needs
+- Positioning vendor value props against customer pain points  
+- Leveraging vendor competitive advantages
+- Creating relevant talking points based on vendor strengths
+` : `
+
+VENDOR CONTEXT: Limited vendor context available for ${vendorCompany}. Focus on general recommendations.
+`;
+  }
+
   /**
    * Prepare collected data for LLM analysis
    */
-  private prepareDataForAnalysis(data: MultiSourceData): string {
+  private prepareDataForAnalysis(data: MultiSourceData, detected: DetectedSignals = {}): string {
     const sections = [];
+    const { techStack, displacement } = detected;
     
     if (data.organic?.organic_results) {
       sections.push(`Company Search Results: ${JSON.stringify(data.organic.organic_results.slice(0, 5))}`);
@@ -464,8 +723,45 @@ Focus on actionable insights. Be specific and avoid generic advice.
       sections.push(`Knowledge Graph: ${JSON.stringify(data.organic.knowledge_graph)}`);
     }
     
-    if (data.news?.news_results) {
-      sections.push(`Recent News: ${JSON.stringify(data.news.news_results.slice(0, 5))}`);
+    // Syndicated duplicates merged and each story pre-classified with extracted facts
+    const news = NewsEventPipeline.process(NewsEventPipeline.extractArticles(data));
+    if (news.events.length > 0) {
+      const events = news.events.slice(0, MAX_PROMPT_NEWS_EVENTS).map(event => ({
+        headline: event.headline,
+        date: event.date,
+        sources: event.sources,
+        signal_type: event.signal_type,
+        confidence: event.confidence,
+        facts: event.facts
+      }));
+      sections.push(`Recent News Events (deduplicated; keep the given signal_type unless the story clearly says otherwise, use facts verbatim): ${JSON.stringify(events)}`);
+      this.logger.info('News events prepared for analysis', {
+        articles: news.articleCount,
+        duplicatesRemoved: news.duplicatesRemoved,
+        events: news.events.length,
+        classified: news.events.filter(event => event.signal_type).length
+      });
+    }
+    
+    if (techStack?.technologies.length) {
+      const technologies = techStack.technologies.slice(0, MAX_PROMPT_TECHNOLOGIES).map(tech => ({
+        name: tech.name,
+        category: tech.category,
+        confidence: tech.confidence,
+        sources: tech.sources
+      }));
+      sections.push(`Detected Technologies (fingerprinted from ${techStack.domain || 'job postings'}; treat as facts, only add technologies the data clearly supports): ${JSON.stringify(technologies)}`);
+    }
+    
+    if (displacement?.usage.length) {
+      const usage = displacement.usage.slice(0, MAX_PROMPT_COMPETITORS).map(item => ({
+        competitor: item.competitor,
+        depth: item.depth,
+        status: item.status,
+        summary: item.summary,
+        evidence: item.evidence.slice(0, 2).map(evidence => evidence.detail)
+      }));
+      sections.push(`Competitor Usage Evidence (from website fingerprints and job postings; base competitor_context.known_usage on this): ${JSON.stringify(usage)}`);
     }
     
     if (data.jobs?.jobs_results) {
@@ -476,9 +772,179 @@ Focus on actionable insights. Be specific and avoid generic advice.
       sections.push(`LinkedIn Data: ${JSON.stringify(data.linkedin.linkedin_results)}`);
     }
     
+    if (data.contacts?.contacts?.length) {
+      // Merged contact list (Snov/Apollo/Hunter) - names and titles only, emails stay out of the prompt
+      const contacts = data.contacts.contacts.slice(0, 15).map(contact => ({
+        name: `${contact.firstName} ${contact.lastName}`.trim(),
+        title: contact.position,
+        department: contact.department,
+        verified: contact.verified,
+        confidence: contact.confidence,
+        sources: contact.sources
+      }));
+      sections.push(`Known Contacts: ${JSON.stringify(contacts)}`);
+    }
+    
     return sections.join('\n\n');
   }
 
+  /**
+   * Website and job-posting fingerprints; failures only cost the evidence, never the analysis
+   */
+  private async detectTechStack(companyName: string, data: MultiSourceData): Promise<TechStackDetection | undefined> {
+    try {
+      const collected: any = (data as any)?.data || data;
+      return await this.techStackService.detect(companyName, {
+        website: this.findCompanyWebsite(companyName, data),
+        jobs: WatchlistChangeDetector.extractJobs(collected)
+      });
+    } catch (error) {
+      this.logger.warn('Tech stack detection failed, continuing without it', {
+        companyName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Vendor competitors found in the detected tech stack and job postings
+   */
+  private detectDisplacement(
+    companyName: string,
+    vendorCompany: string | undefined,
+    data: MultiSourceData,
+    vendorContext?: any,
+    techStack?: TechStackDetection
+  ): CompetitiveDisplacementReport | undefined {
+    const competitors: string[] = Array.isArray(vendorContext?.competitors) ? vendorContext.competitors : [];
+    if (competitors.length === 0) return undefined;
+
+    const collected: any = (data as any)?.data || data;
+    const report = CompetitiveDisplacementDetector.detect({
+      company: companyName,
+      vendorCompany,
+      competitors,
+      vendorProducts: vendorContext?.products,
+      valuePropositions: vendorContext?.valuePropositions,
+      technologies: techStack?.technologies,
+      jobs: WatchlistChangeDetector.extractJobs(collected)
+    });
+
+    this.logger.info('Competitive displacement detected', {
+      companyName,
+      vendorCompany,
+      competitorsChecked: report.competitorsChecked.length,
+      competitorsInUse: report.usage.length,
+      opportunities: report.opportunities.length
+    });
+
+    return report;
+  }
+
+  /**
+   * Evidence-backed competitor usage goes first in known_usage; the full report is attached for the competitive view
+   */
+  private mergeDisplacement(
+    competitorContext: CustomerIntelligenceOutput['competitor_context'] | undefined,
+    displacement: CompetitiveDisplacementReport
+  ): CustomerIntelligenceOutput['competitor_context'] {
+    const merged: CustomerIntelligenceOutput['competitor_context'] = {
+      positioning_advantage: '',
+      objection_handling: [],
+      ...(competitorContext || {})
+    };
+
+    const detectedUsage = displacement.usage.map(item => item.summary);
+    merged.known_usage = Array.from(new Set([...detectedUsage, ...(merged.known_usage || [])]));
+    merged.displacement = displacement;
+    return merged;
+  }
+
+  /**
+   * Company website from the knowledge graph, else the first organic result on a domain named after the company
+   */
+  private findCompanyWebsite(companyName: string, data: MultiSourceData): string | undefined {
+    const collected: any = (data as any)?.data || data;
+    const knowledgeGraph = data.organic?.knowledge_graph as any;
+    if (knowledgeGraph?.website || knowledgeGraph?.url) {
+      return knowledgeGraph.website || knowledgeGraph.url;
+    }
+
+    const organic = collected?.serp_organic;
+    const results: any[] = Array.isArray(organic) ? organic
+      : Array.isArray(organic?.data) ? organic.data
+      : data.organic?.organic_results || [];
+    const token = companyName.toLowerCase().split(/\s+/)[0]?.replace(/[^a-z0-9]/g, '');
+    if (!token || token.length < 3) return undefined;
+
+    const match = results.find(result => {
+      const hostname = TechStackService.normalizeDomain(String(result?.link || ''));
+      return hostname?.split('.')[0].includes(token);
+    });
+    return match?.link;
+  }
+
+  /**
+   * Union detected technologies into the LLM's tech_stack and attach the evidence
+   */
+  private mergeDetectedTechStack(
+    techStack: CustomerIntelligenceOutput['tech_stack'] | undefined,
+    detection: TechStackDetection
+  ): CustomerIntelligenceOutput['tech_stack'] {
+    const merged: CustomerIntelligenceOutput['tech_stack'] = { ...(techStack || {}), observations: [...(techStack?.observations || [])] };
+
+    for (const tech of detection.technologies.filter(tech => tech.confidence >= TECH_STACK_MERGE_CONFIDENCE)) {
+      const existing = merged[tech.category] || [];
+      const known = existing.some(name => name.toLowerCase().includes(tech.name.toLowerCase()));
+      merged[tech.category] = known ? existing : [...existing, tech.name];
+    }
+
+    if (detection.technologies.length > 0) {
+      const sources = [
+        detection.pagesScanned.some(page => !page.error) ? detection.domain : undefined,
+        detection.jobsScanned > 0 ? `${detection.jobsScanned} job postings` : undefined
+      ].filter(Boolean).join(' and ');
+      merged.observations.push(`${detection.technologies.length} technologies fingerprinted from ${sources || 'collected data'}`);
+    }
+
+    merged.detected = detection.technologies;
+    return merged;
+  }
+
+  /**
+   * Buying committee per recommended product from contact providers, LinkedIn and target_contacts
+   */
+  private buildBuyingCommittee(
+    companyName: string,
+    vendorCompany: string | undefined,
+    analysis: CustomerIntelligenceOutput,
+    data: MultiSourceData,
+    vendorContext?: any
+  ): BuyingCommitteeMap {
+    const collected: any = (data as any)?.data || data;
+    const linkedIn = collected?.serp_linkedin ?? (data as any)?.linkedin?.linkedin_results;
+
+    const committee = BuyingCommitteeMapper.build({
+      company: companyName,
+      vendorCompany,
+      recommendedProducts: analysis.recommended_products,
+      vendorProducts: vendorContext?.products,
+      contacts: collected?.contacts?.contacts || (data as any)?.contacts?.contacts,
+      linkedInProfiles: Array.isArray(linkedIn) ? linkedIn : Array.isArray(linkedIn?.data) ? linkedIn.data : [],
+      targetContacts: analysis.target_contacts
+    });
+
+    this.logger.info('Buying committee mapped', {
+      companyName,
+      products: committee.products.length,
+      contactsConsidered: committee.contactsConsidered,
+      gaps: committee.products.reduce((sum, product) => sum + product.gaps.length, 0)
+    });
+
+    return committee;
+  }
+
   /**
    * Generate fallback analysis if LLM fails
    */
@@ -488,6 +954,18 @@ Focus on actionable insights. Be specific and avoid generic advice.
     data: MultiSourceData,
     userPersona: any
   ): CustomerIntelligenceOutput {
+    // Classified news events stand in for the LLM's news signals
+    const newsSignals = NewsEventPipeline.process(NewsEventPipeline.extractArticles(data)).events
+      .filter(event => event.signal_type)
+      .slice(0, MAX_PROMPT_NEWS_EVENTS)
+      .map(event => ({
+        date: event.date || '',
+        headline: event.headline,
+        source: event.sources[0] || '',
+        insight: `${event.signal_type} signal (confidence ${event.confidence})`,
+        signal_type: event.signal_type!
+      }));
+
     return {
       customer: {
         name: companyName,
@@ -495,7 +973,7 @@ Focus on actionable insights. Be specific and avoid generic advice.
         size: undefined,
         description: `Analysis target: ${companyName}`
       },
-      news_signals: [],
+      news_signals: newsSignals,
       tech_stack: {
         observations: ['Technical analysis requires additional data collection']
       },
@@ -526,4 +1004,40 @@ Focus on actionable insights. Be specific and avoid generic advice.
       last_updated: new Date().toISOString()
     };
   }
+
+  /**
+   * Generate an empty deep dive in the persona's schema shape if the LLM fails
+   */
+  private generateFallbackDeepDive(persona: DeepDivePersona, companyName: string): PersonaDeepDiveOutput {
+    const template = DEEP_DIVE_TEMPLATES[PERSONA_PROMPT_TEMPLATES[persona].outputType];
+    const fallback = this.emptyFromTemplate(template);
+
+    fallback.persona = template.persona;
+    fallback.customer.name = companyName;
+    fallback.data_quality = {
+      completeness: 0.3,
+      freshness: 0.6,
+      reliability: 0.7,
+      overall: 0.5
+    };
+    fallback.last_updated = new Date().toISOString();
+    return fallback;
+  }
+
+  /**
+   * Empty instance of a schema template: null for scalars, empty arrays, false for booleans
+   */
+  private emptyFromTemplate(template: any): any {
+    if (Array.isArray(template)) {
+      return [];
+    }
+    if (template !== null && typeof template === 'object') {
+      const empty: Record<string, any> = {};
+      for (const [key, child] of Object.entries(template)) {
+        empty[key] = this.emptyFromTemplate(child);
+      }
+      return empty;
+    }
+    return template === 'boolean' ? false : null;
+  }
 } 
\ No newline at end of file
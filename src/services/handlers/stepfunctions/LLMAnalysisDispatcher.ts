@@ -52,8 +52,10 @@ export const llmAnalysisHandler = async (event: any): Promise<any> => {
       requester,
       data,
       requestId,
+      userId: event.userId,
       userPersona,
       workflowType: workflowType as 'vendor_context' | 'customer_intelligence',
+      deepDivePersona: event.deepDivePersona,
       datasetsCollected,
       refresh: event.refresh
     };
@@ -70,7 +72,8 @@ export const llmAnalysisHandler = async (event: any): Promise<any> => {
       logger.info('Routing to customer intelligence analysis handler', { 
         companyName, 
         vendorCompany,
-        userPersona: userPersona?.role 
+        userPersona: userPersona?.role,
+        deepDivePersona: event.deepDivePersona
       });
       const customerHandler = new CustomerLLMAnalysisHandler(logger, process.env.AWS_REGION);
       result = await customerHandler.processCustomerAnalysis(analysisEvent);
@@ -102,7 +105,9 @@ export const llmAnalysisHandler = async (event: any): Promise<any> => {
       workflowType,
       requestId,
       source: result.source,
-      cost: result.cost
+      cost: result.cost,
+      inputTokens: result.usage?.inputTokens,
+      outputTokens: result.usage?.outputTokens
     });
 
     return result;
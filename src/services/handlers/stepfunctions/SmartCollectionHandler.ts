@@ -12,6 +12,8 @@ import { SerpAPIService } from '../../SerpAPIService';
 import { CONSUMER_DATASET_REQUIREMENTS, DatasetType } from '../../../types/dataset-requirements';
 import { ConsumerType, MultiSourceData } from '../../../types/orchestrator-types';
 import { CacheType } from '../../../types/cache-types';
+import { DroppedDataset } from '../../orchestration/types/OrchestrationTypes';
+import { DeepDivePersona } from './shared/LLMAnalysisTypes';
 
 // Define Step Function types locally since they're not exported from main types
 interface StepFunctionEvent {
@@ -32,6 +34,8 @@ interface StepFunctionEvent {
   requestId?: string;
   priorityDatasets?: DatasetType[]; // Allow override of required datasets
   refresh?: boolean; // Added for vendor context refresh
+  userId?: string;   // Charged in the per-user spend ledger
+  deepDivePersona?: DeepDivePersona;  // Requested persona deep-dive output
 }
 
 interface StepFunctionResult {
@@ -51,7 +55,10 @@ interface StepFunctionResult {
     segment?: string;
     region?: string;
   };
+  userId?: string;     // Passed through so LLM spend is attributed to the same user
+  deepDivePersona?: DeepDivePersona;
   datasetsCollected?: DatasetType[];
+  droppedDatasets?: DroppedDataset[];  // Datasets trimmed from the plan (budget)
   dataQuality?: {
     completeness: number;
     freshness: number;
@@ -93,6 +100,7 @@ export const smartDataCollectionHandler = async (
     
     let result: any;
     let datasetsCollected: DatasetType[] = [];
+    let droppedDatasets: DroppedDataset[] = [];
     
     // Handle different workflow types with proper dataset requirements
     if (workflowType === 'customer_intelligence') {
@@ -116,7 +124,8 @@ export const smartDataCollectionHandler = async (
         vendorCompany: vendorCompany || 'Unknown',
         consumerType: 'customer_intelligence',
         // Pass dataset requirements to orchestrator
-        requiredDatasets: requiredDatasets
+        requiredDatasets: requiredDatasets,
+        userId: event.userId
       });
       
       // Check if vendor context is required
@@ -154,7 +163,10 @@ export const smartDataCollectionHandler = async (
         };
       }
       
-      datasetsCollected = requiredDatasets;
+      droppedDatasets = result.budget?.droppedDatasets || [];
+      datasetsCollected = requiredDatasets.filter(
+        (dataset: DatasetType) => !droppedDatasets.some(dropped => dropped.dataset === dataset)
+      );
       
       // Add persona context and workflow metadata for LLM processing
       (result as any).userPersona = userPersona;
@@ -201,11 +213,19 @@ export const smartDataCollectionHandler = async (
           'vendor_context' as ConsumerType
         );
         
-        datasetsCollected = requiredDatasets;
+        const droppedDatasets = (result as MultiSourceData).droppedDatasets || [];
+        datasetsCollected = requiredDatasets.filter(dataset => !droppedDatasets.some(dropped => dropped.dataset === dataset));
         
-        // Cache the vendor context data for reuse
-        await cacheService.setRawJSON(vendorCacheKey, result, CacheType.VENDOR_CONTEXT_RAW_DATA);
-        logger.info('Vendor context data cached for reuse', { companyName, cacheKey: vendorCacheKey });
+        // Cache the vendor context data for reuse - unless the budget left datasets out, so the next run collects them
+        if (droppedDatasets.length === 0) {
+          await cacheService.setRawJSON(vendorCacheKey, result, CacheType.VENDOR_CONTEXT_RAW_DATA);
+          logger.info('Vendor context data cached for reuse', { companyName, cacheKey: vendorCacheKey });
+        } else {
+          logger.warn('Vendor context data incomplete, not cached', {
+            companyName,
+            droppedDatasets: droppedDatasets.map(dropped => `${dropped.dataset}:${dropped.reason}`)
+          });
+        }
       }
       
       // Add workflow metadata for LLM processing
@@ -251,6 +271,7 @@ export const smartDataCollectionHandler = async (
         workflowStep: 'data_collection',
         workflowType,
         datasetsCollected,
+        droppedDatasets,
         dataQuality: (result as any).dataQuality
       }),
       // ✅ Clean structure: put userPersona at root level for LLMAnalysisDispatcher
@@ -258,11 +279,14 @@ export const smartDataCollectionHandler = async (
       vendorCompany,
       requester,
       userPersona,        // ✅ Extract to root level
+      userId: event.userId,
+      deepDivePersona: event.deepDivePersona,
       workflowType,
       requestId,
       timestamp: new Date().toISOString(),
       workflowStep: 'data_collection',
       datasetsCollected,
+      droppedDatasets,
       dataQuality: (result as any).dataQuality,
       data: result       // ✅ Keep original data structure
     };
@@ -7,9 +7,13 @@
 
 import { Logger } from '../../core/Logger';
 import { CacheService } from '../../core/CacheService';
+import { SingleFlight } from '../../core/cache/SingleFlight';
+import { CostLedgerService } from '../../CostLedgerService';
 import { AIAnalyzer } from '../../analysis/AIAnalyzer';
-import { JsonExtractor } from '../../utilities/JsonExtractor';
+import { LLMOutputValidator } from './shared/LLMOutputValidator';
+import { scheduleAnalysisRefresh } from './shared/AnalysisRefreshScheduler';
 import { CacheType } from '../../../types/cache-types';
+import { BedrockUsage } from '../../analysis/types/AnalysisTypes';
 import { 
   LLMAnalysisEvent, 
   LLMAnalysisResponse, 
@@ -17,7 +21,7 @@ import {
   DataQuality 
 } from './shared/LLMAnalysisTypes';
 import { DatasetType } from '../../../types/dataset-requirements';
-import { MultiSourceData } from '../../../types/orchestrator-types';
+import { MultiSourceData, SourceFreshness } from '../../../types/orchestrator-types';
 
 /**
  * Enhanced Vendor Context Analysis Handler
@@ -26,6 +30,9 @@ export class VendorLLMAnalysisHandler {
   private logger: Logger;
   private cacheService: CacheService;
   private aiAnalyzer: AIAnalyzer;
+  private costLedger: CostLedgerService;
+  private outputValidator: LLMOutputValidator;
+  private singleFlight: SingleFlight;
 
   constructor(logger: Logger, region?: string) {
     this.logger = logger;
@@ -34,6 +41,7 @@ export class VendorLLMAnalysisHandler {
       logger,
       region || process.env.AWS_REGION
     );
+    this.costLedger = new CostLedgerService(this.cacheService, logger);
 
     // Initialize AIAnalyzer for vendor context analysis
     this.aiAnalyzer = new AIAnalyzer(
@@ -46,13 +54,21 @@ export class VendorLLMAnalysisHandler {
       logger,
       region || process.env.AWS_REGION
     );
+    this.outputValidator = new LLMOutputValidator(this.cacheService, logger, this.aiAnalyzer);
+    // Analyses (with repairs) can take minutes; the Lambda allows 10
+    this.singleFlight = new SingleFlight(this.cacheService, logger, {
+      scope: 'bedrock_vendor_analysis',
+      lockTtlSeconds: 300,
+      waitTimeoutMs: 300000,
+      pollIntervalMs: 2000
+    });
   }
 
   /**
    * Process vendor context analysis
    */
   async processVendorAnalysis(event: LLMAnalysisEvent): Promise<LLMAnalysisResponse> {
-    const { companyName, requester, data, requestId, datasetsCollected } = event;
+    const { companyName, requester, requestId, datasetsCollected } = event;
     
     // Build vendor-specific cache key (normalize case for consistency)
     const normalizedCompanyName = companyName.charAt(0).toUpperCase() + companyName.slice(1).toLowerCase();
@@ -68,47 +84,114 @@ export class VendorLLMAnalysisHandler {
       cacheKey: analysisKey
     });
 
-    // Check cache first
-    const cachedAnalysis = await this.cacheService.get(analysisKey);
+    // Check cache first: a stale analysis is served while it is regenerated in the background
+    const cached = event.refresh ? null : await this.cacheService.getWithFreshness(analysisKey);
     
-    if (cachedAnalysis) {
-      this.logger.info('Vendor context analysis cache hit', { companyName, cacheKey: analysisKey });
-      return { 
-        companyName, 
-        vendorCompany: null,
-        requester, 
-        analysis: cachedAnalysis, 
-        source: 'cache', 
-        cost: 0, 
-        requestId,
-        workflowStep: 'llm_analysis',
-        workflowType: 'vendor_context',
-        data: event.data
-      };
+    if (cached) {
+      const { stale } = cached.freshness;
+      this.logger.info(stale ? 'Vendor context analysis cache hit (stale)' : 'Vendor context analysis cache hit', { companyName, cacheKey: analysisKey });
+
+      const refreshing = stale && await scheduleAnalysisRefresh(
+        event,
+        this.logger,
+        () => this.processVendorAnalysis({ ...event, refresh: true })
+      );
+      return this.cachedAnalysisResponse(event, cached.data, { ...cached.freshness, refreshing });
     }
 
+    // Concurrent misses for the same analysis (from any container) share one Bedrock call
+    return this.singleFlight.run(
+      analysisKey,
+      async () => {
+        const analysis = await this.cacheService.getRawJSON(analysisKey);
+        return analysis ? this.cachedAnalysisResponse(event, analysis) : null;
+      },
+      () => this.generateVendorAnalysis(event, analysisKey, normalizedCompanyName)
+    );
+  }
+
+  /**
+   * Response for an analysis answered from cache, recording the Bedrock call it saved
+   */
+  private async cachedAnalysisResponse(
+    event: LLMAnalysisEvent,
+    analysis: any,
+    freshness?: SourceFreshness
+  ): Promise<LLMAnalysisResponse> {
+    const { companyName, requester, requestId, userId } = event;
+
+    await this.costLedger.record({
+      source: 'bedrock',
+      consumer: requester,
+      userId,
+      company: companyName,
+      cost: 0,
+      savings: 0.02,
+      cached: true
+    });
+    return { 
+      companyName, 
+      vendorCompany: null,
+      requester, 
+      analysis, 
+      source: 'cache', 
+      cost: 0, 
+      requestId,
+      workflowStep: 'llm_analysis',
+      workflowType: 'vendor_context',
+      data: event.data,
+      freshness
+    };
+  }
+
+  /**
+   * Run the analysis on Bedrock and cache it under analysisKey
+   */
+  private async generateVendorAnalysis(
+    event: LLMAnalysisEvent,
+    analysisKey: string,
+    normalizedCompanyName: string
+  ): Promise<LLMAnalysisResponse> {
+    const { companyName, requester, data, requestId, userId, datasetsCollected } = event;
+
     // Build comprehensive vendor context prompt
     const prompt = this.buildVendorContextPrompt(companyName, data, datasetsCollected || []);
     
     let response: string = '';
+    let usage: BedrockUsage | undefined;
+    let llmCost = 0;
     let enhancedAnalysis: any;
     let rawResponseKey: string = '';  // ✅ Declare outside try block for scope access
     
     try {
       this.logger.info('Invoking LLM for vendor context analysis');
-      const startTime = Date.now();
-      
-      response = await this.aiAnalyzer.parseUserInput(prompt);
       
-      const endTime = Date.now();
-      const duration = endTime - startTime;
+      const invocation = await this.aiAnalyzer.parseUserInputWithUsage(prompt);
+      response = invocation.content;
+      usage = invocation.usage;
+      llmCost = usage.cost;
+
+      await this.costLedger.record({
+        source: 'bedrock',
+        consumer: requester,
+        userId,
+        company: companyName,
+        cost: usage.cost,
+        cached: false,
+        tokens: { input: usage.inputTokens, output: usage.outputTokens },
+        modelId: usage.modelId
+      });
       
       // Log the raw LLM response for debugging
       this.logger.info('Raw LLM response received for vendor context', {
         companyName,
         normalizedCompanyName,
         responseLength: response.length,
-        responsePreview: response.substring(0, 500)
+        responsePreview: response.substring(0, 500),
+        duration: usage.latencyMs,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: usage.cost
       });
       
       // Store raw LLM response in cache first (bypass Step Functions payload limits)
@@ -122,7 +205,7 @@ export class VendorLLMAnalysisHandler {
           requestId,
           timestamp: new Date().toISOString(),
           responseLength: response.length,
-          estimatedTokens: Math.ceil(response.length / 4)
+          usage
         }
       }, CacheType.LLM_RAW_RESPONSE);
       
@@ -131,7 +214,7 @@ export class VendorLLMAnalysisHandler {
         normalizedCompanyName,
         rawResponseKey,
         responseLength: response.length,
-        estimatedTokens: Math.ceil(response.length / 4)
+        outputTokens: usage.outputTokens
       });
 
       // ✅ Parse JSON from cached raw response (not truncated Step Functions response)
@@ -146,23 +229,40 @@ export class VendorLLMAnalysisHandler {
         usedCachedVersion: fullRawResponse.length > response.length
       });
 
-      // Use JsonExtractor for robust parsing of the FULL response
-      const extractedAnalysis = JsonExtractor.extractAndParse(fullRawResponse, {
-        logErrors: true,
-        context: 'VendorContextAnalysis'
-      });
+      // Parse the FULL response and validate it against the output schema, re-prompting to repair if needed
+      const validation = await this.outputValidator.parseWithRepair<VendorContextOutput>(
+        fullRawResponse,
+        'vendor_context',
+        companyName
+      );
+
+      // Repair calls are billed like the original invocation
+      for (const repairUsage of validation.repairUsage) {
+        llmCost += repairUsage.cost;
+        await this.costLedger.record({
+          source: 'bedrock',
+          consumer: requester,
+          userId,
+          company: companyName,
+          cost: repairUsage.cost,
+          cached: false,
+          tokens: { input: repairUsage.inputTokens, output: repairUsage.outputTokens },
+          modelId: repairUsage.modelId
+        });
+      }
       
-      if (!extractedAnalysis) {
-        // If JSON parsing fails, we still have the raw response in cache
-        this.logger.error('JSON parsing failed but raw response preserved', {
+      if (!validation.output) {
+        // Still invalid after repairs - the raw response stays in cache for debugging
+        this.logger.error('Schema validation failed after repair attempts, raw response preserved', {
           rawResponseKey,
           responseLength: fullRawResponse.length,
-          originalLength: response.length
+          repairAttempts: validation.repairAttempts,
+          errors: validation.errors.slice(0, 10)
         });
-        throw new Error(`Failed to extract JSON from LLM response. Raw response cached at: ${rawResponseKey}`);
+        throw new Error(`LLM response failed schema validation after ${validation.repairAttempts} repair attempt(s). Raw response cached at: ${rawResponseKey}`);
       }
       
-      enhancedAnalysis = extractedAnalysis;
+      enhancedAnalysis = validation.output;
       
       // Add metadata for vendor context
       enhancedAnalysis.last_updated = new Date().toISOString();
@@ -207,7 +307,8 @@ export class VendorLLMAnalysisHandler {
       requester, 
       analysisRef: analysisKey,  // ✅ Cache reference instead of full analysis
       source: 'llm', 
-      cost: 0.02,
+      cost: Math.round(llmCost * 1000000) / 1000000,
+      usage,
       requestId,
       workflowStep: 'llm_analysis',
       workflowType: 'vendor_context',
@@ -0,0 +1,60 @@
+/**
+ * Analysis Refresh Scheduler
+ *
+ * Regenerates an analysis that was just served stale from cache, without holding up the response
+ */
+
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
+import { Logger } from '../../../core/Logger';
+import { AnalysisRefreshEvent, LLMAnalysisEvent } from './LLMAnalysisTypes';
+
+/**
+ * Start regenerating the analysis: an async invoke of the cache refresh function when one is deployed
+ * (CACHE_REFRESH_FUNCTION_NAME), otherwise refreshInProcess. False when the refresh couldn't be started.
+ * Concurrent refreshes of one analysis share a single Bedrock call through the handlers' single-flight.
+ */
+export async function scheduleAnalysisRefresh(
+  event: LLMAnalysisEvent,
+  logger: Logger,
+  refreshInProcess: () => Promise<unknown>
+): Promise<boolean> {
+  const functionName = process.env.CACHE_REFRESH_FUNCTION_NAME;
+  const { companyName, vendorCompany, workflowType } = event;
+
+  try {
+    if (functionName) {
+      const payload: AnalysisRefreshEvent = { analysis: { ...event, refresh: true } };
+      const lambdaClient = new LambdaClient({ region: process.env.AWS_REGION });
+
+      await lambdaClient.send(new InvokeCommand({
+        FunctionName: functionName,
+        InvocationType: 'Event', // Asynchronous
+        Payload: JSON.stringify(payload),
+      }));
+    } else {
+      // No refresh function (local development): best effort, may be cut short when the invocation ends
+      refreshInProcess().catch(error => {
+        logger.warn('Background analysis refresh failed', {
+          companyName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+
+    logger.info('Background analysis refresh scheduled', {
+      companyName,
+      vendorCompany,
+      workflowType,
+      viaFunction: !!functionName
+    });
+    return true;
+  } catch (error) {
+    logger.warn('Failed to schedule background analysis refresh', {
+      companyName,
+      vendorCompany,
+      workflowType,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
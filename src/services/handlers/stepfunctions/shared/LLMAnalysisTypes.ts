@@ -5,7 +5,17 @@
  */
 
 import { DatasetType } from '../../../../types/dataset-requirements';
-import { MultiSourceData } from '../../../../types/orchestrator-types';
+import { MultiSourceData, SourceFreshness } from '../../../../types/orchestrator-types';
+import { BedrockUsage } from '../../../analysis/types/AnalysisTypes';
+import { JsonSection } from '../../../utilities/JsonSectionParser';
+import { BuyingCommitteeMap } from '../../../orgchart/types/BuyingCommitteeTypes';
+import { DetectedTechnology } from '../../../techstack/types/TechStackTypes';
+import { CompetitiveDisplacementReport } from '../../../competitive/types/CompetitiveDisplacementTypes';
+
+/**
+ * Personas with a dedicated deep-dive output (schemas/*-deep-dive-schema.json)
+ */
+export type DeepDivePersona = 'AE' | 'SE' | 'CSM';
 
 /**
  * Base event structure for LLM analysis handlers
@@ -16,6 +26,7 @@ export interface LLMAnalysisEvent {
   requester: string;
   data: MultiSourceData;
   requestId: string;
+  userId?: string;
   userPersona?: {
     role: 'AE' | 'CSM' | 'SE';
     name?: string;
@@ -23,8 +34,25 @@ export interface LLMAnalysisEvent {
     region?: string;
   };
   workflowType: 'vendor_context' | 'customer_intelligence';
+  deepDivePersona?: DeepDivePersona;  // Produce the persona deep-dive instead of CustomerIntelligenceOutput
   datasetsCollected?: DatasetType[];
-  refresh?: boolean;
+  refresh?: boolean;  // Regenerate the analysis even when it is cached
+}
+
+/**
+ * Cache refresh function payload that regenerates a stale analysis
+ */
+export interface AnalysisRefreshEvent {
+  analysis: LLMAnalysisEvent;
+}
+
+/**
+ * Optional behaviour for callers that run analysis in-process (not via Step Functions)
+ */
+export interface LLMAnalysisOptions {
+  // When set, the LLM response is streamed and each top-level output section
+  // (talking_points, news_signals, ...) is reported as soon as it completes
+  onSection?: (section: JsonSection) => Promise<void> | void;
 }
 
 /**
@@ -38,11 +66,14 @@ export interface LLMAnalysisResponse {
   analysisRef?: string;  // ✅ Cache key reference to full analysis
   rawResponseRef?: string;  // ✅ Cache key reference to raw LLM response
   source: 'cache' | 'llm' | 'error';
-  cost: number;
+  cost: number;  // Actual LLM cost in USD (0 on cache hit)
+  usage?: BedrockUsage;  // Token usage, latency and model for source 'llm'
   requestId: string;
   workflowStep: 'llm_analysis';
   workflowType: string;
+  deepDivePersona?: DeepDivePersona;
   data: MultiSourceData;
+  freshness?: SourceFreshness;  // Source 'cache': how current the analysis is, and whether it is being regenerated
   error?: string;
 }
 
@@ -73,6 +104,7 @@ export interface CustomerIntelligenceOutput {
     collaboration?: string[];
     security?: string[];
     observations: string[];
+    detected?: DetectedTechnology[];  // Fingerprinted from the website and job postings, with evidence
   };
   target_contacts: Array<{
     name?: string;
@@ -92,6 +124,7 @@ export interface CustomerIntelligenceOutput {
     pain_points?: string[];
     positioning_advantage: string;
     objection_handling: string[];
+    displacement?: CompetitiveDisplacementReport;  // Vendor competitors detected in the tech stack and job postings
   };
   talking_points: string[];
   opportunity_signals: Array<{
@@ -106,6 +139,7 @@ export interface CustomerIntelligenceOutput {
     reliability: number;
     overall: number;
   };
+  buying_committee?: BuyingCommitteeMap;  // Added after the LLM step from known contacts
   last_updated: string;
 }
 
@@ -138,6 +172,303 @@ export interface VendorContextOutput {
   last_updated: string;
 }
 
+/**
+ * Account Executive deep-dive output (schemas/ae-deep-dive-schema.json)
+ * String values the model could not find may be null.
+ */
+export interface AEDeepDiveOutput {
+  persona: string;
+  customer: {
+    name: string;
+    industry: string;
+    size: string;
+    headquarters: string;
+    founded: string;
+    funding: {
+      totalRaised: string;
+      latestRound: {
+        type: string;
+        amount: string;
+        date: string;
+        investors: string[];
+      };
+    };
+    financialHealth: {
+      revenue: string;
+      growthRate: string;
+      profitability: string;
+    };
+  };
+  buyingSignals: Array<{
+    signal: string;
+    strength: 'high' | 'medium' | 'low';
+    source: string;
+    date: string;
+    insight: string;
+  }>;
+  decisionMakers: Array<{
+    name: string;
+    title: string;
+    role: 'economic_buyer' | 'technical_buyer' | 'champion' | 'influencer';
+    influence: 'high' | 'medium' | 'low';
+    reachability: 'warm' | 'cold' | 'linkedin';
+    backgroundSignals: string[];
+  }>;
+  competitiveContext: {
+    incumbentVendors: string[];
+    evaluationHistory: Array<{
+      vendor: string;
+      outcome: string;
+      year: string;
+      painPoints: string[];
+    }>;
+    competitiveBattlecards: Array<{
+      competitor: string;
+      theirStrength: string;
+      ourAdvantage: string;
+      objectionHandler: string;
+    }>;
+  };
+  opportunityIntel: {
+    estimatedBudget: string;
+    decisionTimeline: string;
+    currentPainPoints: string[];
+    businessDrivers: string[];
+    successMetrics: string[];
+  };
+  recommendedProducts: Array<{
+    product: string;
+    fitReason: string;
+    businessValue: string;
+    estimatedARR: string;
+    attachRate: string;
+  }>;
+  sellingStrategy: {
+    primaryMessage: string;
+    proofPoints: string[];
+    riskMitigation: string[];
+    nextBestActions: string[];
+  };
+  contentRecommendations: Array<{
+    title: string;
+    type: 'case_study' | 'demo' | 'roi_calculator' | 'white_paper';
+    url: string;
+    useCase: string;
+  }>;
+  meetingPrep: {
+    talkingPoints: string[];
+    questionsToAsk: string[];
+    landmines: string[];
+    leaveBehind: string[];
+  };
+  data_quality: DataQuality;
+  last_updated: string;
+}
+
+/**
+ * Solutions Engineer deep-dive output (schemas/se-deep-dive-schema.json)
+ * String values the model could not find may be null.
+ */
+export interface SEDeepDiveOutput {
+  persona: string;
+  customer: {
+    name: string;
+    industry: string;
+    size: string;
+    technicalMaturity: 'low' | 'medium' | 'high';
+    complianceRequirements: string[];
+  };
+  techStack: {
+    infrastructure: {
+      cloudProviders: string[];
+      onPremise: string[];
+      hybrid: boolean;
+      orchestration: string[];
+    };
+    applications: {
+      identityProviders: string[];
+      crmSystems: string[];
+      hrSystems: string[];
+      collaborationTools: string[];
+      businessApplications: string[];
+    };
+    security: {
+      authenticationMethods: string[];
+      currentMFA: string[];
+      ssoImplementation: string[];
+      privilegedAccess: string[];
+      complianceFrameworks: string[];
+    };
+    dataFlow: {
+      userDirectories: string[];
+      provisioningMethods: string[];
+      integrationPatterns: string[];
+    };
+  };
+  technicalRequirements: Array<{
+    requirement: string;
+    priority: 'must_have' | 'nice_to_have' | 'future';
+    currentSolution: string;
+    gaps: string[];
+  }>;
+  integrationComplexity: {
+    overallComplexity: 'low' | 'medium' | 'high';
+    complexityFactors: string[];
+    integrationPoints: Array<{
+      system: string;
+      method: 'api' | 'scim' | 'saml' | 'custom';
+      difficulty: 'low' | 'medium' | 'high';
+      timeline: string;
+    }>;
+  };
+  technicalDecisionMakers: Array<{
+    name: string;
+    title: string;
+    role: 'architect' | 'admin' | 'implementer' | 'evaluator';
+    influence: 'high' | 'medium' | 'low';
+    technicalConcerns: string[];
+    preferredApproach: string;
+  }>;
+  currentChallenges: Array<{
+    challenge: string;
+    impact: 'high' | 'medium' | 'low';
+    technicalRoot: string;
+    workarounds: string[];
+  }>;
+  solutionMapping: Array<{
+    customerNeed: string;
+    proposedSolution: string;
+    technicalApproach: string;
+    implementationSteps: string[];
+    timeline: string;
+    risks: string[];
+  }>;
+  proofOfConcept: {
+    recommended: boolean;
+    scope: string[];
+    successCriteria: string[];
+    timeline: string;
+    resources: string[];
+  };
+  implementationPlanning: {
+    phases: Array<{
+      phase: string;
+      activities: string[];
+      duration: string;
+      dependencies: string[];
+    }>;
+    risksAndMitigation: string[];
+    resourceRequirements: string[];
+  };
+  competitiveTechnical: Array<{
+    competitor: string;
+    technicalAdvantage: string;
+    ourDifferentiator: string;
+    proofPoints: string[];
+  }>;
+  meetingPrep: {
+    technicalDemo: string[];
+    architectureDiscussion: string[];
+    questionsToValidate: string[];
+    technicalConcerns: string[];
+  };
+  data_quality: DataQuality;
+  last_updated: string;
+}
+
+/**
+ * Customer Success Manager deep-dive output (schemas/csm-deep-dive-schema.json)
+ * String values the model could not find may be null.
+ */
+export interface CSMDeepDiveOutput {
+  persona: string;
+  customer: {
+    name: string;
+    industry: string;
+    size: string;
+    accountTier: 'enterprise' | 'commercial' | 'smb';
+    relationshipStart: string;
+    contractDetails: {
+      arr: string;
+      renewalDate: string;
+      contractLength: string;
+      autoRenewal: boolean;
+    };
+  };
+  healthMetrics: {
+    overallScore: 'healthy' | 'at_risk' | 'critical';
+    usageHealth: {
+      adoptionRate: string;
+      activeUsers: string;
+      featureUtilization: string;
+      trend: 'growing' | 'stable' | 'declining';
+    };
+    relationshipHealth: {
+      stakeholderSatisfaction: string;
+      executiveSponsor: 'strong' | 'moderate' | 'weak';
+      meetingCadence: string;
+      responsiveness: string;
+    };
+    supportHealth: {
+      ticketVolume: string;
+      avgResolutionTime: string;
+      escalationRate: string;
+      recentCriticalIssues: string[];
+    };
+  };
+  renewalRisk: {
+    riskLevel: 'low' | 'medium' | 'high';
+    riskFactors: string[];
+    mitigationActions: string[];
+    earlyWarningSignals: string[];
+  };
+  expansionOpportunities: Array<{
+    type: 'seat_expansion' | 'product_upsell' | 'new_use_case';
+    description: string;
+    estimatedValue: string;
+    readiness: 'ready' | 'developing' | 'future';
+    champions: string[];
+  }>;
+  stakeholderMapping: Array<{
+    name: string;
+    title: string;
+    role: 'champion' | 'satisfied_user' | 'neutral' | 'detractor';
+    influence: 'high' | 'medium' | 'low';
+    lastInteraction: string;
+    sentiment: 'positive' | 'neutral' | 'negative';
+  }>;
+  usageInsights: Array<{
+    metric: string;
+    value: string;
+    trend: string;
+    benchmark: string;
+    actionable: string;
+  }>;
+  successPlanning: {
+    currentGoals: string[];
+    challengesToSuccess: string[];
+    recommendedActions: string[];
+    successMetrics: string[];
+  };
+  competitiveThreats: Array<{
+    competitor: string;
+    threatLevel: 'low' | 'medium' | 'high';
+    reasoning: string;
+    defenseStrategy: string;
+  }>;
+  meetingPrep: {
+    healthSummary: string;
+    discussionTopics: string[];
+    concerns: string[];
+    wins: string[];
+    nextSteps: string[];
+  };
+  data_quality: DataQuality;
+  last_updated: string;
+}
+
+export type PersonaDeepDiveOutput = AEDeepDiveOutput | SEDeepDiveOutput | CSMDeepDiveOutput;
+
 /**
  * Data quality assessment structure
  */
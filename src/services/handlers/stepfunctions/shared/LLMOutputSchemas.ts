@@ -0,0 +1,170 @@
+/**
+ * Runtime JSON Schemas for LLM analysis output
+ *
+ * Mirror CustomerIntelligenceOutput and VendorContextOutput in LLMAnalysisTypes.ts.
+ * Persona deep-dive schemas are derived from the template files in schemas/.
+ * data_quality and last_updated are added by the handlers after parsing, so they are not required here.
+ */
+
+import { JsonSchema, SchemaValidator } from '../../../utilities/SchemaValidator';
+import aeDeepDiveTemplate from '../../../../../schemas/ae-deep-dive-schema.json';
+import seDeepDiveTemplate from '../../../../../schemas/se-deep-dive-schema.json';
+import csmDeepDiveTemplate from '../../../../../schemas/csm-deep-dive-schema.json';
+
+export type LLMOutputType = 'customer_intelligence' | 'vendor_context' | 'ae_deep_dive' | 'se_deep_dive' | 'csm_deep_dive';
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+export const CUSTOMER_INTELLIGENCE_OUTPUT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: [
+    'customer',
+    'news_signals',
+    'tech_stack',
+    'target_contacts',
+    'recommended_products',
+    'competitor_context',
+    'talking_points',
+    'opportunity_signals'
+  ],
+  properties: {
+    customer: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { type: 'string' },
+        industry: { type: 'string' },
+        size: { type: 'string' },
+        headquarters: { type: 'string' },
+        founded: { type: 'string' },
+        description: { type: 'string' }
+      }
+    },
+    news_signals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['headline', 'insight', 'signal_type'],
+        properties: {
+          date: { type: 'string' },
+          headline: { type: 'string' },
+          source: { type: 'string' },
+          insight: { type: 'string' },
+          signal_type: { type: 'string', enum: ['expansion', 'funding', 'hiring', 'product', 'leadership', 'partnership'] }
+        }
+      }
+    },
+    tech_stack: {
+      type: 'object',
+      required: ['observations'],
+      properties: {
+        frontend: stringArray,
+        backend: stringArray,
+        infrastructure: stringArray,
+        analytics: stringArray,
+        collaboration: stringArray,
+        security: stringArray,
+        observations: stringArray
+      }
+    },
+    target_contacts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['title', 'role', 'persona_fit'],
+        properties: {
+          name: { type: ['string', 'null'] },
+          title: { type: 'string' },
+          role: { type: 'string', enum: ['Decision Maker', 'Champion', 'Technical Buyer', 'Influencer'] },
+          persona_fit: { type: 'string' },
+          signal: { type: ['string', 'null'] }
+        }
+      }
+    },
+    recommended_products: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['product', 'reason', 'outcome'],
+        properties: {
+          product: { type: 'string' },
+          reason: { type: 'string' },
+          outcome: { type: 'string' },
+          dataset_source: { type: 'string' }
+        }
+      }
+    },
+    competitor_context: {
+      type: 'object',
+      required: ['positioning_advantage', 'objection_handling'],
+      properties: {
+        known_usage: stringArray,
+        pain_points: stringArray,
+        positioning_advantage: { type: 'string' },
+        objection_handling: stringArray
+      }
+    },
+    talking_points: stringArray,
+    opportunity_signals: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['signal', 'urgency', 'action'],
+        properties: {
+          signal: { type: 'string' },
+          source: { type: 'string' },
+          urgency: { type: 'string', enum: ['high', 'medium', 'low'] },
+          action: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export const VENDOR_CONTEXT_OUTPUT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: [
+    'companyName',
+    'industry',
+    'products',
+    'targetMarkets',
+    'competitors',
+    'valuePropositions',
+    'positioningStrategy'
+  ],
+  properties: {
+    companyName: { type: 'string' },
+    industry: { type: 'string' },
+    products: stringArray,
+    targetMarkets: stringArray,
+    competitors: stringArray,
+    valuePropositions: stringArray,
+    positioningStrategy: { type: 'string' },
+    pricingModel: { type: 'string' },
+    companySize: { type: 'string' },
+    marketPresence: { type: 'string' },
+    recentNews: stringArray,
+    keyExecutives: stringArray,
+    businessChallenges: stringArray,
+    growthIndicators: stringArray,
+    techStack: stringArray,
+    partnerships: stringArray
+  }
+};
+
+export const LLM_OUTPUT_SCHEMAS: Record<LLMOutputType, JsonSchema> = {
+  customer_intelligence: CUSTOMER_INTELLIGENCE_OUTPUT_SCHEMA,
+  vendor_context: VENDOR_CONTEXT_OUTPUT_SCHEMA,
+  ae_deep_dive: SchemaValidator.fromTemplate(aeDeepDiveTemplate),
+  se_deep_dive: SchemaValidator.fromTemplate(seDeepDiveTemplate),
+  csm_deep_dive: SchemaValidator.fromTemplate(csmDeepDiveTemplate)
+};
+
+/**
+ * Example-shaped templates, embedded verbatim in the persona deep-dive prompts
+ */
+export const DEEP_DIVE_TEMPLATES = {
+  ae_deep_dive: aeDeepDiveTemplate,
+  se_deep_dive: seDeepDiveTemplate,
+  csm_deep_dive: csmDeepDiveTemplate
+};
@@ -0,0 +1,219 @@
+/**
+ * LLM Output Validator
+ *
+ * Parses model output with JsonExtractor, validates it against the output schema and,
+ * when invalid, re-prompts the model with the validation errors (bounded number of attempts).
+ * Daily repair-rate metrics are kept in the cache table.
+ */
+
+import { Logger } from '../../../core/Logger';
+import { CacheService } from '../../../core/CacheService';
+import { AIAnalyzer } from '../../../analysis/AIAnalyzer';
+import { BedrockUsage } from '../../../analysis/types/AnalysisTypes';
+import { JsonExtractor } from '../../../utilities/JsonExtractor';
+import { SchemaValidator, SchemaValidationError } from '../../../utilities/SchemaValidator';
+import { CacheType } from '../../../../types/cache-types';
+import { LLM_OUTPUT_SCHEMAS, LLMOutputType } from './LLMOutputSchemas';
+
+export interface LLMOutputValidationResult<T> {
+  output: T | null;                  // null when still invalid after all repair attempts
+  repairAttempts: number;
+  repaired: boolean;                 // valid only after at least one repair
+  errors: SchemaValidationError[];   // errors of the last candidate (empty when valid)
+  initialErrors: SchemaValidationError[];  // errors of the original response, before any repair
+  repairUsage: BedrockUsage[];       // one entry per repair call, for cost accounting
+}
+
+export interface LLMValidationMetrics {
+  total: number;
+  validFirstAttempt: number;
+  repaired: number;
+  failed: number;
+  repairAttempts: number;
+  repairRate: number;         // share of outputs that needed a repair
+  repairSuccessRate: number;  // share of repaired-or-failed outputs that a repair fixed
+  errorPaths: Record<string, number>;
+}
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+const MAX_PREVIOUS_OUTPUT_CHARS = 12000;
+const MAX_TRACKED_ERROR_PATHS = 50;
+
+export class LLMOutputValidator {
+  private cacheService: CacheService;
+  private logger: Logger;
+  private aiAnalyzer: AIAnalyzer;
+  private maxRepairAttempts: number;
+
+  constructor(cacheService: CacheService, logger: Logger, aiAnalyzer: AIAnalyzer) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+    this.aiAnalyzer = aiAnalyzer;
+    this.maxRepairAttempts = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || String(DEFAULT_MAX_REPAIR_ATTEMPTS));
+  }
+
+  /**
+   * Extract, validate and (if needed) repair model output
+   */
+  async parseWithRepair<T>(
+    rawResponse: string,
+    outputType: LLMOutputType,
+    companyName: string
+  ): Promise<LLMOutputValidationResult<T>> {
+    const schema = LLM_OUTPUT_SCHEMAS[outputType];
+    const repairUsage: BedrockUsage[] = [];
+    let candidate = rawResponse;
+    let parsed: T | null = null;
+    let errors: SchemaValidationError[] = [];
+    let initialErrors: SchemaValidationError[] | null = null;
+    let repairAttempts = 0;
+
+    while (true) {
+      parsed = JsonExtractor.extractAndParse<T>(candidate, {
+        logErrors: true,
+        context: `${outputType}_validation`
+      });
+      errors = parsed
+        ? SchemaValidator.validate(parsed, schema).errors
+        : [{ path: '$', message: 'response did not contain parseable JSON (possibly truncated)' }];
+      initialErrors = initialErrors || errors;
+
+      if (errors.length === 0 || repairAttempts >= this.maxRepairAttempts) {
+        break;
+      }
+
+      repairAttempts++;
+      this.logger.warn('LLM output failed schema validation, requesting repair', {
+        outputType,
+        companyName,
+        repairAttempt: repairAttempts,
+        errorCount: errors.length,
+        errors: errors.slice(0, 10)
+      });
+
+      try {
+        const repair = await this.aiAnalyzer.parseUserInputWithUsage(
+          this.buildRepairPrompt(outputType, candidate, errors)
+        );
+        repairUsage.push(repair.usage);
+        candidate = repair.content;
+      } catch (error) {
+        this.logger.error('LLM repair call failed', {
+          outputType,
+          companyName,
+          repairAttempt: repairAttempts,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        break;
+      }
+    }
+
+    const valid = errors.length === 0;
+    const result: LLMOutputValidationResult<T> = {
+      output: valid ? parsed : null,
+      repairAttempts,
+      repaired: valid && repairAttempts > 0,
+      errors,
+      initialErrors: initialErrors || [],
+      repairUsage
+    };
+
+    this.logger.info('LLM output validation finished', {
+      outputType,
+      companyName,
+      valid,
+      repairAttempts,
+      repaired: result.repaired,
+      remainingErrors: errors.length
+    });
+
+    await this.recordMetrics(outputType, result);
+    return result;
+  }
+
+  /**
+   * Daily validation metrics for an output type
+   */
+  async getMetrics(outputType: LLMOutputType, date = new Date().toISOString().split('T')[0]): Promise<LLMValidationMetrics | null> {
+    const metrics = await this.cacheService.getRawJSON(this.getMetricsKey(date));
+    return metrics?.byOutputType?.[outputType] || null;
+  }
+
+  private buildRepairPrompt(outputType: LLMOutputType, previousOutput: string, errors: SchemaValidationError[]): string {
+    const truncated = previousOutput.length > MAX_PREVIOUS_OUTPUT_CHARS;
+    const previous = truncated ? previousOutput.substring(0, MAX_PREVIOUS_OUTPUT_CHARS) : previousOutput;
+
+    return `Your previous ${outputType.replace('_', ' ')} response did not match the required JSON schema.
+
+VALIDATION ERRORS:
+${SchemaValidator.formatErrors(errors)}
+
+REQUIRED JSON SCHEMA:
+${JSON.stringify(LLM_OUTPUT_SCHEMAS[outputType])}
+
+PREVIOUS RESPONSE${truncated ? ' (truncated)' : ''}:
+${previous}
+
+Return ONLY the corrected JSON object. Keep all valid content from the previous response, fix every listed error,
+use only the allowed enum values, and keep the response concise enough to be complete. No explanations or markdown.`;
+  }
+
+  /**
+   * Read-modify-write; concurrent writers can lose an increment, which is acceptable for metrics
+   */
+  private async recordMetrics<T>(outputType: LLMOutputType, result: LLMOutputValidationResult<T>): Promise<void> {
+    const date = new Date().toISOString().split('T')[0];
+    const key = this.getMetricsKey(date);
+
+    try {
+      const existing = await this.cacheService.getRawJSON(key);
+      const record = existing || { date, byOutputType: {}, updatedAt: new Date().toISOString() };
+      const metrics: LLMValidationMetrics = record.byOutputType[outputType] || {
+        total: 0,
+        validFirstAttempt: 0,
+        repaired: 0,
+        failed: 0,
+        repairAttempts: 0,
+        repairRate: 0,
+        repairSuccessRate: 0,
+        errorPaths: {}
+      };
+
+      metrics.total += 1;
+      metrics.repairAttempts += result.repairAttempts;
+      if (result.output && result.repairAttempts === 0) metrics.validFirstAttempt += 1;
+      if (result.repaired) metrics.repaired += 1;
+      if (!result.output) metrics.failed += 1;
+
+      const needingRepair = metrics.total - metrics.validFirstAttempt;
+      metrics.repairRate = this.ratio(needingRepair, metrics.total);
+      metrics.repairSuccessRate = this.ratio(metrics.repaired, needingRepair);
+
+      for (const error of result.initialErrors) {
+        // Collapse array indices so errors aggregate by field
+        const path = error.path.replace(/\[\d+\]/g, '[]');
+        if (metrics.errorPaths[path] !== undefined || Object.keys(metrics.errorPaths).length < MAX_TRACKED_ERROR_PATHS) {
+          metrics.errorPaths[path] = (metrics.errorPaths[path] || 0) + 1;
+        }
+      }
+
+      record.byOutputType[outputType] = metrics;
+      record.updatedAt = new Date().toISOString();
+
+      await this.cacheService.setRawJSON(key, record, CacheType.PERFORMANCE_METRICS);
+    } catch (error) {
+      this.logger.warn('LLM validation metrics update failed', {
+        outputType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private getMetricsKey(date: string): string {
+    return `llm_validation_metrics:${date}`;
+  }
+
+  private ratio(part: number, whole: number): number {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0;
+  }
+}
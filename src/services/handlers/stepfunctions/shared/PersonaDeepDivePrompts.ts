@@ -0,0 +1,113 @@
+/**
+ * Persona Deep-Dive Prompt Templates
+ *
+ * Per-persona instructions for the AE, SE and CSM deep-dive outputs. The JSON structure itself
+ * comes from the matching template in schemas/, so prompt and validation cannot drift apart.
+ */
+
+import { DeepDivePersona } from './LLMAnalysisTypes';
+import { DEEP_DIVE_TEMPLATES } from './LLMOutputSchemas';
+
+export const DEEP_DIVE_PERSONAS: DeepDivePersona[] = ['AE', 'SE', 'CSM'];
+
+interface PersonaPromptTemplate {
+  outputType: keyof typeof DEEP_DIVE_TEMPLATES;
+  title: string;
+  objective: string;
+  focusAreas: string[];
+  rules: string[];
+}
+
+export const PERSONA_PROMPT_TEMPLATES: Record<DeepDivePersona, PersonaPromptTemplate> = {
+  AE: {
+    outputType: 'ae_deep_dive',
+    title: 'Account Executive',
+    objective: 'Prepare an Account Executive to open and advance a new opportunity.',
+    focusAreas: [
+      'Buying signals (funding, growth, leadership changes) and how strong each one is',
+      'Decision makers: economic buyer, technical buyer, champions and influencers, with how reachable they are',
+      'Incumbent vendors, past evaluations and battlecards against likely competitors',
+      'Budget, timeline, pain points and business drivers for the opportunity',
+      'Products to lead with, the selling strategy and meeting preparation'
+    ],
+    rules: [
+      'Only name people who appear in the collected data; otherwise describe the role and use null for name',
+      'Battlecards must use the vendor\'s real competitors and advantages from the vendor context'
+    ]
+  },
+  SE: {
+    outputType: 'se_deep_dive',
+    title: 'Solutions Engineer',
+    objective: 'Prepare a Solutions Engineer for technical discovery and solution design.',
+    focusAreas: [
+      'Current tech stack: infrastructure, applications, security and data flow',
+      'Technical requirements with priority, current solution and gaps',
+      'Integration points, methods and complexity',
+      'Technical decision makers and their concerns',
+      'Mapping customer needs to vendor solutions, proof of concept scope and implementation phases'
+    ],
+    rules: [
+      'Infer the tech stack from job postings, news and search results; do not list technologies without evidence',
+      'Set proofOfConcept.recommended and techStack.infrastructure.hybrid to true or false, never a string'
+    ]
+  },
+  CSM: {
+    outputType: 'csm_deep_dive',
+    title: 'Customer Success Manager',
+    objective: 'Prepare a Customer Success Manager to protect and grow an existing account.',
+    focusAreas: [
+      'Account health across usage, relationship and support, with an overall score',
+      'Renewal risk factors, early warning signals and mitigation actions',
+      'Expansion opportunities and their readiness',
+      'Stakeholder map with sentiment and influence',
+      'Competitive threats to the account and a success plan'
+    ],
+    rules: [
+      'Contract, usage and support values (ARR, renewal date, active users, ticket volume) are internal data: use null unless they appear in the collected data',
+      'Base health and risk assessments on public signals such as layoffs, leadership changes, funding and competitor adoption',
+      'Set customer.contractDetails.autoRenewal to true or false, never a string'
+    ]
+  }
+};
+
+/**
+ * Narrow an unvalidated request value to a deep-dive persona
+ */
+export function isDeepDivePersona(value: unknown): value is DeepDivePersona {
+  return typeof value === 'string' && (DEEP_DIVE_PERSONAS as string[]).includes(value);
+}
+
+/**
+ * Cache key suffix that keeps deep-dive results apart from the generic customer intelligence output
+ */
+export function getDeepDiveKeySuffix(persona?: DeepDivePersona): string {
+  return persona ? `:${persona.toLowerCase()}_deep_dive` : '';
+}
+
+/**
+ * Render the persona-specific instructions and the exact JSON structure to return
+ */
+export function buildDeepDiveInstructions(persona: DeepDivePersona, companyName: string, vendorCompany: string): string {
+  const template = PERSONA_PROMPT_TEMPLATES[persona];
+  const structure = JSON.stringify(DEEP_DIVE_TEMPLATES[template.outputType], null, 2);
+
+  return `
+PERSONA DEEP DIVE: ${template.title} (${persona})
+${template.objective} The ${template.title} represents ${vendorCompany || 'the vendor'} and is researching ${companyName}.
+
+Focus on:
+${template.focusAreas.map(area => `- ${area}`).join('\n')}
+
+Rules:
+${template.rules.map(rule => `- ${rule}`).join('\n')}
+- Values written as "a|b|c" in the structure are enums: use exactly one of the listed options
+- Use null for any string value the data does not support; never invent names, figures or dates
+- Keep every key from the structure, using empty arrays where nothing was found
+
+Return ONLY valid JSON in this exact structure, with "persona" set to "${DEEP_DIVE_TEMPLATES[template.outputType].persona}":
+
+${structure}
+
+Focus on actionable insights. Be specific and avoid generic advice.
+`;
+}
@@ -0,0 +1,65 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { HiringSnapshot } from './types/HiringTrendTypes';
+
+// Snapshots older than this are expired by DynamoDB TTL
+const RETENTION_DAYS = parseInt(process.env.HIRING_SNAPSHOT_RETENTION_DAYS || '400');
+
+/**
+ * Hiring Snapshot Service
+ *
+ * Daily job-posting snapshots per company (companyKey + snapshotDate). Unlike the raw jobs cache
+ * these outlive the SerpAPI TTL, so hiring can be compared week over week and quarter over quarter.
+ */
+export class HiringSnapshotService {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+    this.tableName = process.env.HIRING_SNAPSHOTS_TABLE_NAME || 'sales-intelligence-hiring-snapshots';
+  }
+
+  static companyKey(company: string): string {
+    return company.trim().toLowerCase();
+  }
+
+  /**
+   * Store a snapshot, replacing any earlier one for the same company and day
+   */
+  async saveSnapshot(snapshot: HiringSnapshot): Promise<void> {
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: {
+        ...snapshot,
+        expiresAt: Math.floor(Date.parse(snapshot.capturedAt) / 1000) + RETENTION_DAYS * 24 * 60 * 60,
+      },
+    }));
+  }
+
+  /**
+   * Snapshots for a company from the given day onwards, oldest first
+   */
+  async getSnapshots(company: string, sinceDate: string): Promise<HiringSnapshot[]> {
+    const snapshots: HiringSnapshot[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'companyKey = :companyKey AND snapshotDate >= :since',
+        ExpressionAttributeValues: {
+          ':companyKey': HiringSnapshotService.companyKey(company),
+          ':since': sinceDate,
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      snapshots.push(...((result.Items || []) as HiringSnapshot[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return snapshots;
+  }
+}
@@ -0,0 +1,210 @@
+import { SerpAPIJobResult } from '../serpapi/types/SerpAPITypes';
+import { JobsSearchEngine } from '../serpapi/engines/JobsSearchEngine';
+import { HiringSnapshotService } from './HiringSnapshotService';
+import {
+  HiringGrowthPeriod,
+  HiringGrowthSignal,
+  HiringSnapshot,
+  HiringTimeSeries,
+  HiringWeeklyPoint
+} from './types/HiringTrendTypes';
+
+// A department change is a signal when it moved by at least this percentage AND this many postings
+const MIN_CHANGE_PERCENT = parseFloat(process.env.HIRING_SIGNAL_MIN_CHANGE_PERCENT || '20');
+const MIN_POSTING_DELTA = parseInt(process.env.HIRING_SIGNAL_MIN_DELTA || '2');
+const MIN_REMOTE_SHIFT = 0.15;
+
+// Quarter comparisons need at least this many weeks between the two points
+const QUARTER_WEEKS = 13;
+const MIN_QUARTER_SPAN_WEEKS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hiring Trend Analyzer
+ *
+ * Turns job postings into daily snapshots (department, experience level, remote share) and
+ * snapshot history into a weekly series with week-over-week deltas and growth signals.
+ */
+export class HiringTrendAnalyzer {
+  static buildSnapshot(
+    company: string,
+    jobs: SerpAPIJobResult[],
+    source: HiringSnapshot['source'],
+    capturedAt: string = new Date().toISOString()
+  ): HiringSnapshot {
+    const departments: Record<string, number> = {};
+    const experienceLevels: Record<string, number> = {};
+    let remoteCount = 0;
+
+    for (const job of jobs) {
+      const title = job.title.toLowerCase();
+      const department = JobsSearchEngine.extractDepartment(title);
+      departments[department] = (departments[department] || 0) + 1;
+
+      const level = JobsSearchEngine.extractExperienceLevel(title);
+      experienceLevels[level] = (experienceLevels[level] || 0) + 1;
+
+      if (JobsSearchEngine.isRemote(job)) {
+        remoteCount += 1;
+      }
+    }
+
+    return {
+      companyKey: HiringSnapshotService.companyKey(company),
+      snapshotDate: capturedAt.split('T')[0],
+      company,
+      capturedAt,
+      totalOpenings: jobs.length,
+      departments,
+      experienceLevels,
+      remoteCount,
+      remoteShare: jobs.length > 0 ? Math.round((remoteCount / jobs.length) * 100) / 100 : 0,
+      source
+    };
+  }
+
+  /**
+   * Weekly series, week-over-week deltas and growth signals from snapshots (any order)
+   */
+  static buildTimeSeries(company: string, days: number, snapshots: HiringSnapshot[]): HiringTimeSeries {
+    const ordered = snapshots
+      .map(({ expiresAt, ...snapshot }) => snapshot)
+      .sort((a, b) => a.snapshotDate.localeCompare(b.snapshotDate));
+    const weekly = this.toWeekly(ordered);
+
+    const weekOverWeek = weekly.slice(1).map((point, index) => {
+      const previous = weekly[index];
+      const departmentDeltas: Record<string, number> = {};
+      for (const department of this.departmentsOf(previous, point)) {
+        const delta = (point.departments[department] || 0) - (previous.departments[department] || 0);
+        if (delta !== 0) {
+          departmentDeltas[department] = delta;
+        }
+      }
+      return {
+        weekStart: point.weekStart,
+        totalDelta: point.totalOpenings - previous.totalOpenings,
+        departmentDeltas
+      };
+    });
+
+    return {
+      company,
+      days,
+      snapshots: ordered,
+      weekly,
+      weekOverWeek,
+      growth_signals: this.growthSignals(weekly)
+    };
+  }
+
+  /**
+   * Signals for the latest week and, with enough history, the last quarter; largest changes first
+   */
+  static growthSignals(weekly: HiringWeeklyPoint[]): HiringGrowthSignal[] {
+    if (weekly.length < 2) {
+      return [];
+    }
+
+    const latest = weekly[weekly.length - 1];
+    const signals = this.compare(weekly[weekly.length - 2], latest, 'week');
+
+    const quarterStart = this.addDays(latest.weekStart, -QUARTER_WEEKS * 7);
+    const baseline = weekly.find(point => point.weekStart >= quarterStart);
+    if (baseline && this.weeksBetween(baseline.weekStart, latest.weekStart) >= MIN_QUARTER_SPAN_WEEKS) {
+      signals.push(...this.compare(baseline, latest, 'quarter'));
+    }
+
+    return signals.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
+  }
+
+  private static compare(from: HiringWeeklyPoint, to: HiringWeeklyPoint, period: HiringGrowthPeriod): HiringGrowthSignal[] {
+    const signals: HiringGrowthSignal[] = [];
+    const periodLabel = period === 'quarter' ? 'this quarter' : 'week over week';
+
+    const counts: Array<[string, number, number]> = [
+      ['total', from.totalOpenings, to.totalOpenings],
+      ...this.departmentsOf(from, to).map((department): [string, number, number] =>
+        [department, from.departments[department] || 0, to.departments[department] || 0])
+    ];
+
+    for (const [metric, before, after] of counts) {
+      const delta = after - before;
+      if (Math.abs(delta) < MIN_POSTING_DELTA) continue;
+
+      const changePercent = before > 0 ? Math.round((delta / before) * 100) : 100;
+      if (Math.abs(changePercent) < MIN_CHANGE_PERCENT) continue;
+
+      const direction = delta > 0 ? 'up' : 'down';
+      const label = metric === 'total' ? 'Overall' : metric.charAt(0).toUpperCase() + metric.slice(1);
+      signals.push({
+        metric,
+        period,
+        direction,
+        from: before,
+        to: after,
+        changePercent,
+        fromWeek: from.weekStart,
+        toWeek: to.weekStart,
+        summary: before > 0
+          ? `${label} hiring ${direction} ${Math.abs(changePercent)}% ${periodLabel} (${before} to ${after} open roles)`
+          : `${label} hiring started ${periodLabel} (${after} open roles)`
+      });
+    }
+
+    const remoteShift = Math.round((to.remoteShare - from.remoteShare) * 100) / 100;
+    if (Math.abs(remoteShift) >= MIN_REMOTE_SHIFT) {
+      const direction = remoteShift > 0 ? 'up' : 'down';
+      signals.push({
+        metric: 'remote_share',
+        period,
+        direction,
+        from: from.remoteShare,
+        to: to.remoteShare,
+        changePercent: Math.round(remoteShift * 100),
+        fromWeek: from.weekStart,
+        toWeek: to.weekStart,
+        summary: `Remote share of openings ${direction} ${Math.abs(Math.round(remoteShift * 100))} points ${periodLabel} ` +
+          `(${Math.round(from.remoteShare * 100)}% to ${Math.round(to.remoteShare * 100)}%)`
+      });
+    }
+
+    return signals;
+  }
+
+  /**
+   * Keep the last snapshot of each week (expects snapshots oldest first)
+   */
+  private static toWeekly(snapshots: HiringSnapshot[]): HiringWeeklyPoint[] {
+    const weeks = new Map<string, HiringWeeklyPoint>();
+    for (const snapshot of snapshots) {
+      const weekStart = this.weekStart(snapshot.snapshotDate);
+      weeks.set(weekStart, {
+        weekStart,
+        snapshotDate: snapshot.snapshotDate,
+        totalOpenings: snapshot.totalOpenings,
+        departments: snapshot.departments,
+        remoteShare: snapshot.remoteShare
+      });
+    }
+    return Array.from(weeks.values());
+  }
+
+  private static departmentsOf(...points: HiringWeeklyPoint[]): string[] {
+    return Array.from(new Set(points.flatMap(point => Object.keys(point.departments)))).sort();
+  }
+
+  private static weekStart(date: string): string {
+    const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+    return this.addDays(date, -((day + 6) % 7));
+  }
+
+  private static addDays(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+  }
+
+  private static weeksBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (7 * DAY_MS));
+  }
+}
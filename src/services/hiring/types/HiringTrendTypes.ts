@@ -0,0 +1,63 @@
+/**
+ * Hiring Trend Types
+ *
+ * Type definitions for persisted daily job-posting snapshots and the hiring time-series API
+ */
+
+/**
+ * One company's open postings on one day, broken down by department, experience level and remote share
+ */
+export interface HiringSnapshot {
+  companyKey: string;        // Lower-cased company name (partition key)
+  snapshotDate: string;      // YYYY-MM-DD (sort key); a later capture on the same day replaces the earlier one
+  company: string;
+  capturedAt: string;
+  totalOpenings: number;
+  departments: Record<string, number>;
+  experienceLevels: Record<string, number>;
+  remoteCount: number;
+  remoteShare: number;       // 0-1
+  source: 'watchlist_refresh' | 'on_demand';
+  expiresAt?: number;        // Epoch seconds (DynamoDB TTL)
+}
+
+/**
+ * Last snapshot of each ISO week (weeks start on Monday)
+ */
+export interface HiringWeeklyPoint {
+  weekStart: string;         // YYYY-MM-DD
+  snapshotDate: string;
+  totalOpenings: number;
+  departments: Record<string, number>;
+  remoteShare: number;
+}
+
+export type HiringGrowthPeriod = 'week' | 'quarter';
+
+/**
+ * Growth or decline of one metric over a period, e.g. "engineering hiring up 40% this quarter"
+ */
+export interface HiringGrowthSignal {
+  metric: string;            // Department name, 'total' or 'remote_share'
+  period: HiringGrowthPeriod;
+  direction: 'up' | 'down';
+  from: number;
+  to: number;
+  changePercent: number;     // For remote_share: percentage points
+  fromWeek: string;
+  toWeek: string;
+  summary: string;
+}
+
+export interface HiringTimeSeries {
+  company: string;
+  days: number;
+  snapshots: HiringSnapshot[];          // Oldest first
+  weekly: HiringWeeklyPoint[];          // Oldest first
+  weekOverWeek: Array<{
+    weekStart: string;
+    totalDelta: number;
+    departmentDeltas: Record<string, number>;
+  }>;
+  growth_signals: HiringGrowthSignal[];
+}
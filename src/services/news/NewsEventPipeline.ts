@@ -0,0 +1,347 @@
+import { createHash } from 'crypto';
+import {
+  NewsArticle,
+  NewsEvent,
+  NewsEventFacts,
+  NewsPipelineResult,
+  NewsSignalType
+} from './types/NewsEventTypes';
+
+// Two headlines are the same story when their token sets overlap this much
+const TITLE_SIMILARITY_THRESHOLD = 0.55;
+const TITLE_CONTAINMENT_THRESHOLD = 0.8;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'its', 'has', 'have', 'will', 'are', 'was', 'this', 'that',
+  'after', 'over', 'new', 'says', 'said', 'amid', 'about', 'than', 'more', 'how', 'why', 'what', 'who'
+]);
+
+const EXECUTIVE_TITLE = '(?:chief [a-z]+ officer|ceo|cto|cfo|coo|cro|cmo|cio|ciso|cpo|president|founder|' +
+  'svp[a-z ,&]*|evp[a-z ,&]*|vp[a-z ,&]*|vice president[a-z ,&]*|head of [a-z &]+|general manager)';
+// Used with the i flag, so candidates are checked for capitalised words afterwards
+const PERSON_NAME = "([A-Z][a-z'.-]+(?: +(?!(?:as|to|of|and|the|its|new|for|from|joins|has|steps|resigns|departs|exits|is)\\b)[A-Z][a-z'.-]+){1,2})";
+
+/**
+ * Weighted patterns per signal type; headline matches count double
+ */
+const SIGNAL_PATTERNS: Record<NewsSignalType, RegExp[]> = {
+  funding: [
+    /\b(raise[sd]?|raising|funding|seed round|pre-seed|series [a-h]|venture capital|valuation|unicorn)\b/gi,
+    /\b(investors?|investment|backed by|led by|ipo|goes public)\b/gi
+  ],
+  hiring: [
+    /\b(hiring|to hire|recruit(s|ing|ment)?|headcount|job openings|new jobs|new roles|workforce)\b/gi,
+    /\b(\d[\d,]*\s+(new\s+)?(jobs|employees|engineers|positions))\b/gi
+  ],
+  leadership: [
+    new RegExp(`\\b(appoint(s|ed)?|names?|named|promot(es|ed)|steps? down|resign(s|ed)?|succeeds?|joins as|taps)\\b[^.]{0,80}\\b${EXECUTIVE_TITLE}\\b`, 'gi'),
+    new RegExp(`\\b(new|former|incoming|outgoing|interim)\\s+${EXECUTIVE_TITLE}\\b`, 'gi'),
+    new RegExp(`\\b${EXECUTIVE_TITLE}\\b[^.]{0,60}\\b(steps? down|resign(s|ed)?|depart(s|ure)|exits?|to leave|ousted)\\b`, 'gi')
+  ],
+  product: [
+    /\b(launch(es|ed)?|unveil(s|ed)?|introduc(es|ed)|releases?d?|rolls? out|debuts?|general availability|now available)\b/gi,
+    /\b(product|platform|feature|app|beta|version)\b/gi
+  ],
+  partnership: [
+    /\b(partner(s|ship|ed)?|teams? up|collaborat(es|ion)|alliance|joint venture|strategic agreement)\b/gi,
+    /\b(integrat(es|ion) with|selects|chooses)\b/gi
+  ],
+  expansion: [
+    /\b(expan(ds?|ded|sion)|opens?( new)? (office|headquarters|hub|facility|data center)|enters?( the)? [a-z]+ market)\b/gi,
+    /\b(acquir(es|ed|ition)|merger|new market|international|global growth|relocat(es|ion))\b/gi
+  ]
+};
+
+const SIGNAL_TYPES = Object.keys(SIGNAL_PATTERNS) as NewsSignalType[];
+
+// Facts kept per signal type (everything else found in the text is noise for that story)
+const RELEVANT_FACTS: Record<NewsSignalType, Array<keyof NewsEventFacts>> = {
+  funding: ['amount', 'round', 'leadInvestor'],
+  hiring: ['location'],
+  leadership: ['executive'],
+  product: ['product'],
+  partnership: ['partner'],
+  expansion: ['location', 'amount']
+};
+
+const CURRENCIES: Record<string, string> = { '$': 'USD', 'us$': 'USD', 'usd': 'USD', '€': 'EUR', 'eur': 'EUR', '£': 'GBP', 'gbp': 'GBP' };
+const MULTIPLIERS: Record<string, number> = {
+  thousand: 1e3, k: 1e3, million: 1e6, mn: 1e6, m: 1e6, billion: 1e9, bn: 1e9, b: 1e9
+};
+
+/**
+ * News Event Pipeline
+ *
+ * Runs before the LLM step: clusters syndicated copies of the same story, classifies each cluster
+ * into a CustomerIntelligenceOutput signal_type with a confidence, and extracts structured facts
+ * (funding amount and round, executive name, partner, location, product).
+ */
+export class NewsEventPipeline {
+  static process(articles: NewsArticle[]): NewsPipelineResult {
+    const valid = articles.filter(article => article?.title && article?.link);
+    const clusters = this.cluster(valid);
+
+    const events = clusters
+      .map((cluster, rank) => ({ event: this.toEvent(cluster), rank }))
+      .sort((a, b) =>
+        Number(b.event.signal_type !== null) - Number(a.event.signal_type !== null) ||
+        b.event.confidence - a.event.confidence ||
+        a.rank - b.rank
+      )
+      .map(({ event }) => event);
+
+    return {
+      events,
+      articleCount: valid.length,
+      duplicatesRemoved: valid.length - clusters.length
+    };
+  }
+
+  /**
+   * News articles from collected data: legacy { news: { news_results } } or orchestrator output
+   * keyed by source (fresh arrays or cached { data } wrappers, optionally nested under data)
+   */
+  static extractArticles(data: any): NewsArticle[] {
+    if (!data) return [];
+    const candidates = [data.news?.news_results, data.serp_news, data.data?.serp_news];
+    for (const candidate of candidates) {
+      if (Array.isArray(candidate)) return candidate;
+      if (Array.isArray(candidate?.data)) return candidate.data;
+    }
+    return [];
+  }
+
+  /**
+   * Greedy clustering in rank order: same canonical URL or near-identical headline
+   */
+  private static cluster(articles: NewsArticle[]): NewsArticle[][] {
+    const clusters: Array<{ articles: NewsArticle[]; urls: Set<string>; tokens: Set<string>[] }> = [];
+
+    for (const article of articles) {
+      const url = this.canonicalUrl(article.link);
+      const tokens = this.titleTokens(article.title);
+      const match = clusters.find(cluster =>
+        cluster.urls.has(url) || cluster.tokens.some(existing => this.isSameStory(existing, tokens))
+      );
+
+      if (match) {
+        match.articles.push(article);
+        match.urls.add(url);
+        match.tokens.push(tokens);
+      } else {
+        clusters.push({ articles: [article], urls: new Set([url]), tokens: [tokens] });
+      }
+    }
+
+    return clusters.map(cluster => cluster.articles);
+  }
+
+  private static toEvent(articles: NewsArticle[]): NewsEvent {
+    const primary = articles[0];
+    const sources = Array.from(new Set(articles.map(article => this.sourceName(article)).filter((s): s is string => !!s)));
+    const { signalType, confidence, scores } = this.classify(articles, sources.length);
+
+    return {
+      id: createHash('sha1').update(this.canonicalUrl(primary.link)).digest('hex').substring(0, 16),
+      headline: this.stripSourceSuffix(primary.title),
+      link: primary.link,
+      date: primary.date,
+      sources,
+      articles,
+      signal_type: signalType,
+      confidence,
+      scores,
+      facts: signalType ? this.extractFacts(articles, signalType) : {}
+    };
+  }
+
+  /**
+   * Highest-scoring signal type; confidence reflects its share of all matches, match strength
+   * and how many sources carried the story
+   */
+  private static classify(articles: NewsArticle[], sourceCount: number): {
+    signalType: NewsSignalType | null;
+    confidence: number;
+    scores: Partial<Record<NewsSignalType, number>>;
+  } {
+    const scores: Partial<Record<NewsSignalType, number>> = {};
+
+    for (const type of SIGNAL_TYPES) {
+      let score = 0;
+      for (const article of articles) {
+        for (const pattern of SIGNAL_PATTERNS[type]) {
+          score += 2 * Math.min(this.countMatches(pattern, article.title), 2);
+          score += Math.min(this.countMatches(pattern, article.snippet || ''), 2);
+        }
+      }
+      if (score > 0) {
+        scores[type] = score;
+      }
+    }
+
+    const ranked = (Object.entries(scores) as Array<[NewsSignalType, number]>).sort((a, b) => b[1] - a[1]);
+    if (ranked.length === 0) {
+      return { signalType: null, confidence: 0, scores };
+    }
+
+    const [signalType, top] = ranked[0];
+    const total = ranked.reduce((sum, [, score]) => sum + score, 0);
+    const share = top / total;
+    const strength = Math.min(1, top / (6 * articles.length));
+    const corroboration = Math.min(0.1, 0.05 * (sourceCount - 1));
+    const confidence = Math.min(0.95, share * (0.5 + 0.5 * strength) + corroboration);
+
+    return { signalType, confidence: Math.round(confidence * 100) / 100, scores };
+  }
+
+  private static extractFacts(articles: NewsArticle[], signalType: NewsSignalType): NewsEventFacts {
+    const facts: NewsEventFacts = {};
+    const relevant = RELEVANT_FACTS[signalType];
+
+    // Primary article first; the first article that yields a fact wins
+    for (const article of articles) {
+      // Headline and snippet on separate lines so fact patterns (which only span spaces) stay within one
+      const text = `${this.stripSourceSuffix(article.title)}\n${article.snippet || ''}`;
+      const found: NewsEventFacts = {
+        amount: this.extractAmount(text),
+        round: this.extractRound(text),
+        leadInvestor: this.matchGroup(text, /\bled by ([A-Z][\w&.'-]*(?: +(?:[A-Z][\w&.'-]*|&))*)/),
+        executive: this.extractExecutive(text),
+        partner: this.matchGroup(text, /\b(?:partners?|partnered|partnering|teams? up|collaborates?|alliance)\s+with +([A-Z][\w&.'-]*(?: +[A-Z][\w&.'-]*){0,3})/),
+        location: this.matchGroup(text, /\b(?:expands?|expansion|opens?|opening|enters?|hiring|launches operations)\b[^.]{0,40}?\bin +([A-Z][a-zA-Z.-]+(?:,? +[A-Z][a-zA-Z.-]+){0,2})/),
+        product: this.matchGroup(text, /\b(?:launch(?:es|ed)?|unveil(?:s|ed)?|introduc(?:es|ed)|releases?d?|debuts?)\s+(?:its +|the +|a +|an +|new +)*([A-Z][\w.+-]*(?: +[A-Z0-9][\w.+-]*){0,3})/)
+      };
+
+      for (const key of relevant) {
+        if (facts[key] === undefined && found[key] !== undefined) {
+          (facts as any)[key] = found[key];
+        }
+      }
+    }
+
+    return facts;
+  }
+
+  private static extractAmount(text: string): NewsEventFacts['amount'] {
+    const match = text.match(/(US\$|\$|€|£|USD\s?|EUR\s?|GBP\s?)(\d+(?:[.,]\d+)?)\s?(thousand|million|billion|mn|bn|[kmb])\b/i);
+    if (!match) return undefined;
+
+    const currency = CURRENCIES[match[1].trim().toLowerCase()] || 'USD';
+    const value = parseFloat(match[2].replace(',', '.')) * MULTIPLIERS[match[3].toLowerCase()];
+    return { value: Math.round(value), currency, text: match[0].trim() };
+  }
+
+  private static extractRound(text: string): string | undefined {
+    const match = text.match(/\b(pre-seed|seed|series [a-h]|ipo)\b/i);
+    if (!match) return undefined;
+
+    const round = match[1].toLowerCase();
+    if (round === 'ipo') return 'IPO';
+    if (round.startsWith('series')) return `Series ${round.slice(-1).toUpperCase()}`;
+    return round.charAt(0).toUpperCase() + round.slice(1);
+  }
+
+  private static extractExecutive(text: string): NewsEventFacts['executive'] {
+    const appointed = this.firstNamedMatch(text, new RegExp(
+      `\\b(?:appoints?|appointed|names|named|hires|hired|promotes|promoted|taps|welcomes)\\s+${PERSON_NAME}` +
+      `(?:,?\\s+(?:as\\s+)?(?:its\\s+|the\\s+|new\\s+)*(${EXECUTIVE_TITLE}))?`, 'gi'
+    ), 1);
+    if (appointed) {
+      return { name: appointed[1], title: this.formatTitle(appointed[2]), change: 'appointed' };
+    }
+
+    const joins = this.firstNamedMatch(text, new RegExp(
+      `${PERSON_NAME}\\s+(?:joins|has joined)\\b[^.]{0,60}?\\bas\\s+(?:its\\s+|the\\s+|new\\s+)*(${EXECUTIVE_TITLE})`, 'gi'
+    ), 1);
+    if (joins) {
+      return { name: joins[1], title: this.formatTitle(joins[2]), change: 'appointed' };
+    }
+
+    const departed = this.firstNamedMatch(text, new RegExp(
+      `(?:(${EXECUTIVE_TITLE})\\s+)?${PERSON_NAME}\\s+(?:steps down|to step down|resigns|departs|exits|is leaving)`, 'gi'
+    ), 2);
+    if (departed) {
+      return { name: departed[2], title: this.formatTitle(departed[1]), change: 'departed' };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * First match whose name group is made of capitalised words
+   */
+  private static firstNamedMatch(text: string, pattern: RegExp, nameGroup: number): RegExpMatchArray | undefined {
+    for (const match of text.matchAll(pattern)) {
+      const words = match[nameGroup]?.split(/\s+/) || [];
+      if (words.length >= 2 && words.every(word => /^[A-Z]/.test(word)) && !/^(ceo|cto|cfo|coo)$/i.test(words[0])) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  private static formatTitle(title?: string): string | undefined {
+    if (!title) return undefined;
+    const trimmed = title.trim().replace(/[\s,&]+$/, '');
+    return /^(ceo|cto|cfo|coo|cro|cmo|cio|ciso|cpo|svp|evp|vp)\b/i.test(trimmed)
+      ? trimmed.replace(/^\w+/, word => word.toUpperCase())
+      : trimmed.replace(/\b\w/g, letter => letter.toUpperCase());
+  }
+
+  private static matchGroup(text: string, pattern: RegExp): string | undefined {
+    return text.match(pattern)?.[1]?.trim().replace(/[.,;:]+$/, '');
+  }
+
+  private static countMatches(pattern: RegExp, text: string): number {
+    return text ? (text.match(pattern) || []).length : 0;
+  }
+
+  private static isSameStory(a: Set<string>, b: Set<string>): boolean {
+    if (a.size === 0 || b.size === 0) return false;
+
+    let overlap = 0;
+    a.forEach(token => { if (b.has(token)) overlap += 1; });
+
+    const jaccard = overlap / (a.size + b.size - overlap);
+    const containment = overlap / Math.min(a.size, b.size);
+    return jaccard >= TITLE_SIMILARITY_THRESHOLD || (Math.min(a.size, b.size) >= 4 && containment >= TITLE_CONTAINMENT_THRESHOLD);
+  }
+
+  private static titleTokens(title: string): Set<string> {
+    return new Set(
+      this.stripSourceSuffix(title)
+        .toLowerCase()
+        .replace(/[^a-z0-9$€£.\s]/g, ' ')
+        .split(/\s+/)
+        .map(token => token.replace(/^\.+|\.+$/g, ''))
+        .filter(token => token.length > 2 && !STOPWORDS.has(token))
+    );
+  }
+
+  /**
+   * Syndicated headlines often end with " - Source" or " | Source"
+   */
+  private static stripSourceSuffix(title: string): string {
+    return title.replace(/\s+[-|–—]\s+[^-|–—]{2,40}$/, '').trim();
+  }
+
+  private static canonicalUrl(link: string): string {
+    try {
+      const url = new URL(link);
+      return `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+      return link.toLowerCase();
+    }
+  }
+
+  private static sourceName(article: NewsArticle): string | undefined {
+    const source: any = article.source;
+    if (typeof source === 'string') return source;
+    if (source?.name) return source.name;
+    try {
+      return new URL(article.link).hostname.replace(/^www\./, '');
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * News Event Types
+ *
+ * Type definitions for the news pipeline: deduplicated story clusters, signal classification and extracted facts
+ */
+
+/**
+ * Same values as CustomerIntelligenceOutput.news_signals[].signal_type
+ */
+export type NewsSignalType = 'expansion' | 'funding' | 'hiring' | 'product' | 'leadership' | 'partnership';
+
+export interface NewsArticle {
+  title: string;
+  link: string;
+  snippet?: string;
+  date?: string;
+  source?: string;
+}
+
+/**
+ * Structured facts pulled from a story's headlines and snippets (only what was found)
+ */
+export interface NewsEventFacts {
+  amount?: {
+    value: number;            // In currency units, e.g. 25000000
+    currency: string;         // ISO code, e.g. USD
+    text: string;             // As written, e.g. "$25 million"
+  };
+  round?: string;             // e.g. "Series B", "Seed", "IPO"
+  leadInvestor?: string;
+  executive?: {
+    name: string;
+    title?: string;
+    change: 'appointed' | 'departed';
+  };
+  partner?: string;
+  location?: string;          // Expansion target, e.g. new office city/country
+  product?: string;
+}
+
+/**
+ * One story, possibly syndicated across several sources
+ */
+export interface NewsEvent {
+  id: string;                 // Stable across runs for the same primary link
+  headline: string;
+  link: string;
+  date?: string;
+  sources: string[];
+  articles: NewsArticle[];    // Every duplicate, primary first
+  signal_type: NewsSignalType | null;   // null when no signal matched
+  confidence: number;         // 0-1
+  scores: Partial<Record<NewsSignalType, number>>;
+  facts: NewsEventFacts;
+}
+
+export interface NewsPipelineResult {
+  events: NewsEvent[];        // Classified events first, then by confidence
+  articleCount: number;
+  duplicatesRemoved: number;
+}
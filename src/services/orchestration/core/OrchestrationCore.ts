@@ -2,6 +2,7 @@ import { CacheService } from '../../core/CacheService';
 import { Logger } from '../../core/Logger';
 import { SerpAPIService } from '../../SerpAPIService';
 import { CacheType } from '../../../types/cache-types';
+import { SOURCE_CACHE_TYPES } from '../../../types/dataset-requirements';
 import { 
   SourceType, 
   OrchestrationConfig, 
@@ -36,6 +37,7 @@ export abstract class OrchestrationCore {
       qualityThreshold: 70,
       costOptimizationEnabled: true,
       redundancyOptimizationEnabled: true,
+      staleWhileRevalidate: true,
       ...config
     };
   }
@@ -83,24 +85,7 @@ export abstract class OrchestrationCore {
    * Get cache type for a specific source
    */
   protected getCacheTypeForSource(source: SourceType): CacheType {
-    const cacheTypeMap: Record<SourceType, CacheType> = {
-      serp_organic: CacheType.SERP_ORGANIC_RAW,
-      serp_news: CacheType.SERP_NEWS_RAW,
-      serp_jobs: CacheType.SERP_JOBS_RAW,
-      serp_linkedin: CacheType.SERP_LINKEDIN_RAW,
-      serp_youtube: CacheType.SERP_YOUTUBE_RAW,
-      serp_api: CacheType.SERP_API_RAW_RESPONSE,
-      bright_data: CacheType.BRIGHTDATA_COMPANY_ENRICHMENT,
-      brightdata: CacheType.BRIGHTDATA_COMPANY_ENRICHMENT,
-      snov_contacts: CacheType.SNOV_CONTACTS_RAW,
-      apollo_contacts: CacheType.APOLLO_CONTACT_ENRICHMENT,
-      apollo: CacheType.APOLLO_CONTACT_ENRICHMENT,
-      zoominfo: CacheType.ZOOMINFO_CONTACT_ENRICHMENT,
-      clearbit: CacheType.CLEARBIT_COMPANY_ENRICHMENT,
-      hunter: CacheType.HUNTER_EMAIL_ENRICHMENT,
-      company_db: CacheType.COMPANY_DATABASE_ENRICHMENT,
-    };
-    return cacheTypeMap[source] || CacheType.UNKNOWN;
+    return SOURCE_CACHE_TYPES[source] || CacheType.UNKNOWN;
   }
 
   /**
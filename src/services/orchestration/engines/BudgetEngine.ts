@@ -0,0 +1,343 @@
+import { CacheService } from '../../core/CacheService';
+import { Logger } from '../../core/Logger';
+import { SerpAPIService } from '../../SerpAPIService';
+import { OrchestrationCore } from '../core/OrchestrationCore';
+import { CacheType } from '../../../types/cache-types';
+import { DATASET_REQUIREMENTS_MAP, DatasetRequirement, SourceOption } from '../../../types/dataset-requirements';
+import {
+  ConsumerType,
+  DatasetType,
+  SourceType,
+  OrchestrationConfig,
+  SpendLimits,
+  SpendLedgerEntry,
+  SpendSummary,
+  DroppedDataset,
+  DEFAULT_CONSUMER_SPEND_LIMITS,
+  DEFAULT_USER_SPEND_LIMITS
+} from '../types/OrchestrationTypes';
+
+export interface BudgetedSourcePlan {
+  toCollect: SourceType[];
+  fromCache: SourceType[];
+  estimatedCost: number;
+  cacheSavings: number;
+  droppedDatasets: DroppedDataset[];
+  datasetSources: Partial<Record<DatasetType, SourceType>>;
+}
+
+const COLLECTION_PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Budget Engine
+ *
+ * Enforces per-request, per-consumer and per-user spend limits:
+ * - Selects one source per dataset within budget, trimming lower priority datasets first
+ * - Persists daily / monthly spend ledgers (by consumer and by user) in the cache table
+ */
+export class BudgetEngine extends OrchestrationCore {
+  private consumerLimits: Record<ConsumerType, SpendLimits>;
+  private userLimits: SpendLimits;
+
+  constructor(
+    cacheService: CacheService,
+    logger: Logger,
+    serpAPIService: SerpAPIService,
+    config?: Partial<OrchestrationConfig>
+  ) {
+    super(cacheService, logger, serpAPIService, config);
+    this.consumerLimits = DEFAULT_CONSUMER_SPEND_LIMITS;
+    this.userLimits = DEFAULT_USER_SPEND_LIMITS;
+  }
+
+  /**
+   * Cap the per-request budget by what is left of the consumer's (and user's) daily/monthly limits
+   */
+  async getEffectiveBudget(
+    consumerType: ConsumerType,
+    requestBudget: number,
+    userId?: string
+  ): Promise<{ effectiveBudget: number; spend: SpendSummary }> {
+    const spend = await this.getSpendSummary(consumerType, userId);
+
+    const remaining = [
+      requestBudget,
+      spend.consumer.limits.daily - spend.consumer.daily,
+      spend.consumer.limits.monthly - spend.consumer.monthly
+    ];
+    if (spend.user) {
+      remaining.push(spend.user.limits.daily - spend.user.daily);
+      remaining.push(spend.user.limits.monthly - spend.user.monthly);
+    }
+
+    const effectiveBudget = Math.max(0, this.roundCost(Math.min(...remaining)));
+
+    if (effectiveBudget < requestBudget) {
+      this.logger.warn('Request budget capped by spend limits', {
+        consumerType,
+        userId,
+        requestBudget,
+        effectiveBudget,
+        consumerDaily: spend.consumer.daily,
+        consumerMonthly: spend.consumer.monthly
+      });
+    }
+
+    return { effectiveBudget, spend };
+  }
+
+  /**
+   * Choose one source per dataset within budget.
+   *
+   * Datasets are funded in order of importance (required, then collection_priority, then
+   * contextual priority). A dataset whose sources are already selected or cached costs nothing.
+   * Otherwise the preferred source (SourceOption.priority) is used if it fits; if not, the
+   * remaining options are tried by best reliability/cost ratio. Datasets that still don't fit
+   * are dropped and reported.
+   *
+   * With allowedSources, only those sources are considered and datasets none of them supply are skipped.
+   */
+  async planWithinBudget(
+    companyName: string,
+    datasets: DatasetType[],
+    budget: number,
+    contextualPriorities: Partial<Record<DatasetType, number>> = {},
+    allowedSources?: SourceType[]
+  ): Promise<BudgetedSourcePlan> {
+    const requirements = datasets
+      .map(dataset => ({ dataset, requirement: this.restrictSources(DATASET_REQUIREMENTS_MAP[dataset], allowedSources) }))
+      .filter((entry): entry is { dataset: DatasetType; requirement: DatasetRequirement } => {
+        if (!entry.requirement) {
+          this.logger.debug('Skipping dataset without requirements definition or allowed sources', { dataset: entry.dataset });
+        }
+        return !!entry.requirement;
+      })
+      .sort((a, b) => this.compareDatasets(a, b, contextualPriorities));
+
+    const cachedSources = await this.findCachedSources(
+      companyName,
+      Array.from(new Set(requirements.flatMap(entry => entry.requirement.sources.map(option => option.source))))
+    );
+
+    const toCollect: SourceType[] = [];
+    const fromCache: SourceType[] = [];
+    const droppedDatasets: DroppedDataset[] = [];
+    const datasetSources: Partial<Record<DatasetType, SourceType>> = {};
+    let estimatedCost = 0;
+    let cacheSavings = 0;
+
+    for (const { dataset, requirement } of requirements) {
+      const options = requirement.sources;
+      if (options.length === 0) {
+        droppedDatasets.push({ dataset, reason: 'no_source_available' });
+        continue;
+      }
+
+      // Already covered by a selected or cached source
+      const covered = options.find(option => toCollect.includes(option.source) || fromCache.includes(option.source));
+      if (covered) {
+        datasetSources[dataset] = covered.source;
+        continue;
+      }
+
+      const cached = options.find(option => cachedSources.has(option.source));
+      if (cached) {
+        fromCache.push(cached.source);
+        cacheSavings += this.getSourceCost(cached.source);
+        datasetSources[dataset] = cached.source;
+        continue;
+      }
+
+      const chosen = this.selectAffordableOption(options, budget - estimatedCost);
+      if (chosen) {
+        toCollect.push(chosen.source);
+        estimatedCost += this.getSourceCost(chosen.source);
+        datasetSources[dataset] = chosen.source;
+        continue;
+      }
+
+      const cheapest = [...options].sort((a, b) => this.getSourceCost(a.source) - this.getSourceCost(b.source))[0];
+      droppedDatasets.push({
+        dataset,
+        reason: 'budget_exceeded',
+        cheapestSource: cheapest.source,
+        cheapestCost: this.getSourceCost(cheapest.source)
+      });
+    }
+
+    if (droppedDatasets.length > 0) {
+      this.logger.warn('Datasets dropped from collection plan', {
+        companyName,
+        budget,
+        estimatedCost: this.roundCost(estimatedCost),
+        dropped: droppedDatasets.map(d => `${d.dataset}:${d.reason}`)
+      });
+    }
+
+    return {
+      toCollect,
+      fromCache,
+      estimatedCost: this.roundCost(estimatedCost),
+      cacheSavings: this.roundCost(cacheSavings),
+      droppedDatasets,
+      datasetSources
+    };
+  }
+
+  /**
+   * Record actual spend against the consumer's and user's daily and monthly ledgers
+   */
+  async recordSpend(consumerType: ConsumerType, amount: number, userId?: string): Promise<void> {
+    if (amount <= 0) return;
+
+    const { day, month } = this.getPeriods();
+
+    try {
+      await Promise.all([
+        this.addToLedger(`spend_ledger:daily:${day}`, day, consumerType, amount, userId),
+        this.addToLedger(`spend_ledger:monthly:${month}`, month, consumerType, amount, userId)
+      ]);
+
+      this.logger.debug('Spend recorded', { consumerType, userId, amount });
+    } catch (error) {
+      // Never fail a collection because the ledger write failed
+      this.logger.warn('Spend ledger update failed', {
+        consumerType,
+        userId,
+        amount,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Current daily/monthly spend for a consumer (and optionally a user)
+   */
+  async getSpendSummary(consumerType: ConsumerType, userId?: string): Promise<SpendSummary> {
+    const { day, month } = this.getPeriods();
+    const [daily, monthly] = await Promise.all([
+      this.getLedger(`spend_ledger:daily:${day}`, day),
+      this.getLedger(`spend_ledger:monthly:${month}`, month)
+    ]);
+
+    const summary: SpendSummary = {
+      consumer: {
+        daily: daily.byConsumer[consumerType] || 0,
+        monthly: monthly.byConsumer[consumerType] || 0,
+        limits: this.consumerLimits[consumerType]
+      }
+    };
+
+    if (userId) {
+      summary.user = {
+        userId,
+        daily: daily.byUser[userId] || 0,
+        monthly: monthly.byUser[userId] || 0,
+        limits: this.userLimits
+      };
+    }
+
+    return summary;
+  }
+
+  private restrictSources(requirement: DatasetRequirement | undefined, allowedSources?: SourceType[]): DatasetRequirement | undefined {
+    if (!requirement || !allowedSources) return requirement;
+
+    const sources = requirement.sources.filter(option => allowedSources.includes(option.source));
+    return sources.length > 0 ? { ...requirement, sources } : undefined;
+  }
+
+  /**
+   * Preferred option if affordable, otherwise best reliability/cost ratio that fits
+   */
+  private selectAffordableOption(options: SourceOption[], remainingBudget: number): SourceOption | null {
+    const byPriority = [...options].sort((a, b) => a.priority - b.priority);
+    const fits = (option: SourceOption) => this.getSourceCost(option.source) <= remainingBudget + 1e-9;
+
+    if (fits(byPriority[0])) {
+      return byPriority[0];
+    }
+
+    const byValue = byPriority
+      .slice(1)
+      .filter(fits)
+      .sort((a, b) => (b.reliability / Math.max(b.cost, 0.001)) - (a.reliability / Math.max(a.cost, 0.001)));
+
+    return byValue[0] || null;
+  }
+
+  private compareDatasets(
+    a: { dataset: DatasetType; requirement: DatasetRequirement },
+    b: { dataset: DatasetType; requirement: DatasetRequirement },
+    contextualPriorities: Partial<Record<DatasetType, number>>
+  ): number {
+    if (a.requirement.required !== b.requirement.required) {
+      return a.requirement.required ? -1 : 1;
+    }
+
+    const rankA = COLLECTION_PRIORITY_RANK[a.requirement.collection_priority || 'medium'];
+    const rankB = COLLECTION_PRIORITY_RANK[b.requirement.collection_priority || 'medium'];
+    if (rankA !== rankB) {
+      return rankA - rankB;
+    }
+
+    return (contextualPriorities[b.dataset] || 0) - (contextualPriorities[a.dataset] || 0);
+  }
+
+  /**
+   * Sources that already have orchestration cache entries for this company (cost nothing to use)
+   */
+  private async findCachedSources(companyName: string, sources: SourceType[]): Promise<Set<SourceType>> {
+    const cached = new Set<SourceType>();
+
+    await Promise.all(
+      sources.map(async (source) => {
+        try {
+          // Same rule as collection: stale entries are served (and refreshed) unless staleWhileRevalidate is off
+          const entry = await this.cacheService.getWithFreshness(this.generateCacheKey(source, companyName));
+          if (entry && (!entry.freshness.stale || this.config.staleWhileRevalidate)) cached.add(source);
+        } catch {
+          // Treat as uncached
+        }
+      })
+    );
+
+    return cached;
+  }
+
+  private async getLedger(key: string, period: string): Promise<SpendLedgerEntry> {
+    const ledger = await this.cacheService.getRawJSON(key);
+    return ledger || { period, totalSpend: 0, byConsumer: {}, byUser: {}, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Read-modify-write; concurrent writers can lose an increment, which is acceptable for budgeting
+   */
+  private async addToLedger(
+    key: string,
+    period: string,
+    consumerType: ConsumerType,
+    amount: number,
+    userId?: string
+  ): Promise<void> {
+    const ledger = await this.getLedger(key, period);
+
+    ledger.totalSpend = this.roundCost(ledger.totalSpend + amount);
+    ledger.byConsumer[consumerType] = this.roundCost((ledger.byConsumer[consumerType] || 0) + amount);
+    if (userId) {
+      ledger.byUser[userId] = this.roundCost((ledger.byUser[userId] || 0) + amount);
+    }
+    ledger.updatedAt = new Date().toISOString();
+
+    await this.cacheService.setRawJSON(key, ledger, CacheType.SPEND_LEDGER);
+  }
+
+  private getPeriods(): { day: string; month: string } {
+    const day = new Date().toISOString().split('T')[0];
+    return { day, month: day.substring(0, 7) };
+  }
+
+  private roundCost(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
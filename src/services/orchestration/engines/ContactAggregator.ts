@@ -0,0 +1,257 @@
+import { Logger } from '../../core/Logger';
+import {
+  AggregatedContact,
+  AggregatedContactList,
+  ContactField,
+  ContactSourceType
+} from '../../../types/orchestrator-types';
+
+/**
+ * Contact Aggregator
+ *
+ * Merges contacts from every contact source (Snov, Apollo, Hunter) into one list:
+ * - Deduplicates by normalized email, falling back to normalized name + title
+ * - Reconciles confidence with the same scoring SnovService uses, plus a corroboration bonus
+ * - Records which source supplied each field
+ */
+
+// Source order doubles as tie-breaker when two sources have equal confidence
+const CONTACT_SOURCES: ContactSourceType[] = ['snov_contacts', 'apollo_contacts', 'apollo', 'hunter'];
+
+const CORROBORATION_BONUS = 0.05; // Per additional source returning the same person
+
+interface SourceContact {
+  source: ContactSourceType;
+  email?: string;
+  firstName: string;
+  lastName: string;
+  position: string;
+  department?: string;
+  linkedin?: string;
+  verified: boolean;
+  confidence: number;
+}
+
+export class ContactAggregator {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Merge contacts from all contact sources present in collected data (keyed by SourceType)
+   */
+  aggregate(collected: Record<string, any>): AggregatedContactList {
+    const sourceContacts: SourceContact[] = [];
+    const sourceCounts: Partial<Record<ContactSourceType, number>> = {};
+
+    for (const source of CONTACT_SOURCES) {
+      const contacts = this.extractContacts(source, collected[source]);
+      if (contacts.length > 0) {
+        sourceCounts[source] = contacts.length;
+        sourceContacts.push(...contacts);
+      }
+    }
+
+    const merged: AggregatedContact[] = [];
+    const index = new Map<string, AggregatedContact>();
+
+    for (const contact of sourceContacts) {
+      const keys = this.getDedupKeys(contact);
+      const existing = keys.map(key => index.get(key)).find(Boolean);
+
+      const target = existing ? this.mergeContact(existing, contact) : this.toAggregated(contact);
+      if (!existing) {
+        merged.push(target);
+      }
+
+      // Index under every key so a later email-only or name-only match still lands here
+      for (const key of this.getDedupKeys(target)) {
+        index.set(key, target);
+      }
+    }
+
+    merged.forEach(contact => {
+      contact.confidence = this.reconcileConfidence(contact);
+    });
+
+    // Verified first, then higher confidence (same ordering as SnovService.filterContacts)
+    merged.sort((a, b) => {
+      if (a.verified !== b.verified) {
+        return a.verified ? -1 : 1;
+      }
+      return b.confidence - a.confidence;
+    });
+
+    const result: AggregatedContactList = {
+      contacts: merged,
+      total: merged.length,
+      duplicatesRemoved: sourceContacts.length - merged.length,
+      sourceCounts,
+      timestamp: new Date().toISOString()
+    };
+
+    if (sourceContacts.length > 0) {
+      this.logger.info('Contacts aggregated', {
+        sourceCounts,
+        total: result.total,
+        duplicatesRemoved: result.duplicatesRemoved
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Pull contacts out of a collected source payload.
+   * Handles both fresh API results and cache entries wrapped as { data, source, ... },
+   * and Hunter's native `emails` shape.
+   */
+  private extractContacts(source: ContactSourceType, payload: any): SourceContact[] {
+    if (!payload) return [];
+
+    const body = payload.contacts || payload.emails ? payload : payload.data;
+    if (!body) return [];
+
+    if (Array.isArray(body.contacts)) {
+      return body.contacts
+        .filter((contact: any) => contact && (contact.email || contact.firstName || contact.lastName))
+        .map((contact: any) => ({
+          source,
+          email: contact.email || undefined,
+          firstName: contact.firstName || '',
+          lastName: contact.lastName || '',
+          position: contact.position || '',
+          department: contact.department || undefined,
+          linkedin: contact.linkedin || undefined,
+          verified: contact.verified === true,
+          confidence: typeof contact.confidence === 'number' ? contact.confidence : 0.5
+        }));
+    }
+
+    if (Array.isArray(body.emails)) {
+      // Hunter domain-search format
+      return body.emails
+        .filter((email: any) => email?.value)
+        .map((email: any) => ({
+          source,
+          email: email.value,
+          firstName: email.first_name || '',
+          lastName: email.last_name || '',
+          position: email.position || '',
+          department: email.department || undefined,
+          linkedin: email.linkedin || undefined,
+          verified: email.verification?.status === 'valid',
+          confidence: typeof email.confidence === 'number' ? email.confidence / 100 : 0.5
+        }));
+    }
+
+    return [];
+  }
+
+  private toAggregated(contact: SourceContact): AggregatedContact {
+    const provenance: Partial<Record<ContactField, ContactSourceType>> = {};
+    const fields: ContactField[] = ['email', 'firstName', 'lastName', 'position', 'department', 'linkedin'];
+    fields.forEach(field => {
+      if (contact[field]) provenance[field] = contact.source;
+    });
+    provenance.verified = contact.source;
+
+    return {
+      email: contact.email,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      position: contact.position,
+      department: contact.department,
+      linkedin: contact.linkedin,
+      verified: contact.verified,
+      confidence: contact.confidence,
+      sources: [contact.source],
+      provenance
+    };
+  }
+
+  /**
+   * Merge a source contact into an existing aggregated contact.
+   * Empty fields are filled from the new source; populated fields are only
+   * replaced when the new source is more confident.
+   */
+  private mergeContact(target: AggregatedContact, contact: SourceContact): AggregatedContact {
+    const preferIncoming = contact.confidence > target.confidence;
+    const fields: Array<Exclude<ContactField, 'verified'>> = ['email', 'firstName', 'lastName', 'position', 'department', 'linkedin'];
+
+    for (const field of fields) {
+      const incoming = contact[field];
+      if (!incoming) continue;
+
+      if (!target[field] || (preferIncoming && target[field] !== incoming)) {
+        (target as any)[field] = incoming;
+        target.provenance[field] = contact.source;
+      }
+    }
+
+    // Any source verifying the email is enough
+    if (contact.verified && !target.verified) {
+      target.verified = true;
+      target.provenance.verified = contact.source;
+    }
+
+    if (!target.sources.includes(contact.source)) {
+      target.sources.push(contact.source);
+    }
+
+    target.confidence = Math.max(target.confidence, contact.confidence);
+    return target;
+  }
+
+  /**
+   * SnovService.calculateConfidence-style score on the merged fields,
+   * never below the best single-source score, boosted when sources agree
+   */
+  private reconcileConfidence(contact: AggregatedContact): number {
+    let confidence = 0.5; // Base confidence
+
+    if (contact.verified) confidence += 0.3;
+    if (contact.firstName && contact.lastName) confidence += 0.1;
+    if (contact.position) confidence += 0.1;
+    if (contact.linkedin) confidence += 0.1;
+
+    const best = Math.max(Math.min(confidence, 1.0), contact.confidence);
+    const corroboration = (contact.sources.length - 1) * CORROBORATION_BONUS;
+
+    return Math.round(Math.min(best + corroboration, 1.0) * 100) / 100;
+  }
+
+  /**
+   * Dedup keys: normalized email and normalized name + title
+   */
+  private getDedupKeys(contact: { email?: string; firstName: string; lastName: string; position: string }): string[] {
+    const keys: string[] = [];
+
+    const email = this.normalizeEmail(contact.email);
+    if (email) keys.push(`email:${email}`);
+
+    const name = this.normalizeText(`${contact.firstName} ${contact.lastName}`);
+    const title = this.normalizeText(contact.position);
+    if (name && title) keys.push(`name:${name}|${title}`);
+
+    return keys;
+  }
+
+  private normalizeEmail(email?: string): string {
+    if (!email) return '';
+    const [local, domain] = email.trim().toLowerCase().split('@');
+    if (!local || !domain) return '';
+    // Drop +tags so jane+sales@ and jane@ collapse
+    return `${local.split('+')[0]}@${domain}`;
+  }
+
+  private normalizeText(value: string): string {
+    return (value || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -1,7 +1,13 @@
+import { LambdaClient, InvokeCommand } from '@aws-sdk/client-lambda';
 import { CacheService } from '../../core/CacheService';
 import { Logger } from '../../core/Logger';
 import { SerpAPIService } from '../../SerpAPIService';
 import { SnovService } from '../../SnovService';
+import { BrightDataService } from '../../BrightDataService';
+import { ApolloService } from '../../ApolloService';
+import { CostLedgerService } from '../../CostLedgerService';
+import { SingleFlight, SingleFlightResult } from '../../core/cache/SingleFlight';
+import { ContactAggregator } from './ContactAggregator';
 import { OrchestrationCore } from '../core/OrchestrationCore';
 import { 
   DataCollectionPlan,
@@ -9,11 +15,19 @@ import {
   CollectionResult,
   CollectionSummary,
   SourceType,
-  OrchestrationConfig
+  SourceFreshness,
+  OrchestrationConfig,
+  CacheRefreshEvent
 } from '../types/OrchestrationTypes';
+import { BrightDataResponse, ConsumerType } from '../../../types/orchestrator-types';
 
 export class DataCollectionEngine extends OrchestrationCore {
   private snovService: SnovService;
+  private brightDataService: BrightDataService;
+  private apolloService: ApolloService;
+  private contactAggregator: ContactAggregator;
+  private costLedger: CostLedgerService;
+  private singleFlight: SingleFlight;
 
   constructor(
     cacheService: CacheService,
@@ -23,6 +37,11 @@ export class DataCollectionEngine extends OrchestrationCore {
   ) {
     super(cacheService, logger, serpAPIService, config);
     this.snovService = new SnovService(cacheService, logger);
+    this.brightDataService = new BrightDataService(cacheService, logger);
+    this.apolloService = new ApolloService(cacheService, logger);
+    this.contactAggregator = new ContactAggregator(logger);
+    this.costLedger = new CostLedgerService(cacheService, logger);
+    this.singleFlight = new SingleFlight(cacheService, logger, { scope: 'data_collection' });
   }
 
   /**
@@ -37,24 +56,36 @@ export class DataCollectionEngine extends OrchestrationCore {
 
     const startTime = Date.now();
     const results: CollectionResult[] = [];
+    // Sources the planner expects in cache still go through the cache-first path below
+    const planSources: SourceType[] = Array.from(new Set([...plan.toCollect, ...(plan.fromCache || [])]));
 
     try {
       // Collect from cache first
-      const cacheResults = await this.collectFromCache(plan.companyName, plan.toCollect);
+      const { results: cacheResults, freshness } = await this.collectFromCache(plan.companyName, planSources);
+
+      // Stale sources are answered from cache now and refreshed for the next caller
+      const staleSources = planSources.filter(source => freshness[source]?.stale);
+      if (staleSources.length > 0 && await this.scheduleRefresh(plan.companyName, staleSources)) {
+        staleSources.forEach(source => { freshness[source]!.refreshing = true; });
+      }
       
       // Determine which sources need API calls
-      const uncachedSources = plan.toCollect.filter((source: SourceType) => !(cacheResults as any)[source]);
+      const uncachedSources = planSources.filter((source: SourceType) => !(cacheResults as any)[source]);
+      // Uncached sources answered by another caller's fetch - no API call of our own
+      let coalescedSources: SourceType[] = [];
       
       // Execute API calls for uncached sources
       if (uncachedSources.length > 0) {
-        const apiResults = await this.collectFromAPIs(plan.companyName, uncachedSources);
+        const apiResults = await this.collectFromAPIs(plan.companyName, uncachedSources, plan.requester);
+        coalescedSources = apiResults.coalesced;
         
         // Merge cache and API results
-        Object.assign(cacheResults, apiResults);
+        Object.assign(cacheResults, apiResults.results);
       }
+      const fetchedSources = uncachedSources.filter(source => !coalescedSources.includes(source));
 
       // Convert to collection results format
-      for (const source of plan.toCollect) {
+      for (const source of planSources) {
         const data = (cacheResults as any)[source];
         results.push({
           source,
@@ -62,11 +93,45 @@ export class DataCollectionEngine extends OrchestrationCore {
           success: !!data,
           duration: 0, // Would be tracked per source
           cost: this.getSourceCost(source),
-          cached: !!(cacheResults as any)[source] && !uncachedSources.includes(source),
+          cached: !!(cacheResults as any)[source] && !fetchedSources.includes(source),
         });
       }
 
+      if (Object.keys(freshness).length > 0) {
+        (cacheResults as MultiSourceData).freshness = freshness;
+      }
+
+      // Merge contact sources into one deduplicated list for downstream analysis
+      const contacts = this.contactAggregator.aggregate(cacheResults as Record<string, any>);
+      if (contacts.total > 0) {
+        (cacheResults as MultiSourceData).contacts = contacts;
+      }
+
       const summary = this.calculateCollectionSummary(results, Date.now() - startTime);
+
+      // Actual spend: every API call we made is billed whether or not it returned data; coalesced
+      // fetches were paid for by the caller that led them
+      const cachedSources = planSources.filter(source => !fetchedSources.includes(source));
+      Object.assign(cacheResults, {
+        totalNewCost: fetchedSources.reduce((sum, source) => sum + this.getSourceCost(source), 0),
+        totalCacheSavings: cachedSources.reduce((sum, source) => sum + this.getSourceCost(source), 0),
+        cacheHits: cachedSources.length,
+        newApiCalls: fetchedSources.length,
+        collectionDuration: summary.totalDuration,
+      });
+
+      await this.costLedger.recordBatch(planSources.map(source => {
+        const cached = cachedSources.includes(source);
+        return {
+          source,
+          consumer: plan.requester,
+          userId: plan.userId,
+          company: plan.companyName,
+          cost: cached ? 0 : this.getSourceCost(source),
+          savings: cached ? this.getSourceCost(source) : 0,
+          cached
+        };
+      }));
       
       this.logger.info('Parallel data collection completed', {
         companyName: plan.companyName,
@@ -86,21 +151,27 @@ export class DataCollectionEngine extends OrchestrationCore {
   }
 
   /**
-   * Collect data from cache for specified sources
+   * Collect data from cache for specified sources, with how current each one is. Stale entries count as
+   * hits unless staleWhileRevalidate is off.
    */
-  private async collectFromCache(companyName: string, sources: SourceType[]): Promise<Partial<MultiSourceData>> {
+  private async collectFromCache(
+    companyName: string,
+    sources: SourceType[]
+  ): Promise<{ results: Partial<MultiSourceData>; freshness: Partial<Record<SourceType, SourceFreshness>> }> {
     const results: Partial<MultiSourceData> = {};
+    const freshness: Partial<Record<SourceType, SourceFreshness>> = {};
 
     await Promise.all(
       sources.map(async (source) => {
         try {
           const cacheKey = this.generateCacheKey(source, companyName);
-          const cached = await this.cacheService.get(cacheKey);
+          const cached = await this.cacheService.getWithFreshness(cacheKey);
 
-          if (cached) {
+          if (cached && (!cached.freshness.stale || this.config.staleWhileRevalidate)) {
             // Store cached result
-            (results as any)[source] = cached;
-            this.logger.debug('Cache hit', { source, companyName });
+            (results as any)[source] = cached.data;
+            freshness[source] = { ...cached.freshness, refreshing: false };
+            this.logger.debug(cached.freshness.stale ? 'Cache hit (stale)' : 'Cache hit', { source, companyName });
           }
         } catch (error) {
           this.logger.warn('Cache read failed', { 
@@ -112,32 +183,95 @@ export class DataCollectionEngine extends OrchestrationCore {
       })
     );
 
-    return results;
+    return { results, freshness };
   }
 
   /**
-   * Collect data from APIs for specified sources
+   * Re-collect sources and overwrite their cache entries (a refresh already running elsewhere is joined)
+   */
+  async refreshSources(companyName: string, sources: SourceType[]): Promise<{ refreshed: SourceType[]; failed: SourceType[] }> {
+    const settled = await Promise.allSettled(
+      sources.map(source => this.collectFromSingleAPI(companyName, source))
+    );
+
+    const refreshed: SourceType[] = [];
+    const failed: SourceType[] = [];
+    settled.forEach((result, index) => {
+      (result.status === 'fulfilled' && result.value.result ? refreshed : failed).push(sources[index]);
+    });
+
+    this.logger.info('Stale sources refreshed', { companyName, refreshed, failed });
+    return { refreshed, failed };
+  }
+
+  /**
+   * Start refreshing stale sources without holding up the response: an async invoke of the cache refresh
+   * function when one is deployed (CACHE_REFRESH_FUNCTION_NAME), otherwise in this process. False when the
+   * refresh couldn't be started.
+   */
+  private async scheduleRefresh(companyName: string, sources: SourceType[]): Promise<boolean> {
+    const functionName = process.env.CACHE_REFRESH_FUNCTION_NAME;
+
+    try {
+      if (functionName) {
+        const payload: CacheRefreshEvent = { companyName, sources };
+        const lambdaClient = new LambdaClient({ region: process.env.AWS_REGION });
+
+        await lambdaClient.send(new InvokeCommand({
+          FunctionName: functionName,
+          InvocationType: 'Event', // Asynchronous
+          Payload: JSON.stringify(payload),
+        }));
+      } else {
+        // No refresh function (local development): best effort, may be cut short when the invocation ends
+        this.refreshSources(companyName, sources).catch(error => {
+          this.logger.warn('Background refresh failed', {
+            companyName,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+
+      this.logger.info('Background refresh scheduled', { companyName, sources, viaFunction: !!functionName });
+      return true;
+    } catch (error) {
+      this.logger.warn('Failed to schedule background refresh', {
+        companyName,
+        sources,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Collect data from APIs for specified sources, with the ones answered by another caller's fetch
    */
   private async collectFromAPIs(
     companyName: string,
-    sources: SourceType[]
-  ): Promise<Partial<MultiSourceData>> {
+    sources: SourceType[],
+    consumer?: ConsumerType
+  ): Promise<{ results: Partial<MultiSourceData>; coalesced: SourceType[] }> {
     const results: Partial<MultiSourceData> = {};
+    const coalesced: SourceType[] = [];
 
     // Execute API calls with limited parallelism
     const chunks = this.chunkArray(sources, this.config.maxParallelSources || 3);
     
     for (const chunk of chunks) {
       const chunkPromises = chunk.map(source => 
-        this.collectFromSingleAPI(companyName, source)
+        this.collectFromSingleAPI(companyName, source, consumer)
       );
 
       const chunkResults = await Promise.allSettled(chunkPromises);
       
       chunkResults.forEach((result, index) => {
         const source = chunk[index];
-        if (result.status === 'fulfilled' && result.value) {
-          (results as any)[source] = result.value;
+        if (result.status === 'fulfilled' && !result.value.led) {
+          coalesced.push(source);
+        }
+        if (result.status === 'fulfilled' && result.value.result) {
+          (results as any)[source] = result.value.result;
         } else {
           this.logger.warn('API collection failed', { 
             source, 
@@ -153,13 +287,27 @@ export class DataCollectionEngine extends OrchestrationCore {
       }
     }
 
-    return results;
+    return { results, coalesced };
   }
 
   /**
-   * Collect data from a single API source
+   * Collect data from a single API source. Concurrent requests for the same company and source
+   * (from any container) share one API call and reuse its cached result; led is false for those.
    */
-  private async collectFromSingleAPI(companyName: string, source: SourceType): Promise<any> {
+  private async collectFromSingleAPI(companyName: string, source: SourceType, consumer?: ConsumerType): Promise<SingleFlightResult<any>> {
+    const cacheKey = this.generateCacheKey(source, companyName);
+
+    return this.singleFlight.runWithOutcome(
+      cacheKey,
+      async () => (await this.cacheService.getRawJSON(cacheKey))?.data ?? null,
+      () => this.fetchFromSingleAPI(companyName, source, consumer)
+    );
+  }
+
+  /**
+   * Call a single API source and cache what it returns
+   */
+  private async fetchFromSingleAPI(companyName: string, source: SourceType, consumer?: ConsumerType): Promise<any> {
     return this.withRetry(async () => {
       let data: any = null;
 
@@ -180,6 +328,7 @@ export class DataCollectionEngine extends OrchestrationCore {
         case 'serp_youtube':
           data = await this.serpAPIService.getYouTubeResults(companyName);
           break;
+        case 'brightdata':
         case 'bright_data':
           data = await this.collectBrightData(companyName);
           break;
@@ -208,7 +357,7 @@ export class DataCollectionEngine extends OrchestrationCore {
 
       // Cache the result if data was collected
       if (data) {
-        await this.cacheAPIResult(companyName, source, data);
+        await this.cacheAPIResult(companyName, source, data, consumer);
       }
 
       return data;
@@ -216,9 +365,9 @@ export class DataCollectionEngine extends OrchestrationCore {
   }
 
   /**
-   * Cache API result for future use
+   * Cache API result for future use, with a TTL that follows the requesting consumer's freshness needs
    */
-  private async cacheAPIResult(companyName: string, source: SourceType, data: any): Promise<void> {
+  private async cacheAPIResult(companyName: string, source: SourceType, data: any, consumer?: ConsumerType): Promise<void> {
     try {
       const cacheKey = this.generateCacheKey(source, companyName);
       const cacheType = this.getCacheTypeForSource(source);
@@ -229,7 +378,7 @@ export class DataCollectionEngine extends OrchestrationCore {
         companyName,
         timestamp: new Date().toISOString(),
         collectedBy: 'DataCollectionEngine',
-      }, cacheType);
+      }, cacheType, consumer);
 
       this.logger.debug('API result cached', { source, companyName, cacheKey });
     } catch (error) {
@@ -289,17 +438,72 @@ export class DataCollectionEngine extends OrchestrationCore {
     return chunks;
   }
 
-  // Placeholder methods for different data sources
-  private async collectBrightData(companyName: string): Promise<any> {
-    // Placeholder - would implement BrightData API integration
-    this.logger.debug('Collecting BrightData (placeholder)', { companyName });
-    return null;
+  private async collectBrightData(companyName: string): Promise<BrightDataResponse | null> {
+    this.logger.debug('Collecting BrightData company profile', { companyName });
+
+    // BrightDataService handles its own errors and returns an empty result on failure
+    const result = await this.brightDataService.getCompanyProfile(companyName, undefined, {
+      maxEmployees: 50
+    });
+
+    if (!result.company_profile) {
+      this.logger.warn('BrightData returned no company profile', {
+        companyName,
+        error: result.error
+      });
+      return null;
+    }
+
+    this.logger.info('BrightData company profile collected', {
+      companyName,
+      industry: result.company_profile.industry,
+      employeeCount: result.employee_data?.length || 0
+    });
+
+    return result;
   }
 
+  // Placeholder methods for different data sources
+
   private async collectApolloData(companyName: string): Promise<any> {
-    // Placeholder - would implement Apollo API integration
-    this.logger.debug('Collecting Apollo data (placeholder)', { companyName });
-    return null;
+    try {
+      this.logger.debug('Collecting Apollo contact data', { companyName });
+
+      // Same decision-maker filters as Snov so both vendors return comparable contacts
+      const result = await this.apolloService.getCompanyContacts(companyName, undefined, {
+        maxContacts: 25,
+        departments: ['sales', 'marketing', 'business development', 'executive'],
+        seniority: ['director', 'manager', 'vp', 'chief', 'head', 'lead']
+      });
+
+      this.logger.info('Apollo contact data collected', {
+        companyName,
+        contactCount: result.contacts.length,
+        verifiedCount: result.contacts.filter(c => c.verified).length
+      });
+
+      return {
+        source: 'apollo_api',
+        domain: result.domain,
+        contacts: result.contacts,
+        total: result.total,
+        timestamp: new Date().toISOString()
+      };
+
+    } catch (error) {
+      this.logger.error('Apollo contact collection failed', {
+        companyName,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return {
+        source: 'apollo_api',
+        contacts: [],
+        total: 0,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      };
+    }
   }
 
   private async collectSnovData(companyName: string): Promise<any> {
@@ -8,6 +8,7 @@ import {
   MultiSourceData, 
   CollectionMetrics, 
   SourceType, 
+  SourceFreshness,
   ConsumerType
 } from '../../../types/orchestrator-types';
 
@@ -32,6 +33,7 @@ export {
   MultiSourceData,
   CollectionMetrics,
   SourceType,
+  SourceFreshness,
   DatasetType,
   ConsumerType
 };
@@ -43,6 +45,7 @@ export interface ContextAwareCollectionPlan extends DataCollectionPlan {
   vendorContext?: VendorContext;
   customerSpecificDatasets?: DatasetType[];
   contextualPriorities?: Partial<Record<DatasetType, number>>;
+  budget?: BudgetReport;
 }
 
 /**
@@ -66,6 +69,7 @@ export interface CustomerIntelligenceRequest {
   maxCost?: number;
   urgency?: 'low' | 'medium' | 'high';
   requiredDatasets?: DatasetType[];
+  userId?: string;                // Spend is charged to this user's ledger as well
 }
 
 /**
@@ -78,6 +82,7 @@ export interface CustomerIntelligenceResponse {
   vendorContext: VendorContext;
   qualityScore: number;
   recommendations: string[];
+  budget?: BudgetReport;
 }
 
 /**
@@ -93,6 +98,7 @@ export interface OrchestrationConfig {
   qualityThreshold?: number;
   costOptimizationEnabled?: boolean;
   redundancyOptimizationEnabled?: boolean;
+  staleWhileRevalidate?: boolean;   // Serve stale cached sources and refresh them in the background
 }
 
 /**
@@ -227,6 +233,56 @@ export interface PlanningResult {
   alternatives: DataCollectionPlan[];
 }
 
+// Budget enforcement types
+export interface SpendLimits {
+  daily: number;
+  monthly: number;
+}
+
+/**
+ * Daily / monthly spend caps per consumer type (USD)
+ */
+export const DEFAULT_CONSUMER_SPEND_LIMITS: Record<ConsumerType, SpendLimits> = {
+  profile: { daily: 20, monthly: 300 },
+  vendor_context: { daily: 50, monthly: 750 },
+  customer_intelligence: { daily: 100, monthly: 1500 },
+  test: { daily: 5, monthly: 50 }
+};
+
+/**
+ * Daily / monthly spend caps per individual user (USD)
+ */
+export const DEFAULT_USER_SPEND_LIMITS: SpendLimits = { daily: 25, monthly: 400 };
+
+export interface DroppedDataset {
+  dataset: DatasetType;
+  reason: 'budget_exceeded' | 'no_source_available';
+  cheapestSource?: SourceType;
+  cheapestCost?: number;
+}
+
+export interface SpendLedgerEntry {
+  period: string;                               // YYYY-MM-DD or YYYY-MM
+  totalSpend: number;
+  byConsumer: Partial<Record<ConsumerType, number>>;
+  byUser: Record<string, number>;
+  updatedAt: string;
+}
+
+export interface SpendSummary {
+  consumer: { daily: number; monthly: number; limits: SpendLimits };
+  user?: { userId: string; daily: number; monthly: number; limits: SpendLimits };
+}
+
+export interface BudgetReport {
+  requestBudget: number;          // Per-request budget for the consumer type (or request maxCost)
+  effectiveBudget: number;        // Request budget capped by remaining daily/monthly spend
+  estimatedCost: number;
+  droppedDatasets: DroppedDataset[];
+  datasetSources: Partial<Record<DatasetType, SourceType>>;
+  spend: SpendSummary;
+}
+
 // Context analysis types
 export interface ContextAnalysisRequest {
   vendorCompany: string;
@@ -301,4 +357,12 @@ export interface SourceAvailability {
   errorMessage?: string;
   lastChecked?: string;
   errorRate?: number;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Async payload for the cache refresh function: re-collect stale sources for a company
+ */
+export interface CacheRefreshEvent {
+  companyName: string;
+  sources: SourceType[];
+}
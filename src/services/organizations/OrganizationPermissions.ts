@@ -0,0 +1,31 @@
+import { OrgPermission, OrgRole } from './types/OrganizationTypes';
+
+export const ORG_ROLES: OrgRole[] = ['admin', 'manager', 'rep'];
+
+/**
+ * Admins run the org; managers curate the research library and see spend; reps research and take notes
+ */
+export const ROLE_PERMISSIONS: Record<OrgRole, OrgPermission[]> = {
+  admin: [
+    'org:manage',
+    'members:manage',
+    'members:view',
+    'vendor_context:manage',
+    'research:share',
+    'research:delete',
+    'notes:write',
+    'costs:view'
+  ],
+  manager: ['members:view', 'research:share', 'research:delete', 'notes:write', 'costs:view'],
+  rep: ['members:view', 'research:share', 'notes:write']
+};
+
+export class OrganizationPermissions {
+  static can(role: OrgRole | undefined, permission: OrgPermission): boolean {
+    return !!role && ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  static isRole(value: unknown): value is OrgRole {
+    return typeof value === 'string' && ORG_ROLES.includes(value as OrgRole);
+  }
+}
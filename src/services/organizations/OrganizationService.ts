@@ -0,0 +1,211 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  DeleteCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import { Organization, OrgMember, OrgRole } from './types/OrganizationTypes';
+
+// Record keys within an org's partition (the research library shares the table, see SharedResearchService)
+const ORG_RECORD = 'ORG';
+const MEMBER_PREFIX = 'MEMBER#';
+
+/**
+ * Organization Service
+ *
+ * Organizations and their members in the organizations table (orgId + recordKey).
+ * Member records carry memberUserId so the UserIndex GSI can find a user's orgs.
+ */
+export class OrganizationService {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+    this.tableName = process.env.ORGANIZATIONS_TABLE_NAME || 'sales-intelligence-organizations';
+  }
+
+  /**
+   * Create an org; the creator is its first admin
+   */
+  async createOrganization(name: string, createdBy: string, vendorCompany?: string): Promise<{ organization: Organization; member: OrgMember }> {
+    const now = new Date().toISOString();
+    const organization: Organization = {
+      orgId: this.generateOrgId(),
+      name,
+      vendorCompany,
+      createdBy,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { ...organization, recordKey: ORG_RECORD },
+      ConditionExpression: 'attribute_not_exists(orgId)',
+    }));
+
+    const member = await this.setMember(organization.orgId, createdBy, 'admin', createdBy);
+    return { organization, member };
+  }
+
+  async getOrganization(orgId: string): Promise<Organization | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: ORG_RECORD },
+    }));
+
+    return result.Item ? this.stripKeys<Organization>(result.Item) : null;
+  }
+
+  async updateOrganization(orgId: string, changes: { name?: string; vendorCompany?: string }): Promise<Organization> {
+    const assignments = ['updatedAt = :updatedAt'];
+    const values: Record<string, any> = { ':updatedAt': new Date().toISOString() };
+
+    if (changes.name !== undefined) {
+      assignments.push('#name = :name');
+      values[':name'] = changes.name;
+    }
+    if (changes.vendorCompany !== undefined) {
+      assignments.push('vendorCompany = :vendorCompany');
+      values[':vendorCompany'] = changes.vendorCompany;
+    }
+
+    const result = await this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: ORG_RECORD },
+      ConditionExpression: 'attribute_exists(orgId)',
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      ExpressionAttributeNames: changes.name !== undefined ? { '#name': 'name' } : undefined,
+      ExpressionAttributeValues: values,
+      ReturnValues: 'ALL_NEW',
+    }));
+
+    return this.stripKeys<Organization>(result.Attributes!);
+  }
+
+  /**
+   * Delete the org with its members, shared research and notes
+   */
+  async deleteOrganization(orgId: string): Promise<{ message: string; deletedCount: number }> {
+    const records = await this.queryPartition(orgId);
+
+    await Promise.all(records.map(record =>
+      this.client.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { orgId, recordKey: record.recordKey },
+      }))
+    ));
+
+    return { message: `Organization ${orgId} deleted successfully`, deletedCount: records.length };
+  }
+
+  async getMember(orgId: string, userId: string): Promise<OrgMember | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: `${MEMBER_PREFIX}${userId}` },
+    }));
+
+    return result.Item ? this.stripKeys<OrgMember>(result.Item) : null;
+  }
+
+  async listMembers(orgId: string): Promise<OrgMember[]> {
+    const records = await this.queryPartition(orgId, MEMBER_PREFIX);
+    return records.map(record => this.stripKeys<OrgMember>(record));
+  }
+
+  /**
+   * Add a member or change their role (joinedAt is kept for existing members)
+   */
+  async setMember(orgId: string, userId: string, role: OrgRole, addedBy: string): Promise<OrgMember> {
+    const existing = await this.getMember(orgId, userId);
+    const now = new Date().toISOString();
+    const member: OrgMember = {
+      orgId,
+      userId,
+      role,
+      addedBy: existing?.addedBy || addedBy,
+      joinedAt: existing?.joinedAt || now,
+      updatedAt: now
+    };
+
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { ...member, recordKey: `${MEMBER_PREFIX}${userId}`, memberUserId: userId },
+    }));
+
+    return member;
+  }
+
+  async removeMember(orgId: string, userId: string): Promise<{ message: string }> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: `${MEMBER_PREFIX}${userId}` },
+    }));
+
+    return { message: `${userId} removed from organization` };
+  }
+
+  /**
+   * Orgs the user belongs to, with their role in each
+   */
+  async getUserOrganizations(userId: string): Promise<Array<{ organization: Organization; role: OrgRole }>> {
+    const result = await this.client.send(new QueryCommand({
+      TableName: this.tableName,
+      IndexName: 'UserIndex',
+      KeyConditionExpression: 'memberUserId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+    }));
+
+    const memberships = (result.Items || []).map(item => this.stripKeys<OrgMember>(item));
+    const organizations = await Promise.all(memberships.map(member => this.getOrganization(member.orgId)));
+
+    return memberships
+      .map((member, index) => ({ organization: organizations[index], role: member.role }))
+      .filter((entry): entry is { organization: Organization; role: OrgRole } => !!entry.organization);
+  }
+
+  /**
+   * Vendor for a user's research when the request doesn't name one: the vendor of their first org that has one
+   */
+  async getDefaultVendorCompany(userId: string): Promise<string | undefined> {
+    const organizations = await this.getUserOrganizations(userId);
+    return organizations.find(entry => entry.organization.vendorCompany)?.organization.vendorCompany;
+  }
+
+  private async queryPartition(orgId: string, prefix?: string): Promise<Array<Record<string, any>>> {
+    const items: Array<Record<string, any>> = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: prefix ? 'orgId = :orgId AND begins_with(recordKey, :prefix)' : 'orgId = :orgId',
+        ExpressionAttributeValues: prefix ? { ':orgId': orgId, ':prefix': prefix } : { ':orgId': orgId },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      items.push(...(result.Items || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  private stripKeys<T>(item: Record<string, any>): T {
+    const { recordKey, memberUserId, ...rest } = item;
+    return rest as T;
+  }
+
+  private generateOrgId(): string {
+    const timestamp = Date.now().toString(36);
+    const randomPart = Math.random().toString(36).substr(2, 9);
+    return `org_${timestamp}_${randomPart}`;
+  }
+}
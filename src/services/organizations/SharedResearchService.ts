@@ -0,0 +1,187 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  DeleteCommand
+} from '@aws-sdk/lib-dynamodb';
+import { CompanyResearch } from '../ResearchHistoryService';
+import { ResearchNote, SharedResearch, SharedResearchSummary } from './types/OrganizationTypes';
+
+const RESEARCH_PREFIX = 'RESEARCH#';
+const NOTE_PREFIX = 'NOTE#';
+
+/**
+ * Shared Research Service
+ *
+ * The org's research library, stored in the organizations table next to the org's members:
+ * one entry per prospect (RESEARCH#{company}) plus each member's private note on it
+ * (NOTE#{company}#{userId}). Company keys are lowercased so "Acme" and "acme" share an entry.
+ */
+export class SharedResearchService {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+    this.tableName = process.env.ORGANIZATIONS_TABLE_NAME || 'sales-intelligence-organizations';
+  }
+
+  /**
+   * Share (or update) research on a company; messages and completed areas replace the previous copy
+   */
+  async shareResearch(
+    orgId: string,
+    company: string,
+    userId: string,
+    data: Pick<CompanyResearch, 'messages' | 'completedResearch'>
+  ): Promise<SharedResearch> {
+    const existing = await this.getResearch(orgId, company);
+    const now = new Date().toISOString();
+
+    const research: SharedResearch = {
+      orgId,
+      company: existing?.company || company,
+      messages: data.messages || [],
+      completedResearch: data.completedResearch || [],
+      sharedBy: userId,
+      contributors: Array.from(new Set([...(existing?.contributors || []), userId])),
+      sharedAt: existing?.sharedAt || now,
+      lastUpdated: now
+    };
+
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { ...research, recordKey: this.researchKey(company) },
+    }));
+
+    return research;
+  }
+
+  async getResearch(orgId: string, company: string): Promise<SharedResearch | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: this.researchKey(company) },
+    }));
+
+    return result.Item ? this.stripKeys<SharedResearch>(result.Item) : null;
+  }
+
+  /**
+   * Library contents, most recently updated first
+   */
+  async listResearch(orgId: string): Promise<{ companies: SharedResearchSummary[] }> {
+    const [entries, notes] = await Promise.all([
+      this.queryPrefix(orgId, RESEARCH_PREFIX),
+      this.queryPrefix(orgId, NOTE_PREFIX)
+    ]);
+
+    const noteCounts = new Map<string, number>();
+    for (const note of notes) {
+      const key = note.company.toLowerCase();
+      noteCounts.set(key, (noteCounts.get(key) || 0) + 1);
+    }
+
+    const companies = entries
+      .map(entry => ({
+        company: entry.company,
+        sharedBy: entry.sharedBy,
+        contributors: entry.contributors || [],
+        completedAreas: entry.completedResearch?.length || 0,
+        lastUpdated: entry.lastUpdated,
+        noteCount: noteCounts.get(entry.company.toLowerCase()) || 0,
+      }))
+      .sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+
+    return { companies };
+  }
+
+  /**
+   * Remove a shared entry and every member's note on it
+   */
+  async deleteResearch(orgId: string, company: string): Promise<{ message: string }> {
+    const notes = await this.queryPrefix(orgId, `${NOTE_PREFIX}${company.toLowerCase()}#`);
+    const keys = [this.researchKey(company), ...notes.map(note => this.noteKey(note.company, note.userId))];
+
+    await Promise.all(keys.map(recordKey =>
+      this.client.send(new DeleteCommand({
+        TableName: this.tableName,
+        Key: { orgId, recordKey },
+      }))
+    ));
+
+    return { message: `Shared research for ${company} deleted successfully` };
+  }
+
+  async getNote(orgId: string, company: string, userId: string): Promise<ResearchNote | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: this.noteKey(company, userId) },
+    }));
+
+    return result.Item ? this.stripKeys<ResearchNote>(result.Item) : null;
+  }
+
+  async saveNote(orgId: string, company: string, userId: string, note: string): Promise<ResearchNote> {
+    const record: ResearchNote = {
+      orgId,
+      company,
+      userId,
+      note,
+      updatedAt: new Date().toISOString()
+    };
+
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: { ...record, recordKey: this.noteKey(company, userId) },
+    }));
+
+    return record;
+  }
+
+  async deleteNote(orgId: string, company: string, userId: string): Promise<{ message: string }> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: { orgId, recordKey: this.noteKey(company, userId) },
+    }));
+
+    return { message: `Note on ${company} deleted successfully` };
+  }
+
+  private async queryPrefix(orgId: string, prefix: string): Promise<any[]> {
+    const items: any[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        KeyConditionExpression: 'orgId = :orgId AND begins_with(recordKey, :prefix)',
+        ExpressionAttributeValues: {
+          ':orgId': orgId,
+          ':prefix': prefix,
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      items.push(...(result.Items || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  private researchKey(company: string): string {
+    return `${RESEARCH_PREFIX}${company.toLowerCase()}`;
+  }
+
+  private noteKey(company: string, userId: string): string {
+    return `${NOTE_PREFIX}${company.toLowerCase()}#${userId}`;
+  }
+
+  private stripKeys<T>(item: Record<string, any>): T {
+    const { recordKey, ...rest } = item;
+    return rest as T;
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Organization Types
+ *
+ * Type definitions for organizations (/api/orgs): members and roles, the org's vendor context,
+ * the shared research library with per-user notes, and the org cost rollup
+ */
+
+import { CompanyResearch } from '../../ResearchHistoryService';
+import { CostBucketReport } from '../../CostLedgerService';
+
+export type OrgRole = 'admin' | 'manager' | 'rep';
+
+/**
+ * What each role may do (see ROLE_PERMISSIONS in OrganizationPermissions)
+ */
+export type OrgPermission =
+  | 'org:manage'              // Rename, delete
+  | 'members:manage'          // Add, remove, change roles
+  | 'members:view'
+  | 'vendor_context:manage'   // Set the org's vendor / register its vendor file
+  | 'research:share'          // Add or update shared research
+  | 'research:delete'
+  | 'notes:write'             // Own notes on shared research
+  | 'costs:view';
+
+export interface Organization {
+  orgId: string;
+  name: string;
+  vendorCompany?: string;     // Vendor every member sells for; defaults research requests
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrgMember {
+  orgId: string;
+  userId: string;
+  role: OrgRole;
+  addedBy: string;
+  joinedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Research shared with the whole org, one per prospect company
+ */
+export interface SharedResearch {
+  orgId: string;
+  company: string;
+  messages: CompanyResearch['messages'];
+  completedResearch: CompanyResearch['completedResearch'];
+  sharedBy: string;           // Last member to share or update it
+  contributors: string[];
+  sharedAt: string;
+  lastUpdated: string;
+}
+
+export interface SharedResearchSummary {
+  company: string;
+  sharedBy: string;
+  contributors: string[];
+  completedAreas: number;
+  lastUpdated: string;
+  noteCount: number;
+}
+
+/**
+ * A member's private note on a shared research entry
+ */
+export interface ResearchNote {
+  orgId: string;
+  company: string;
+  userId: string;
+  note: string;
+  updatedAt: string;
+}
+
+export interface OrgCostReport {
+  orgId: string;
+  from: string;
+  to: string;
+  totals: CostBucketReport;
+  byDay: Record<string, CostBucketReport>;
+  byMember: Record<string, CostBucketReport & { role: OrgRole }>;
+}
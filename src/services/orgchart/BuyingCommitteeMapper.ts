@@ -0,0 +1,290 @@
+import { AggregatedContact, ContactSourceType } from '../../types/orchestrator-types';
+import { SerpAPILinkedInResult } from '../serpapi/types/SerpAPITypes';
+import { OrgChartBuilder } from './OrgChartBuilder';
+import { ContactRole, OrgLevel } from './types/OrgChartTypes';
+import {
+  BuyingCommitteeMap,
+  CommitteeGap,
+  CommitteeMember,
+  CommitteeSeat,
+  OutreachStep,
+  ProductBuyingCommittee
+} from './types/BuyingCommitteeTypes';
+
+const MAX_PRODUCTS = 5;
+const MAX_INFLUENCERS = 3;
+
+// Functions a product sells into, from keywords in its name and recommendation reason
+const PRODUCT_DEPARTMENT_KEYWORDS: Array<[string, RegExp]> = [
+  ['engineering', /\b(cloud|devops|api|apis|platform|infrastructure|database|security|observability|monitoring|developer|code|kubernetes|integration|identity|network|data warehouse|ai|ml)\b/],
+  ['sales', /\b(crm|sales|pipeline|revenue|cpq|prospecting|forecast(ing)?)\b/],
+  ['marketing', /\b(marketing|campaigns?|seo|advertising|ads|brand|content|lead gen(eration)?)\b/],
+  ['finance', /\b(finance|financial|accounting|billing|payments?|invoic(e|ing)|expenses?|procurement|payroll|spend)\b/],
+  ['hr', /\b(hr|hiring|recruit(ing|ment)?|talent|people|workforce|benefits|onboarding)\b/],
+  ['operations', /\b(operations|supply chain|logistics|inventory|erp|workflow|support|help ?desk|service desk|ticketing|contact center)\b/],
+  ['product', /\b(product management|roadmap|feature flags?|experimentation|product analytics)\b/]
+];
+const DEFAULT_DEPARTMENTS = ['engineering', 'operations'];
+
+const SOURCE_NAMES: Record<ContactSourceType, CommitteeMember['sources'][number]> = {
+  snov_contacts: 'snov',
+  apollo_contacts: 'apollo',
+  apollo: 'apollo',
+  hunter: 'hunter'
+};
+
+interface Candidate extends Omit<CommitteeMember, 'reason'> {
+  level: OrgLevel;
+  isEconomicBuyer: boolean;
+  roleReason: string;
+}
+
+export interface BuyingCommitteeInput {
+  company: string;
+  vendorCompany?: string;
+  recommendedProducts?: Array<{ product: string; reason?: string }>;
+  vendorProducts?: string[];                 // VendorContext.products, used when nothing was recommended
+  contacts?: AggregatedContact[];            // Snov / Apollo / Hunter
+  linkedInProfiles?: SerpAPILinkedInResult[];
+  targetContacts?: Array<{ name?: string; title: string; role: ContactRole }>;
+}
+
+/**
+ * Buying Committee Mapper
+ *
+ * For each recommended product, picks the economic buyer, technical buyer and champion from the
+ * known contacts (contact providers, LinkedIn and the LLM's target_contacts), lists missing seats
+ * and suggests an outreach order.
+ */
+export class BuyingCommitteeMapper {
+  static build(input: BuyingCommitteeInput): BuyingCommitteeMap {
+    const candidates = this.collectCandidates(input);
+
+    const products = (input.recommendedProducts?.length
+      ? input.recommendedProducts
+      : (input.vendorProducts || []).map(product => ({ product, reason: undefined as string | undefined }))
+    )
+      .filter(item => item?.product)
+      .slice(0, MAX_PRODUCTS);
+
+    return {
+      company: input.company,
+      vendorCompany: input.vendorCompany,
+      generatedAt: new Date().toISOString(),
+      contactsConsidered: candidates.length,
+      products: products.map(item => this.mapProduct(item.product, item.reason, candidates))
+    };
+  }
+
+  /**
+   * Functions a product sells into (defaults to engineering and operations)
+   */
+  static departmentsFor(product: string, reason?: string): string[] {
+    const text = `${product} ${reason || ''}`.toLowerCase();
+    const departments = PRODUCT_DEPARTMENT_KEYWORDS
+      .filter(([, pattern]) => pattern.test(text))
+      .map(([department]) => department);
+    return departments.length > 0 ? departments : DEFAULT_DEPARTMENTS;
+  }
+
+  private static mapProduct(product: string, reason: string | undefined, candidates: Candidate[]): ProductBuyingCommittee {
+    const departments = this.departmentsFor(product, reason);
+    const technicalProduct = departments.includes('engineering');
+    const inScope = (candidate: Candidate) => departments.includes(candidate.department);
+    const seated = new Set<Candidate>();
+
+    // Economic buyer: budget owner of the function, else a company-level executive
+    let economic = this.best(candidates.filter(c => c.isEconomicBuyer && inScope(c)));
+    let economicReason = economic ? `${economic.roleReason}; owns spend for ${departments.join('/')}` : '';
+    if (!economic) {
+      economic = this.best(candidates.filter(c => c.isEconomicBuyer && ['executive', 'finance'].includes(c.department)));
+      economicReason = economic ? `No ${departments.join('/')} budget owner found; signs off at company level` : '';
+    }
+    if (economic) seated.add(economic);
+
+    // Technical buyer: engineering leadership evaluates technical products and reviews integration/security for the rest
+    let technical = this.best(candidates.filter(c => !seated.has(c) && c.role === 'Technical Buyer'));
+    if (!technical) {
+      technical = this.best(candidates.filter(c => !seated.has(c) && c.department === 'engineering' && OrgChartBuilder.rank(c.level) >= OrgChartBuilder.rank('director')));
+    }
+    const technicalReason = technicalProduct
+      ? 'Leads the engineering team that would evaluate and run the product'
+      : 'Reviews integration, security and data requirements';
+    if (technical) seated.add(technical);
+
+    // Champion: closest to the day-to-day pain in the function the product serves
+    const champion = this.best(candidates.filter(c => !seated.has(c) && c.role === 'Champion' && inScope(c)));
+    if (champion) seated.add(champion);
+
+    const influencers = candidates
+      .filter(c => !seated.has(c) && inScope(c))
+      .sort((a, b) => this.score(b) - this.score(a))
+      .slice(0, MAX_INFLUENCERS)
+      .map(c => this.toMember(c, 'Works in the function the product serves'));
+
+    const members = {
+      economicBuyer: economic ? this.toMember(economic, economicReason) : undefined,
+      technicalBuyer: technical ? this.toMember(technical, technicalReason) : undefined,
+      champion: champion ? this.toMember(champion, champion.roleReason) : undefined
+    };
+
+    return {
+      product,
+      reason,
+      departments,
+      ...members,
+      influencers,
+      gaps: this.gaps(members, departments),
+      outreachOrder: this.outreachOrder(members),
+      coverage: Object.values(members).filter(Boolean).length
+    };
+  }
+
+  private static gaps(
+    members: { economicBuyer?: CommitteeMember; technicalBuyer?: CommitteeMember; champion?: CommitteeMember },
+    departments: string[]
+  ): CommitteeGap[] {
+    const primary = departments[0];
+    const gaps: CommitteeGap[] = [];
+
+    if (!members.economicBuyer) {
+      gaps.push({ seat: 'economic_buyer', suggestion: `VP or head of ${primary}, or the CFO for budget approval` });
+    }
+    if (!members.technicalBuyer) {
+      gaps.push({ seat: 'technical_buyer', suggestion: 'CTO, VP or Director of Engineering/IT' });
+    }
+    if (!members.champion) {
+      gaps.push({ seat: 'champion', suggestion: `${primary} manager or team lead who owns the workflow day to day` });
+    }
+    return gaps;
+  }
+
+  /**
+   * Bottom-up: champion first to validate the pain, then the technical buyer, then the economic buyer
+   */
+  private static outreachOrder(
+    members: { economicBuyer?: CommitteeMember; technicalBuyer?: CommitteeMember; champion?: CommitteeMember }
+  ): OutreachStep[] {
+    const plan: Array<[CommitteeSeat, CommitteeMember | undefined, string]> = [
+      ['champion', members.champion, 'Validate the pain and build an internal advocate'],
+      ['technical_buyer', members.technicalBuyer, members.champion
+        ? 'Bring the champion\'s use case to technical evaluation'
+        : 'Open with technical fit; no champion identified yet'],
+      ['economic_buyer', members.economicBuyer, 'Present the business case once the champion and technical buyer are aligned']
+    ];
+
+    return plan
+      .filter(([, member]) => member)
+      .map(([seat, member, rationale], index) => ({
+        step: index + 1,
+        seat,
+        contact: member!.name || member!.title,
+        rationale
+      }));
+  }
+
+  /**
+   * Candidates from every contact source, merged by name
+   */
+  private static collectCandidates(input: BuyingCommitteeInput): Candidate[] {
+    const byKey = new Map<string, Candidate>();
+    const unnamed: Candidate[] = [];
+
+    const add = (
+      person: { name?: string; title: string; email?: string; verified?: boolean; profileUrl?: string; department?: string },
+      source: CommitteeMember['sources'][number],
+      llmRole?: ContactRole
+    ) => {
+      const title = person.title?.trim();
+      if (!title || /^(former|ex-|ex |previously|retired)\b/i.test(title)) return;
+
+      const key = person.name?.trim().toLowerCase();
+      const existing = key ? byKey.get(key) : undefined;
+      if (existing) {
+        existing.sources = Array.from(new Set([...existing.sources, source]));
+        existing.email = existing.email || person.email;
+        existing.verified = existing.verified || person.verified;
+        existing.profileUrl = existing.profileUrl || person.profileUrl;
+        return;
+      }
+
+      const level = OrgChartBuilder.levelOf(title);
+      let department = OrgChartBuilder.departmentOf(title, level);
+      if (department === 'other' && person.department) {
+        department = person.department.toLowerCase();
+      }
+      const inferred = OrgChartBuilder.roleFor(level, department);
+
+      const candidate: Candidate = {
+        name: person.name?.trim() || undefined,
+        title,
+        department,
+        level,
+        // The LLM role is only trusted for people nobody else returned
+        role: llmRole && !key ? llmRole : inferred.role,
+        isEconomicBuyer: llmRole && !key ? llmRole === 'Decision Maker' : inferred.isEconomicBuyer,
+        roleReason: inferred.reason,
+        email: person.email,
+        verified: person.verified,
+        profileUrl: person.profileUrl,
+        sources: [source]
+      };
+
+      if (key) {
+        byKey.set(key, candidate);
+      } else {
+        unnamed.push(candidate);
+      }
+    };
+
+    for (const contact of input.contacts || []) {
+      const sources = contact.sources?.length ? contact.sources : ['snov_contacts' as ContactSourceType];
+      add({
+        name: `${contact.firstName || ''} ${contact.lastName || ''}`.trim(),
+        title: contact.position,
+        email: contact.email,
+        verified: contact.verified,
+        profileUrl: contact.linkedin,
+        department: contact.department
+      }, SOURCE_NAMES[sources[0]] || 'snov');
+    }
+
+    for (const profile of input.linkedInProfiles || []) {
+      add({ name: profile.name, title: profile.title, profileUrl: profile.profile_url }, 'linkedin');
+    }
+
+    for (const contact of input.targetContacts || []) {
+      add({ name: contact.name, title: contact.title }, 'llm', contact.role);
+    }
+
+    return [...Array.from(byKey.values()), ...unnamed];
+  }
+
+  /**
+   * Most senior first; reachable (verified email, then any email) and named people break ties
+   */
+  private static best(candidates: Candidate[]): Candidate | undefined {
+    return [...candidates].sort((a, b) => this.score(b) - this.score(a))[0];
+  }
+
+  private static score(candidate: Candidate): number {
+    return OrgChartBuilder.rank(candidate.level) * 10 +
+      (candidate.verified ? 3 : 0) +
+      (candidate.email ? 2 : 0) +
+      (candidate.name ? 1 : 0);
+  }
+
+  private static toMember(candidate: Candidate, reason: string): CommitteeMember {
+    return {
+      name: candidate.name,
+      title: candidate.title,
+      department: candidate.department,
+      role: candidate.role,
+      email: candidate.email,
+      verified: candidate.verified,
+      profileUrl: candidate.profileUrl,
+      sources: candidate.sources,
+      reason
+    };
+  }
+}
@@ -0,0 +1,243 @@
+import { SerpAPILinkedInResult } from '../serpapi/types/SerpAPITypes';
+import { LinkedInSearchEngine } from '../serpapi/engines/LinkedInSearchEngine';
+import {
+  ContactRole,
+  OrgChart,
+  OrgChartContact,
+  OrgChartDepartment,
+  OrgChartNode,
+  OrgLevel
+} from './types/OrgChartTypes';
+
+// Higher rank = more senior; a person reports to the nearest more senior person in their department
+const LEVEL_RANK: Record<OrgLevel, number> = {
+  chief_executive: 9,
+  c_suite: 8,
+  svp: 7,
+  vp: 6,
+  director: 5,
+  manager: 4,
+  senior: 3,
+  individual: 2,
+  junior: 1
+};
+
+// Ordered: first match wins
+const LEVEL_PATTERNS: Array<[OrgLevel, RegExp]> = [
+  ['chief_executive', /\b(ceo|chief executive|co-?founder|founder|owner)\b|(?<!vice )\bpresident\b/i],
+  ['c_suite', /\b(chief [a-z ]*officer|cto|cfo|coo|cro|cmo|cio|ciso|cpo|chro|cdo|general counsel)\b/i],
+  ['svp', /\b(svp|evp|senior vice president|executive vice president)\b/i],
+  ['vp', /\b(vp|vice president)\b/i],
+  ['director', /\b(director|head of)\b/i],
+  ['manager', /\bmanager\b/i],
+  ['senior', /\b(senior|sr\.?|lead|principal|staff)\b/i],
+  ['junior', /\b(junior|jr\.?|associate|intern|coordinator|assistant)\b/i]
+];
+
+// C-suite titles owned by a department rather than the executive team
+const C_SUITE_DEPARTMENTS: Array<[RegExp, string]> = [
+  [/\b(cto|cio|ciso|chief (technology|information|information security|security|digital) officer)\b/i, 'engineering'],
+  [/\b(cfo|chief financial officer)\b/i, 'finance'],
+  [/\b(cmo|chief marketing officer)\b/i, 'marketing'],
+  [/\b(cro|chief (revenue|sales|commercial) officer)\b/i, 'sales'],
+  [/\b(coo|chief operating officer)\b/i, 'operations'],
+  [/\b(chro|chief (people|human resources) officer)\b/i, 'hr'],
+  [/\b(cpo|chief product officer)\b/i, 'product'],
+  [/\b(cdo|chief data officer)\b/i, 'engineering']
+];
+
+// Departments whose leaders evaluate and sign off on the technology rather than own the budget
+const TECHNICAL_DEPARTMENTS = new Set(['engineering']);
+
+const FORMER_PATTERN = /^(former|ex-|ex |previously|retired)\b/i;
+
+/**
+ * Org Chart Builder
+ *
+ * Assembles LinkedIn profiles into a probable reporting hierarchy: the chief executive at the root,
+ * department leaders below, and everyone else under the nearest more senior person in their department.
+ * Each person gets a target_contacts role; economic buyers and champions are listed separately.
+ */
+export class OrgChartBuilder {
+  static build(company: string, profiles: SerpAPILinkedInResult[]): OrgChart {
+    const { people, excluded } = this.toNodes(profiles);
+
+    const executives = people
+      .filter(person => person.level === 'chief_executive')
+      .sort((a, b) => this.titleWeight(b.title) - this.titleWeight(a.title));
+
+    const root: OrgChartNode = executives[0] || {
+      name: company,
+      title: 'Company',
+      department: 'executive',
+      level: 'chief_executive',
+      seniority: 'executive',
+      isEconomicBuyer: false,
+      isChampion: false,
+      inferred: true,
+      children: []
+    };
+
+    // Co-founders and other chief executives sit next to the root's direct reports
+    for (const executive of executives.slice(1)) {
+      this.attach(root, executive);
+    }
+
+    const departments = new Map<string, OrgChartNode[]>();
+    for (const person of people.filter(person => person.level !== 'chief_executive')) {
+      departments.set(person.department, [...(departments.get(person.department) || []), person]);
+    }
+
+    const departmentSummaries: OrgChartDepartment[] = [];
+    departments.forEach((members, name) => {
+      const ordered = [...members].sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level]);
+      const placed: OrgChartNode[] = [];
+
+      for (const person of ordered) {
+        const manager = this.nearestSenior(placed, person);
+        this.attach(manager || root, person);
+        placed.push(person);
+      }
+
+      departmentSummaries.push({ name, head: ordered[0]?.name, headcount: members.length });
+    });
+
+    const contacts = (role: ContactRole) => people
+      .filter(person => person.role === role)
+      .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level])
+      .map(person => this.toContact(person));
+
+    return {
+      company,
+      generatedAt: new Date().toISOString(),
+      root,
+      departments: departmentSummaries.sort((a, b) => b.headcount - a.headcount),
+      economicBuyers: people
+        .filter(person => person.isEconomicBuyer)
+        .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level])
+        .map(person => this.toContact(person)),
+      champions: contacts('Champion'),
+      technicalBuyers: contacts('Technical Buyer'),
+      profilesConsidered: profiles.length,
+      profilesExcluded: excluded
+    };
+  }
+
+  /**
+   * Title level used for ranking (exposed for callers that rank contacts from other sources)
+   */
+  static levelOf(title: string): OrgLevel {
+    const match = LEVEL_PATTERNS.find(([, pattern]) => pattern.test(title));
+    return match ? match[0] : 'individual';
+  }
+
+  static rank(level: OrgLevel): number {
+    return LEVEL_RANK[level];
+  }
+
+  /**
+   * Department, treating C-suite titles as the head of their function
+   */
+  static departmentOf(title: string, level: OrgLevel = this.levelOf(title)): string {
+    if (level === 'c_suite') {
+      const owned = C_SUITE_DEPARTMENTS.find(([pattern]) => pattern.test(title));
+      if (owned) return owned[1];
+    }
+    if (level === 'chief_executive') return 'executive';
+    return LinkedInSearchEngine.extractDepartmentFromTitle(title);
+  }
+
+  /**
+   * target_contacts role for a level and department, with the reason shown to reps
+   */
+  static roleFor(level: OrgLevel, department: string): { role: ContactRole; isEconomicBuyer: boolean; reason: string } {
+    const technical = TECHNICAL_DEPARTMENTS.has(department);
+    const rank = LEVEL_RANK[level];
+
+    if (rank >= LEVEL_RANK.c_suite) {
+      return { role: 'Decision Maker', isEconomicBuyer: true, reason: 'Executive with budget authority' };
+    }
+    if (rank >= LEVEL_RANK.vp) {
+      return technical
+        ? { role: 'Technical Buyer', isEconomicBuyer: false, reason: 'Technology leader who approves the technical choice' }
+        : { role: 'Decision Maker', isEconomicBuyer: true, reason: `Owns the ${department} budget` };
+    }
+    if (rank === LEVEL_RANK.director) {
+      return technical
+        ? { role: 'Technical Buyer', isEconomicBuyer: false, reason: 'Runs the engineering team that would evaluate the product' }
+        : { role: 'Champion', isEconomicBuyer: false, reason: `Leads a ${department} team and feels the day-to-day pain` };
+    }
+    if (rank >= LEVEL_RANK.senior) {
+      return { role: 'Champion', isEconomicBuyer: false, reason: 'Hands-on leader who can sell internally' };
+    }
+    return { role: 'Influencer', isEconomicBuyer: false, reason: 'Individual contributor who shapes requirements' };
+  }
+
+  private static toNodes(profiles: SerpAPILinkedInResult[]): { people: OrgChartNode[]; excluded: number } {
+    const seen = new Set<string>();
+    const people: OrgChartNode[] = [];
+
+    for (const profile of profiles) {
+      if (!profile?.name || !profile?.title) continue;
+
+      const key = (profile.profile_url || profile.name).toLowerCase().replace(/\/+$/, '');
+      if (seen.has(key) || FORMER_PATTERN.test(profile.title.trim())) continue;
+      seen.add(key);
+
+      const level = this.levelOf(profile.title);
+      const department = this.departmentOf(profile.title, level);
+      const { role, isEconomicBuyer, reason } = this.roleFor(level, department);
+
+      people.push({
+        name: profile.name,
+        title: profile.title,
+        department,
+        level,
+        seniority: LinkedInSearchEngine.extractSeniorityLevel(profile.title),
+        location: profile.location || undefined,
+        profileUrl: profile.profile_url,
+        role,
+        isEconomicBuyer,
+        isChampion: role === 'Champion',
+        roleReason: reason,
+        inferred: false,
+        children: []
+      });
+    }
+
+    return { people, excluded: profiles.length - people.length };
+  }
+
+  /**
+   * Least senior already-placed person who is still more senior than the given one
+   */
+  private static nearestSenior(placed: OrgChartNode[], person: OrgChartNode): OrgChartNode | undefined {
+    return placed
+      .filter(candidate => LEVEL_RANK[candidate.level] > LEVEL_RANK[person.level])
+      .sort((a, b) => LEVEL_RANK[a.level] - LEVEL_RANK[b.level])[0];
+  }
+
+  private static attach(manager: OrgChartNode, person: OrgChartNode): void {
+    person.reportsTo = manager.name;
+    manager.children.push(person);
+  }
+
+  /**
+   * Among several chief-executive titles the CEO wins over founders and presidents
+   */
+  private static titleWeight(title: string): number {
+    if (/\b(ceo|chief executive)\b/i.test(title)) return 3;
+    if (/\bfounder\b/i.test(title)) return 2;
+    return 1;
+  }
+
+  private static toContact(person: OrgChartNode): OrgChartContact {
+    return {
+      name: person.name,
+      title: person.title,
+      department: person.department,
+      role: person.role!,
+      profileUrl: person.profileUrl
+    };
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Buying Committee Types
+ *
+ * Type definitions for mapping known contacts onto the vendor's recommended products
+ */
+
+import { ContactRole } from './OrgChartTypes';
+
+export type CommitteeSeat = 'economic_buyer' | 'technical_buyer' | 'champion';
+
+export interface CommitteeMember {
+  name?: string;                 // Unknown for LLM target_contacts that only name a title
+  title: string;
+  department: string;
+  role: ContactRole;
+  email?: string;
+  verified?: boolean;
+  profileUrl?: string;
+  sources: Array<'snov' | 'apollo' | 'hunter' | 'linkedin' | 'llm'>;
+  reason: string;                // Why this person fills the seat
+}
+
+export interface CommitteeGap {
+  seat: CommitteeSeat;
+  suggestion: string;            // Who to look for, e.g. "VP or Director of Engineering"
+}
+
+export interface OutreachStep {
+  step: number;
+  seat: CommitteeSeat;
+  contact: string;               // Name, or title when the name is unknown
+  rationale: string;
+}
+
+export interface ProductBuyingCommittee {
+  product: string;
+  reason?: string;               // From recommended_products
+  departments: string[];         // Functions the product sells into
+  economicBuyer?: CommitteeMember;
+  technicalBuyer?: CommitteeMember;
+  champion?: CommitteeMember;
+  influencers: CommitteeMember[];
+  gaps: CommitteeGap[];
+  outreachOrder: OutreachStep[];
+  coverage: number;              // Seats filled out of 3
+}
+
+export interface BuyingCommitteeMap {
+  company: string;
+  vendorCompany?: string;
+  generatedAt: string;
+  contactsConsidered: number;
+  products: ProductBuyingCommittee[];
+}
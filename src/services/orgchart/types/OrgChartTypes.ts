@@ -0,0 +1,67 @@
+/**
+ * Org Chart Types
+ *
+ * Type definitions for the probable reporting hierarchy inferred from LinkedIn profiles (/companies/{domain}/org-chart)
+ */
+
+/**
+ * Same values as CustomerIntelligenceOutput.target_contacts[].role
+ */
+export type ContactRole = 'Decision Maker' | 'Champion' | 'Technical Buyer' | 'Influencer';
+
+/**
+ * Title level, most senior first
+ */
+export type OrgLevel =
+  | 'chief_executive'
+  | 'c_suite'
+  | 'svp'
+  | 'vp'
+  | 'director'
+  | 'manager'
+  | 'senior'
+  | 'individual'
+  | 'junior';
+
+export interface OrgChartNode {
+  name: string;
+  title: string;
+  department: string;
+  level: OrgLevel;
+  seniority: string;              // LinkedInSearchEngine seniority bucket
+  location?: string;
+  profileUrl?: string;
+  role?: ContactRole;
+  isEconomicBuyer: boolean;
+  isChampion: boolean;
+  roleReason?: string;
+  reportsTo?: string;             // Name of the probable manager
+  inferred: boolean;              // true for the placeholder root when no chief executive was found
+  children: OrgChartNode[];
+}
+
+export interface OrgChartContact {
+  name: string;
+  title: string;
+  department: string;
+  role: ContactRole;
+  profileUrl?: string;
+}
+
+export interface OrgChartDepartment {
+  name: string;
+  head?: string;
+  headcount: number;
+}
+
+export interface OrgChart {
+  company: string;
+  generatedAt: string;
+  root: OrgChartNode;
+  departments: OrgChartDepartment[];
+  economicBuyers: OrgChartContact[];
+  champions: OrgChartContact[];
+  technicalBuyers: OrgChartContact[];
+  profilesConsidered: number;
+  profilesExcluded: number;       // Former employees and duplicates
+}
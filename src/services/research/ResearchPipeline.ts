@@ -0,0 +1,170 @@
+/**
+ * Research Pipeline
+ *
+ * Runs the customer intelligence workflow (cache check → smart collection → LLM analysis → finalization)
+ * step by step for a research session, persisting a progress event for every transition.
+ */
+
+import { CacheService } from '../core/CacheService';
+import { Logger } from '../core/Logger';
+import { SerpAPIService } from '../SerpAPIService';
+import { DataSourceOrchestrator } from '../DataSourceOrchestrator';
+import { CustomerLLMAnalysisHandler } from '../handlers/stepfunctions/CustomerLLMAnalysisHandler';
+import { CONSUMER_DATASET_REQUIREMENTS, DatasetType } from '../../types/dataset-requirements';
+import { ResearchSessionService } from './ResearchSessionService';
+import { ResearchSession, ResearchStep } from './types/ResearchTypes';
+
+export class ResearchPipeline {
+  private cacheService: CacheService;
+  private logger: Logger;
+  private sessionService: ResearchSessionService;
+
+  constructor(cacheService: CacheService, logger: Logger) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+    this.sessionService = new ResearchSessionService(cacheService, logger);
+  }
+
+  /**
+   * Run all pipeline steps for a session. Never throws - failures are recorded as events.
+   */
+  async run(researchSessionId: string): Promise<ResearchSession | null> {
+    const session = await this.sessionService.getSession(researchSessionId);
+    if (!session) {
+      this.logger.warn('Research session not found', { researchSessionId });
+      return null;
+    }
+
+    if (session.status !== 'pending') {
+      this.logger.warn('Research session already started, skipping run', { researchSessionId, status: session.status });
+      return session;
+    }
+
+    const { prospectCompany, vendorCompany, userPersona, refresh } = session;
+    const requester = 'customer_intelligence';
+    const analysisKey = `customer_intelligence_analysis:${prospectCompany}:${vendorCompany}:${userPersona?.role || 'unknown'}:${requester}`;
+    let currentStep: ResearchStep = 'cache_check';
+
+    try {
+      await this.sessionService.appendEvent(session, 'session_started', `Researching ${prospectCompany} for ${vendorCompany}`, undefined, {
+        prospectCompany,
+        vendorCompany,
+        userPersona,
+        refresh
+      });
+
+      // Step 1: Cache check
+      await this.sessionService.appendEvent(session, 'step_started', 'Checking existing data', currentStep);
+      const cachedAnalysis = refresh ? null : await this.cacheService.getRawJSON(analysisKey);
+      await this.sessionService.appendEvent(session, 'step_completed', cachedAnalysis ? 'Found cached analysis' : 'No cached analysis found', currentStep, {
+        cacheHit: !!cachedAnalysis,
+        refresh
+      });
+
+      if (cachedAnalysis) {
+        await this.sessionService.appendEvent(session, 'step_skipped', 'Using cached data', 'data_collection');
+        await this.sessionService.appendEvent(session, 'step_skipped', 'Using cached analysis', 'llm_analysis');
+      } else {
+        // Step 2: Smart data collection
+        currentStep = 'data_collection';
+        await this.sessionService.appendEvent(session, 'step_started', 'Gathering intel from multiple sources', currentStep);
+
+        const serpAPIService = new SerpAPIService(this.cacheService, this.logger);
+        const orchestrator = new DataSourceOrchestrator(this.cacheService, this.logger, serpAPIService);
+        const requiredDatasets: DatasetType[] = CONSUMER_DATASET_REQUIREMENTS['customer_intelligence'];
+
+        const collection: any = await orchestrator.getCustomerIntelligence({
+          customerCompany: prospectCompany,
+          vendorCompany,
+          consumerType: 'customer_intelligence',
+          requiredDatasets,
+          userId: session.userId
+        });
+
+        if (collection.error === 'VENDOR_CONTEXT_REQUIRED') {
+          await this.sessionService.appendEvent(session, 'step_failed', collection.message, currentStep, {
+            error: collection.error,
+            recommendation: collection.recommendation,
+            nextSteps: collection.nextSteps
+          });
+          await this.sessionService.appendEvent(session, 'research_failed', collection.message, undefined, {
+            error: collection.error
+          });
+          return session;
+        }
+
+        await this.sessionService.appendEvent(session, 'step_completed', 'Data collection complete', currentStep, {
+          sources: Object.keys(collection.data || {}).length,
+          totalCost: collection.metrics?.totalCost || 0,
+          cacheHits: collection.metrics?.cacheHits || 0,
+          qualityScore: collection.qualityScore,
+          droppedDatasets: collection.budget?.droppedDatasets || [],
+          freshness: collection.data?.freshness || {} // Per cached source: cachedAt, ageSeconds, stale, refreshing
+        });
+
+        // Step 3: LLM analysis
+        currentStep = 'llm_analysis';
+        await this.sessionService.appendEvent(session, 'step_started', 'AI-powered insight generation', currentStep);
+
+        if (refresh) {
+          // The analysis handler checks the cache itself - drop the stale entry so refresh regenerates it
+          await this.cacheService.delete(analysisKey);
+        }
+
+        const llmHandler = new CustomerLLMAnalysisHandler(this.logger, process.env.AWS_REGION);
+        const analysisResult = await llmHandler.processCustomerAnalysis({
+          companyName: prospectCompany,
+          vendorCompany,
+          requester,
+          data: collection.data,
+          requestId: researchSessionId,
+          userId: session.userId,
+          userPersona,
+          workflowType: 'customer_intelligence',
+          datasetsCollected: requiredDatasets,
+          refresh
+        }, {
+          // Stream each analysis section (talking_points, news_signals, ...) to clients as it completes
+          onSection: async (section) => {
+            await this.sessionService.appendEvent(session, 'analysis_section', `${section.key} ready`, currentStep, {
+              section: section.key,
+              value: section.value
+            });
+          }
+        });
+
+        await this.sessionService.appendEvent(session, 'step_completed', 'Analysis complete', currentStep, {
+          source: analysisResult.source,
+          cost: analysisResult.cost
+        });
+      }
+
+      // Step 4: Finalization
+      currentStep = 'finalization';
+      await this.sessionService.appendEvent(session, 'step_started', 'Structuring results', currentStep);
+      await this.sessionService.appendEvent(session, 'step_completed', 'Results ready', currentStep);
+      await this.sessionService.appendEvent(session, 'research_completed', 'Research complete', undefined, {
+        resultRef: analysisKey,
+        cached: !!cachedAnalysis
+      });
+
+      this.logger.info('Research session completed', { researchSessionId, prospectCompany, vendorCompany });
+      return session;
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Research session failed', { researchSessionId, step: currentStep, error: message });
+
+      try {
+        await this.sessionService.appendEvent(session, 'step_failed', message, currentStep);
+        await this.sessionService.appendEvent(session, 'research_failed', message);
+      } catch (recordError) {
+        this.logger.error('Failed to record research failure', {
+          researchSessionId,
+          error: recordError instanceof Error ? recordError.message : String(recordError)
+        });
+      }
+      return session;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { CacheService } from '../core/CacheService';
+import { Logger } from '../core/Logger';
+import { CacheType } from '../../types/cache-types';
+import {
+  ResearchSession,
+  ResearchSessionRequest,
+  ResearchEvent,
+  ResearchEventType,
+  ResearchStep,
+  ResearchStepStatus,
+  RESEARCH_STEPS
+} from './types/ResearchTypes';
+
+/**
+ * Research Session Service
+ *
+ * Persists research session state and its ordered progress events in the cache table,
+ * so any Lambda invocation can stream or resume them (Last-Event-ID).
+ * A session has a single writer (the pipeline run), so read-modify-write is safe.
+ */
+export class ResearchSessionService {
+  private cacheService: CacheService;
+  private logger: Logger;
+
+  constructor(cacheService: CacheService, logger: Logger) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+  }
+
+  /**
+   * Create a new pending research session
+   */
+  async createSession(request: ResearchSessionRequest): Promise<ResearchSession> {
+    const now = new Date().toISOString();
+    const session: ResearchSession = {
+      researchSessionId: this.generateSessionId(),
+      prospectCompany: request.prospectCompany,
+      vendorCompany: request.vendorCompany,
+      userPersona: request.userPersona,
+      userId: request.userId,
+      refresh: request.refresh === true,
+      status: 'pending',
+      currentStep: RESEARCH_STEPS[0].name,
+      steps: RESEARCH_STEPS.map(step => ({ ...step, status: 'pending' as ResearchStepStatus })),
+      lastEventId: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.saveSession(session);
+    await this.cacheService.setRawJSON(this.getEventsKey(session.researchSessionId), [], CacheType.RESEARCH_SESSION_EVENTS);
+
+    this.logger.info('Research session created', {
+      researchSessionId: session.researchSessionId,
+      prospectCompany: session.prospectCompany,
+      vendorCompany: session.vendorCompany
+    });
+
+    return session;
+  }
+
+  /**
+   * Get a research session by ID
+   */
+  async getSession(researchSessionId: string): Promise<ResearchSession | null> {
+    return await this.cacheService.getRawJSON(this.getSessionKey(researchSessionId));
+  }
+
+  /**
+   * Get events emitted after the given event ID (0 returns all events)
+   */
+  async getEventsSince(researchSessionId: string, lastEventId: number = 0): Promise<ResearchEvent[]> {
+    const events: ResearchEvent[] = await this.cacheService.getRawJSON(this.getEventsKey(researchSessionId)) || [];
+    return events.filter(event => event.id > lastEventId);
+  }
+
+  /**
+   * Append a progress event and apply the matching session state change
+   */
+  async appendEvent(
+    session: ResearchSession,
+    type: ResearchEventType,
+    message: string,
+    step?: ResearchStep,
+    data?: any
+  ): Promise<ResearchEvent> {
+    const now = new Date().toISOString();
+    const event: ResearchEvent = {
+      id: session.lastEventId + 1,
+      type,
+      step,
+      message,
+      data,
+      timestamp: now
+    };
+
+    this.applyEvent(session, event);
+
+    const eventsKey = this.getEventsKey(session.researchSessionId);
+    const events: ResearchEvent[] = await this.cacheService.getRawJSON(eventsKey) || [];
+    events.push(event);
+
+    // Events first, then the session, so a reader never sees a lastEventId without its event
+    await this.cacheService.setRawJSON(eventsKey, events, CacheType.RESEARCH_SESSION_EVENTS);
+    await this.saveSession(session);
+
+    this.logger.debug('Research event appended', {
+      researchSessionId: session.researchSessionId,
+      eventId: event.id,
+      type,
+      step
+    });
+
+    return event;
+  }
+
+  /**
+   * Whether the session will emit no further events
+   */
+  isTerminal(session: ResearchSession): boolean {
+    return session.status === 'completed' || session.status === 'failed';
+  }
+
+  /**
+   * Format events as a Server-Sent Events stream body
+   */
+  formatSSE(events: ResearchEvent[], retryMs: number = 3000): string {
+    let body = `retry: ${retryMs}\n\n`;
+    for (const event of events) {
+      body += `id: ${event.id}\n`;
+      body += `event: ${event.type}\n`;
+      body += `data: ${JSON.stringify(event)}\n\n`;
+    }
+    return body;
+  }
+
+  /**
+   * Update session state from an event
+   */
+  private applyEvent(session: ResearchSession, event: ResearchEvent): void {
+    session.lastEventId = event.id;
+    session.updatedAt = event.timestamp;
+
+    const step = event.step ? session.steps.find(s => s.name === event.step) : undefined;
+
+    switch (event.type) {
+      case 'session_started':
+        session.status = 'running';
+        break;
+      case 'step_started':
+        if (step) {
+          step.status = 'running';
+          step.startedAt = event.timestamp;
+          session.currentStep = step.name;
+        }
+        break;
+      case 'step_completed':
+      case 'step_skipped':
+      case 'step_failed':
+        if (step) {
+          step.status = event.type === 'step_completed' ? 'completed' : event.type === 'step_skipped' ? 'skipped' : 'failed';
+          step.completedAt = event.timestamp;
+        }
+        break;
+      case 'research_completed':
+        session.status = 'completed';
+        session.resultRef = event.data?.resultRef;
+        break;
+      case 'research_failed':
+        session.status = 'failed';
+        session.error = event.message;
+        break;
+    }
+  }
+
+  private async saveSession(session: ResearchSession): Promise<void> {
+    await this.cacheService.setRawJSON(this.getSessionKey(session.researchSessionId), session, CacheType.RESEARCH_SESSION);
+  }
+
+  private getSessionKey(researchSessionId: string): string {
+    return `research_session:${researchSessionId}`;
+  }
+
+  private getEventsKey(researchSessionId: string): string {
+    return `research_session_events:${researchSessionId}`;
+  }
+
+  /**
+   * Generate a unique research session ID
+   */
+  private generateSessionId(): string {
+    const timestamp = Date.now().toString(36);
+    const randomPart = Math.random().toString(36).substr(2, 9);
+    return `rs_${timestamp}_${randomPart}`;
+  }
+}
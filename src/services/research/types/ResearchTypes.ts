@@ -0,0 +1,94 @@
+/**
+ * Research Session Types
+ *
+ * Type definitions for streaming research sessions (POST /api/research/stream)
+ */
+
+/**
+ * Persona of the rep running the research (same shape as the Step Functions workflow)
+ */
+export interface ResearchUserPersona {
+  role: 'AE' | 'CSM' | 'SE';
+  name?: string;
+  segment?: string;
+  region?: string;
+}
+
+/**
+ * Pipeline steps, in execution order
+ */
+export type ResearchStep = 'cache_check' | 'data_collection' | 'llm_analysis' | 'finalization';
+
+export const RESEARCH_STEPS: Array<{ name: ResearchStep; description: string }> = [
+  { name: 'cache_check', description: 'Checking existing data' },
+  { name: 'data_collection', description: 'Gathering intel from multiple sources' },
+  { name: 'llm_analysis', description: 'AI-powered insight generation' },
+  { name: 'finalization', description: 'Structuring results' }
+];
+
+export type ResearchSessionStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export type ResearchStepStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+/**
+ * Event types emitted over Server-Sent Events
+ */
+export type ResearchEventType =
+  | 'session_started'
+  | 'step_started'
+  | 'step_completed'
+  | 'step_skipped'
+  | 'step_failed'
+  | 'analysis_section'    // A completed section of the streamed analysis (data: { section, value })
+  | 'research_completed'
+  | 'research_failed';
+
+/**
+ * A single progress event - `id` is monotonically increasing per session
+ * and is used as the SSE event id for Last-Event-ID resumption
+ */
+export interface ResearchEvent {
+  id: number;
+  type: ResearchEventType;
+  step?: ResearchStep;
+  message: string;
+  data?: any;
+  timestamp: string;
+}
+
+/**
+ * Research session request payload
+ */
+export interface ResearchSessionRequest {
+  prospectCompany: string;
+  vendorCompany: string;
+  userPersona?: ResearchUserPersona;
+  userId?: string;
+  refresh?: boolean;
+}
+
+/**
+ * Persisted research session state
+ */
+export interface ResearchSession {
+  researchSessionId: string;
+  prospectCompany: string;
+  vendorCompany: string;
+  userPersona?: ResearchUserPersona;
+  userId?: string;
+  refresh: boolean;
+  status: ResearchSessionStatus;
+  currentStep: ResearchStep;
+  steps: Array<{
+    name: ResearchStep;
+    status: ResearchStepStatus;
+    description: string;
+    startedAt?: string;
+    completedAt?: string;
+  }>;
+  lastEventId: number;
+  resultRef?: string;     // Cache key of the final customer intelligence analysis
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
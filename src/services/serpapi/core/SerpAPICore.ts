@@ -1,5 +1,6 @@
 import { CacheService } from '../../core/CacheService';
 import { Logger } from '../../core/Logger';
+import { SingleFlight } from '../../core/cache/SingleFlight';
 import { CacheType } from '../../../types/cache-types';
 import { 
   SerpAPIConfig, 
@@ -13,10 +14,12 @@ export abstract class SerpAPICore {
   protected cacheService: CacheService;
   protected logger: Logger;
   protected config: SerpAPIConfig;
+  protected singleFlight: SingleFlight;
 
   constructor(cacheService: CacheService, logger: Logger, config?: Partial<SerpAPIConfig>) {
     this.cacheService = cacheService;
     this.logger = logger;
+    this.singleFlight = new SingleFlight(cacheService, logger, { scope: 'serpapi' });
     this.config = {
       apiKey: process.env.SERPAPI_API_KEY || '',
       baseUrl: 'https://serpapi.com/search',
@@ -75,7 +78,8 @@ export abstract class SerpAPICore {
   }
 
   /**
-   * Get cached results or fetch from API
+   * Get cached results or fetch from API. Concurrent misses on the same key share one API call;
+   * forceRefresh always calls the API.
    */
   protected async getCachedOrFetch<T>(
     cacheKey: string,
@@ -94,14 +98,26 @@ export abstract class SerpAPICore {
       }
     }
 
-    // Fetch from API
-    this.logger.debug('Cache miss - fetching from API', { cacheKey, cacheType });
-    const result = await fetchFn();
+    const fetchAndCache = async (): Promise<T> => {
+      // Fetch from API
+      this.logger.debug('Cache miss - fetching from API', { cacheKey, cacheType });
+      const result = await fetchFn();
 
-    // Cache the result
-    await this.cacheService.setRawJSON(cacheKey, result, cacheType);
-    
-    return result;
+      // Cache the result (before other callers waiting on this fetch read it)
+      await this.cacheService.setRawJSON(cacheKey, result, cacheType);
+
+      return result;
+    };
+
+    if (forceRefresh) {
+      return fetchAndCache();
+    }
+
+    return this.singleFlight.run(
+      cacheKey,
+      async () => await this.cacheService.get(cacheKey) as T | null,
+      fetchAndCache
+    );
   }
 
   /**
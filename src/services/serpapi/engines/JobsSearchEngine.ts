@@ -70,6 +70,7 @@ export class JobsSearchEngine extends SerpAPICore {
         description: job.description,
         posted_at: job.detected_extensions?.posted_at,
         schedule_type: job.detected_extensions?.schedule_type,
+        link: job.share_link || job.apply_options?.[0]?.link,
         salary: job.salary ? {
           min: job.salary.min,
           max: job.salary.max,
@@ -175,6 +176,7 @@ export class JobsSearchEngine extends SerpAPICore {
     departments: Record<string, number>;
     locations: Record<string, number>;
     experienceLevels: Record<string, number>;
+    remoteShare: number;
   }> {
     const jobs = await this.getJobsResults(companyName);
     
@@ -183,12 +185,13 @@ export class JobsSearchEngine extends SerpAPICore {
       departments: {} as Record<string, number>,
       locations: {} as Record<string, number>,
       experienceLevels: {} as Record<string, number>,
+      remoteShare: 0,
     };
 
     jobs.forEach(job => {
       // Analyze department from job title
       const title = job.title.toLowerCase();
-      const department = this.extractDepartment(title);
+      const department = JobsSearchEngine.extractDepartment(title);
       trends.departments[department] = (trends.departments[department] || 0) + 1;
 
       // Count locations
@@ -197,17 +200,22 @@ export class JobsSearchEngine extends SerpAPICore {
       }
 
       // Analyze experience level
-      const level = this.extractExperienceLevel(title);
+      const level = JobsSearchEngine.extractExperienceLevel(title);
       trends.experienceLevels[level] = (trends.experienceLevels[level] || 0) + 1;
     });
 
+    if (jobs.length > 0) {
+      const remoteCount = jobs.filter(job => JobsSearchEngine.isRemote(job)).length;
+      trends.remoteShare = Math.round((remoteCount / jobs.length) * 100) / 100;
+    }
+
     return trends;
   }
 
   /**
-   * Extract department from job title
+   * Extract department from a lower-cased job title
    */
-  private extractDepartment(title: string): string {
+  static extractDepartment(title: string): string {
     const departments = {
       'engineering': ['engineer', 'developer', 'programmer', 'architect', 'devops'],
       'sales': ['sales', 'account', 'business development', 'revenue'],
@@ -231,9 +239,9 @@ export class JobsSearchEngine extends SerpAPICore {
   }
 
   /**
-   * Extract experience level from job title
+   * Extract experience level from a lower-cased job title
    */
-  private extractExperienceLevel(title: string): string {
+  static extractExperienceLevel(title: string): string {
     if (title.includes('senior') || title.includes('lead') || title.includes('principal')) {
       return 'senior';
     }
@@ -245,4 +253,12 @@ export class JobsSearchEngine extends SerpAPICore {
     }
     return 'mid';
   }
-} 
\ No newline at end of file
+
+  /**
+   * Whether a posting is remote (location, schedule or title mention)
+   */
+  static isRemote(job: SerpAPIJobResult): boolean {
+    const text = `${job.location || ''} ${job.schedule_type || ''} ${job.title}`.toLowerCase();
+    return text.includes('remote') || text.includes('anywhere') || text.includes('work from home');
+  }
+}
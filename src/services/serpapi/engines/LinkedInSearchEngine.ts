@@ -131,6 +131,20 @@ export class LinkedInSearchEngine extends SerpAPICore {
     }
   }
 
+  /**
+   * Company executives with caching (used for org chart inference)
+   */
+  async getExecutiveResults(companyName: string, options: CacheOptions = {}): Promise<SerpAPILinkedInResult[]> {
+    const cacheKey = this.generateCacheKey(companyName, 'linkedin_executives');
+
+    return this.getCachedOrFetch(
+      cacheKey,
+      CacheType.SERP_API_LINKEDIN_RESULTS,
+      () => this.getExecutives(companyName),
+      options
+    );
+  }
+
   /**
    * Find sales and business development contacts
    */
@@ -243,11 +257,11 @@ export class LinkedInSearchEngine extends SerpAPICore {
 
     profiles.forEach(profile => {
       // Analyze department from job title
-      const department = this.extractDepartmentFromTitle(profile.title);
+      const department = LinkedInSearchEngine.extractDepartmentFromTitle(profile.title);
       insights.departments[department] = (insights.departments[department] || 0) + 1;
 
       // Analyze seniority level
-      const level = this.extractSeniorityLevel(profile.title);
+      const level = LinkedInSearchEngine.extractSeniorityLevel(profile.title);
       insights.seniority[level] = (insights.seniority[level] || 0) + 1;
     });
 
@@ -257,7 +271,7 @@ export class LinkedInSearchEngine extends SerpAPICore {
   /**
    * Extract department from job title
    */
-  private extractDepartmentFromTitle(title: string): string {
+  static extractDepartmentFromTitle(title: string): string {
     const titleLower = title.toLowerCase();
     
     const departments = {
@@ -283,7 +297,7 @@ export class LinkedInSearchEngine extends SerpAPICore {
   /**
    * Extract seniority level from title
    */
-  private extractSeniorityLevel(title: string): string {
+  static extractSeniorityLevel(title: string): string {
     const titleLower = title.toLowerCase();
     
     if (titleLower.includes('senior') || titleLower.includes('lead') || titleLower.includes('principal')) {
@@ -7,6 +7,8 @@ import {
   SerpAPIConfig, 
   CacheOptions 
 } from '../types/SerpAPITypes';
+import { NewsEventPipeline } from '../../news/NewsEventPipeline';
+import { NewsPipelineResult } from '../../news/types/NewsEventTypes';
 
 export class NewsSearchEngine extends SerpAPICore {
   constructor(cacheService: CacheService, logger: Logger, config?: Partial<SerpAPIConfig>) {
@@ -74,6 +76,14 @@ export class NewsSearchEngine extends SerpAPICore {
       .slice(0, 10); // Limit to 10 results
   }
 
+  /**
+   * Get deduplicated, classified news events for a company (syndicated copies merged into one story)
+   */
+  async getNewsEvents(companyName: string, options: CacheOptions = {}): Promise<NewsPipelineResult> {
+    const articles = await this.getNewsResults(companyName, options);
+    return NewsEventPipeline.process(articles);
+  }
+
   /**
    * Search for recent news about a company
    */
@@ -16,6 +16,7 @@ export interface SerpAPIJobResult {
   description?: string;
   posted_at?: string;
   schedule_type?: string;
+  link?: string; // Google Jobs share link, else the first apply link
   salary?: {
     min?: number;
     max?: number;
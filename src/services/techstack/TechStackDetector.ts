@@ -0,0 +1,285 @@
+import * as cheerio from 'cheerio';
+import { SerpAPIJobResult } from '../serpapi/types/SerpAPITypes';
+import { TECH_STACK_RULES } from './TechStackRules';
+import {
+  DetectedTechnology,
+  ScannedPage,
+  TechCategory,
+  TechEvidence,
+  TechEvidenceSource,
+  TechFingerprintRule,
+  TechMatch,
+  TechStackDetection,
+  WebPageSnapshot
+} from './types/TechStackTypes';
+
+// How much a single piece of evidence says the technology is in use
+const SOURCE_WEIGHT: Record<TechEvidenceSource, number> = {
+  header: 0.9,
+  meta: 0.9,
+  script: 0.85,
+  html: 0.8,
+  cookie: 0.7,
+  job_posting: 0.45,
+  implied: 0              // Scored from the implying technology instead (see IMPLIED_FACTOR)
+};
+
+// An implied technology is almost as certain as the one implying it (Next.js always ships React)
+const IMPLIED_FACTOR = 0.9;
+
+const MAX_CONFIDENCE = 0.99;
+const MAX_EVIDENCE = 5;
+const EXCERPT_RADIUS = 60;
+
+const CATEGORIES: TechCategory[] = ['frontend', 'backend', 'infrastructure', 'analytics', 'security', 'collaboration'];
+
+/**
+ * Tech Stack Detector
+ *
+ * Fingerprints technologies from raw page markup, asset/CDN URLs, response headers and cookies, and
+ * from job-posting text, using the rules in TECH_STACK_RULES. Every detection carries its evidence.
+ */
+export class TechStackDetector {
+  static detect(input: {
+    company: string;
+    domain?: string;
+    pages?: WebPageSnapshot[];
+    jobs?: SerpAPIJobResult[];
+    pagesScanned?: ScannedPage[];
+  }): TechStackDetection {
+    const pages = input.pages || [];
+    const jobs = input.jobs || [];
+    const matches = [
+      ...pages.flatMap(page => this.scanPage(page)),
+      ...this.scanJobs(jobs)
+    ];
+
+    return this.summarize({
+      company: input.company,
+      domain: input.domain,
+      matches,
+      pagesScanned: input.pagesScanned || pages.map(page => ({ url: page.url, statusCode: page.statusCode })),
+      jobsScanned: jobs.length
+    });
+  }
+
+  /**
+   * Rule hits from one fetched page
+   */
+  static scanPage(page: WebPageSnapshot): TechMatch[] {
+    const matches: TechMatch[] = [];
+    const html = page.html || '';
+    const $ = cheerio.load(html);
+    const assetUrls = this.assetUrls($, page.url);
+    const meta = this.metaTags($);
+    const headers = this.normalizeHeaders(page.headers);
+    const cookies = this.cookieNames(headers['set-cookie']);
+
+    for (const rule of TECH_STACK_RULES) {
+      const add = (source: TechEvidenceSource, detail: string, url: string = page.url) => {
+        matches.push({ name: rule.name, evidence: { source, detail, url } });
+      };
+
+      for (const [header, pattern] of Object.entries(rule.headers || {})) {
+        const value = headers[header]?.join(', ');
+        if (value !== undefined && pattern.test(value)) {
+          add('header', `${header}: ${value.substring(0, 120)}`);
+        }
+      }
+
+      for (const [name, pattern] of Object.entries(rule.meta || {})) {
+        const content = meta[name];
+        if (content !== undefined && pattern.test(content)) {
+          add('meta', `<meta name="${name}" content="${content.substring(0, 120)}">`);
+        }
+      }
+
+      const script = assetUrls.find(url => rule.scripts?.some(pattern => pattern.test(url)));
+      if (script) {
+        add('script', script, script);
+      }
+
+      const cookie = cookies.find(name => rule.cookies?.some(pattern => pattern.test(name)));
+      if (cookie) {
+        add('cookie', `Sets cookie ${cookie}`);
+      }
+
+      for (const pattern of rule.html || []) {
+        const excerpt = this.excerpt(html, pattern);
+        if (excerpt) {
+          add('html', excerpt);
+          break;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Rule hits from job titles and descriptions; one hit per technology per posting
+   */
+  static scanJobs(jobs: SerpAPIJobResult[]): TechMatch[] {
+    const matches: TechMatch[] = [];
+
+    for (const job of jobs) {
+      const text = `${job.title || ''}\n${job.description || ''}`;
+
+      for (const rule of TECH_STACK_RULES) {
+        for (const pattern of rule.jobs || []) {
+          const excerpt = this.excerpt(text, pattern);
+          if (excerpt) {
+            matches.push({
+              name: rule.name,
+              evidence: { source: 'job_posting', detail: `${job.title}: "${excerpt}"`, url: job.link }
+            });
+            break;
+          }
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Combine rule hits per technology, add implied technologies and score confidence
+   */
+  static summarize(input: {
+    company: string;
+    domain?: string;
+    matches: TechMatch[];
+    pagesScanned: ScannedPage[];
+    jobsScanned: number;
+  }): TechStackDetection {
+    const rulesByName = new Map(TECH_STACK_RULES.map(rule => [rule.name, rule] as [string, TechFingerprintRule]));
+    const evidenceByName = new Map<string, TechEvidence[]>();
+
+    for (const match of input.matches) {
+      evidenceByName.set(match.name, [...(evidenceByName.get(match.name) || []), match.evidence]);
+    }
+
+    // Implications are one level deep (Next.js -> React), so a single pass over direct evidence is enough
+    const impliedWeights = new Map<string, number[]>();
+    Array.from(evidenceByName.entries()).forEach(([name, evidence]) => {
+      const weight = this.confidence(evidence) * IMPLIED_FACTOR;
+      for (const implied of rulesByName.get(name)?.implies || []) {
+        impliedWeights.set(implied, [...(impliedWeights.get(implied) || []), weight]);
+        evidenceByName.set(implied, [
+          ...(evidenceByName.get(implied) || []),
+          { source: 'implied', detail: `Implied by ${name}` }
+        ]);
+      }
+    });
+
+    const technologies: DetectedTechnology[] = [];
+    evidenceByName.forEach((evidence, name) => {
+      const rule = rulesByName.get(name);
+      if (!rule) return;
+
+      technologies.push({
+        name,
+        category: rule.category,
+        confidence: this.confidence(evidence, impliedWeights.get(name)),
+        sources: Array.from(new Set(evidence.map(item => item.source))),
+        evidence: this.dedupeEvidence(evidence).slice(0, MAX_EVIDENCE)
+      });
+    });
+
+    technologies.sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+
+    const byCategory = CATEGORIES.reduce((groups, category) => {
+      groups[category] = technologies.filter(tech => tech.category === category).map(tech => tech.name);
+      return groups;
+    }, {} as Record<TechCategory, string[]>);
+
+    return {
+      company: input.company,
+      domain: input.domain,
+      generatedAt: new Date().toISOString(),
+      technologies,
+      byCategory,
+      pagesScanned: input.pagesScanned,
+      jobsScanned: input.jobsScanned
+    };
+  }
+
+  /**
+   * Independent evidence combines as 1 - Π(1 - weight); website evidence dominates job mentions
+   */
+  private static confidence(evidence: TechEvidence[], impliedWeights: number[] = []): number {
+    const weights = [...evidence.map(item => SOURCE_WEIGHT[item.source]), ...impliedWeights];
+    const miss = weights.reduce((product, weight) => product * (1 - weight), 1);
+    return Math.round(Math.min(MAX_CONFIDENCE, 1 - miss) * 100) / 100;
+  }
+
+  /**
+   * Website evidence first, one entry per detail
+   */
+  private static dedupeEvidence(evidence: TechEvidence[]): TechEvidence[] {
+    const seen = new Set<string>();
+    return [...evidence]
+      .sort((a, b) => SOURCE_WEIGHT[b.source] - SOURCE_WEIGHT[a.source])
+      .filter(item => {
+        const key = `${item.source}:${item.detail}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Absolute URLs of scripts, stylesheets, preloads and iframes
+   */
+  private static assetUrls($: cheerio.CheerioAPI, pageUrl: string): string[] {
+    const urls = new Set<string>();
+    $('script[src], link[href], iframe[src]').each((_, element) => {
+      const value = $(element).attr('src') || $(element).attr('href');
+      if (!value || value.startsWith('data:')) return;
+      try {
+        urls.add(new URL(value, pageUrl).toString());
+      } catch {
+        urls.add(value);
+      }
+    });
+    return Array.from(urls);
+  }
+
+  private static metaTags($: cheerio.CheerioAPI): Record<string, string> {
+    const tags: Record<string, string> = {};
+    $('meta[name][content]').each((_, element) => {
+      const name = $(element).attr('name')?.toLowerCase();
+      if (name && tags[name] === undefined) {
+        tags[name] = $(element).attr('content') || '';
+      }
+    });
+    return tags;
+  }
+
+  private static normalizeHeaders(headers: Record<string, string | string[]> = {}): Record<string, string[]> {
+    const normalized: Record<string, string[]> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined || value === null) continue;
+      normalized[name.toLowerCase()] = Array.isArray(value) ? value.map(String) : [String(value)];
+    }
+    return normalized;
+  }
+
+  private static cookieNames(setCookie: string[] = []): string[] {
+    return setCookie
+      .map(cookie => cookie.split('=')[0]?.trim())
+      .filter((name): name is string => !!name);
+  }
+
+  /**
+   * Whitespace-collapsed text around the first match, or undefined when the pattern does not match
+   */
+  private static excerpt(text: string, pattern: RegExp): string | undefined {
+    const match = pattern.exec(text);
+    if (!match) return undefined;
+
+    const start = Math.max(0, match.index - EXCERPT_RADIUS);
+    const end = Math.min(text.length, match.index + match[0].length + EXCERPT_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.substring(start, end).replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+  }
+}
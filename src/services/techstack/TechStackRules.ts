@@ -0,0 +1,491 @@
+import { TechFingerprintRule } from './types/TechStackTypes';
+
+/**
+ * Technology fingerprint rules
+ *
+ * Website patterns are strong evidence (the technology is running on the site); job-posting patterns
+ * are weaker (the company hires for it). Keep job patterns specific enough to avoid generic words.
+ */
+export const TECH_STACK_RULES: TechFingerprintRule[] = [
+  // Frontend
+  {
+    name: 'React',
+    category: 'frontend',
+    html: [/data-reactroot/i, /data-reactid/i],
+    scripts: [/\breact(-dom)?(\.production)?(\.min)?\.js/i],
+    jobs: [/\breact(\.js|js)?\b(?! native)/i]
+  },
+  {
+    name: 'Next.js',
+    category: 'frontend',
+    html: [/id="__NEXT_DATA__"/i],
+    scripts: [/\/_next\/static\//i],
+    headers: { 'x-powered-by': /next\.js/i },
+    jobs: [/\bnext\.?js\b/i],
+    implies: ['React']
+  },
+  {
+    name: 'Gatsby',
+    category: 'frontend',
+    html: [/id="___gatsby"/i],
+    meta: { generator: /gatsby/i },
+    implies: ['React']
+  },
+  {
+    name: 'Vue.js',
+    category: 'frontend',
+    html: [/\bdata-v-[0-9a-f]{8}\b/i],
+    scripts: [/\bvue(\.runtime)?(\.global)?(\.prod)?(\.min)?\.js/i],
+    jobs: [/\bvue(\.js|js)?\b/i]
+  },
+  {
+    name: 'Nuxt.js',
+    category: 'frontend',
+    html: [/window\.__NUXT__/i],
+    scripts: [/\/_nuxt\//i],
+    jobs: [/\bnuxt(\.js)?\b/i],
+    implies: ['Vue.js']
+  },
+  {
+    name: 'Angular',
+    category: 'frontend',
+    html: [/\bng-version="/i],
+    jobs: [/\bangular\b(?!\.?js)/i]
+  },
+  {
+    name: 'Svelte',
+    category: 'frontend',
+    html: [/class="[^"]*\bsvelte-[a-z0-9]{5,}/i],
+    jobs: [/\bsvelte(kit)?\b/i]
+  },
+  {
+    name: 'jQuery',
+    category: 'frontend',
+    scripts: [/\bjquery[.-]?(\d[\d.]*)?(\.min)?\.js/i]
+  },
+  {
+    name: 'Bootstrap',
+    category: 'frontend',
+    scripts: [/\bbootstrap(\.bundle)?(\.min)?\.(css|js)/i]
+  },
+  {
+    name: 'TypeScript',
+    category: 'frontend',
+    jobs: [/\btypescript\b/i]
+  },
+
+  // Backend
+  {
+    name: 'Node.js',
+    category: 'backend',
+    jobs: [/\bnode(\.js|js)\b/i]
+  },
+  {
+    name: 'Express',
+    category: 'backend',
+    headers: { 'x-powered-by': /\bexpress\b/i },
+    implies: ['Node.js']
+  },
+  {
+    name: 'PHP',
+    category: 'backend',
+    headers: { 'x-powered-by': /\bphp\b/i },
+    cookies: [/^PHPSESSID$/],
+    jobs: [/\bphp\b/i]
+  },
+  {
+    name: 'WordPress',
+    category: 'backend',
+    html: [/\/wp-(content|includes)\//i],
+    meta: { generator: /wordpress/i },
+    headers: { link: /api\.w\.org/i },
+    implies: ['PHP']
+  },
+  {
+    name: 'Drupal',
+    category: 'backend',
+    html: [/drupal-settings-json|Drupal\.settings/i],
+    headers: { 'x-generator': /drupal/i, 'x-drupal-cache': /./ },
+    meta: { generator: /drupal/i },
+    implies: ['PHP']
+  },
+  {
+    name: 'Webflow',
+    category: 'backend',
+    html: [/\bdata-wf-(page|site)=/i],
+    meta: { generator: /webflow/i }
+  },
+  {
+    name: 'Shopify',
+    category: 'backend',
+    scripts: [/cdn\.shopify\.com/i],
+    headers: { 'x-shopid': /./, 'x-shopify-stage': /./ }
+  },
+  {
+    name: 'Ruby on Rails',
+    category: 'backend',
+    html: [/<meta name="csrf-param" content="authenticity_token"/i],
+    jobs: [/\bruby on rails\b|\brails\b/i]
+  },
+  {
+    name: 'Django',
+    category: 'backend',
+    html: [/name="csrfmiddlewaretoken"/i],
+    jobs: [/\bdjango\b/i],
+    implies: ['Python']
+  },
+  {
+    name: 'Python',
+    category: 'backend',
+    jobs: [/\bpython\b/i]
+  },
+  {
+    name: 'Java',
+    category: 'backend',
+    cookies: [/^JSESSIONID$/],
+    jobs: [/\bjava\b(?!\s*script)/i]
+  },
+  {
+    name: 'Spring',
+    category: 'backend',
+    jobs: [/\bspring (boot|framework)\b/i],
+    implies: ['Java']
+  },
+  {
+    name: 'ASP.NET',
+    category: 'backend',
+    headers: { 'x-aspnet-version': /./, 'x-powered-by': /asp\.net/i },
+    cookies: [/^ASP\.NET_SessionId$/i],
+    jobs: [/\basp\.net\b|\.net core\b|\bc#/i]
+  },
+  {
+    name: 'Go',
+    category: 'backend',
+    jobs: [/\bgolang\b|\bgo \(golang\)|\bgo(lang)? developer\b/i]
+  },
+
+  // Infrastructure
+  {
+    name: 'AWS',
+    category: 'infrastructure',
+    scripts: [/\.amazonaws\.com\//i],
+    headers: { server: /amazons3/i, 'x-amz-request-id': /./ },
+    jobs: [/\baws\b|\bamazon web services\b/i]
+  },
+  {
+    name: 'Amazon CloudFront',
+    category: 'infrastructure',
+    scripts: [/\.cloudfront\.net\//i],
+    headers: { via: /cloudfront/i, 'x-amz-cf-id': /./ },
+    implies: ['AWS']
+  },
+  {
+    name: 'Google Cloud',
+    category: 'infrastructure',
+    scripts: [/storage\.googleapis\.com\//i],
+    headers: { via: /\bgoogle\b/i },
+    jobs: [/\bgcp\b|\bgoogle cloud( platform)?\b/i]
+  },
+  {
+    name: 'Microsoft Azure',
+    category: 'infrastructure',
+    scripts: [/\.azureedge\.net\/|\.blob\.core\.windows\.net\//i],
+    headers: { 'x-azure-ref': /./, 'x-ms-request-id': /./ },
+    jobs: [/\bazure\b(?! ad\b)/i]
+  },
+  {
+    name: 'Cloudflare',
+    category: 'infrastructure',
+    scripts: [/cdnjs\.cloudflare\.com|\/cdn-cgi\//i],
+    headers: { server: /cloudflare/i, 'cf-ray': /./ },
+    cookies: [/^__cf_bm$/, /^__cflb$/]
+  },
+  {
+    name: 'Fastly',
+    category: 'infrastructure',
+    headers: { 'x-fastly-request-id': /./, 'x-served-by': /\bcache-[a-z]{3}/i }
+  },
+  {
+    name: 'Akamai',
+    category: 'infrastructure',
+    headers: { server: /akamai/i, 'x-akamai-transformed': /./ }
+  },
+  {
+    name: 'Vercel',
+    category: 'infrastructure',
+    headers: { server: /vercel/i, 'x-vercel-id': /./ }
+  },
+  {
+    name: 'Netlify',
+    category: 'infrastructure',
+    headers: { server: /netlify/i, 'x-nf-request-id': /./ }
+  },
+  {
+    name: 'Heroku',
+    category: 'infrastructure',
+    headers: { via: /vegur/i },
+    jobs: [/\bheroku\b/i]
+  },
+  {
+    name: 'Nginx',
+    category: 'infrastructure',
+    headers: { server: /nginx/i }
+  },
+  {
+    name: 'Apache HTTP Server',
+    category: 'infrastructure',
+    headers: { server: /^apache/i }
+  },
+  {
+    name: 'Kubernetes',
+    category: 'infrastructure',
+    jobs: [/\bkubernetes\b|\bk8s\b|\beks\b|\bgke\b|\baks\b/i]
+  },
+  {
+    name: 'Docker',
+    category: 'infrastructure',
+    jobs: [/\bdocker\b/i]
+  },
+  {
+    name: 'Terraform',
+    category: 'infrastructure',
+    jobs: [/\bterraform\b/i]
+  },
+  {
+    name: 'Datadog',
+    category: 'infrastructure',
+    scripts: [/datadoghq-browser-agent|browser-intake-datadoghq/i],
+    html: [/\bDD_RUM\b/],
+    jobs: [/\bdatadog\b/i]
+  },
+  {
+    name: 'New Relic',
+    category: 'infrastructure',
+    scripts: [/js-agent\.newrelic\.com/i],
+    html: [/\bNREUM\b/],
+    jobs: [/\bnew relic\b/i]
+  },
+  {
+    name: 'Sentry',
+    category: 'infrastructure',
+    scripts: [/browser\.sentry-cdn\.com|\.ingest\.sentry\.io/i],
+    jobs: [/\bsentry\b/i]
+  },
+
+  // Analytics
+  {
+    name: 'Google Analytics',
+    category: 'analytics',
+    scripts: [/google-analytics\.com\/(analytics|ga)\.js|googletagmanager\.com\/gtag\/js/i],
+    html: [/\bgtag\(\s*['"]config['"]\s*,\s*['"](G|UA)-/i, /\bga\(\s*['"]create['"]/i],
+    jobs: [/\bgoogle analytics\b|\bga4\b/i]
+  },
+  {
+    name: 'Google Tag Manager',
+    category: 'analytics',
+    scripts: [/googletagmanager\.com\/gtm\.js/i],
+    html: [/\bGTM-[A-Z0-9]{4,}\b/]
+  },
+  {
+    name: 'Segment',
+    category: 'analytics',
+    scripts: [/cdn\.segment\.(com|io)\/analytics\.js/i],
+    jobs: [/\bsegment(\.io| cdp)\b/i]
+  },
+  {
+    name: 'Mixpanel',
+    category: 'analytics',
+    scripts: [/cdn\.mxpnl\.com|cdn4\.mxpnl\.com/i],
+    html: [/mixpanel\.init\(/i],
+    jobs: [/\bmixpanel\b/i]
+  },
+  {
+    name: 'Amplitude',
+    category: 'analytics',
+    scripts: [/cdn\.amplitude\.com/i],
+    jobs: [/\bamplitude\b/i]
+  },
+  {
+    name: 'Heap',
+    category: 'analytics',
+    scripts: [/cdn\.heapanalytics\.com/i],
+    jobs: [/\bheap analytics\b/i]
+  },
+  {
+    name: 'Hotjar',
+    category: 'analytics',
+    scripts: [/static\.hotjar\.com/i],
+    html: [/\bhjid\s*:\s*\d+/i]
+  },
+  {
+    name: 'FullStory',
+    category: 'analytics',
+    scripts: [/fullstory\.com\/s\/fs\.js|edge\.fullstory\.com/i],
+    jobs: [/\bfullstory\b/i]
+  },
+  {
+    name: 'Adobe Analytics',
+    category: 'analytics',
+    scripts: [/assets\.adobedtm\.com|\.omtrdc\.net/i],
+    jobs: [/\badobe analytics\b/i]
+  },
+  {
+    name: 'HubSpot',
+    category: 'analytics',
+    scripts: [/js\.hs-scripts\.com|js\.hsforms\.net|js\.hs-analytics\.net/i],
+    cookies: [/^hubspotutk$/],
+    jobs: [/\bhubspot\b/i]
+  },
+  {
+    name: 'Marketo',
+    category: 'analytics',
+    scripts: [/munchkin\.marketo\.net/i],
+    jobs: [/\bmarketo\b/i]
+  },
+  {
+    name: 'Snowflake',
+    category: 'analytics',
+    jobs: [/\bsnowflake\b/i]
+  },
+  {
+    name: 'Tableau',
+    category: 'analytics',
+    jobs: [/\btableau\b/i]
+  },
+  {
+    name: 'Looker',
+    category: 'analytics',
+    jobs: [/\blooker\b/i]
+  },
+
+  // Security
+  {
+    name: 'Okta',
+    category: 'security',
+    scripts: [/\.okta\.com\/|ok\d+static\.oktacdn\.com/i],
+    jobs: [/\bokta\b/i]
+  },
+  {
+    name: 'Auth0',
+    category: 'security',
+    scripts: [/cdn\.auth0\.com|\.auth0\.com\//i],
+    jobs: [/\bauth0\b/i]
+  },
+  {
+    name: 'Microsoft Entra ID',
+    category: 'security',
+    scripts: [/login\.microsoftonline\.com/i],
+    jobs: [/\bazure ad\b|\bazure active directory\b|\bentra id\b/i]
+  },
+  {
+    name: 'Google reCAPTCHA',
+    category: 'security',
+    scripts: [/google\.com\/recaptcha|gstatic\.com\/recaptcha/i]
+  },
+  {
+    name: 'hCaptcha',
+    category: 'security',
+    scripts: [/hcaptcha\.com\/1\/api\.js|js\.hcaptcha\.com/i]
+  },
+  {
+    name: 'Imperva',
+    category: 'security',
+    headers: { 'x-iinfo': /./, 'x-cdn': /incapsula|imperva/i },
+    cookies: [/^incap_ses_/, /^visid_incap_/]
+  },
+  {
+    name: 'HUMAN (PerimeterX)',
+    category: 'security',
+    scripts: [/client\.perimeterx\.net|client\.px-cdn\.net/i],
+    cookies: [/^_px(3|vid|hd)?$/]
+  },
+  {
+    name: 'OneTrust',
+    category: 'security',
+    scripts: [/cdn\.cookielaw\.org|optanon/i]
+  },
+  {
+    name: 'CrowdStrike',
+    category: 'security',
+    jobs: [/\bcrowdstrike\b|\bfalcon (edr|sensor)\b/i]
+  },
+  {
+    name: 'Palo Alto Networks',
+    category: 'security',
+    jobs: [/\bpalo alto networks\b|\bprisma (cloud|access)\b|\bcortex xsoar\b/i]
+  },
+  {
+    name: 'Zscaler',
+    category: 'security',
+    jobs: [/\bzscaler\b/i]
+  },
+  {
+    name: 'Splunk',
+    category: 'security',
+    jobs: [/\bsplunk\b/i]
+  },
+
+  // Collaboration
+  {
+    name: 'Slack',
+    category: 'collaboration',
+    jobs: [/\bslack\b/i]
+  },
+  {
+    name: 'Microsoft Teams',
+    category: 'collaboration',
+    jobs: [/\bmicrosoft teams\b|\bms teams\b/i]
+  },
+  {
+    name: 'Zoom',
+    category: 'collaboration',
+    jobs: [/\bzoom\b/i]
+  },
+  {
+    name: 'Jira',
+    category: 'collaboration',
+    jobs: [/\bjira\b/i]
+  },
+  {
+    name: 'Confluence',
+    category: 'collaboration',
+    jobs: [/\bconfluence\b/i]
+  },
+  {
+    name: 'Notion',
+    category: 'collaboration',
+    jobs: [/\bnotion\b(?! of)/i]
+  },
+  {
+    name: 'Asana',
+    category: 'collaboration',
+    jobs: [/\basana\b/i]
+  },
+  {
+    name: 'GitHub',
+    category: 'collaboration',
+    jobs: [/\bgithub\b/i]
+  },
+  {
+    name: 'GitLab',
+    category: 'collaboration',
+    jobs: [/\bgitlab\b/i]
+  },
+  {
+    name: 'Zendesk',
+    category: 'collaboration',
+    scripts: [/static\.zdassets\.com|\.zendesk\.com\//i],
+    jobs: [/\bzendesk\b/i]
+  },
+  {
+    name: 'Intercom',
+    category: 'collaboration',
+    scripts: [/widget\.intercom\.io|js\.intercomcdn\.com/i],
+    jobs: [/\bintercom\b/i]
+  },
+  {
+    name: 'Drift',
+    category: 'collaboration',
+    scripts: [/js\.driftt\.com/i]
+  }
+];
@@ -0,0 +1,115 @@
+import { CacheService } from '../core/CacheService';
+import { Logger } from '../core/Logger';
+import { ContentFetcher } from '../content/ContentFetcher';
+import { CompanyExtractor } from '../utilities/CompanyExtractor';
+import { SerpAPIJobResult } from '../serpapi/types/SerpAPITypes';
+import { CacheType } from '../../types/cache-types';
+import { TechStackDetector } from './TechStackDetector';
+import { ScannedPage, TechMatch, TechStackDetection } from './types/TechStackTypes';
+
+// Pages fetched per domain; the homepage carries nearly all script/CDN and header fingerprints
+const DEFAULT_PAGE_PATHS = (process.env.TECH_STACK_PAGE_PATHS || '/').split(',').map(path => path.trim()).filter(Boolean);
+
+interface CachedWebsiteScan {
+  domain: string;
+  matches: TechMatch[];
+  pagesScanned: ScannedPage[];
+  scannedAt: string;
+}
+
+/**
+ * Tech Stack Service
+ *
+ * Fetches a company's website, fingerprints it (cached per domain for a week) and combines the
+ * result with whatever job postings the caller already has.
+ */
+export class TechStackService {
+  private readonly cacheService: CacheService;
+  private readonly logger: Logger;
+  private readonly contentFetcher: ContentFetcher;
+
+  constructor(cacheService: CacheService, logger: Logger, contentFetcher?: ContentFetcher) {
+    this.cacheService = cacheService;
+    this.logger = logger;
+    this.contentFetcher = contentFetcher || new ContentFetcher(logger);
+  }
+
+  async detect(
+    company: string,
+    options: { website?: string; jobs?: SerpAPIJobResult[]; forceRefresh?: boolean } = {}
+  ): Promise<TechStackDetection> {
+    const domain = options.website ? TechStackService.normalizeDomain(options.website) : undefined;
+    const jobs = options.jobs || [];
+
+    const scan = domain ? await this.scanWebsite(domain, options.forceRefresh) : undefined;
+    const detection = TechStackDetector.summarize({
+      company,
+      domain,
+      matches: [...(scan?.matches || []), ...TechStackDetector.scanJobs(jobs)],
+      pagesScanned: scan?.pagesScanned || [],
+      jobsScanned: jobs.length
+    });
+
+    this.logger.info('Tech stack detected', {
+      company,
+      domain,
+      technologies: detection.technologies.length,
+      pagesScanned: detection.pagesScanned.length,
+      jobsScanned: detection.jobsScanned
+    });
+
+    return detection;
+  }
+
+  /**
+   * acme.com, www.acme.com and https://www.acme.com/about all scan acme.com
+   */
+  static normalizeDomain(website: string): string | undefined {
+    const value = website.trim();
+    if (!value) return undefined;
+
+    const hostname = CompanyExtractor.extractDomain(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    return hostname ? hostname.toLowerCase().replace(/^www\./, '') : undefined;
+  }
+
+  /**
+   * Website rule hits for a domain, from cache unless a refresh is forced
+   */
+  private async scanWebsite(domain: string, forceRefresh?: boolean): Promise<CachedWebsiteScan> {
+    const cacheKey = `tech_stack:${domain}`;
+
+    if (!forceRefresh) {
+      const cached = await this.cacheService.getRawJSON(cacheKey) as CachedWebsiteScan | null;
+      if (cached?.matches) {
+        this.logger.debug('Tech stack website scan cache hit', { domain, cacheKey });
+        return cached;
+      }
+    }
+
+    const matches: TechMatch[] = [];
+    const pagesScanned: ScannedPage[] = [];
+
+    for (const path of DEFAULT_PAGE_PATHS) {
+      const page = await this.contentFetcher.fetchPage(`https://${domain}${path.startsWith('/') ? path : `/${path}`}`);
+      pagesScanned.push({ url: page.url, statusCode: page.statusCode, error: page.error });
+
+      if (page.html) {
+        matches.push(...TechStackDetector.scanPage({
+          url: page.url,
+          html: page.html,
+          headers: page.headers,
+          statusCode: page.statusCode
+        }));
+      }
+    }
+
+    const scan: CachedWebsiteScan = { domain, matches, pagesScanned, scannedAt: new Date().toISOString() };
+
+    // Failed fetches are not cached so the next request retries the site
+    if (pagesScanned.some(page => !page.error)) {
+      await this.cacheService.setRawJSON(cacheKey, scan, CacheType.TECH_STACK_DETECTION);
+    }
+
+    return scan;
+  }
+}
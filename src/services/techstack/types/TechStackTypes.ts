@@ -0,0 +1,75 @@
+/**
+ * Tech Stack Types
+ *
+ * Type definitions for technology fingerprinting from website content and job postings
+ */
+
+/**
+ * Same buckets as CustomerIntelligenceOutput.tech_stack
+ */
+export type TechCategory = 'frontend' | 'backend' | 'infrastructure' | 'analytics' | 'security' | 'collaboration';
+
+export type TechEvidenceSource = 'html' | 'script' | 'header' | 'cookie' | 'meta' | 'job_posting' | 'implied';
+
+/**
+ * One entry in the fingerprint rules database. Every pattern is optional; a rule matches when any of them does.
+ */
+export interface TechFingerprintRule {
+  name: string;
+  category: TechCategory;
+  html?: RegExp[];                     // Raw page markup, including inline scripts
+  scripts?: RegExp[];                  // <script src>, <link href> and other asset/CDN URLs
+  headers?: Record<string, RegExp>;    // Lower-case response header name -> value pattern
+  cookies?: RegExp[];                  // Cookie names from set-cookie
+  meta?: Record<string, RegExp>;       // <meta name> -> content pattern (e.g. generator)
+  jobs?: RegExp[];                     // Job title + description text
+  implies?: string[];                  // Other rules implied by a match (Next.js -> React)
+}
+
+export interface TechEvidence {
+  source: TechEvidenceSource;
+  detail: string;                      // Matched URL, header, markup excerpt or job title
+  url?: string;                        // Where the evidence can be checked
+}
+
+/**
+ * A single rule hit, before hits are combined per technology
+ */
+export interface TechMatch {
+  name: string;
+  evidence: TechEvidence;
+}
+
+export interface DetectedTechnology {
+  name: string;
+  category: TechCategory;
+  confidence: number;                  // 0-1, grows with independent evidence
+  sources: TechEvidenceSource[];
+  evidence: TechEvidence[];
+}
+
+/**
+ * Raw page as fetched, before text extraction strips the markup
+ */
+export interface WebPageSnapshot {
+  url: string;
+  html: string;
+  headers: Record<string, string | string[]>;
+  statusCode?: number;
+}
+
+export interface ScannedPage {
+  url: string;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface TechStackDetection {
+  company: string;
+  domain?: string;
+  generatedAt: string;
+  technologies: DetectedTechnology[];
+  byCategory: Record<TechCategory, string[]>;
+  pagesScanned: ScannedPage[];
+  jobsScanned: number;
+}
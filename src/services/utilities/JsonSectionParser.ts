@@ -0,0 +1,221 @@
+import { Logger } from '../core/Logger';
+import { JsonExtractor } from './JsonExtractor';
+
+/**
+ * A completed top-level property of the JSON document being streamed
+ */
+export interface JsonSection<T = any> {
+  key: string;
+  value: T;
+  index: number;  // Order the section completed in (0-based)
+}
+
+/**
+ * Incremental JSON section parser for streamed LLM output
+ *
+ * Feed text chunks as they arrive; every top-level property of the root object
+ * (talking_points, news_signals, ...) is returned as soon as its value is complete.
+ * Leading prose and ```json fences are skipped. The complete document is parsed
+ * with JsonExtractor once the stream ends.
+ */
+export class JsonSectionParser {
+  private buffer = '';
+  private position = 0;
+  private started = false;
+  private finished = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+
+  // Top-level parsing state (only tracked at depth 1)
+  private expecting: 'key' | 'colon' | 'value' | 'comma' = 'key';
+  private currentKey: string | null = null;
+  private tokenStart = -1;
+
+  private sections: JsonSection[] = [];
+  private logger?: Logger;
+  private context: string;
+
+  constructor(options?: { logger?: Logger; context?: string }) {
+    this.logger = options?.logger;
+    this.context = options?.context || 'LLM stream';
+  }
+
+  /**
+   * Append a chunk and return any sections completed by it
+   */
+  feed(chunk: string): JsonSection[] {
+    this.buffer += chunk;
+    const completed: JsonSection[] = [];
+
+    for (; this.position < this.buffer.length && !this.finished; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (!this.started) {
+        if (char === '{') {
+          this.started = true;
+          this.depth = 1;
+          this.expecting = 'key';
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.onStringClosed(completed);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          if (this.depth === 1 && (this.expecting === 'key' || this.expecting === 'value')) {
+            this.tokenStart = this.position;
+          }
+          break;
+        case ':':
+          if (this.depth === 1 && this.expecting === 'colon') {
+            this.expecting = 'value';
+            this.tokenStart = -1;
+          }
+          break;
+        case '{':
+        case '[':
+          if (this.depth === 1 && this.expecting === 'value' && this.tokenStart === -1) {
+            this.tokenStart = this.position;
+          }
+          this.depth++;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.depth === 1 && this.expecting === 'value' && this.tokenStart !== -1) {
+            this.completeSection(this.buffer.substring(this.tokenStart, this.position + 1), completed);
+          } else if (this.depth === 0) {
+            // Root closed - a trailing primitive value ends here
+            if (this.expecting === 'value' && this.tokenStart !== -1) {
+              this.completeSection(this.buffer.substring(this.tokenStart, this.position), completed);
+            }
+            this.finished = true;
+          }
+          break;
+        case ',':
+          if (this.depth === 1) {
+            if (this.expecting === 'value' && this.tokenStart !== -1) {
+              this.completeSection(this.buffer.substring(this.tokenStart, this.position), completed);
+            }
+            this.expecting = 'key';
+          }
+          break;
+        default:
+          // Start of a primitive (number, true, false, null) at the top level
+          if (this.depth === 1 && this.expecting === 'value' && this.tokenStart === -1 && !/\s/.test(char)) {
+            this.tokenStart = this.position;
+          }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Parse the complete document once the stream has ended.
+   * Falls back to the sections seen so far if the document is truncated or malformed.
+   */
+  finish<T = any>(): T | null {
+    const parsed = JsonExtractor.extractAndParse<T>(this.buffer, {
+      logErrors: true,
+      context: this.context
+    });
+
+    if (parsed) {
+      return parsed;
+    }
+
+    if (this.sections.length === 0) {
+      return null;
+    }
+
+    this.logger?.warn('Streamed JSON incomplete, assembling from completed sections', {
+      context: this.context,
+      sections: this.sections.map(section => section.key),
+      bufferLength: this.buffer.length
+    });
+
+    const assembled: Record<string, any> = {};
+    for (const section of this.sections) {
+      assembled[section.key] = section.value;
+    }
+    return assembled as T;
+  }
+
+  /**
+   * Sections completed so far
+   */
+  getSections(): JsonSection[] {
+    return [...this.sections];
+  }
+
+  /**
+   * Full text received so far
+   */
+  getText(): string {
+    return this.buffer;
+  }
+
+  private onStringClosed(completed: JsonSection[]): void {
+    if (this.depth !== 1 || this.tokenStart === -1) {
+      return;
+    }
+
+    const raw = this.buffer.substring(this.tokenStart, this.position + 1);
+
+    if (this.expecting === 'key') {
+      this.currentKey = this.parseValue(raw);
+      this.expecting = 'colon';
+      this.tokenStart = -1;
+    } else if (this.expecting === 'value') {
+      this.completeSection(raw, completed);
+    }
+  }
+
+  private completeSection(raw: string, completed: JsonSection[]): void {
+    const key = this.currentKey;
+    this.expecting = 'comma';
+    this.tokenStart = -1;
+    this.currentKey = null;
+
+    if (key === null) {
+      return;
+    }
+
+    const text = raw.trim();
+    if (!JsonExtractor.isValidJson(text)) {
+      // Leave it to finish(), which applies JsonExtractor's cleanup to the whole document
+      this.logger?.debug('Skipping unparseable streamed section', {
+        context: this.context,
+        key,
+        length: text.length
+      });
+      return;
+    }
+
+    const section: JsonSection = { key, value: JSON.parse(text), index: this.sections.length };
+    this.sections.push(section);
+    completed.push(section);
+  }
+
+  private parseValue(raw: string): string | null {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+}
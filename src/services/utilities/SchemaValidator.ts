@@ -0,0 +1,152 @@
+/**
+ * Minimal JSON Schema validator for LLM output
+ *
+ * Supports the subset of JSON Schema (draft-07) used by our output schemas:
+ * type, properties, required, items, enum, minimum, maximum, minItems, additionalProperties.
+ * Errors are collected (not thrown) so they can be fed back to the model verbatim.
+ */
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface SchemaValidationError {
+  path: string;      // JSONPath-style location, e.g. $.news_signals[2].signal_type
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+const MAX_ERRORS = 50;
+
+export class SchemaValidator {
+  /**
+   * Validate a value against a schema, collecting up to MAX_ERRORS errors
+   */
+  static validate(value: any, schema: JsonSchema): SchemaValidationResult {
+    const errors: SchemaValidationError[] = [];
+    this.validateNode(value, schema, '$', errors);
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Render errors as a bullet list (for logs and repair prompts)
+   */
+  static formatErrors(errors: SchemaValidationError[], limit = 20): string {
+    const lines = errors.slice(0, limit).map(error => `- ${error.path}: ${error.message}`);
+    if (errors.length > limit) {
+      lines.push(`- ...and ${errors.length - limit} more`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Build a JsonSchema from an example-shaped template (as in schemas/*-deep-dive-schema.json):
+   * "string" / "number" / "boolean" become types, "a|b|c" becomes an enum, [x] an array of x
+   * and objects require all of their keys. Other string literals are treated as plain strings.
+   * Plain string leaves also accept null so the model can mark values it could not find.
+   */
+  static fromTemplate(template: any): JsonSchema {
+    if (Array.isArray(template)) {
+      return template.length > 0
+        ? { type: 'array', items: this.fromTemplate(template[0]) }
+        : { type: 'array' };
+    }
+
+    if (template !== null && typeof template === 'object') {
+      const properties: Record<string, JsonSchema> = {};
+      for (const [key, child] of Object.entries(template)) {
+        properties[key] = this.fromTemplate(child);
+      }
+      return { type: 'object', properties, required: Object.keys(properties) };
+    }
+
+    if (typeof template === 'string') {
+      if (template === 'number' || template === 'boolean') {
+        return { type: template };
+      }
+      if (template.includes('|')) {
+        return { type: 'string', enum: template.split('|').map(option => option.trim()) };
+      }
+      return { type: ['string', 'null'] };
+    }
+
+    return {};
+  }
+
+  private static validateNode(value: any, schema: JsonSchema, path: string, errors: SchemaValidationError[]): void {
+    if (errors.length >= MAX_ERRORS) return;
+
+    if (schema.type) {
+      const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const actual = this.typeOf(value);
+      const matches = allowed.some(type => type === actual || (type === 'number' && actual === 'integer'));
+      if (!matches) {
+        errors.push({ path, message: `expected ${allowed.join(' or ')}, got ${actual}` });
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push({ path, message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}` });
+      return;
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path, message: `must be >= ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path, message: `must be <= ${schema.maximum}` });
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ path, message: `must contain at least ${schema.minItems} item(s)` });
+      }
+      if (schema.items) {
+        value.forEach((item, index) => this.validateNode(item, schema.items!, `${path}[${index}]`, errors));
+      }
+      return;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      for (const key of schema.required || []) {
+        if (value[key] === undefined) {
+          errors.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+
+      for (const [key, child] of Object.entries(value)) {
+        const propertySchema = schema.properties?.[key];
+        if (propertySchema) {
+          this.validateNode(child, propertySchema, `${path}.${key}`, errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+        }
+      }
+    }
+  }
+
+  private static typeOf(value: any): JsonSchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value as JsonSchemaType;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * BrightData Stub Server
+ *
+ * Minimal local stand-in for the BrightData Datasets API (POST /scrape) so BrightDataService
+ * and the brightdata collection path can be exercised without a real account.
+ *
+ * Usage:
+ *   const stub = await startBrightDataStub();
+ *   process.env.BRIGHTDATA_BASE_URL = stub.url;
+ *   process.env.BRIGHTDATA_API_KEY = 'stub-key';
+ *   ...
+ *   await stub.close();
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+export interface BrightDataStub {
+  url: string;
+  requests: Array<{ path: string; body: any }>;
+  close(): Promise<void>;
+}
+
+export interface BrightDataStubOptions {
+  port?: number;
+  apiKey?: string;                          // Reject requests without this bearer token when set
+  records?: Record<string, any>;            // Company slug -> record override
+  failWith?: number;                        // Force every request to fail with this status
+}
+
+export async function startBrightDataStub(options: BrightDataStubOptions = {}): Promise<BrightDataStub> {
+  const requests: Array<{ path: string; body: any }> = [];
+
+  const server: Server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readBody(req);
+    requests.push({ path: req.url || '', body });
+
+    if (options.failWith) {
+      return sendJSON(res, options.failWith, { error: 'Stubbed failure' });
+    }
+
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      return sendJSON(res, 401, { error: 'Unauthorized' });
+    }
+
+    if (req.method !== 'POST' || !req.url?.startsWith('/scrape')) {
+      return sendJSON(res, 404, { error: 'Not found' });
+    }
+
+    const inputs: Array<{ url: string }> = Array.isArray(body) ? body : [];
+    const records = inputs.map(input => {
+      const slug = (input.url || '').split('/company/')[1]?.replace(/\/$/, '') || '';
+      if (!slug) {
+        return { input, error: 'Invalid company URL' };
+      }
+      return options.records?.[slug] || buildSampleRecord(slug, input.url);
+    });
+
+    return sendJSON(res, 200, records);
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port || 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+  };
+}
+
+/**
+ * Sample record in the shape of the BrightData LinkedIn company dataset
+ */
+function buildSampleRecord(slug: string, url: string): any {
+  const name = slug.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+  return {
+    input: { url },
+    url,
+    name,
+    about: `${name} builds software for modern businesses.`,
+    industries: 'Software Development',
+    company_size: '1,001-5,000 employees',
+    employees_in_linkedin: 2400,
+    founded: 2012,
+    headquarters: 'San Francisco, California',
+    website: `https://www.${slug.replace(/-/g, '')}.com`,
+    specialties: 'Cloud, Analytics, Security',
+    employees: [
+      { title: 'Jane Smith', subtitle: 'Chief Technology Officer', link: `https://www.linkedin.com/in/${slug}-jane-smith` },
+      { title: 'Alex Chen', subtitle: 'VP of Sales', link: `https://www.linkedin.com/in/${slug}-alex-chen` },
+      { title: 'Priya Patel', subtitle: 'Director of Security Engineering', link: `https://www.linkedin.com/in/${slug}-priya-patel` }
+    ]
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<any> {
+  return new Promise(resolve => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : null);
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+function sendJSON(res: ServerResponse, statusCode: number, payload: any): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
@@ -0,0 +1,219 @@
+import { createHash } from 'crypto';
+import { MultiSourceData } from '../../types/orchestrator-types';
+import { SerpAPIJobResult } from '../serpapi/types/SerpAPITypes';
+import { CompanySnapshot, SnapshotSources, WatchlistAlert, WatchlistAlertType } from './types/WatchlistTypes';
+
+const MAX_SNAPSHOT_NEWS = 30;
+const MAX_SNAPSHOT_JOB_TITLES = 100;
+const MAX_SNAPSHOT_PEOPLE = 50;
+
+// Hiring spike: job count grew by at least this ratio AND this many postings
+const HIRING_SPIKE_RATIO = parseFloat(process.env.WATCHLIST_HIRING_SPIKE_RATIO || '1.5');
+const HIRING_SPIKE_MIN_INCREASE = parseInt(process.env.WATCHLIST_HIRING_SPIKE_MIN_INCREASE || '5');
+
+const FUNDING_PATTERN = /\b(raise[sd]?|raising|funding|series [a-h]\b|seed round|investment|invests?|valuation|ipo|goes public)\b/i;
+const LEADERSHIP_EVENT_PATTERN = /\b(appoint(s|ed)?|names?d?|hires?d?|joins?|promot(es|ed)|steps? down|resign(s|ed)?|depart(s|ure)|succeeds?|new)\b/i;
+const EXECUTIVE_TITLE_PATTERN = /\b(ceo|cto|cfo|coo|cro|cmo|cio|ciso|cpo|chief|president|founder|vp|vice president|svp|evp|head of|general manager)\b/i;
+
+/**
+ * Watchlist Change Detector
+ *
+ * Builds compact snapshots from News, Jobs and LinkedIn collections and diffs them.
+ * The first snapshot of a company is a baseline and raises no alerts. A source that was
+ * missing or failed is marked absent rather than recorded as empty, so it never reads as a change.
+ */
+export class WatchlistChangeDetector {
+  /**
+   * Build a snapshot from orchestrator output (keyed by source, cached or fresh)
+   */
+  static buildSnapshot(data: Partial<MultiSourceData>): CompanySnapshot {
+    const news = this.extractList(data, 'serp_news', (data as any).news?.news_results);
+    const jobs = this.extractList(data, 'serp_jobs', (data as any).jobs?.jobs_results);
+    const people = this.extractList(data, 'serp_linkedin', (data as any).linkedin?.linkedin_results);
+    const sources: SnapshotSources = {
+      news: this.hasSource(data, 'serp_news', (data as any).news?.news_results),
+      jobs: this.hasSource(data, 'serp_jobs', (data as any).jobs?.jobs_results),
+      people: this.hasSource(data, 'serp_linkedin', (data as any).linkedin?.linkedin_results)
+    };
+
+    return {
+      capturedAt: new Date().toISOString(),
+      news: news
+        .filter(item => item?.title && item?.link)
+        .slice(0, MAX_SNAPSHOT_NEWS)
+        .map(item => ({
+          title: item.title,
+          link: item.link,
+          date: item.date,
+          source: typeof item.source === 'string' ? item.source : item.source?.name,
+          snippet: item.snippet
+        })),
+      jobCount: jobs.length,
+      jobTitles: jobs
+        .map(job => job?.title)
+        .filter((title): title is string => typeof title === 'string')
+        .slice(0, MAX_SNAPSHOT_JOB_TITLES),
+      people: people
+        .filter(person => person?.name && person?.title)
+        .slice(0, MAX_SNAPSHOT_PEOPLE)
+        .map(person => ({
+          name: person.name,
+          title: person.title,
+          profileUrl: person.profile_url
+        })),
+      sources
+    };
+  }
+
+  /**
+   * Fill the sources a snapshot is missing from the previous snapshot, so a failed collection
+   * keeps the last known news, jobs and people instead of storing empty lists
+   */
+  static carryForward(current: CompanySnapshot, previous: CompanySnapshot | undefined): CompanySnapshot {
+    if (!previous) {
+      return current;
+    }
+
+    const currentSources = this.sourcesOf(current);
+    const previousSources = this.sourcesOf(previous);
+    const sources: SnapshotSources = { ...currentSources };
+    const snapshot: CompanySnapshot = { ...current, sources };
+
+    if (!currentSources.news && previousSources.news) {
+      snapshot.news = previous.news;
+      sources.news = true;
+    }
+    if (!currentSources.jobs && previousSources.jobs) {
+      snapshot.jobCount = previous.jobCount;
+      snapshot.jobTitles = previous.jobTitles;
+      sources.jobs = true;
+    }
+    if (!currentSources.people && previousSources.people) {
+      snapshot.people = previous.people;
+      sources.people = true;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Job postings from orchestrator output (for hiring snapshots)
+   */
+  static extractJobs(data: Partial<MultiSourceData>): SerpAPIJobResult[] {
+    return this.extractList(data, 'serp_jobs', (data as any).jobs?.jobs_results)
+      .filter(job => typeof job?.title === 'string');
+  }
+
+  /**
+   * Alerts for changes between two snapshots of the same company
+   */
+  static diff(company: string, previous: CompanySnapshot | undefined, current: CompanySnapshot): WatchlistAlert[] {
+    if (!previous) {
+      return [];
+    }
+
+    const detectedAt = current.capturedAt;
+    const alerts: WatchlistAlert[] = [];
+    const previousSources = this.sourcesOf(previous);
+    const currentSources = this.sourcesOf(current);
+    const previousLinks = new Set(previous.news.map(item => item.link));
+    const newArticles = previousSources.news && currentSources.news
+      ? current.news.filter(item => !previousLinks.has(item.link))
+      : [];
+
+    for (const article of newArticles) {
+      const text = `${article.title} ${article.snippet || ''}`;
+      const evidence = { title: article.title, link: article.link, source: article.source };
+
+      if (FUNDING_PATTERN.test(text)) {
+        alerts.push(this.createAlert(company, 'new_funding', article.link, detectedAt, {
+          title: `Funding news: ${company}`,
+          detail: article.title,
+          evidence
+        }));
+      } else if (LEADERSHIP_EVENT_PATTERN.test(text) && EXECUTIVE_TITLE_PATTERN.test(text)) {
+        alerts.push(this.createAlert(company, 'leadership_change', article.link, detectedAt, {
+          title: `Leadership news: ${company}`,
+          detail: article.title,
+          evidence
+        }));
+      }
+    }
+
+    // LinkedIn search results vary between runs, so only compare once both sides have people
+    if (previousSources.people && currentSources.people && previous.people.length > 0) {
+      const previousNames = new Set(previous.people.map(person => person.name.toLowerCase()));
+      const newExecutives = current.people.filter(person =>
+        !previousNames.has(person.name.toLowerCase()) && EXECUTIVE_TITLE_PATTERN.test(person.title)
+      );
+
+      for (const person of newExecutives) {
+        alerts.push(this.createAlert(company, 'leadership_change', `${person.name}:${person.title}`, detectedAt, {
+          title: `New executive at ${company}`,
+          detail: `${person.name} - ${person.title}`,
+          evidence: person.profileUrl ? { title: person.name, link: person.profileUrl, source: 'LinkedIn' } : undefined
+        }));
+      }
+    }
+
+    const compareJobs = previousSources.jobs && currentSources.jobs;
+    const increase = current.jobCount - previous.jobCount;
+    if (
+      compareJobs &&
+      previous.jobCount > 0 &&
+      increase >= HIRING_SPIKE_MIN_INCREASE &&
+      current.jobCount >= previous.jobCount * HIRING_SPIKE_RATIO
+    ) {
+      const previousTitles = new Set(previous.jobTitles);
+      const newTitles = Array.from(new Set(current.jobTitles.filter(title => !previousTitles.has(title)))).slice(0, 5);
+
+      alerts.push(this.createAlert(company, 'hiring_spike', `${detectedAt.split('T')[0]}:${current.jobCount}`, detectedAt, {
+        title: `Hiring spike at ${company}`,
+        detail: `Open postings rose from ${previous.jobCount} to ${current.jobCount}` +
+          (newTitles.length > 0 ? ` (new: ${newTitles.join(', ')})` : '')
+      }));
+    } else if (compareJobs && previous.jobCount === 0 && current.jobCount >= HIRING_SPIKE_MIN_INCREASE) {
+      alerts.push(this.createAlert(company, 'hiring_spike', `${detectedAt.split('T')[0]}:${current.jobCount}`, detectedAt, {
+        title: `Hiring started at ${company}`,
+        detail: `${current.jobCount} open postings after none in the previous snapshot`
+      }));
+    }
+
+    return alerts;
+  }
+
+  private static createAlert(
+    company: string,
+    type: WatchlistAlertType,
+    identity: string,
+    detectedAt: string,
+    content: Pick<WatchlistAlert, 'title' | 'detail' | 'evidence'>
+  ): WatchlistAlert {
+    const id = createHash('sha1').update(`${company.toLowerCase()}|${type}|${identity}`).digest('hex').substring(0, 16);
+    return { id, company, type, detectedAt, ...content };
+  }
+
+  /**
+   * Snapshots from before source tracking are taken as holding every source
+   */
+  private static sourcesOf(snapshot: CompanySnapshot): SnapshotSources {
+    return snapshot.sources || { news: true, jobs: true, people: true };
+  }
+
+  /**
+   * Whether the collection returned the source at all (failed sources are left out of orchestrator output)
+   */
+  private static hasSource(data: Partial<MultiSourceData>, source: string, legacyList?: any[]): boolean {
+    const value = (data as any)[source];
+    return Array.isArray(value) || Array.isArray(value?.data) || Array.isArray(legacyList);
+  }
+
+  /**
+   * Result list for a source: fresh API results are arrays, cache hits wrap them in { data }
+   */
+  private static extractList(data: Partial<MultiSourceData>, source: string, legacyList?: any[]): any[] {
+    const value = (data as any)[source];
+    if (Array.isArray(value)) return value;
+    if (Array.isArray(value?.data)) return value.data;
+    return Array.isArray(legacyList) ? legacyList : [];
+  }
+}
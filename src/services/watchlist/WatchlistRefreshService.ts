@@ -0,0 +1,190 @@
+import { CacheService } from '../core/CacheService';
+import { Logger } from '../core/Logger';
+import { SerpAPIService } from '../SerpAPIService';
+import { SerpAPIJobResult } from '../serpapi/types/SerpAPITypes';
+import { DataSourceOrchestrator } from '../DataSourceOrchestrator';
+import { SourceType } from '../../types/orchestrator-types';
+import { WatchlistService } from './WatchlistService';
+import { WatchlistChangeDetector } from './WatchlistChangeDetector';
+import { CompanySnapshot, WatchlistEntry, WatchlistRefreshSummary } from './types/WatchlistTypes';
+import { HiringSnapshotService } from '../hiring/HiringSnapshotService';
+import { HiringTrendAnalyzer } from '../hiring/HiringTrendAnalyzer';
+
+const WATCHLIST_SOURCES: SourceType[] = ['serp_news', 'serp_jobs', 'serp_linkedin'];
+const MAX_COMPANIES_PER_RUN = parseInt(process.env.WATCHLIST_MAX_COMPANIES_PER_RUN || '200');
+
+// Stop starting new companies when less than this much Lambda time is left
+const DEADLINE_MARGIN_MS = 60000;
+
+/**
+ * Watchlist Refresh Service
+ *
+ * Re-collects News, Jobs and LinkedIn data for watched companies through DataSourceOrchestrator,
+ * diffs each watcher's last snapshot and stores new alerts. A company watched by several users
+ * is collected once per run; least recently refreshed companies go first. Each collection also
+ * stores the company's daily hiring snapshot for the hiring trends time series.
+ */
+export class WatchlistRefreshService {
+  private logger: Logger;
+  private watchlistService: WatchlistService;
+  private hiringSnapshotService: HiringSnapshotService;
+  private orchestrator: DataSourceOrchestrator;
+
+  constructor(
+    cacheService: CacheService,
+    logger: Logger,
+    watchlistService?: WatchlistService,
+    hiringSnapshotService?: HiringSnapshotService
+  ) {
+    this.logger = logger;
+    this.watchlistService = watchlistService || new WatchlistService();
+    this.hiringSnapshotService = hiringSnapshotService || new HiringSnapshotService();
+    // Diffs need current data, so stale cache entries are re-collected rather than served
+    this.orchestrator = new DataSourceOrchestrator(cacheService, logger, new SerpAPIService(cacheService, logger), {
+      staleWhileRevalidate: false
+    });
+  }
+
+  /**
+   * Refresh every watched company (bounded by MAX_COMPANIES_PER_RUN and the deadline)
+   */
+  async refreshAll(deadline?: number): Promise<WatchlistRefreshSummary> {
+    const startTime = Date.now();
+    const summary: WatchlistRefreshSummary = {
+      companiesRefreshed: 0,
+      companiesFailed: 0,
+      entriesUpdated: 0,
+      alertsRaised: 0,
+      totalCost: 0,
+      durationMs: 0
+    };
+
+    const groups = this.groupByCompany(await this.watchlistService.listAllEntries());
+    const queue = groups.slice(0, MAX_COMPANIES_PER_RUN);
+
+    this.logger.info('Watchlist refresh started', {
+      watchedCompanies: groups.length,
+      scheduled: queue.length
+    });
+
+    for (const entries of queue) {
+      if (deadline && Date.now() > deadline - DEADLINE_MARGIN_MS) {
+        this.logger.warn('Watchlist refresh stopped before deadline', {
+          remaining: queue.length - summary.companiesRefreshed - summary.companiesFailed
+        });
+        break;
+      }
+
+      const result = await this.refreshCompany(entries);
+      if (result.success) {
+        summary.companiesRefreshed += 1;
+      } else {
+        summary.companiesFailed += 1;
+      }
+      summary.entriesUpdated += result.entriesUpdated;
+      summary.alertsRaised += result.alertsRaised;
+      summary.totalCost += result.cost;
+    }
+
+    summary.totalCost = Math.round(summary.totalCost * 10000) / 10000;
+    summary.durationMs = Date.now() - startTime;
+    this.logger.info('Watchlist refresh completed', { ...summary });
+    return summary;
+  }
+
+  /**
+   * Collect once for a company and update every watcher's entry
+   */
+  async refreshCompany(entries: WatchlistEntry[]): Promise<{ success: boolean; entriesUpdated: number; alertsRaised: number; cost: number }> {
+    const company = entries[0].company;
+
+    let snapshot: CompanySnapshot;
+    let cost = 0;
+    try {
+      const data = await this.orchestrator.getMultiSourceData(company, 'customer_intelligence', undefined, WATCHLIST_SOURCES);
+      cost = data.totalNewCost || 0;
+      snapshot = WatchlistChangeDetector.buildSnapshot(data);
+      if (snapshot.sources?.jobs) {
+        await this.recordHiringSnapshot(company, WatchlistChangeDetector.extractJobs(data));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Watchlist collection failed', { company, error: message });
+      await Promise.all(entries.map(entry =>
+        this.watchlistService.recordRefreshError(entry, message).catch(() => undefined)
+      ));
+      return { success: false, entriesUpdated: 0, alertsRaised: 0, cost };
+    }
+
+    let entriesUpdated = 0;
+    let alertsRaised = 0;
+
+    for (const entry of entries) {
+      try {
+        const entrySnapshot = WatchlistChangeDetector.carryForward(snapshot, entry.lastSnapshot);
+        const alerts = WatchlistChangeDetector.diff(entry.company, entry.lastSnapshot, entrySnapshot);
+        alertsRaised += await this.watchlistService.recordRefresh(entry, entrySnapshot, alerts);
+        entriesUpdated += 1;
+      } catch (error) {
+        // Entry deleted mid-run (conditional update) or a write failure - the other watchers still update
+        this.logger.warn('Watchlist entry update failed', {
+          userId: entry.userId,
+          company: entry.company,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    this.logger.info('Watchlist company refreshed', {
+      company,
+      watchers: entries.length,
+      newsCount: snapshot.news.length,
+      jobCount: snapshot.jobCount,
+      peopleCount: snapshot.people.length,
+      sources: snapshot.sources,
+      alertsRaised,
+      cost
+    });
+
+    return { success: true, entriesUpdated, alertsRaised, cost };
+  }
+
+  /**
+   * Hiring history is best effort - a failed write must not fail the watchlist refresh.
+   * An empty result is skipped: failed job searches return no postings, not an error.
+   */
+  private async recordHiringSnapshot(company: string, jobs: SerpAPIJobResult[]): Promise<void> {
+    if (jobs.length === 0) {
+      this.logger.warn('Hiring snapshot skipped, no job postings collected', { company });
+      return;
+    }
+
+    try {
+      await this.hiringSnapshotService.saveSnapshot(HiringTrendAnalyzer.buildSnapshot(company, jobs, 'watchlist_refresh'));
+    } catch (error) {
+      this.logger.warn('Hiring snapshot write failed', {
+        company,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Group entries by company name (case-insensitive), least recently refreshed first
+   */
+  private groupByCompany(entries: WatchlistEntry[]): WatchlistEntry[][] {
+    const groups = new Map<string, WatchlistEntry[]>();
+    for (const entry of entries) {
+      const key = entry.company.trim().toLowerCase();
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    const oldestRefresh = (group: WatchlistEntry[]) =>
+      group.reduce((oldest, entry) => {
+        const refreshedAt = entry.lastRefreshedAt || '';
+        return refreshedAt < oldest ? refreshedAt : oldest;
+      }, '\uffff');
+
+    return Array.from(groups.values()).sort((a, b) => oldestRefresh(a).localeCompare(oldestRefresh(b)));
+  }
+}
@@ -0,0 +1,203 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  DeleteCommand,
+  ScanCommand,
+  UpdateCommand
+} from '@aws-sdk/lib-dynamodb';
+import {
+  CompanySnapshot,
+  WatchlistAlert,
+  WatchlistAlertQuery,
+  WatchlistEntry,
+  WatchlistEntrySummary
+} from './types/WatchlistTypes';
+
+const MAX_ALERTS_PER_ENTRY = 50;
+const DEFAULT_ALERT_LIMIT = 100;
+
+/**
+ * Watchlist Service
+ *
+ * Per-user pinned companies (userId + company, same key layout as research history),
+ * each holding its last refresh snapshot and recent change alerts.
+ */
+export class WatchlistService {
+  private client: DynamoDBDocumentClient;
+  private tableName: string;
+
+  constructor() {
+    // Optional snapshot/alert fields are often undefined
+    this.client = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+    this.tableName = process.env.WATCHLISTS_TABLE_NAME || 'sales-intelligence-watchlists';
+  }
+
+  /**
+   * Pin a company; pinning an already watched company keeps its snapshot and alerts
+   */
+  async addCompany(userId: string, company: string, domain?: string): Promise<WatchlistEntry> {
+    const existing = await this.getEntry(userId, company);
+    if (existing) {
+      return existing;
+    }
+
+    const entry: WatchlistEntry = {
+      userId,
+      company,
+      domain,
+      addedAt: new Date().toISOString(),
+      alerts: []
+    };
+
+    await this.client.send(new PutCommand({
+      TableName: this.tableName,
+      Item: entry,
+    }));
+
+    return entry;
+  }
+
+  async removeCompany(userId: string, company: string): Promise<{ message: string }> {
+    await this.client.send(new DeleteCommand({
+      TableName: this.tableName,
+      Key: {
+        userId,
+        company,
+      },
+    }));
+
+    return { message: `${company} removed from watchlist` };
+  }
+
+  async getEntry(userId: string, company: string): Promise<WatchlistEntry | null> {
+    const result = await this.client.send(new GetCommand({
+      TableName: this.tableName,
+      Key: {
+        userId,
+        company,
+      },
+    }));
+
+    return result.Item as WatchlistEntry || null;
+  }
+
+  async getWatchlist(userId: string): Promise<{ companies: WatchlistEntrySummary[] }> {
+    const entries = await this.getUserEntries(userId);
+
+    const companies = entries.map(entry => ({
+      company: entry.company,
+      domain: entry.domain,
+      addedAt: entry.addedAt,
+      lastRefreshedAt: entry.lastRefreshedAt,
+      lastRefreshError: entry.lastRefreshError,
+      snapshot: entry.lastSnapshot ? {
+        capturedAt: entry.lastSnapshot.capturedAt,
+        newsCount: entry.lastSnapshot.news.length,
+        jobCount: entry.lastSnapshot.jobCount,
+        peopleCount: entry.lastSnapshot.people.length,
+      } : undefined,
+      alertCount: entry.alerts?.length || 0,
+      latestAlertAt: entry.alerts?.[0]?.detectedAt,
+    }));
+
+    return { companies };
+  }
+
+  /**
+   * Alerts across the user's watchlist, most recent first
+   */
+  async getAlerts(userId: string, query: WatchlistAlertQuery = {}): Promise<{ alerts: WatchlistAlert[]; total: number }> {
+    const entries = await this.getUserEntries(userId);
+
+    const alerts = entries
+      .filter(entry => !query.company || entry.company.toLowerCase() === query.company.toLowerCase())
+      .flatMap(entry => entry.alerts || [])
+      .filter(alert => !query.type || alert.type === query.type)
+      .filter(alert => !query.since || alert.detectedAt > query.since)
+      .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+
+    return {
+      alerts: alerts.slice(0, query.limit || DEFAULT_ALERT_LIMIT),
+      total: alerts.length
+    };
+  }
+
+  /**
+   * Every watchlist entry across all users (used by the scheduled refresh)
+   */
+  async listAllEntries(): Promise<WatchlistEntry[]> {
+    const entries: WatchlistEntry[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const result = await this.client.send(new ScanCommand({
+        TableName: this.tableName,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+      entries.push(...((result.Items || []) as WatchlistEntry[]));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return entries;
+  }
+
+  /**
+   * Store a refresh result: the new snapshot plus any alerts not already on the entry
+   */
+  async recordRefresh(entry: WatchlistEntry, snapshot: CompanySnapshot, newAlerts: WatchlistAlert[]): Promise<number> {
+    const knownIds = new Set((entry.alerts || []).map(alert => alert.id));
+    const added = newAlerts.filter(alert => !knownIds.has(alert.id));
+    const alerts = [...added, ...(entry.alerts || [])].slice(0, MAX_ALERTS_PER_ENTRY);
+
+    await this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: {
+        userId: entry.userId,
+        company: entry.company,
+      },
+      // Skip entries removed while the refresh was running
+      ConditionExpression: 'attribute_exists(userId)',
+      UpdateExpression: 'SET lastSnapshot = :snapshot, alerts = :alerts, lastRefreshedAt = :refreshedAt REMOVE lastRefreshError',
+      ExpressionAttributeValues: {
+        ':snapshot': snapshot,
+        ':alerts': alerts,
+        ':refreshedAt': snapshot.capturedAt,
+      },
+    }));
+
+    return added.length;
+  }
+
+  async recordRefreshError(entry: WatchlistEntry, error: string): Promise<void> {
+    await this.client.send(new UpdateCommand({
+      TableName: this.tableName,
+      Key: {
+        userId: entry.userId,
+        company: entry.company,
+      },
+      ConditionExpression: 'attribute_exists(userId)',
+      UpdateExpression: 'SET lastRefreshError = :error, lastRefreshedAt = :refreshedAt',
+      ExpressionAttributeValues: {
+        ':error': error,
+        ':refreshedAt': new Date().toISOString(),
+      },
+    }));
+  }
+
+  private async getUserEntries(userId: string): Promise<WatchlistEntry[]> {
+    const result = await this.client.send(new QueryCommand({
+      TableName: this.tableName,
+      KeyConditionExpression: 'userId = :userId',
+      ExpressionAttributeValues: {
+        ':userId': userId,
+      },
+    }));
+
+    return (result.Items || []) as WatchlistEntry[];
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Watchlist Types
+ *
+ * Type definitions for company watchlists (/api/watchlists) and their scheduled refresh
+ */
+
+/**
+ * Alert kinds raised when a refreshed snapshot differs from the previous one
+ */
+export type WatchlistAlertType = 'new_funding' | 'leadership_change' | 'hiring_spike';
+
+export interface WatchlistAlert {
+  id: string;               // Stable per change, so re-detections are not stored twice
+  company: string;
+  type: WatchlistAlertType;
+  title: string;
+  detail: string;
+  evidence?: {
+    title?: string;
+    link?: string;
+    source?: string;
+  };
+  detectedAt: string;
+}
+
+/**
+ * Point-in-time view of a company built from the News, Jobs and LinkedIn collections
+ */
+export interface CompanySnapshot {
+  capturedAt: string;
+  news: Array<{
+    title: string;
+    link: string;
+    date?: string;
+    source?: string;
+    snippet?: string;
+  }>;
+  jobCount: number;
+  jobTitles: string[];
+  people: Array<{
+    name: string;
+    title: string;
+    profileUrl?: string;
+  }>;
+  // Sources this snapshot holds data for (collected this run or carried forward); missing on older snapshots
+  sources?: SnapshotSources;
+}
+
+export interface SnapshotSources {
+  news: boolean;
+  jobs: boolean;
+  people: boolean;
+}
+
+export interface WatchlistEntry {
+  userId: string;
+  company: string;
+  domain?: string;
+  addedAt: string;
+  lastRefreshedAt?: string;
+  lastRefreshError?: string;
+  lastSnapshot?: CompanySnapshot;
+  alerts: WatchlistAlert[];   // Most recent first, capped
+}
+
+/**
+ * Watchlist entry as returned by the list endpoint (snapshot reduced to counts)
+ */
+export interface WatchlistEntrySummary {
+  company: string;
+  domain?: string;
+  addedAt: string;
+  lastRefreshedAt?: string;
+  lastRefreshError?: string;
+  snapshot?: {
+    capturedAt: string;
+    newsCount: number;
+    jobCount: number;
+    peopleCount: number;
+  };
+  alertCount: number;
+  latestAlertAt?: string;
+}
+
+export interface WatchlistAlertQuery {
+  since?: string;            // ISO timestamp; only alerts detected after it
+  company?: string;
+  type?: WatchlistAlertType;
+  limit?: number;
+}
+
+export interface WatchlistRefreshSummary {
+  companiesRefreshed: number;
+  companiesFailed: number;
+  entriesUpdated: number;
+  alertsRaised: number;
+  totalCost: number;
+  durationMs: number;
+}
@@ -19,7 +19,7 @@ export class SalesIntelligenceStack extends cdk.Stack {
     const allowedOriginsString = allowedOrigins.join(',');
     const nodeEnv = this.node.tryGetContext('nodeEnv') || 'production';
 
-    // 1. Core Infrastructure (DynamoDB, Secrets Manager)
+    // 1. Core Infrastructure (DynamoDB, S3, Secrets Manager)
     const infrastructure = new CoreInfrastructureConstruct(this, 'Infrastructure', {
       allowedOriginsString,
     });
@@ -27,8 +27,13 @@ export class SalesIntelligenceStack extends cdk.Stack {
     // 2. Core Lambda Functions
     const coreLambda = new CoreLambdaConstruct(this, 'CoreLambda', {
       cacheTable: infrastructure.cacheTable,
+      cachePayloadBucket: infrastructure.cachePayloadBucket,
       requestsTable: infrastructure.requestsTable,
       profilesTable: infrastructure.profilesTable,
+      researchHistoryTable: infrastructure.researchHistoryTable,
+      watchlistsTable: infrastructure.watchlistsTable,
+      hiringSnapshotsTable: infrastructure.hiringSnapshotsTable,
+      organizationsTable: infrastructure.organizationsTable,
       apiKeysSecret: infrastructure.apiKeysSecret,
       allowedOriginsString,
       nodeEnv,
@@ -37,6 +42,7 @@ export class SalesIntelligenceStack extends cdk.Stack {
     // 3. Step Functions Workflow
     const stepFunctions = new StepFunctionsConstruct(this, 'StepFunctions', {
       cacheTable: infrastructure.cacheTable,
+      cachePayloadBucket: infrastructure.cachePayloadBucket,
       requestsTable: infrastructure.requestsTable,
       profilesTable: infrastructure.profilesTable,
       apiKeysSecret: infrastructure.apiKeysSecret,
@@ -107,6 +113,37 @@ export class SalesIntelligenceStack extends cdk.Stack {
     infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.cacheManagementFunction);
     infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.cacheListByTypeFunction);
     infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.cacheClearByTypeFunction);
+    infrastructure.cacheTable.grantReadData(coreLambda.functions.costReportFunction);
+
+    // Watchlists - the refresh job collects through the orchestrator (cache table + SerpAPI keys)
+    infrastructure.watchlistsTable.grantReadWriteData(coreLambda.functions.watchlistFunction);
+    infrastructure.watchlistsTable.grantReadWriteData(coreLambda.functions.watchlistRefreshFunction);
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.watchlistRefreshFunction);
+    infrastructure.apiKeysSecret.grantRead(coreLambda.functions.watchlistRefreshFunction);
+
+    // Hiring trends - snapshots written by the watchlist refresh and by on-demand refreshes
+    infrastructure.hiringSnapshotsTable.grantReadWriteData(coreLambda.functions.watchlistRefreshFunction);
+    infrastructure.hiringSnapshotsTable.grantReadWriteData(coreLambda.functions.hiringTrendsFunction);
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.hiringTrendsFunction);
+    infrastructure.apiKeysSecret.grantRead(coreLambda.functions.hiringTrendsFunction);
+
+    // Org chart - LinkedIn searches go through the SerpAPI cache
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.orgChartFunction);
+    infrastructure.apiKeysSecret.grantRead(coreLambda.functions.orgChartFunction);
+
+    // Tech stack - website scans and job searches are cached
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.techStackFunction);
+    infrastructure.apiKeysSecret.grantRead(coreLambda.functions.techStackFunction);
+
+    // Vendor context registration - reads the profile, stores the merged context reference
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.vendorContextRegistrationFunction);
+    infrastructure.profilesTable.grantReadData(coreLambda.functions.vendorContextRegistrationFunction);
+
+    // Organizations - org vendor context registration, sharing from research history, org spend from the cost ledger
+    infrastructure.organizationsTable.grantReadWriteData(coreLambda.functions.organizationFunction);
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.organizationFunction);
+    infrastructure.researchHistoryTable.grantReadData(coreLambda.functions.organizationFunction);
+    infrastructure.organizationsTable.grantReadData(coreLambda.functions.researchStreamingFunction);
     
     infrastructure.requestsTable.grantReadWriteData(coreLambda.functions.customerIntelligenceFunction);
     infrastructure.requestsTable.grantReadWriteData(coreLambda.functions.companyOverviewFunction);
@@ -126,6 +163,21 @@ export class SalesIntelligenceStack extends cdk.Stack {
     coreLambda.functions.processOverviewFunction.grantInvoke(coreLambda.functions.companyOverviewFunction);
     coreLambda.functions.processDiscoveryFunction.grantInvoke(coreLambda.functions.companyOverviewFunction);
     coreLambda.functions.processAnalysisFunction.grantInvoke(coreLambda.functions.companyOverviewFunction);
+
+    // Stale-while-revalidate - functions collecting through the orchestrator or running LLM analyses
+    // start background refreshes
+    coreLambda.functions.cacheRefreshFunction.grantInvoke(coreLambda.functions.researchStreamingFunction);
+    coreLambda.functions.cacheRefreshFunction.grantInvoke(stepFunctions.resources.smartCollectionFunction);
+    coreLambda.functions.cacheRefreshFunction.grantInvoke(stepFunctions.resources.llmAnalysisFunction);
+    infrastructure.cacheTable.grantReadWriteData(coreLambda.functions.cacheRefreshFunction);
+    infrastructure.apiKeysSecret.grantRead(coreLambda.functions.cacheRefreshFunction);
+    coreLambda.functions.cacheRefreshFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['bedrock:InvokeModel'],
+        resources: ['*'],
+      })
+    );
     
     // Grant Bedrock permissions for processing functions
     coreLambda.functions.processOverviewFunction.addToRolePolicy(
@@ -152,12 +204,48 @@ export class SalesIntelligenceStack extends cdk.Stack {
       })
     );
 
+    // Research streaming runs the pipeline by invoking itself asynchronously
+    // (ARN built from the function name to avoid a role <-> function circular dependency)
+    coreLambda.functions.researchStreamingFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['lambda:InvokeFunction'],
+        resources: [`arn:aws:lambda:${this.region}:${this.account}:function:sales-intelligence-research-streaming`],
+      })
+    );
+
     // Grant Step Functions access to DynamoDB tables
     infrastructure.cacheTable.grantReadWriteData(stepFunctions.resources.cacheCheckFunction);
     infrastructure.cacheTable.grantReadWriteData(stepFunctions.resources.smartCollectionFunction);
     infrastructure.cacheTable.grantReadWriteData(stepFunctions.resources.llmAnalysisFunction);
     infrastructure.cacheTable.grantReadWriteData(stepFunctions.resources.cacheResponseFunction);
     
+    // Oversized cache payloads live in S3 - every function using the cache table reads (and writes) them
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.searchFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.chatFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.vendorContextFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.customerIntelligenceFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.companyOverviewFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.companyLookupFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.cacheManagementFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.cacheListByTypeFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.cacheClearByTypeFunction);
+    infrastructure.cachePayloadBucket.grantRead(coreLambda.functions.costReportFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.watchlistRefreshFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.hiringTrendsFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.orgChartFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.techStackFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.vendorContextRegistrationFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.organizationFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.processOverviewFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.processDiscoveryFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.processAnalysisFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(coreLambda.functions.cacheRefreshFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(stepFunctions.resources.cacheCheckFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(stepFunctions.resources.smartCollectionFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(stepFunctions.resources.llmAnalysisFunction);
+    infrastructure.cachePayloadBucket.grantReadWrite(stepFunctions.resources.cacheResponseFunction);
+    
     // Grant Step Functions execution permissions to context-aware lambdas
     stepFunctions.resources.stateMachine.grantStartExecution(coreLambda.functions.vendorContextFunction);
     stepFunctions.resources.stateMachine.grantStartExecution(coreLambda.functions.customerIntelligenceFunction);
@@ -172,6 +260,7 @@ export class SalesIntelligenceStack extends cdk.Stack {
     infrastructure.apiKeysSecret.grantRead(coreLambda.functions.customerIntelligenceFunction);
     infrastructure.apiKeysSecret.grantRead(coreLambda.functions.companyOverviewFunction);
     infrastructure.apiKeysSecret.grantRead(coreLambda.functions.companyLookupFunction);
+    infrastructure.apiKeysSecret.grantRead(coreLambda.functions.researchStreamingFunction);
     
     // Step Functions
     infrastructure.apiKeysSecret.grantRead(stepFunctions.resources.smartCollectionFunction);
@@ -213,6 +302,14 @@ export class SalesIntelligenceStack extends cdk.Stack {
       })
     );
 
+    coreLambda.functions.researchStreamingFunction.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: ['bedrock:InvokeModel', 'bedrock:InvokeModelWithResponseStream'],
+        resources: ['*'],
+      })
+    );
+
     // Step Functions
     stepFunctions.resources.llmAnalysisFunction.addToRolePolicy(
       new iam.PolicyStatement({
@@ -17,12 +17,20 @@ export interface ApiGatewayProps {
     cacheManagementFunction: NodejsFunction;
     cacheListByTypeFunction: NodejsFunction;
     cacheClearByTypeFunction: NodejsFunction;
+    cacheTtlPolicyFunction: NodejsFunction;
+    costReportFunction: NodejsFunction;
     healthFunction: NodejsFunction;
     profileFunction: NodejsFunction;
     getAsyncRequestFunction: NodejsFunction;
     getWorkflowStatusFunction: NodejsFunction;
     researchStreamingFunction: NodejsFunction;
     researchHistoryFunction: NodejsFunction;
+    watchlistFunction: NodejsFunction;
+    hiringTrendsFunction: NodejsFunction;
+    orgChartFunction: NodejsFunction;
+    techStackFunction: NodejsFunction;
+    vendorContextRegistrationFunction: NodejsFunction;
+    organizationFunction: NodejsFunction;
   };
   // Will add other function groups as we create more constructs
 }
@@ -41,7 +49,7 @@ export class ApiGatewayConstruct extends Construct {
       defaultCorsPreflightOptions: {
         allowOrigins: props.allowedOrigins,
         allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-        allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'x-user-id'],
+        allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
         allowCredentials: true,
         maxAge: Duration.seconds(86400), // 24 hours
       },
@@ -71,7 +79,13 @@ export class ApiGatewayConstruct extends Construct {
     
     // Vendor Context - POST /vendor/context
     const vendorResource = this.api.root.addResource('vendor');
-    vendorResource.addResource('context').addMethod('POST', vendorContextIntegration, {
+    const vendorContextResource = vendorResource.addResource('context');
+    vendorContextResource.addMethod('POST', vendorContextIntegration, {
+      apiKeyRequired: true,
+    });
+
+    // Vendor Context Registration - POST /vendor/context/register (vendor file or profile)
+    vendorContextResource.addResource('register').addMethod('POST', new apigateway.LambdaIntegration(props.coreFunctions.vendorContextRegistrationFunction), {
       apiKeyRequired: true,
     });
     
@@ -128,6 +142,21 @@ export class ApiGatewayConstruct extends Construct {
     companiesDomainResource.addResource('overview').addMethod('POST', companyOverviewIntegration, {
       apiKeyRequired: true,
     });
+
+    // Org Chart - GET /companies/{domain}/org-chart
+    companiesDomainResource.addResource('org-chart').addMethod('GET', new apigateway.LambdaIntegration(props.coreFunctions.orgChartFunction), {
+      apiKeyRequired: true,
+    });
+
+    // Tech Stack - GET /companies/{domain}/tech-stack
+    companiesDomainResource.addResource('tech-stack').addMethod('GET', new apigateway.LambdaIntegration(props.coreFunctions.techStackFunction), {
+      apiKeyRequired: true,
+    });
+
+    // Hiring Trends - GET /companies/{domain}/hiring-trends
+    companiesDomainResource.addResource('hiring-trends').addMethod('GET', new apigateway.LambdaIntegration(props.coreFunctions.hiringTrendsFunction), {
+      apiKeyRequired: true,
+    });
     
     // Cache Management
     const cacheResource = this.api.root.addResource('cache');
@@ -140,6 +169,14 @@ export class ApiGatewayConstruct extends Construct {
     
     cacheResource.addResource('list').addMethod('GET', cacheListByTypeIntegration, { apiKeyRequired: true }); // List cache by type
     cacheResource.addResource('clear-type').addMethod('DELETE', cacheClearByTypeIntegration, { apiKeyRequired: true }); // Clear cache by type
+
+    // Cache TTL Policy - GET /cache/ttl-policy?cacheType=&consumer=&tenantId=
+    const cacheTtlPolicyIntegration = new apigateway.LambdaIntegration(props.coreFunctions.cacheTtlPolicyFunction);
+    cacheResource.addResource('ttl-policy').addMethod('GET', cacheTtlPolicyIntegration, { apiKeyRequired: true });
+
+    // Cost Reporting - GET /costs?from=&to= (or ?days=)
+    const costReportIntegration = new apigateway.LambdaIntegration(props.coreFunctions.costReportFunction);
+    this.api.root.addResource('costs').addMethod('GET', costReportIntegration, { apiKeyRequired: true });
     
     // =================================================================
     // LEGACY ENDPOINTS (for backward compatibility)
@@ -222,6 +259,45 @@ export class ApiGatewayConstruct extends Construct {
     // GDPR right to erasure endpoint
     researchHistoryAllDataResource.addMethod('DELETE', new apigateway.LambdaIntegration(props.coreFunctions.researchHistoryFunction));
 
+    // Watchlist endpoints - /api/watchlists/users/{userId}/...
+    const watchlistIntegration = new apigateway.LambdaIntegration(props.coreFunctions.watchlistFunction);
+    const watchlistUserResource = apiResource.addResource('watchlists').addResource('users').addResource('{userId}');
+    const watchlistCompaniesResource = watchlistUserResource.addResource('companies');
+
+    watchlistCompaniesResource.addMethod('GET', watchlistIntegration, { apiKeyRequired: true });
+    watchlistCompaniesResource.addMethod('POST', watchlistIntegration, { apiKeyRequired: true });
+    watchlistCompaniesResource.addResource('{companyName}').addMethod('DELETE', watchlistIntegration, { apiKeyRequired: true });
+    watchlistUserResource.addResource('alerts').addMethod('GET', watchlistIntegration, { apiKeyRequired: true });
+
+    // Organization endpoints - /api/orgs/{orgId}/...
+    const orgIntegration = new apigateway.LambdaIntegration(props.coreFunctions.organizationFunction);
+    const orgsResource = apiResource.addResource('orgs');
+    const orgResource = orgsResource.addResource('{orgId}');
+    const orgMembersResource = orgResource.addResource('members');
+    const orgMemberResource = orgMembersResource.addResource('{userId}');
+    const orgResearchResource = orgResource.addResource('research');
+    const orgCompanyResearchResource = orgResearchResource.addResource('{companyName}');
+    const orgResearchNotesResource = orgCompanyResearchResource.addResource('notes');
+    const orgVendorContextResource = orgResource.addResource('vendor-context');
+
+    orgsResource.addMethod('GET', orgIntegration, { apiKeyRequired: true });
+    orgsResource.addMethod('POST', orgIntegration, { apiKeyRequired: true });
+    orgResource.addMethod('GET', orgIntegration, { apiKeyRequired: true });
+    orgResource.addMethod('PUT', orgIntegration, { apiKeyRequired: true });
+    orgResource.addMethod('DELETE', orgIntegration, { apiKeyRequired: true });
+    orgMembersResource.addMethod('GET', orgIntegration, { apiKeyRequired: true });
+    orgMemberResource.addMethod('PUT', orgIntegration, { apiKeyRequired: true });
+    orgMemberResource.addMethod('DELETE', orgIntegration, { apiKeyRequired: true });
+    orgVendorContextResource.addMethod('GET', orgIntegration, { apiKeyRequired: true });
+    orgVendorContextResource.addMethod('PUT', orgIntegration, { apiKeyRequired: true });
+    orgResearchResource.addMethod('GET', orgIntegration, { apiKeyRequired: true });
+    orgCompanyResearchResource.addMethod('GET', orgIntegration, { apiKeyRequired: true });
+    orgCompanyResearchResource.addMethod('PUT', orgIntegration, { apiKeyRequired: true });
+    orgCompanyResearchResource.addMethod('DELETE', orgIntegration, { apiKeyRequired: true });
+    orgResearchNotesResource.addMethod('PUT', orgIntegration, { apiKeyRequired: true });
+    orgResearchNotesResource.addMethod('DELETE', orgIntegration, { apiKeyRequired: true });
+    orgResource.addResource('costs').addMethod('GET', orgIntegration, { apiKeyRequired: true });
+
     // Create API key for external access
     this.apiKey = this.api.addApiKey('SalesIntelligenceApiKey', {
       apiKeyName: 'sales-intelligence-api-key',
@@ -1,7 +1,9 @@
 import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { TtlPolicyEngine } from '../../../services/core/cache/TtlPolicyEngine';
 
 export interface CoreInfrastructureProps {
   allowedOriginsString: string;
@@ -9,9 +11,13 @@ export interface CoreInfrastructureProps {
 
 export class CoreInfrastructureConstruct extends Construct {
   public readonly cacheTable: dynamodb.Table;
+  public readonly cachePayloadBucket: s3.Bucket;
   public readonly requestsTable: dynamodb.Table;
   public readonly profilesTable: dynamodb.Table;
   public readonly researchHistoryTable: dynamodb.Table;
+  public readonly watchlistsTable: dynamodb.Table;
+  public readonly hiringSnapshotsTable: dynamodb.Table;
+  public readonly organizationsTable: dynamodb.Table;
   public readonly apiKeysSecret: secretsmanager.Secret;
 
   constructor(scope: Construct, id: string, props: CoreInfrastructureProps) {
@@ -34,6 +40,18 @@ export class CoreInfrastructureConstruct extends Construct {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Cache payloads too large for a DynamoDB item, even compressed. Rewriting an entry replaces its object,
+    // so no object is older than its entry; the lifecycle rule keeps them as long as the longest-lived
+    // entry and removes those left behind by entries DynamoDB TTL expired.
+    this.cachePayloadBucket = new s3.Bucket(this, 'CachePayloadBucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      enforceSSL: true,
+      lifecycleRules: [{ expiration: cdk.Duration.days(Math.ceil(TtlPolicyEngine.longestLifetimeHours() / 24)) }],
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      autoDeleteObjects: true,
+    });
+
     this.requestsTable = new dynamodb.Table(this, 'RequestsTable', {
       tableName: 'sales-intelligence-requests',
       partitionKey: { name: 'requestId', type: dynamodb.AttributeType.STRING },
@@ -81,6 +99,42 @@ export class CoreInfrastructureConstruct extends Construct {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    // Watchlists Table (pinned companies with last snapshot and change alerts)
+    this.watchlistsTable = new dynamodb.Table(this, 'WatchlistsTable', {
+      tableName: 'sales-intelligence-watchlists',
+      partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'company', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // For development - change to RETAIN for production
+    });
+
+    // Hiring Snapshots Table (daily job-posting breakdown per company, expired via TTL)
+    this.hiringSnapshotsTable = new dynamodb.Table(this, 'HiringSnapshotsTable', {
+      tableName: 'sales-intelligence-hiring-snapshots',
+      partitionKey: { name: 'companyKey', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'snapshotDate', type: dynamodb.AttributeType.STRING },
+      timeToLiveAttribute: 'expiresAt',
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // For development - change to RETAIN for production
+    });
+
+    // Organizations Table (org, members, shared research library and notes per orgId)
+    this.organizationsTable = new dynamodb.Table(this, 'OrganizationsTable', {
+      tableName: 'sales-intelligence-organizations',
+      partitionKey: { name: 'orgId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'recordKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: cdk.RemovalPolicy.DESTROY, // For development - change to RETAIN for production
+    });
+
+    // Add GSI for a user's memberships
+    this.organizationsTable.addGlobalSecondaryIndex({
+      indexName: 'UserIndex',
+      partitionKey: { name: 'memberUserId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'orgId', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Secrets Manager for API keys
     this.apiKeysSecret = new secretsmanager.Secret(this, 'ApiKeysSecret', {
       secretName: 'sales-intelligence-api-keys',
@@ -90,6 +144,7 @@ export class CoreInfrastructureConstruct extends Construct {
           googleApiKey: '',
           brightDataApiKey: '',
           serpApiKey: '',
+          apolloApiKey: '',
         }),
         generateStringKey: 'placeholder',
       },
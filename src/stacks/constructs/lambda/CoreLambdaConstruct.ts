@@ -2,15 +2,22 @@ import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as path from 'path';
 
 export interface CoreLambdaProps {
   cacheTable: dynamodb.Table;
+  cachePayloadBucket: s3.Bucket;
   requestsTable: dynamodb.Table;
   profilesTable: dynamodb.Table;
   researchHistoryTable: dynamodb.Table;
+  watchlistsTable: dynamodb.Table;
+  hiringSnapshotsTable: dynamodb.Table;
+  organizationsTable: dynamodb.Table;
   apiKeysSecret: secretsmanager.Secret;
   allowedOriginsString: string;
   nodeEnv: string;
@@ -31,6 +38,8 @@ export interface CoreLambdaFunctions {
   cacheManagementFunction: NodejsFunction;
   cacheListByTypeFunction: NodejsFunction;
   cacheClearByTypeFunction: NodejsFunction;
+  cacheTtlPolicyFunction: NodejsFunction;
+  costReportFunction: NodejsFunction;
   
   // Utility Functions
   healthFunction: NodejsFunction;
@@ -42,10 +51,30 @@ export interface CoreLambdaFunctions {
   processOverviewFunction: NodejsFunction;
   processDiscoveryFunction: NodejsFunction;
   processAnalysisFunction: NodejsFunction;
+  cacheRefreshFunction: NodejsFunction;
   
   // Research Functions
   researchStreamingFunction: NodejsFunction;
   researchHistoryFunction: NodejsFunction;
+
+  // Watchlist Functions
+  watchlistFunction: NodejsFunction;
+  watchlistRefreshFunction: NodejsFunction;
+
+  // Hiring Trends Function
+  hiringTrendsFunction: NodejsFunction;
+
+  // Org Chart Function
+  orgChartFunction: NodejsFunction;
+
+  // Tech Stack Function
+  techStackFunction: NodejsFunction;
+
+  // Vendor Context Registration Function
+  vendorContextRegistrationFunction: NodejsFunction;
+
+  // Organization Function
+  organizationFunction: NodejsFunction;
 }
 
 export class CoreLambdaConstruct extends Construct {
@@ -62,6 +91,9 @@ export class CoreLambdaConstruct extends Construct {
       REQUESTS_TABLE_NAME: props.requestsTable.tableName,
       PROFILES_TABLE_NAME: props.profilesTable.tableName,
       RESEARCH_HISTORY_TABLE_NAME: props.researchHistoryTable.tableName,
+      WATCHLISTS_TABLE_NAME: props.watchlistsTable.tableName,
+      HIRING_SNAPSHOTS_TABLE_NAME: props.hiringSnapshotsTable.tableName,
+      ORGANIZATIONS_TABLE_NAME: props.organizationsTable.tableName,
       API_KEYS_SECRET_NAME: props.apiKeysSecret.secretName,
       BEDROCK_MODEL: scope.node.tryGetContext('bedrockModel')!,
       BEDROCK_MAX_TOKENS: scope.node.tryGetContext('bedrockMaxTokens')!,
@@ -72,6 +104,17 @@ export class CoreLambdaConstruct extends Construct {
       SNOV_API_KEY: scope.node.tryGetContext('snovApiKey') || '',
       SNOV_API_SECRET: scope.node.tryGetContext('snovApiSecret') || '',
       BRIGHTDATA_API_KEY: scope.node.tryGetContext('brightDataApiKey') || '',
+      APOLLO_API_KEY: scope.node.tryGetContext('apolloApiKey') || '',
+      AUTH_ISSUER: scope.node.tryGetContext('authIssuer') || '', // e.g. https://cognito-idp.{region}.amazonaws.com/{userPoolId}
+      AUTH_AUDIENCE: scope.node.tryGetContext('authAudience') || '', // App client id(s), comma separated
+      AUTH_JWKS_URL: scope.node.tryGetContext('authJwksUrl') || '', // Defaults to {AUTH_ISSUER}/.well-known/jwks.json
+      AUTH_TENANT_CLAIM: scope.node.tryGetContext('authTenantClaim') || 'custom:tenant_id',
+      CACHE_BACKEND: scope.node.tryGetContext('cacheBackend') || 'dynamodb', // dynamodb | memory | redis | tiered
+      CACHE_REDIS_URL: scope.node.tryGetContext('cacheRedisUrl') || '', // Required for the redis backend
+      CACHE_L1_MAX_AGE_SECONDS: scope.node.tryGetContext('cacheL1MaxAgeSeconds') || '60',
+      CACHE_REFRESH_FUNCTION_NAME: 'sales-intelligence-cache-refresh', // Background refresh of stale sources
+      CACHE_PAYLOAD_BUCKET: props.cachePayloadBucket.bucketName, // Payloads too large for a cache item
+      CACHE_COMPRESSION: scope.node.tryGetContext('cacheCompression') || 'gzip', // gzip | br
       LOG_LEVEL: scope.node.tryGetContext('logLevel') || 'INFO',
       ALLOWED_ORIGINS: props.allowedOriginsString,
       NODE_ENV: props.nodeEnv
@@ -177,6 +220,17 @@ export class CoreLambdaConstruct extends Construct {
       bundling: bundlingConfig,
     });
 
+    this.functions.costReportFunction = new NodejsFunction(this, 'CostReportFunction', {
+      functionName: 'sales-intelligence-cost-report',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/CostReportingLambda.ts'),
+      handler: 'costReportHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
     this.functions.cacheListByTypeFunction = new NodejsFunction(this, 'CacheListByTypeFunction', {
       functionName: 'sales-intelligence-cache-list-by-type',
       runtime: lambda.Runtime.NODEJS_20_X,
@@ -199,6 +253,17 @@ export class CoreLambdaConstruct extends Construct {
       bundling: bundlingConfig,
     });
 
+    this.functions.cacheTtlPolicyFunction = new NodejsFunction(this, 'CacheTtlPolicyFunction', {
+      functionName: 'sales-intelligence-cache-ttl-policy',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/CacheManagementLambda.ts'),
+      handler: 'cacheTtlPolicyHandler',
+      timeout: cdk.Duration.seconds(15),
+      memorySize: 256,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
     // Interactive workflow polling functions
     this.functions.getAsyncRequestFunction = new NodejsFunction(this, 'GetAsyncRequestFunction', {
       functionName: 'sales-intelligence-get-async-request',
@@ -282,14 +347,26 @@ export class CoreLambdaConstruct extends Construct {
       bundling: bundlingConfig,
     });
 
+    // Stale-while-revalidate: re-collects stale sources and regenerates stale LLM analyses after they were served
+    this.functions.cacheRefreshFunction = new NodejsFunction(this, 'CacheRefreshFunction', {
+      functionName: 'sales-intelligence-cache-refresh',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/CacheRefreshLambda.ts'),
+      handler: 'cacheRefreshHandler',
+      timeout: cdk.Duration.minutes(10), // Analyses run as long as in the LLM analysis step
+      memorySize: 1024,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
     // Research Streaming Function
     this.functions.researchStreamingFunction = new NodejsFunction(this, 'ResearchStreamingFunction', {
       functionName: 'sales-intelligence-research-streaming',
       runtime: lambda.Runtime.NODEJS_20_X,
       entry: path.join(__dirname, '../../../services/handlers/lambda/ResearchStreamingLambda.ts'),
       handler: 'researchStreamingHandler',
-      timeout: cdk.Duration.seconds(30),
-      memorySize: 512,
+      timeout: cdk.Duration.minutes(5), // Also runs the research pipeline via async self-invocation
+      memorySize: 1024,
       environment: commonEnvironment,
       bundling: bundlingConfig,
     });
@@ -306,7 +383,102 @@ export class CoreLambdaConstruct extends Construct {
       bundling: bundlingConfig,
     });
 
+    // Watchlist API Function
+    this.functions.watchlistFunction = new NodejsFunction(this, 'WatchlistFunction', {
+      functionName: 'sales-intelligence-watchlists',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/WatchlistLambda.ts'),
+      handler: 'watchlistHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
+    // Scheduled Watchlist Refresh Function (News, Jobs, LinkedIn re-collection + diff)
+    this.functions.watchlistRefreshFunction = new NodejsFunction(this, 'WatchlistRefreshFunction', {
+      functionName: 'sales-intelligence-watchlist-refresh',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/WatchlistLambda.ts'),
+      handler: 'watchlistRefreshHandler',
+      timeout: cdk.Duration.minutes(15),
+      memorySize: 1024,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
+    // Daily at 06:00 UTC by default (override with the watchlistRefreshSchedule context value, a cron expression)
+    const watchlistRefreshSchedule = scope.node.tryGetContext('watchlistRefreshSchedule');
+    new events.Rule(this, 'WatchlistRefreshSchedule', {
+      ruleName: 'sales-intelligence-watchlist-refresh',
+      schedule: watchlistRefreshSchedule
+        ? events.Schedule.expression(`cron(${watchlistRefreshSchedule})`)
+        : events.Schedule.cron({ minute: '0', hour: '6' }),
+      targets: [new targets.LambdaFunction(this.functions.watchlistRefreshFunction)],
+    });
+
+    // Hiring Trends Function (daily job-posting snapshots time series)
+    this.functions.hiringTrendsFunction = new NodejsFunction(this, 'HiringTrendsFunction', {
+      functionName: 'sales-intelligence-hiring-trends',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/HiringTrendsLambda.ts'),
+      handler: 'hiringTrendsHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
+    // Org Chart Function (reporting hierarchy inferred from LinkedIn profiles)
+    this.functions.orgChartFunction = new NodejsFunction(this, 'OrgChartFunction', {
+      functionName: 'sales-intelligence-org-chart',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/OrgChartLambda.ts'),
+      handler: 'orgChartHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
+    // Tech Stack Function (website and job-posting fingerprinting)
+    this.functions.techStackFunction = new NodejsFunction(this, 'TechStackFunction', {
+      functionName: 'sales-intelligence-tech-stack',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/TechStackLambda.ts'),
+      handler: 'techStackHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
+    // Vendor Context Registration Function (vendor files and profiles instead of research)
+    this.functions.vendorContextRegistrationFunction = new NodejsFunction(this, 'VendorContextRegistrationFunction', {
+      functionName: 'sales-intelligence-vendor-context-registration',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/VendorContextRegistrationLambda.ts'),
+      handler: 'vendorContextRegistrationHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
+    // Organization Function (members, org vendor context, shared research library, org spend)
+    this.functions.organizationFunction = new NodejsFunction(this, 'OrganizationFunction', {
+      functionName: 'sales-intelligence-organizations',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: path.join(__dirname, '../../../services/handlers/lambda/OrganizationLambda.ts'),
+      handler: 'organizationHandler',
+      timeout: cdk.Duration.seconds(30),
+      memorySize: 512,
+      environment: commonEnvironment,
+      bundling: bundlingConfig,
+    });
+
     // Grant DynamoDB permissions to research streaming function
     props.cacheTable.grantReadWriteData(this.functions.researchStreamingFunction);
+    props.cachePayloadBucket.grantReadWrite(this.functions.researchStreamingFunction);
   }
 } 
\ No newline at end of file
@@ -4,12 +4,14 @@ import * as stepfunctions from 'aws-cdk-lib/aws-stepfunctions';
 import * as stepfunctionsTasks from 'aws-cdk-lib/aws-stepfunctions-tasks';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
+import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as path from 'path';
 
 export interface StepFunctionsProps {
   cacheTable: dynamodb.Table;
+  cachePayloadBucket: s3.Bucket;
   requestsTable: dynamodb.Table;
   profilesTable: dynamodb.Table;
   apiKeysSecret: secretsmanager.Secret;
@@ -40,6 +42,14 @@ export class StepFunctionsConstruct extends Construct {
       BEDROCK_MAX_TOKENS: scope.node.tryGetContext('bedrockMaxTokens')!,
       BEDROCK_TEMPERATURE: scope.node.tryGetContext('bedrockTemperature')!,
       SERPAPI_API_KEY: scope.node.tryGetContext('serpApiKey') || '',
+      BRIGHTDATA_API_KEY: scope.node.tryGetContext('brightDataApiKey') || '',
+      APOLLO_API_KEY: scope.node.tryGetContext('apolloApiKey') || '',
+      CACHE_BACKEND: scope.node.tryGetContext('cacheBackend') || 'dynamodb',
+      CACHE_REDIS_URL: scope.node.tryGetContext('cacheRedisUrl') || '',
+      CACHE_L1_MAX_AGE_SECONDS: scope.node.tryGetContext('cacheL1MaxAgeSeconds') || '60',
+      CACHE_REFRESH_FUNCTION_NAME: 'sales-intelligence-cache-refresh',
+      CACHE_PAYLOAD_BUCKET: props.cachePayloadBucket.bucketName,
+      CACHE_COMPRESSION: scope.node.tryGetContext('cacheCompression') || 'gzip',
       LOG_LEVEL: scope.node.tryGetContext('logLevel') || 'INFO',
       ALLOWED_ORIGINS: props.allowedOriginsString,
       NODE_ENV: props.nodeEnv,
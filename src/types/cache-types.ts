@@ -44,6 +44,7 @@ export enum CacheType {
   COMPANY_ANALYSIS = 'company_analysis',
   COMPETITOR_ANALYSIS = 'competitor_analysis',
   PRODUCT_SUGGESTIONS = 'product_suggestions',
+  TECH_STACK_DETECTION = 'tech_stack_detection',
 
   // Vendor Context Cache Types (NEW)
   VENDOR_CONTEXT_ENRICHMENT = 'vendor_context_enrichment',
@@ -78,6 +79,8 @@ export enum CacheType {
   // Request Tracking
   ASYNC_REQUEST_TRACKING = 'async_request_tracking',
   STEP_FUNCTION_EXECUTION = 'step_function_execution',
+  RESEARCH_SESSION = 'research_session',
+  RESEARCH_SESSION_EVENTS = 'research_session_events',
   
   // Profile Management
   USER_PROFILE = 'user_profile',
@@ -87,6 +90,11 @@ export enum CacheType {
   PERFORMANCE_METRICS = 'performance_metrics',
   ERROR_TRACKING = 'error_tracking',
   USAGE_TRACKING = 'usage_tracking',
+  SPEND_LEDGER = 'spend_ledger',
+  COST_LEDGER = 'cost_ledger',
+
+  // Coordination
+  CACHE_LOCK = 'cache_lock',
 
   // Fallback
   UNKNOWN = 'unknown'
@@ -132,6 +140,7 @@ export const CACHE_TYPE_DISPLAY_NAMES: Record<CacheType, string> = {
   [CacheType.COMPANY_ANALYSIS]: 'Company Analysis',
   [CacheType.COMPETITOR_ANALYSIS]: 'Competitor Analysis',
   [CacheType.PRODUCT_SUGGESTIONS]: 'Product Suggestions',
+  [CacheType.TECH_STACK_DETECTION]: 'Tech Stack Detection',
 
   // Vendor Context Types
   [CacheType.VENDOR_CONTEXT_ENRICHMENT]: 'Vendor Context Enrichment',
@@ -166,6 +175,8 @@ export const CACHE_TYPE_DISPLAY_NAMES: Record<CacheType, string> = {
   // Request Tracking
   [CacheType.ASYNC_REQUEST_TRACKING]: 'Async Request Tracking',
   [CacheType.STEP_FUNCTION_EXECUTION]: 'Step Function Execution',
+  [CacheType.RESEARCH_SESSION]: 'Research Session',
+  [CacheType.RESEARCH_SESSION_EVENTS]: 'Research Session Events',
 
   // Profile Management
   [CacheType.USER_PROFILE]: 'User Profile',
@@ -175,6 +186,11 @@ export const CACHE_TYPE_DISPLAY_NAMES: Record<CacheType, string> = {
   [CacheType.PERFORMANCE_METRICS]: 'Performance Metrics',
   [CacheType.ERROR_TRACKING]: 'Error Tracking',
   [CacheType.USAGE_TRACKING]: 'Usage Tracking',
+  [CacheType.SPEND_LEDGER]: 'Spend Ledger',
+  [CacheType.COST_LEDGER]: 'Cost Ledger',
+
+  // Coordination
+  [CacheType.CACHE_LOCK]: 'Single-Flight Lock',
 
   // Fallback
   [CacheType.UNKNOWN]: 'Unknown Cache Type'
@@ -218,7 +234,8 @@ export const CACHE_TYPE_GROUPS = {
     CacheType.COMPANY_DISCOVERY,
     CacheType.COMPANY_ANALYSIS,
     CacheType.COMPETITOR_ANALYSIS,
-    CacheType.PRODUCT_SUGGESTIONS
+    CacheType.PRODUCT_SUGGESTIONS,
+    CacheType.TECH_STACK_DETECTION
   ],
   vendor_context: [
     CacheType.VENDOR_CONTEXT_ENRICHMENT,
@@ -237,12 +254,69 @@ export const CACHE_TYPE_GROUPS = {
     CacheType.LLM_ANALYSIS,
     CacheType.LLM_CUSTOMER_INTELLIGENCE
   ],
+  research_sessions: [
+    CacheType.RESEARCH_SESSION,
+    CacheType.RESEARCH_SESSION_EVENTS
+  ],
+  cost_tracking: [
+    CacheType.USAGE_TRACKING,
+    CacheType.SPEND_LEDGER,
+    CacheType.COST_LEDGER
+  ],
   legacy: [
     CacheType.COMPANY_LOOKUP_LEGACY,
     CacheType.COMPANY_ENRICHMENT_LEGACY
   ]
 };
 
+/**
+ * Cache types holding one tenant's data. A tenant-scoped CacheService stores them under
+ * tenant:{tenantId}:{key}, so other tenants can neither read nor list them.
+ */
+export const TENANT_SCOPED_CACHE_TYPES: CacheType[] = [
+  CacheType.RESEARCH_SESSION,
+  CacheType.RESEARCH_SESSION_EVENTS
+];
+
+export const TENANT_KEY_PREFIX = 'tenant:';
+
+/**
+ * Cache types served stale-while-revalidate: once past their TTL these entries stay readable for
+ * STALE_WINDOW_HOURS, flagged stale, so a caller can answer at once and refresh in the background.
+ * Plain get/getRawJSON still treat them as expired.
+ */
+export const STALE_WHILE_REVALIDATE_CACHE_TYPES: CacheType[] = [
+  ...CACHE_TYPE_GROUPS.raw_data,
+  ...CACHE_TYPE_GROUPS.serp_api,
+  ...CACHE_TYPE_GROUPS.analysis,
+  ...CACHE_TYPE_GROUPS.llm_analysis,
+  CacheType.CUSTOMER_INTELLIGENCE_ANALYSIS,
+  CacheType.VENDOR_CONTEXT_ANALYSIS,
+  CacheType.BRIGHTDATA_COMPANY_ENRICHMENT,
+  CacheType.APOLLO_CONTACT_ENRICHMENT,
+  CacheType.ZOOMINFO_CONTACT_ENRICHMENT,
+  CacheType.CLEARBIT_COMPANY_ENRICHMENT,
+  CacheType.HUNTER_EMAIL_ENRICHMENT,
+  CacheType.COMPANY_DATABASE_ENRICHMENT
+];
+
+export const STALE_WINDOW_HOURS = 24;
+
+/**
+ * How current a cached value is
+ */
+export interface CacheFreshness {
+  stale: boolean;           // Past its TTL, inside the stale window
+  cachedAt: string;
+  ageSeconds: number;
+  freshUntil: string;
+}
+
+export interface CacheEntryWithFreshness<T = any> {
+  data: T;
+  freshness: CacheFreshness;
+}
+
 /**
  * NEW: Base cache entry interface - all cached data extends this
  */
@@ -351,6 +425,14 @@ export function getCacheEntryType(cacheType: CacheType): 'raw' | 'processed' | '
  * @deprecated Use explicit CacheType enum values instead
  */
 export function inferCacheTypeFromKeyPattern(key: string): CacheType {
+  // Tenant-scoped keys carry the type after the tenant prefix
+  if (key.startsWith(TENANT_KEY_PREFIX)) {
+    return inferCacheTypeFromKeyPattern(key.slice(key.indexOf(':', TENANT_KEY_PREFIX.length) + 1));
+  }
+
+  // Single-flight locks wrap the key they guard
+  if (key.startsWith('lock:')) return CacheType.CACHE_LOCK;
+
   // Multi-source raw data patterns (NEW)
   if (key.startsWith('serp_organic_raw:')) return CacheType.SERP_ORGANIC_RAW;
   if (key.startsWith('serp_news_raw:')) return CacheType.SERP_NEWS_RAW;
@@ -391,6 +473,7 @@ export function inferCacheTypeFromKeyPattern(key: string): CacheType {
   if (key.startsWith('vendor_analysis:')) return CacheType.VENDOR_CONTEXT_ANALYSIS;
   if (key.startsWith('vendor_raw_data:')) return CacheType.VENDOR_CONTEXT_RAW_DATA;
   if (key.startsWith('vendor_reference:')) return CacheType.VENDOR_CONTEXT_REFERENCE;
+  if (key.startsWith('vendor_context_ref:')) return CacheType.VENDOR_CONTEXT_REFERENCE;
   
   // Customer Intelligence patterns
   if (key.startsWith('customer_intelligence_raw:')) return CacheType.CUSTOMER_INTELLIGENCE_RAW;
@@ -402,7 +485,22 @@ export function inferCacheTypeFromKeyPattern(key: string): CacheType {
   if (key.startsWith('llm_analysis:')) return CacheType.LLM_ANALYSIS;
   if (key.startsWith('llm_customer_intelligence:')) return CacheType.LLM_CUSTOMER_INTELLIGENCE;
   if (key.startsWith('llm_raw_response:')) return CacheType.LLM_RAW_RESPONSE;
+
+  // Research session patterns
+  if (key.startsWith('research_session_events:')) return CacheType.RESEARCH_SESSION_EVENTS;
+  if (key.startsWith('research_session:')) return CacheType.RESEARCH_SESSION;
+
+  // Cost tracking patterns
+  if (key.startsWith('spend_ledger:')) return CacheType.SPEND_LEDGER;
+  if (key.startsWith('cost_ledger:')) return CacheType.COST_LEDGER;
+
+  // Performance monitoring patterns
+  if (key.startsWith('llm_validation_metrics:')) return CacheType.PERFORMANCE_METRICS;
+  if (key.startsWith('single_flight_metrics:')) return CacheType.PERFORMANCE_METRICS;
   
+  // Tech stack fingerprinting patterns
+  if (key.startsWith('tech_stack:')) return CacheType.TECH_STACK_DETECTION;
+
   // Specific feature patterns
   if (key.includes('competitor')) return CacheType.COMPETITOR_ANALYSIS;
   if (key.includes('product')) return CacheType.PRODUCT_SUGGESTIONS;
@@ -6,6 +6,7 @@
  */
 
 import { ConsumerType, SourceType } from './orchestrator-types';
+import { CacheType } from './cache-types';
 
 // Core dataset requirement definition
 export interface DatasetRequirement {
@@ -28,6 +29,25 @@ export interface SourceOption {
   typical_ttl_hours?: number; // Typical cache TTL for this source
 }
 
+// Cache type each source's raw results are stored under
+export const SOURCE_CACHE_TYPES: Record<SourceType, CacheType> = {
+  serp_organic: CacheType.SERP_ORGANIC_RAW,
+  serp_news: CacheType.SERP_NEWS_RAW,
+  serp_jobs: CacheType.SERP_JOBS_RAW,
+  serp_linkedin: CacheType.SERP_LINKEDIN_RAW,
+  serp_youtube: CacheType.SERP_YOUTUBE_RAW,
+  serp_api: CacheType.SERP_API_RAW_RESPONSE,
+  bright_data: CacheType.BRIGHTDATA_COMPANY_ENRICHMENT,
+  brightdata: CacheType.BRIGHTDATA_COMPANY_ENRICHMENT,
+  snov_contacts: CacheType.SNOV_CONTACTS_RAW,
+  apollo_contacts: CacheType.APOLLO_CONTACT_ENRICHMENT,
+  apollo: CacheType.APOLLO_CONTACT_ENRICHMENT,
+  zoominfo: CacheType.ZOOMINFO_CONTACT_ENRICHMENT,
+  clearbit: CacheType.CLEARBIT_COMPANY_ENRICHMENT,
+  hunter: CacheType.HUNTER_EMAIL_ENRICHMENT,
+  company_db: CacheType.COMPANY_DATABASE_ENRICHMENT,
+};
+
 // Enhanced dataset types for context-aware intelligence
 export type DatasetType = 
   // Vendor Context Datasets (Understanding user's company)
@@ -2,6 +2,8 @@
  * Core types for the Sales Intelligence AI platform
  */
 
+import { CompetitiveDisplacementReport } from '../services/competitive/types/CompetitiveDisplacementTypes';
+
 export interface SearchResult {
   url: string;
   title: string;
@@ -288,6 +290,7 @@ export interface CompetitiveIntel {
   differentiators: string[];
   vulnerabilities: string[];
   battleCards: BattleCard[];
+  displacement?: CompetitiveDisplacementReport;  // Seller competitors detected at the prospect (competitive context)
 }
 
 export interface Competitor {
@@ -356,6 +359,7 @@ export interface CacheConfig {
   ttlHours: number;
   maxEntries: number;
   compressionEnabled: boolean;
+  backend?: 'dynamodb' | 'memory' | 'redis' | 'tiered'; // Defaults to CACHE_BACKEND, then dynamodb
 }
 
 export interface SearchConfig {
@@ -395,6 +399,15 @@ export interface FetchResult {
   statusCode?: number;
 }
 
+export interface PageFetchResult {
+  url: string;
+  html: string | null;
+  headers: Record<string, string | string[]>;
+  error?: string;
+  fetchTime: number;
+  statusCode?: number;
+}
+
 export interface SearchEngineResponse {
   results: SearchResult[];
   totalResults: number;
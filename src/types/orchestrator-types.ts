@@ -3,9 +3,13 @@
  * Supports multi-consumer raw data architecture with cost optimization
  */
 
+import { CacheFreshness } from './cache-types';
+import type { DroppedDataset } from '../services/orchestration/types/OrchestrationTypes';
+
 export interface DataCollectionPlan {
   companyName: string;
   requester: ConsumerType;
+  userId?: string;              // User the collection is billed to (cost ledger)
   toCollect: SourceType[];      // Sources that need API calls
   fromCache: SourceType[];      // Sources available from cache
   estimatedCost: number;        // Total API cost needed
@@ -39,6 +43,9 @@ export interface MultiSourceData {
   linkedin?: SerpLinkedInResponse;
   youtube?: SerpYouTubeResponse;
   brightdata?: BrightDataResponse;
+  contacts?: AggregatedContactList; // Merged + deduplicated contacts from all contact sources
+  freshness?: Partial<Record<SourceType, SourceFreshness>>; // Sources served from cache, and how current they are
+  droppedDatasets?: DroppedDataset[]; // Datasets left out of the collection plan (budget or no source)
   totalNewCost: number;         // Cost of new API calls made
   totalCacheSavings: number;    // Money saved from cache hits
   cacheHits: number;            // Number of cache hits
@@ -65,6 +72,13 @@ export interface RawDataResult {
   originalRequester?: string;   // Who originally paid for this data
 }
 
+/**
+ * A source served from cache; stale ones are returned as-is while a background refresh replaces them
+ */
+export interface SourceFreshness extends CacheFreshness {
+  refreshing: boolean;
+}
+
 export interface CollectionMetrics {
   totalRequests: number;
   cacheHits: number;
@@ -200,6 +214,9 @@ export interface BrightDataResponse {
     founded: string;
     headquarters: string;
     website: string;
+    employee_count?: number;
+    specialties?: string[];
+    linkedin_url?: string;
   };
   employee_data?: Array<{
     name: string;
@@ -207,6 +224,36 @@ export interface BrightDataResponse {
     department: string;
     linkedin_url?: string;
   }>;
+  source?: 'brightdata_api';
+  domain?: string;
+  timestamp?: string;
+  error?: string;
+}
+
+// Contact aggregation (Snov / Apollo / Hunter)
+export type ContactSourceType = 'snov_contacts' | 'apollo_contacts' | 'apollo' | 'hunter';
+
+export type ContactField = 'email' | 'firstName' | 'lastName' | 'position' | 'department' | 'linkedin' | 'verified';
+
+export interface AggregatedContact {
+  email?: string;
+  firstName: string;
+  lastName: string;
+  position: string;
+  department?: string;
+  linkedin?: string;
+  verified: boolean;
+  confidence: number;                                   // Reconciled 0-1 score across sources
+  sources: ContactSourceType[];                         // Every source that returned this contact
+  provenance: Partial<Record<ContactField, ContactSourceType>>; // Which source supplied each field
+}
+
+export interface AggregatedContactList {
+  contacts: AggregatedContact[];
+  total: number;
+  duplicatesRemoved: number;
+  sourceCounts: Partial<Record<ContactSourceType, number>>;
+  timestamp: string;
 }
 
 // Cost Configuration